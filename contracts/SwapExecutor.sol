@@ -18,6 +18,7 @@ contract SwapExecutor {
     IAqua public immutable AQUA;
 
     error OnlyAqua();
+    error LengthMismatch();
 
     constructor(address aqua) {
         AQUA = IAqua(aqua);
@@ -35,6 +36,23 @@ contract SwapExecutor {
         return returnData;
     }
 
+    /**
+     * @notice Executes several calls in one transaction, reverting if any of them fails
+     * @dev Used to run a split route (one swap per strategy) atomically
+     * @param targets The addresses of the contracts to call
+     * @param data The calldata to send to each target
+     * @return results The return data from each call
+     */
+    function arbitraryCalls(address[] calldata targets, bytes[] calldata data) external returns (bytes[] memory results) {
+        if (targets.length != data.length) revert LengthMismatch();
+        results = new bytes[](targets.length);
+        for (uint256 i = 0; i < targets.length; i++) {
+            (bool success, bytes memory returnData) = targets[i].call(data[i]);
+            require(success, "Call failed");
+            results[i] = returnData;
+        }
+    }
+
     /**
      * @notice Callback function called by Aqua during push operations
      * @dev This function is called when a swap requires tokens to be pushed to the maker
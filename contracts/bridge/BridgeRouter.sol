@@ -109,7 +109,7 @@ contract BridgeRouter is ReentrancyGuard, Ownable {
     error UnsupportedToken();
     error AdapterNotActive();
     error InsufficientAmount();
-    error BridgeFailed();
+    error BridgeCallFailed();
     error InvalidProvider();
 
     // ============ Constructor ============
@@ -256,7 +256,7 @@ contract BridgeRouter is ReentrancyGuard, Ownable {
 
         if (!success) {
             adapter.failCount++;
-            revert BridgeFailed();
+            revert BridgeCallFailed();
         }
 
         adapter.totalVolume += bridgeAmount;
@@ -296,6 +296,29 @@ contract BridgeRouter is ReentrancyGuard, Ownable {
         emit BridgeCompleted(requestId, request.user, outputAmount);
     }
 
+    /**
+     * @notice Mark bridge as failed (called by adapter or relayer)
+     * @dev The adapter is responsible for returning the funds it pulled
+     * @param requestId Request ID
+     * @param reason Why the transfer could not be delivered
+     */
+    function failBridge(
+        bytes32 requestId,
+        string calldata reason
+    ) external {
+        BridgeRequest storage request = requests[requestId];
+        require(!request.completed, "Already completed");
+        require(
+            msg.sender == adapters[request.provider].adapter || msg.sender == owner(),
+            "Unauthorized"
+        );
+
+        request.completed = true;
+        adapters[request.provider].failCount++;
+
+        emit BridgeFailed(requestId, request.user, reason);
+    }
+
     // ============ View Functions ============
 
     function getRequest(bytes32 requestId) external view returns (BridgeRequest memory) {
@@ -70,6 +70,9 @@ contract LiquidFlowCore is ReentrancyGuard, Ownable, Pausable {
     /// @notice Batch processor contract
     address public batchProcessor;
 
+    /// @notice Router allowed to ship strategies on behalf of LPs
+    address public router;
+
     /// @notice Minimum withdrawal delay (for queued withdrawals)
     uint256 public constant MIN_WITHDRAWAL_DELAY = 180; // 3 minutes max batch time
 
@@ -121,6 +124,7 @@ contract LiquidFlowCore is ReentrancyGuard, Ownable, Pausable {
     event ProtocolFeeUpdated(uint256 oldFee, uint256 newFee);
     event FeeCollectorUpdated(address oldCollector, address newCollector);
     event BatchProcessorUpdated(address oldProcessor, address newProcessor);
+    event RouterUpdated(address oldRouter, address newRouter);
 
     // ============ Errors ============
 
@@ -169,44 +173,23 @@ contract LiquidFlowCore is ReentrancyGuard, Ownable, Pausable {
         address[] calldata tokens,
         uint256[] calldata amounts
     ) external nonReentrant whenNotPaused {
-        if (!approvedStrategies[strategy]) revert StrategyNotApproved();
-        if (tokens.length != amounts.length) revert ArrayLengthMismatch();
-        if (tokens.length == 0) revert InvalidAmount();
-
-        bytes32 strategyHash = keccak256(abi.encode(msg.sender, strategy, strategyData));
-
-        // Verify LP has sufficient actual token balances
-        for (uint256 i = 0; i < tokens.length; i++) {
-            if (amounts[i] == 0) revert InvalidAmount();
-            uint256 balance = IERC20(tokens[i]).balanceOf(msg.sender);
-            if (balance < amounts[i]) revert InsufficientBalance();
-            
-            // Check allowance
-            uint256 allowance = IERC20(tokens[i]).allowance(msg.sender, address(this));
-            if (allowance < amounts[i]) revert InsufficientBalance();
-        }
-
-        // Set virtual balances (no actual token transfer)
-        for (uint256 i = 0; i < tokens.length; i++) {
-            virtualBalances[msg.sender][strategy][strategyHash][tokens[i]] = VirtualBalance({
-                amount: amounts[i],
-                lastUpdated: block.timestamp,
-                isActive: true
-            });
-        }
-
-        // Register strategy
-        strategies[strategyHash] = Strategy({
-            strategyContract: strategy,
-            strategyHash: strategyHash,
-            lp: msg.sender,
-            isActive: true,
-            createdAt: block.timestamp,
-            totalVolume: 0,
-            totalFees: 0
-        });
+        _ship(msg.sender, strategy, strategyData, tokens, amounts);
+    }
 
-        emit StrategyShipped(msg.sender, strategy, strategyHash, tokens, amounts);
+    /**
+     * @notice Ship a strategy for an LP, as ship() called by the LP would
+     * @dev Only the router; balances and allowances are checked on the LP
+     * @param lp The LP the strategy is shipped for
+     */
+    function shipFor(
+        address lp,
+        address strategy,
+        bytes calldata strategyData,
+        address[] calldata tokens,
+        uint256[] calldata amounts
+    ) external nonReentrant whenNotPaused {
+        if (msg.sender != router) revert UnauthorizedCaller();
+        _ship(lp, strategy, strategyData, tokens, amounts);
     }
 
     /**
@@ -451,6 +434,55 @@ contract LiquidFlowCore is ReentrancyGuard, Ownable, Pausable {
         return withdrawalRequests[requestId];
     }
 
+    // ============ Internal Functions ============
+
+    function _ship(
+        address lp,
+        address strategy,
+        bytes calldata strategyData,
+        address[] calldata tokens,
+        uint256[] calldata amounts
+    ) internal {
+        if (!approvedStrategies[strategy]) revert StrategyNotApproved();
+        if (tokens.length != amounts.length) revert ArrayLengthMismatch();
+        if (tokens.length == 0) revert InvalidAmount();
+
+        bytes32 strategyHash = keccak256(abi.encode(lp, strategy, strategyData));
+
+        // Verify LP has sufficient actual token balances
+        for (uint256 i = 0; i < tokens.length; i++) {
+            if (amounts[i] == 0) revert InvalidAmount();
+            uint256 balance = IERC20(tokens[i]).balanceOf(lp);
+            if (balance < amounts[i]) revert InsufficientBalance();
+            
+            // Check allowance
+            uint256 allowance = IERC20(tokens[i]).allowance(lp, address(this));
+            if (allowance < amounts[i]) revert InsufficientBalance();
+        }
+
+        // Set virtual balances (no actual token transfer)
+        for (uint256 i = 0; i < tokens.length; i++) {
+            virtualBalances[lp][strategy][strategyHash][tokens[i]] = VirtualBalance({
+                amount: amounts[i],
+                lastUpdated: block.timestamp,
+                isActive: true
+            });
+        }
+
+        // Register strategy
+        strategies[strategyHash] = Strategy({
+            strategyContract: strategy,
+            strategyHash: strategyHash,
+            lp: lp,
+            isActive: true,
+            createdAt: block.timestamp,
+            totalVolume: 0,
+            totalFees: 0
+        });
+
+        emit StrategyShipped(lp, strategy, strategyHash, tokens, amounts);
+    }
+
     // ============ Admin Functions ============
 
     /**
@@ -490,6 +522,15 @@ contract LiquidFlowCore is ReentrancyGuard, Ownable, Pausable {
         emit BatchProcessorUpdated(oldProcessor, newProcessor);
     }
 
+    /**
+     * @notice Update the router allowed to ship for LPs
+     */
+    function setRouter(address newRouter) external onlyOwner {
+        address oldRouter = router;
+        router = newRouter;
+        emit RouterUpdated(oldRouter, newRouter);
+    }
+
     /**
      * @notice Pause the protocol
      */
@@ -0,0 +1,72 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "../bridge/BridgeRouter.sol";
+
+/**
+ * @title BridgeAdapterMock
+ * @notice Bridge provider stand-in for local networks
+ * @dev Locks what BridgeRouter sends it; the owner then plays the relayer, delivering on this chain
+ *      in place of the destination or failing the transfer and refunding the user. Between two
+ *      chains, the destination's adapter releases from its own balance and the source's confirms.
+ */
+contract BridgeAdapterMock is Ownable {
+    using SafeERC20 for IERC20;
+
+    BridgeRouter public immutable router;
+
+    /// @notice When set, bridge() reverts as an unavailable provider would
+    bool public rejecting;
+
+    /// @notice Amount released per request on this chain as the destination
+    mapping(bytes32 => uint256) public released;
+
+    event TransferLocked(uint256 dstChain, address token, uint256 amount, address recipient);
+    event TransferReleased(bytes32 indexed requestId, address token, address recipient, uint256 amount);
+
+    constructor(address payable _router) Ownable(msg.sender) {
+        router = BridgeRouter(_router);
+    }
+
+    function setRejecting(bool _rejecting) external onlyOwner {
+        rejecting = _rejecting;
+    }
+
+    function bridge(uint256 dstChain, address token, uint256 amount, address recipient) external {
+        require(msg.sender == address(router), "Only router");
+        require(!rejecting, "Rejected");
+        IERC20(token).safeTransferFrom(msg.sender, address(this), amount);
+        emit TransferLocked(dstChain, token, amount, recipient);
+    }
+
+    /// @notice Pays the recipient and completes the request
+    function deliver(bytes32 requestId, uint256 outputAmount) external onlyOwner {
+        BridgeRouter.BridgeRequest memory request = router.getRequest(requestId);
+        IERC20(request.token).safeTransfer(request.recipient, outputAmount);
+        router.completeBridge(requestId, outputAmount);
+    }
+
+    /// @notice Pays out a transfer initiated on another chain, at most once per request
+    function release(bytes32 requestId, address token, address recipient, uint256 amount) external onlyOwner {
+        require(amount > 0, "Zero amount");
+        require(released[requestId] == 0, "Already released");
+        released[requestId] = amount;
+        IERC20(token).safeTransfer(recipient, amount);
+        emit TransferReleased(requestId, token, recipient, amount);
+    }
+
+    /// @notice Completes a request whose transfer was released on the destination chain
+    function confirm(bytes32 requestId, uint256 outputAmount) external onlyOwner {
+        router.completeBridge(requestId, outputAmount);
+    }
+
+    /// @notice Returns the locked amount to the user and fails the request
+    function fail(bytes32 requestId, string calldata reason) external onlyOwner {
+        BridgeRouter.BridgeRequest memory request = router.getRequest(requestId);
+        IERC20(request.token).safeTransfer(request.user, request.amount);
+        router.failBridge(requestId, reason);
+    }
+}
@@ -0,0 +1,31 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title LiquidFlowCoreMock
+ * @notice Minimal LiquidFlowCore stand-in exposing settable virtual balances
+ * @dev Lets tests put reserves under XYKStrategy.getStrategyHash without shipping through the core
+ */
+contract LiquidFlowCoreMock {
+    /// @notice Virtual balances: lp => strategy => strategyHash => token => amount
+    mapping(address => mapping(address => mapping(bytes32 => mapping(address => uint256)))) public balances;
+
+    function setBalance(
+        address lp,
+        address strategy,
+        bytes32 strategyHash,
+        address token,
+        uint256 amount
+    ) external {
+        balances[lp][strategy][strategyHash][token] = amount;
+    }
+
+    function balanceOf(
+        address lp,
+        address strategy,
+        bytes32 strategyHash,
+        address token
+    ) external view returns (uint256) {
+        return balances[lp][strategy][strategyHash][token];
+    }
+}
@@ -2,6 +2,7 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 
@@ -21,6 +22,19 @@ contract LiquidFlowRouter is ReentrancyGuard {
     /// @notice WETH address for ETH wrapping
     address public immutable WETH;
 
+    struct RoutedIntent {
+        address user;
+        address tokenIn;
+        uint256 amountIn;
+        uint256 batchId;
+        uint256 deadline;
+    }
+
+    /// @notice Intents this router submitted, by intent ID
+    /// @dev The batch processor records the router as the intent's user, so this
+    ///      is what ties an intent back to the account that swapped
+    mapping(bytes32 => RoutedIntent) public routedIntents;
+
     // ============ Events ============
 
     event SwapExecuted(
@@ -31,6 +45,15 @@ contract LiquidFlowRouter is ReentrancyGuard {
         uint256 amountOut
     );
 
+    event IntentRouted(
+        bytes32 indexed intentId,
+        address indexed user,
+        address tokenIn,
+        uint256 amountIn
+    );
+
+    event IntentRefunded(bytes32 indexed intentId, address indexed user, uint256 amountIn);
+
     event LiquidityProvided(
         address indexed lp,
         address strategy,
@@ -43,6 +66,8 @@ contract LiquidFlowRouter is ReentrancyGuard {
     error InsufficientOutput();
     error DeadlineExpired();
     error InvalidPath();
+    error NotIntentOwner();
+    error IntentBeingSolved();
 
     // ============ Constructor ============
 
@@ -73,27 +98,28 @@ contract LiquidFlowRouter is ReentrancyGuard {
         uint256 minAmountOut,
         uint256 deadline
     ) external nonReentrant returns (bytes32 intentId) {
-        if (block.timestamp > deadline) revert DeadlineExpired();
-
-        // Transfer tokens from user
-        IERC20(tokenIn).safeTransferFrom(msg.sender, address(this), amountIn);
-
-        // Approve batch processor
-        IERC20(tokenIn).approve(address(batchProcessor), amountIn);
-
-        // Submit intent to batch
-        intentId = batchProcessor.submitIntent(
-            tokenIn,
-            tokenOut,
-            amountIn,
-            minAmountOut,
-            0, // maxFee
-            IBatchProcessor.MEVPreference.PROTECTED,
-            true, // allowPartialFill
-            deadline
-        );
+        return _swap(tokenIn, tokenOut, amountIn, minAmountOut, deadline);
+    }
 
-        return intentId;
+    /**
+     * @notice Swap with an EIP-2612 permit in place of a prior approval
+     * @param permitDeadline Deadline the permit was signed with
+     * @dev A permit already used by someone else (e.g. front-run from the mempool)
+     *      is ignored; the swap goes ahead if the allowance it granted is there
+     */
+    function swapWithPermit(
+        address tokenIn,
+        address tokenOut,
+        uint256 amountIn,
+        uint256 minAmountOut,
+        uint256 deadline,
+        uint256 permitDeadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external nonReentrant returns (bytes32 intentId) {
+        try IERC20Permit(tokenIn).permit(msg.sender, address(this), amountIn, permitDeadline, v, r, s) {} catch {}
+        return _swap(tokenIn, tokenOut, amountIn, minAmountOut, deadline);
     }
 
     /**
@@ -124,9 +150,32 @@ contract LiquidFlowRouter is ReentrancyGuard {
             deadline
         );
 
+        _route(intentId, WETH, msg.value, deadline);
         return intentId;
     }
 
+    /**
+     * @notice Cancel an intent this router submitted and refund its input
+     * @dev The router approves no solver, so the input stays here and the intent is
+     *      never filled. It is refunded while its batch is open (and cancelled in the
+     *      batch processor too), once its batch has settled or been cancelled, or once
+     *      its deadline has passed; only while its batch is being solved is it refused
+     * @param intentId The intent to cancel
+     */
+    function cancelIntent(bytes32 intentId) external nonReentrant {
+        RoutedIntent memory routed = routedIntents[intentId];
+        if (routed.user != msg.sender) revert NotIntentOwner();
+        (uint256 batchId,,,, IBatchProcessor.BatchStatus status,,) = batchProcessor.currentBatch();
+        bool open = routed.batchId == batchId && status == IBatchProcessor.BatchStatus.OPEN;
+        if (routed.batchId == batchId && !open && block.timestamp <= routed.deadline) revert IntentBeingSolved();
+
+        delete routedIntents[intentId];
+        if (open) batchProcessor.cancelIntent(intentId);
+        IERC20(routed.tokenIn).safeTransfer(msg.sender, routed.amountIn);
+
+        emit IntentRefunded(intentId, msg.sender, routed.amountIn);
+    }
+
     // ============ Liquidity Functions ============
 
     /**
@@ -142,14 +191,8 @@ contract LiquidFlowRouter is ReentrancyGuard {
         address[] calldata tokens,
         uint256[] calldata amounts
     ) external nonReentrant {
-        // Approve core for all tokens
-        for (uint256 i = 0; i < tokens.length; i++) {
-            IERC20(tokens[i]).safeTransferFrom(msg.sender, msg.sender, 0); // Check balance
-            // User must have already approved core
-        }
-
-        // Ship strategy
-        core.ship(strategy, strategyData, tokens, amounts);
+        // Shipped for the caller, who must hold and have approved the core for the amounts
+        core.shipFor(msg.sender, strategy, strategyData, tokens, amounts);
 
         bytes32 strategyHash = keccak256(abi.encode(msg.sender, strategy, strategyData));
         
@@ -172,7 +215,7 @@ contract LiquidFlowRouter is ReentrancyGuard {
         IERC20(WETH).safeTransfer(msg.sender, msg.value);
 
         // Ship strategy
-        core.ship(strategy, strategyData, tokens, amounts);
+        core.shipFor(msg.sender, strategy, strategyData, tokens, amounts);
 
         bytes32 strategyHash = keccak256(abi.encode(msg.sender, strategy, strategyData));
         
@@ -183,6 +226,8 @@ contract LiquidFlowRouter is ReentrancyGuard {
 
     /**
      * @notice Get quote for a swap
+     * @param strategyParams ABI-encoded StrategyParams tuple, spliced in as the first argument
+     * @return amountOut Quoted output, zero when the strategy cannot quote
      */
     function getQuote(
         address strategy,
@@ -190,13 +235,12 @@ contract LiquidFlowRouter is ReentrancyGuard {
         bool zeroForOne,
         uint256 amountIn
     ) external view returns (uint256 amountOut) {
-        // Call strategy's quote function
+        // The tuple is static, so its encoding goes in place rather than as a dynamic bytes argument
         (bool success, bytes memory data) = strategy.staticcall(
-            abi.encodeWithSignature(
-                "quoteExactIn((address,address,address,uint256,bytes32),bool,uint256)",
+            abi.encodePacked(
+                bytes4(keccak256("quoteExactIn((address,address,address,uint256,bytes32),bool,uint256)")),
                 strategyParams,
-                zeroForOne,
-                amountIn
+                abi.encode(zeroForOne, amountIn)
             )
         );
 
@@ -207,6 +251,50 @@ contract LiquidFlowRouter is ReentrancyGuard {
 
     // ============ Internal Functions ============
 
+    function _swap(
+        address tokenIn,
+        address tokenOut,
+        uint256 amountIn,
+        uint256 minAmountOut,
+        uint256 deadline
+    ) internal returns (bytes32 intentId) {
+        if (block.timestamp > deadline) revert DeadlineExpired();
+
+        // Transfer tokens from user
+        IERC20(tokenIn).safeTransferFrom(msg.sender, address(this), amountIn);
+
+        // Approve batch processor
+        IERC20(tokenIn).approve(address(batchProcessor), amountIn);
+
+        // Submit intent to batch
+        intentId = batchProcessor.submitIntent(
+            tokenIn,
+            tokenOut,
+            amountIn,
+            minAmountOut,
+            0, // maxFee
+            IBatchProcessor.MEVPreference.PROTECTED,
+            true, // allowPartialFill
+            deadline
+        );
+
+        _route(intentId, tokenIn, amountIn, deadline);
+        return intentId;
+    }
+
+    function _route(bytes32 intentId, address tokenIn, uint256 amountIn, uint256 deadline) internal {
+        // Submitted in this transaction, so the intent is in the open batch
+        (uint256 batchId,,,,,,) = batchProcessor.currentBatch();
+        routedIntents[intentId] = RoutedIntent({
+            user: msg.sender,
+            tokenIn: tokenIn,
+            amountIn: amountIn,
+            batchId: batchId,
+            deadline: deadline
+        });
+        emit IntentRouted(intentId, msg.sender, tokenIn, amountIn);
+    }
+
     function _calculateValue(
         address[] calldata tokens,
         uint256[] calldata amounts
@@ -223,7 +311,8 @@ contract LiquidFlowRouter is ReentrancyGuard {
 }
 
 interface ILiquidFlowCore {
-    function ship(
+    function shipFor(
+        address lp,
         address strategy,
         bytes calldata strategyData,
         address[] calldata tokens,
@@ -233,7 +322,8 @@ interface ILiquidFlowCore {
 
 interface IBatchProcessor {
     enum MEVPreference { NONE, BASIC, PROTECTED, MAXIMUM }
-    
+    enum BatchStatus { OPEN, SOLVING, EXECUTING, SETTLED, CANCELLED }
+
     function submitIntent(
         address tokenIn,
         address tokenOut,
@@ -244,6 +334,18 @@ interface IBatchProcessor {
         bool allowPartialFill,
         uint256 deadline
     ) external returns (bytes32);
+
+    function cancelIntent(bytes32 intentId) external;
+
+    function currentBatch() external view returns (
+        uint256 id,
+        uint256 openTime,
+        uint256 closeTime,
+        uint256 solveDeadline,
+        BatchStatus status,
+        bytes32 winningSolutionHash,
+        address winningSolver
+    );
 }
 
 interface IWETH {
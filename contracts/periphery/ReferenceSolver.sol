@@ -0,0 +1,260 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+
+/**
+ * @title ReferenceSolver
+ * @notice Minimal on-chain counterpart of the reference solver bot
+ * @dev BatchProcessor only accepts solutions from registered solvers and calls back
+ *      `executeSolution` on the winner, so the solver identity has to be a contract.
+ *      Execution data is a list of calls (approvals, swaps, transfers) built off-chain.
+ *      User input is not escrowed by BatchProcessor, so the solver settles from its own inventory.
+ *      Users approve this contract for their input; a solution may only pull from a user
+ *      what that user's revealed intents in the batch cover, in their input token, and has
+ *      to pay each intent it pulled from at least its minimum output for the input taken.
+ *      Intents placed through LiquidFlowRouter are owned by the router, which holds the
+ *      input and approves no solver, so this solver cannot settle them.
+ */
+contract ReferenceSolver is Ownable {
+    using SafeERC20 for IERC20;
+
+    // ============ Structs ============
+
+    struct Call {
+        address target;
+        bytes data;
+    }
+
+    // ============ State Variables ============
+
+    /// @notice BatchProcessor the solver competes in
+    IBatchProcessor public immutable batchProcessor;
+
+    /// @notice SolverRegistry holding the solver's stake
+    ISolverRegistry public immutable solverRegistry;
+
+    /// @notice LF token used for staking
+    IERC20 public immutable lfToken;
+
+    // ============ Events ============
+
+    event SolutionExecuted(uint256 indexed batchId, uint256 callCount);
+
+    // ============ Errors ============
+
+    error OnlyBatchProcessor();
+    error CallFailed(uint256 index, bytes reason);
+    error PullNotCovered(uint256 index);
+    error PayoutBelowMinimum(bytes32 intentId);
+
+    // ============ Constructor ============
+
+    constructor(
+        address _batchProcessor,
+        address _solverRegistry,
+        address _lfToken
+    ) Ownable(msg.sender) {
+        batchProcessor = IBatchProcessor(_batchProcessor);
+        solverRegistry = ISolverRegistry(_solverRegistry);
+        lfToken = IERC20(_lfToken);
+    }
+
+    // ============ Registry Functions ============
+
+    /**
+     * @notice Stake LF from the owner and register this contract as a solver
+     * @param stakeAmount Amount of LF to stake
+     */
+    function register(uint256 stakeAmount) external onlyOwner {
+        lfToken.safeTransferFrom(msg.sender, address(this), stakeAmount);
+        lfToken.forceApprove(address(solverRegistry), stakeAmount);
+        solverRegistry.registerSolver(stakeAmount);
+    }
+
+    /**
+     * @notice Unregister and return the stake to the owner
+     */
+    function unregister() external onlyOwner {
+        solverRegistry.unregisterSolver();
+        lfToken.safeTransfer(msg.sender, lfToken.balanceOf(address(this)));
+    }
+
+    // ============ Solver Functions ============
+
+    /**
+     * @notice Forward a solution to the batch processor
+     */
+    function submitSolution(
+        uint256 batchId,
+        bytes calldata executionData,
+        uint256 totalUserSurplus,
+        uint256 solverBid
+    ) external onlyOwner {
+        batchProcessor.submitSolution(batchId, executionData, totalUserSurplus, solverBid);
+    }
+
+    /**
+     * @notice Called by the batch processor when this solver's solution wins
+     * @param batchId The batch being settled
+     * @param executionData ABI-encoded Call[]
+     */
+    function executeSolution(uint256 batchId, bytes calldata executionData) external {
+        if (msg.sender != address(batchProcessor)) revert OnlyBatchProcessor();
+
+        Call[] memory calls = abi.decode(executionData, (Call[]));
+        IBatchProcessor.SwapIntent[] memory intents = _batchIntents(batchId);
+        uint256[] memory amountsIn = new uint256[](intents.length);
+        for (uint256 i = 0; i < intents.length; i++) {
+            amountsIn[i] = intents[i].amountIn;
+        }
+        uint256[] memory paid = new uint256[](intents.length);
+
+        for (uint256 i = 0; i < calls.length; i++) {
+            bytes4 selector = bytes4(calls[i].data);
+            if (selector == IERC20.transferFrom.selector && !_coverPull(intents, calls[i])) {
+                revert PullNotCovered(i);
+            }
+            if (selector == IERC20.transfer.selector) _creditPayout(intents, paid, calls[i]);
+            (bool success, bytes memory reason) = calls[i].target.call(calls[i].data);
+            if (!success) revert CallFailed(i, reason);
+        }
+        _checkPayouts(intents, amountsIn, paid);
+
+        emit SolutionExecuted(batchId, calls.length);
+    }
+
+    // ============ Internal Functions ============
+
+    function _batchIntents(uint256 batchId) internal view returns (IBatchProcessor.SwapIntent[] memory intents) {
+        bytes32[] memory intentIds = batchProcessor.getBatchIntents(batchId);
+        intents = new IBatchProcessor.SwapIntent[](intentIds.length);
+        for (uint256 i = 0; i < intentIds.length; i++) {
+            intents[i] = batchProcessor.getIntent(intentIds[i]);
+        }
+    }
+
+    /**
+     * @dev Charges a transferFrom to this contract against the input left on the
+     *      puller's intents in that token. The intents are updated in place, so
+     *      pulls across the solution cannot add up to more than the intents.
+     */
+    function _coverPull(IBatchProcessor.SwapIntent[] memory intents, Call memory pull) internal view returns (bool) {
+        bytes memory data = pull.data;
+        if (data.length < 100) return false;
+
+        address from;
+        address to;
+        uint256 amount;
+        assembly {
+            from := and(mload(add(data, 36)), 0xffffffffffffffffffffffffffffffffffffffff)
+            to := and(mload(add(data, 68)), 0xffffffffffffffffffffffffffffffffffffffff)
+            amount := mload(add(data, 100))
+        }
+        if (to != address(this)) return false;
+
+        for (uint256 i = 0; i < intents.length && amount > 0; i++) {
+            IBatchProcessor.SwapIntent memory intent = intents[i];
+            if (intent.user != from || intent.tokenIn != pull.target || !intent.revealed) continue;
+            uint256 taken = amount < intent.amountIn ? amount : intent.amountIn;
+            intent.amountIn -= taken;
+            amount -= taken;
+        }
+        return amount == 0;
+    }
+
+    /**
+     * @dev Books a transfer from this contract to the intent it pays, see _payee.
+     *      Transfers to anyone without a revealed intent into that token are not payouts.
+     */
+    function _creditPayout(IBatchProcessor.SwapIntent[] memory intents, uint256[] memory paid, Call memory payout) internal pure {
+        bytes memory data = payout.data;
+        if (data.length < 68) return;
+
+        address to;
+        uint256 amount;
+        assembly {
+            to := and(mload(add(data, 36)), 0xffffffffffffffffffffffffffffffffffffffff)
+            amount := mload(add(data, 68))
+        }
+        uint256 payee = _payee(intents, to, payout.target);
+        if (payee < intents.length) paid[payee] += amount;
+    }
+
+    /**
+     * @dev Each intent is owed its minimum output pro rata to the input pulled for it,
+     *      rounded up as the off-chain solver scales it.
+     *      A user's payouts into one token cannot be told apart between their intents,
+     *      so those intents are owed together and checked against what their payee got.
+     */
+    function _checkPayouts(
+        IBatchProcessor.SwapIntent[] memory intents,
+        uint256[] memory amountsIn,
+        uint256[] memory paid
+    ) internal pure {
+        uint256[] memory owed = new uint256[](intents.length);
+        for (uint256 i = 0; i < intents.length; i++) {
+            uint256 filled = amountsIn[i] - intents[i].amountIn;
+            if (filled == 0) continue;
+            owed[_payee(intents, intents[i].user, intents[i].tokenOut)] += Math.ceilDiv(intents[i].minAmountOut * filled, amountsIn[i]);
+        }
+        for (uint256 i = 0; i < intents.length; i++) {
+            if (paid[i] < owed[i]) revert PayoutBelowMinimum(intents[i].intentId);
+        }
+    }
+
+    /**
+     * @dev First revealed intent of `user` into `token`, which stands for all of them;
+     *      intents.length when there is none
+     */
+    function _payee(IBatchProcessor.SwapIntent[] memory intents, address user, address token) internal pure returns (uint256) {
+        for (uint256 i = 0; i < intents.length; i++) {
+            if (intents[i].user == user && intents[i].tokenOut == token && intents[i].revealed) return i;
+        }
+        return intents.length;
+    }
+
+    // ============ Admin Functions ============
+
+    /**
+     * @notice Withdraw inventory
+     */
+    function sweep(address token, uint256 amount) external onlyOwner {
+        IERC20(token).safeTransfer(msg.sender, amount);
+    }
+}
+
+interface IBatchProcessor {
+    struct SwapIntent {
+        bytes32 intentId;
+        address user;
+        address tokenIn;
+        address tokenOut;
+        uint256 amountIn;
+        uint256 minAmountOut;
+        uint256 maxFee;
+        uint8 mevPref;
+        bool allowPartialFill;
+        uint256 deadline;
+        bytes32 commitHash;
+        bool revealed;
+    }
+
+    function getBatchIntents(uint256 batchId) external view returns (bytes32[] memory);
+    function getIntent(bytes32 intentId) external view returns (SwapIntent memory);
+
+    function submitSolution(
+        uint256 batchId,
+        bytes calldata executionData,
+        uint256 totalUserSurplus,
+        uint256 solverBid
+    ) external;
+}
+
+interface ISolverRegistry {
+    function registerSolver(uint256 stakeAmount) external;
+    function unregisterSolver() external;
+}
@@ -218,15 +218,10 @@ contract XYKStrategy is ReentrancyGuard {
 
     /**
      * @notice Calculate strategy hash
+     * @dev The key LiquidFlowCore ships the params under, with abi.encode(params) as strategyData
      */
-    function getStrategyHash(StrategyParams calldata params) public pure returns (bytes32) {
-        return keccak256(abi.encode(
-            params.lp,
-            params.token0,
-            params.token1,
-            params.feeBps,
-            params.salt
-        ));
+    function getStrategyHash(StrategyParams calldata params) public view returns (bytes32) {
+        return keccak256(abi.encode(params.lp, address(this), abi.encode(params)));
     }
 
     // ============ Internal Functions ============
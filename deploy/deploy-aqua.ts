@@ -3,6 +3,9 @@
 import { deployAndGetContract } from '@1inch/solidity-utils';
 import { DeployFunction } from 'hardhat-deploy/types';
 
+import { recordContract } from '../src/lib/manifest';
+import { manifestEntry, readManifest, writeManifest } from '../scripts/manifest';
+
 const func: DeployFunction = async function (hre: any) {
     const { getNamedAccounts, deployments, ethers } = hre;
 
@@ -17,6 +20,13 @@ const func: DeployFunction = async function (hre: any) {
     console.log('Network:', chainId.toString());
     console.log('Deployer address:', deployer);
 
+    // Every deployed contract is recorded in the chain's manifest
+    let manifest = readManifest(Number(chainId), hre.network.name);
+    const record = async (contractName: string) => {
+        const deployment = await deployments.get(contractName);
+        manifest = recordContract(manifest, contractName, await manifestEntry(ethers.provider, deployment));
+    };
+
     // Deploy Aqua contract
     console.log('Deploying Aqua contract...');
     const aqua = await deployAndGetContract({
@@ -28,6 +38,7 @@ const func: DeployFunction = async function (hre: any) {
     });
     const aquaAddress = await aqua.getAddress();
     console.log('Aqua deployed to:', aquaAddress);
+    await record('Aqua');
 
     // Deploy XYCSwap contract
     console.log('\nDeploying XYCSwap contract...');
@@ -40,6 +51,7 @@ const func: DeployFunction = async function (hre: any) {
     });
     const xycSwapAddress = await xycSwap.getAddress();
     console.log('XYCSwap deployed to:', xycSwapAddress);
+    await record('XYCSwap');
 
     // Deploy SwapExecutor (resolver) contract only if DEPLOY_RESOLVER is set
     if (process.env.DEPLOY_RESOLVER === 'true') {
@@ -53,10 +65,12 @@ const func: DeployFunction = async function (hre: any) {
         });
         const swapExecutorAddress = await swapExecutor.getAddress();
         console.log('SwapExecutor deployed to:', swapExecutorAddress);
+        await record('SwapExecutor');
     } else {
         console.log('\nSkipping SwapExecutor deployment (set DEPLOY_RESOLVER=true to deploy)');
     }
 
+    console.log('\nManifest written to:', writeManifest(manifest));
     console.log('\n✅ Deployment completed successfully!');
 };
 
@@ -5,12 +5,39 @@ import "@nomicfoundation/hardhat-ethers";
 import "@nomicfoundation/hardhat-chai-matchers";
 import "@nomicfoundation/hardhat-verify";
 import "@typechain/hardhat";
-import { HardhatUserConfig } from 'hardhat/config';
+import * as fs from 'fs';
+import { HardhatUserConfig, task, types } from 'hardhat/config';
+
+import { auditProtocol } from './scripts/audit';
+import { readManifest } from './scripts/manifest';
+
+// Checks a deployment's wiring and settings against its manifest and prints a
+// JSON report; exits non-zero on errors (and on warnings with --strict), e.g.
+//   yarn hardhat audit-config --network arbitrum --deploy-config deploy.arbitrum.json
+task('audit-config', 'Audits the cross-contract configuration of a deployment')
+  // Not `config`, which Hardhat already takes as a global param
+  .addOptionalParam('deployConfig', 'Deploy config with the expected bridge adapters and chains')
+  .addOptionalParam('maxProtocolFeeBps', 'Highest acceptable LiquidFlowCore protocol fee', undefined, types.int)
+  .addOptionalParam('maxBridgeFeeBps', 'Highest acceptable BridgeRouter fee', undefined, types.int)
+  .addFlag('strict', 'Fail on warnings as well')
+  .setAction(async (args, hre) => {
+    const chainId = Number((await hre.ethers.provider.getNetwork()).chainId);
+    const report = await auditProtocol(readManifest(chainId, hre.network.name), {
+      provider: hre.ethers.provider,
+      config: args.deployConfig ? JSON.parse(fs.readFileSync(args.deployConfig, 'utf8')) : undefined,
+      policy: { maxProtocolFeeBps: args.maxProtocolFeeBps, maxBridgeFeeBps: args.maxBridgeFeeBps },
+      artifacts: hre.artifacts,
+      strict: args.strict,
+    });
+    console.log(JSON.stringify(report, null, 2));
+    if (!report.ok) process.exitCode = 1;
+  });
 
 const config: HardhatUserConfig = {
   networks: {
     hardhat: {
-      chainId: 31337,
+      // A second local chain for bridging runs with HARDHAT_CHAIN_ID=31338 (yarn node:b)
+      chainId: Number(process.env.HARDHAT_CHAIN_ID ?? 31337),
     },
     localhost: {
       url: "http://127.0.0.1:8545",
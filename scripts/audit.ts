@@ -0,0 +1,274 @@
+import { Contract, InterfaceAbi, Provider, ZeroAddress } from 'ethers';
+
+import { DeploymentManifest, abiHash, verifyManifest } from '../src/lib/manifest';
+import { Artifacts, ProtocolConfig } from './protocol';
+import { BRIDGE_PROVIDERS } from '../src/lib/bridge';
+
+// Post-deploy configuration audit: reads every cross-contract reference from
+// the chain and compares it with the manifest, then flags settings that are
+// legal on-chain but dangerous to ship with. Errors fail the audit; warnings
+// only fail it in strict mode.
+
+export type AuditSeverity = 'error' | 'warning';
+
+export interface AuditFinding {
+  check: string;
+  severity: AuditSeverity;
+  message: string;
+  expected?: string;
+  actual?: string;
+}
+
+export interface AuditReport {
+  chainId: number;
+  network: string;
+  manifestUpdatedAt: string;
+  ok: boolean;
+  errors: number;
+  warnings: number;
+  // Checks that ran and passed
+  passed: string[];
+  findings: AuditFinding[];
+}
+
+export interface AuditPolicy {
+  maxProtocolFeeBps: number;
+  maxBridgeFeeBps: number;
+}
+
+export interface AuditOptions {
+  provider: Provider;
+  // Expected bridge adapters and chains, as given to the deploy script
+  config?: ProtocolConfig;
+  policy?: Partial<AuditPolicy>;
+  // When given, recorded ABI hashes are compared with the current build
+  artifacts?: Artifacts;
+  strict?: boolean;
+}
+
+// The contracts' own caps are 2000 and 100 bps; shipping above the defaults needs a decision
+export const DEFAULT_AUDIT_POLICY: AuditPolicy = {
+  maxProtocolFeeBps: 1000,
+  maxBridgeFeeBps: 50,
+};
+
+const REQUIRED = [
+  'LFToken', 'BurnedLF', 'VotingEscrow', 'FeeDistributor', 'RewardsController', 'LiquidFlowCore',
+  'SolverRegistry', 'BatchProcessor', 'LiquidFlowRouter', 'XYKStrategy', 'StrategyFactory', 'BridgeRouter',
+];
+
+const ABIS: Record<string, InterfaceAbi> = {
+  LFToken: ['function burnedLF() view returns (address)'],
+  BurnedLF: ['function lfToken() view returns (address)', 'function votingEscrow() view returns (address)'],
+  VotingEscrow: [
+    'function blfToken() view returns (address)',
+    'function feeDistributor() view returns (address)',
+    'function rewardsController() view returns (address)',
+  ],
+  FeeDistributor: ['function votingEscrow() view returns (address)'],
+  RewardsController: [
+    'function lfToken() view returns (address)',
+    'function votingEscrow() view returns (address)',
+    'function liquidFlowCore() view returns (address)',
+  ],
+  LiquidFlowCore: [
+    'function batchProcessor() view returns (address)',
+    'function router() view returns (address)',
+    'function feeCollector() view returns (address)',
+    'function protocolFeeBps() view returns (uint256)',
+    'function paused() view returns (bool)',
+    'function approvedStrategies(address) view returns (bool)',
+    'event StrategyApproved(address indexed strategy, bool approved)',
+  ],
+  SolverRegistry: ['function lfToken() view returns (address)', 'function batchProcessor() view returns (address)'],
+  BatchProcessor: [
+    'function solverRegistry() view returns (address)',
+    'function liquidFlowCore() view returns (address)',
+    'function paused() view returns (bool)',
+  ],
+  LiquidFlowRouter: ['function core() view returns (address)', 'function batchProcessor() view returns (address)'],
+  XYKStrategy: ['function liquidFlowCore() view returns (address)'],
+  StrategyFactory: [
+    'function liquidFlowCore() view returns (address)',
+    'function deployedStrategies(address) view returns (address strategyAddress, address deployer, uint256 templateId, uint256 deployedAt, bool isVerified)',
+  ],
+  BridgeRouter: [
+    'function feeCollector() view returns (address)',
+    'function protocolFeeBps() view returns (uint256)',
+    'function supportedChains(uint256) view returns (bool)',
+    'function adapters(uint8) view returns (address adapter, bool isActive, uint256 totalVolume, uint256 successCount, uint256 failCount)',
+  ],
+};
+
+// Getter on one contract that must return the manifest address of another
+const REFERENCES: [contract: string, getter: string, target: string][] = [
+  ['LFToken', 'burnedLF', 'BurnedLF'],
+  ['BurnedLF', 'lfToken', 'LFToken'],
+  ['BurnedLF', 'votingEscrow', 'VotingEscrow'],
+  ['VotingEscrow', 'blfToken', 'BurnedLF'],
+  ['VotingEscrow', 'feeDistributor', 'FeeDistributor'],
+  ['VotingEscrow', 'rewardsController', 'RewardsController'],
+  ['FeeDistributor', 'votingEscrow', 'VotingEscrow'],
+  ['RewardsController', 'lfToken', 'LFToken'],
+  ['RewardsController', 'votingEscrow', 'VotingEscrow'],
+  ['RewardsController', 'liquidFlowCore', 'LiquidFlowCore'],
+  ['LiquidFlowCore', 'batchProcessor', 'BatchProcessor'],
+  ['LiquidFlowCore', 'router', 'LiquidFlowRouter'],
+  ['SolverRegistry', 'lfToken', 'LFToken'],
+  ['SolverRegistry', 'batchProcessor', 'BatchProcessor'],
+  ['BatchProcessor', 'solverRegistry', 'SolverRegistry'],
+  ['BatchProcessor', 'liquidFlowCore', 'LiquidFlowCore'],
+  ['LiquidFlowRouter', 'core', 'LiquidFlowCore'],
+  ['LiquidFlowRouter', 'batchProcessor', 'BatchProcessor'],
+  ['XYKStrategy', 'liquidFlowCore', 'LiquidFlowCore'],
+  ['StrategyFactory', 'liquidFlowCore', 'LiquidFlowCore'],
+];
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export async function auditProtocol(manifest: DeploymentManifest, options: AuditOptions): Promise<AuditReport> {
+  const { provider } = options;
+  const policy = { ...DEFAULT_AUDIT_POLICY, ...options.policy };
+  const findings: AuditFinding[] = [];
+  const passed: string[] = [];
+  const check = (name: string, failure: Omit<AuditFinding, 'check'> | null) => {
+    if (failure) findings.push({ check: name, ...failure });
+    else passed.push(name);
+  };
+
+  const report = (): AuditReport => {
+    const errors = findings.filter((finding) => finding.severity === 'error').length;
+    const warnings = findings.length - errors;
+    return {
+      chainId: manifest.chainId,
+      network: manifest.network,
+      manifestUpdatedAt: manifest.updatedAt,
+      ok: errors === 0 && (!options.strict || warnings === 0),
+      errors,
+      warnings,
+      passed,
+      findings,
+    };
+  };
+
+  const { chainId } = await provider.getNetwork();
+  const issues = await verifyManifest(manifest, provider, { chainId: Number(chainId), required: REQUIRED });
+  for (const issue of issues) {
+    check(`manifest.${issue.contract ?? issue.kind}`, { severity: 'error', message: issue.message });
+  }
+  // Nothing else can be read reliably from a manifest that does not match the chain
+  if (issues.length > 0) return report();
+  passed.push('manifest');
+
+  const addresses = Object.fromEntries(Object.entries(manifest.contracts).map(([name, contract]) => [name, contract.address]));
+  const at = (name: string) => new Contract(addresses[name], ABIS[name], provider);
+
+  if (options.artifacts) {
+    for (const [name, contract] of Object.entries(manifest.contracts)) {
+      const current = abiHash((await options.artifacts.readArtifact(name)).abi);
+      check(`${name}.abi`, current === contract.abiHash ? null : {
+        severity: 'warning',
+        message: `${name} was deployed from a different build than the current artifacts`,
+        expected: current,
+        actual: contract.abiHash,
+      });
+    }
+  }
+
+  for (const [contract, getter, target] of REFERENCES) {
+    const actual: string = await at(contract)[getter]();
+    check(`${contract}.${getter}`, sameAddress(actual, addresses[target]) ? null : {
+      severity: 'error',
+      message: `${contract}.${getter} does not point at ${target}`,
+      expected: addresses[target],
+      actual,
+    });
+  }
+
+  // Core
+  const core = at('LiquidFlowCore');
+  check('LiquidFlowCore.paused', await core.paused() ? { severity: 'error', message: 'LiquidFlowCore is paused' } : null);
+  check('BatchProcessor.paused', await at('BatchProcessor').paused() ? { severity: 'error', message: 'BatchProcessor is paused' } : null);
+  const protocolFeeBps = Number(await core.protocolFeeBps());
+  check('LiquidFlowCore.protocolFeeBps', protocolFeeBps <= policy.maxProtocolFeeBps ? null : {
+    severity: 'error',
+    message: `Protocol fee of ${protocolFeeBps} bps is over the ${policy.maxProtocolFeeBps} bps limit`,
+    expected: `<= ${policy.maxProtocolFeeBps}`,
+    actual: String(protocolFeeBps),
+  });
+  const feeCollector: string = await core.feeCollector();
+  check('LiquidFlowCore.feeCollector', feeCollector === ZeroAddress ? { severity: 'error', message: 'LiquidFlowCore has no fee collector' } : null);
+
+  // Strategies: the latest StrategyApproved event per address is its current approval
+  check('LiquidFlowCore.approvedStrategies(XYKStrategy)', await core.approvedStrategies(addresses.XYKStrategy) ? null : {
+    severity: 'error',
+    message: 'XYKStrategy is not approved on LiquidFlowCore',
+  });
+  const approvals = new Map<string, boolean>();
+  const logs = await core.queryFilter(core.filters.StrategyApproved(), manifest.contracts.LiquidFlowCore.blockNumber);
+  for (const log of logs) {
+    if ('args' in log) approvals.set(log.args.strategy, log.args.approved);
+  }
+  const factory = at('StrategyFactory');
+  for (const [strategy, approved] of approvals) {
+    if (!approved || sameAddress(strategy, addresses.XYKStrategy)) continue;
+    const name = `LiquidFlowCore.approvedStrategies(${strategy})`;
+    if (await provider.getCode(strategy) === '0x') {
+      // An approved account without code can pull any LP's funds directly
+      check(name, { severity: 'error', message: `Approved strategy ${strategy} has no code` });
+      continue;
+    }
+    const deployed = await factory.deployedStrategies(strategy);
+    check(name, deployed.strategyAddress !== ZeroAddress ? null : {
+      severity: 'warning',
+      message: `Approved strategy ${strategy} is neither XYKStrategy nor deployed by StrategyFactory`,
+    });
+  }
+
+  // Bridge
+  const bridge = at('BridgeRouter');
+  const bridgeFeeBps = Number(await bridge.protocolFeeBps());
+  check('BridgeRouter.protocolFeeBps', bridgeFeeBps <= policy.maxBridgeFeeBps ? null : {
+    severity: 'error',
+    message: `Bridge fee of ${bridgeFeeBps} bps is over the ${policy.maxBridgeFeeBps} bps limit`,
+    expected: `<= ${policy.maxBridgeFeeBps}`,
+    actual: String(bridgeFeeBps),
+  });
+  const bridgeCollector: string = await bridge.feeCollector();
+  check('BridgeRouter.feeCollector', bridgeCollector === ZeroAddress ? { severity: 'error', message: 'BridgeRouter has no fee collector' } : null);
+
+  let activeAdapters = 0;
+  for (const [index, name] of BRIDGE_PROVIDERS.entries()) {
+    const { adapter, isActive } = await bridge.adapters(index);
+    const expected = options.config?.bridge?.adapters?.[name];
+    const checkName = `BridgeRouter.adapters(${name})`;
+    if (expected && (!isActive || !sameAddress(adapter, expected))) {
+      check(checkName, {
+        severity: 'error',
+        message: `${name} adapter is not registered`,
+        expected,
+        actual: isActive ? adapter : 'inactive',
+      });
+    } else if (isActive && (adapter === ZeroAddress || await provider.getCode(adapter) === '0x')) {
+      check(checkName, { severity: 'error', message: `Active ${name} adapter ${adapter} has no code` });
+    } else {
+      check(checkName, null);
+    }
+    if (isActive) activeAdapters++;
+  }
+  const chains = options.config?.bridge?.chains ?? [];
+  for (const bridgeChainId of chains) {
+    check(`BridgeRouter.supportedChains(${bridgeChainId})`, await bridge.supportedChains(bridgeChainId) ? null : {
+      severity: 'error',
+      message: `Chain ${bridgeChainId} is not supported by BridgeRouter`,
+    });
+  }
+  if (chains.length > 0) {
+    check('BridgeRouter.activeAdapters', activeAdapters > 0 ? null : {
+      severity: 'error',
+      message: 'Bridging is configured but no adapter is active',
+    });
+  }
+
+  return report();
+}
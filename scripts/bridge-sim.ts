@@ -0,0 +1,139 @@
+import { Contract, ContractFactory, JsonRpcProvider, Signer, parseEther } from 'ethers';
+import { artifacts } from 'hardhat';
+
+import { BRIDGE_PROVIDERS, BridgeProviderName, bridgeRequestId } from '../src/lib/bridge';
+import { BridgeRelayer, RelayedChain, RelayEvent, checkBridgeConsistency, seededRandom } from '../src/lib/relayer';
+
+// Bridges WETH back and forth between two local nodes through BridgeRouter,
+// with src/lib/relayer.ts carrying the transfers and injecting faults, then
+// checks that both routers' bookkeeping adds up, e.g.
+//   yarn node                          # chain 31337 on :8545
+//   yarn node:b                        # chain 31338 on :8546
+//   BRIDGE_SIM_DROP=0.3 BRIDGE_SIM_DUPLICATE=0.5 BRIDGE_SIM_DELAY=3 yarn bridge:sim
+//
+// Settings (environment):
+//   BRIDGE_SIM_RPC_A, BRIDGE_SIM_RPC_B   node URLs (default :8545 and :8546)
+//   BRIDGE_SIM_TRANSFERS                 transfers to send, alternating direction (10)
+//   BRIDGE_SIM_DROP, BRIDGE_SIM_DUPLICATE chance of a dropped or duplicated delivery (0)
+//   BRIDGE_SIM_DELAY                     most ticks a message waits before delivery (0)
+//   BRIDGE_SIM_LIQUIDITY                 WETH each adapter holds for releases (100); set it
+//                                        low to see transfers fail and get refunded
+//   BRIDGE_SIM_SEED                      seed for the fault injection (random)
+//
+// Contracts are deployed fresh on every run; exits non-zero when the books do
+// not add up or transfers are left unsettled.
+
+const PROVIDER: BridgeProviderName = 'DEBRIDGE';
+const MAX_TICKS = 200;
+
+interface SimChain extends RelayedChain {
+  weth: string;
+  router: Contract;
+  bridge: (dstChain: number, amount: bigint) => Promise<string>;
+}
+
+const env = (name: string, fallback: number) => Number(process.env[name] ?? fallback);
+
+async function deploy(name: string, args: unknown[], signer: Signer): Promise<Contract> {
+  const artifact = await artifacts.readArtifact(name);
+  const contract = await new ContractFactory(artifact.abi, artifact.bytecode, signer).deploy(...args);
+  await contract.waitForDeployment();
+  return new Contract(await contract.getAddress(), artifact.abi, signer);
+}
+
+async function setUpChain(url: string, liquidity: bigint): Promise<SimChain> {
+  const provider = new JsonRpcProvider(url);
+  const chainId = Number((await provider.getNetwork()).chainId);
+  const relayer = await provider.getSigner(0);
+  const user = await provider.getSigner(1);
+  const fromBlock = await provider.getBlockNumber();
+
+  const weth = await deploy('WETHMock', [], relayer);
+  const router = await deploy('BridgeRouter', [await relayer.getAddress()], relayer);
+  const adapter = await deploy('BridgeAdapterMock', [await router.getAddress()], relayer);
+  await (await router.setAdapter(BRIDGE_PROVIDERS.indexOf(PROVIDER), adapter, true)).wait();
+  await (await weth.deposit({ value: liquidity })).wait();
+  await (await weth.transfer(adapter, liquidity)).wait();
+
+  const wethAsUser = new Contract(weth, weth.interface, user);
+  const routerAsUser = new Contract(router, router.interface, user);
+  await (await wethAsUser.deposit({ value: parseEther('100') })).wait();
+  await (await wethAsUser.approve(router, parseEther('100'))).wait();
+
+  return {
+    chainId,
+    signer: relayer,
+    bridgeRouter: await router.getAddress(),
+    adapter: await adapter.getAddress(),
+    fromBlock,
+    weth: await weth.getAddress(),
+    router,
+    bridge: async (dstChain, amount) => {
+      const tx = await routerAsUser.bridge(BRIDGE_PROVIDERS.indexOf(PROVIDER), dstChain, weth, amount, await user.getAddress());
+      return bridgeRequestId((await tx.wait()).logs);
+    },
+  };
+}
+
+// Lets each router take transfers of its WETH to the other chain
+async function connectChains(a: SimChain, b: SimChain): Promise<void> {
+  for (const [chain, other] of [[a, b], [b, a]]) {
+    await (await chain.router.setSupportedChain(other.chainId, true)).wait();
+    await (await chain.router.setSupportedToken(other.chainId, chain.weth, true)).wait();
+  }
+}
+
+async function main() {
+  const liquidity = parseEther(String(env('BRIDGE_SIM_LIQUIDITY', 100)));
+  const a = await setUpChain(process.env.BRIDGE_SIM_RPC_A ?? 'http://127.0.0.1:8545', liquidity);
+  const b = await setUpChain(process.env.BRIDGE_SIM_RPC_B ?? 'http://127.0.0.1:8546', liquidity);
+  if (a.chainId === b.chainId) throw new Error(`Both nodes run chain ${a.chainId}; start the second with yarn node:b`);
+  await connectChains(a, b);
+
+  const seed = env('BRIDGE_SIM_SEED', Math.floor(Math.random() * 2 ** 32));
+  const random = seededRandom(seed);
+  const transfers = env('BRIDGE_SIM_TRANSFERS', 10);
+  for (let index = 0; index < transfers; index++) {
+    const [from, to] = index % 2 === 0 ? [a, b] : [b, a];
+    const amount = parseEther((1 + Math.floor(random() * 900) / 100).toFixed(2));
+    const requestId = await from.bridge(to.chainId, amount);
+    console.log(`[sim] ${requestId}: ${from.chainId} -> ${to.chainId}, ${amount} wei`);
+  }
+
+  const chains = [a, b];
+  const relayer = new BridgeRelayer({
+    provider: PROVIDER,
+    chains,
+    tokens: [{ [a.chainId]: a.weth, [b.chainId]: b.weth }],
+    faults: {
+      dropRate: env('BRIDGE_SIM_DROP', 0),
+      duplicateRate: env('BRIDGE_SIM_DUPLICATE', 0),
+      maxDelayTicks: env('BRIDGE_SIM_DELAY', 0),
+      random,
+    },
+    log: (message) => console.log(`[relayer] ${message}`),
+  });
+
+  const events: RelayEvent[] = [];
+  for (let tick = 0; tick < MAX_TICKS; tick++) {
+    events.push(...await relayer.tick());
+    if (relayer.queued() === 0) break;
+  }
+
+  const report = await checkBridgeConsistency({ provider: PROVIDER, chains });
+  const count = (action: RelayEvent['action']) => events.filter((event) => event.action === action).length;
+  console.log(JSON.stringify({
+    seed,
+    dropped: count('dropped'),
+    retried: count('retry'),
+    duplicates: count('duplicate'),
+    duplicatesAccepted: events.filter((event) => event.action === 'duplicate' && event.accepted).length,
+    ...report,
+  }, null, 2));
+  if (!report.ok || report.pending.length > 0) process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,52 @@
+import * as fs from 'fs';
+import { artifacts, ethers, network } from 'hardhat';
+
+import { readManifest, writeManifest } from './manifest';
+import { ProtocolConfig, deployProtocol } from './protocol';
+
+// Deploys the full protocol and wires it together, e.g.
+//   yarn deploy:local
+//   DEPLOY_CONFIG=deploy.arbitrum.json yarn deploy:arbitrum
+//
+// deploy.json (every field optional):
+// {
+//   "feeCollector": "0x...",
+//   "weth": "0x...",
+//   "protocolFeeBps": 1000,
+//   "minters": ["0x..."],
+//   "feeTokens": ["0x..."],
+//   "bridge": { "chains": [8453], "adapters": { "STARGATE": "0x..." } },
+//   "redeploy": ["XYKStrategy"]
+// }
+//
+// Safe to run again: contracts in public/manifests/<chainId>.json that are
+// still on chain are reused and wiring that is already in place is skipped.
+
+async function main() {
+  const configPath = process.env.DEPLOY_CONFIG;
+  const config: ProtocolConfig = configPath ? JSON.parse(fs.readFileSync(configPath, 'utf8')) : {};
+  const [deployer] = await ethers.getSigners();
+  const chainId = Number((await ethers.provider.getNetwork()).chainId);
+
+  console.log('Network:', network.name, chainId);
+  console.log('Deployer address:', await deployer.getAddress());
+
+  const result = await deployProtocol({
+    deployer,
+    provider: ethers.provider,
+    chainId,
+    artifacts,
+    save: writeManifest,
+    log: (message) => console.log(message),
+  }, config, readManifest(chainId, network.name));
+
+  const file = writeManifest(result.manifest);
+  console.log(`\nDeployed ${result.deployed.length}, reused ${result.reused.length}`);
+  console.log(`Wired ${result.wired.length}, already set ${result.skipped.length}`);
+  console.log('Manifest written to:', file);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,131 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import { JsonRpcProvider } from 'ethers';
+import { ethers } from 'hardhat';
+
+import { LocalGovernance, SignedProposal, SignedVote } from '../src/lib/governance';
+import { GovernedAddresses } from '../src/lib/governanceActions';
+import { deserializeJson, serializeJson } from '../src/lib/storage';
+import { fileStorage } from './storage';
+
+// Serves proposals and votes from files, checking every submission against
+// the chain, e.g.
+//   GOVERNANCE_CONFIG=governance.json yarn hardhat run scripts/governance.ts --network localhost
+//
+// governance.json:
+// {
+//   "votingEscrow": "0x...",
+//   "contracts": { "LiquidFlowCore": "0x...", "BatchProcessor": "0x...", "FeeDistributor": "0x...", "RewardsController": "0x..." },
+//   "quorum": "100000",          // vebLF, whole tokens
+//   "minVotingPeriod": 86400,    // seconds
+//   "maxVotingPeriod": 2592000,
+//   "port": 8788,
+//   "dataDir": ".governance",
+//   "fork": { "url": "http://127.0.0.1:8547", "from": "http://127.0.0.1:8545" }
+// }
+//
+// Passed proposals are previewed on the node at fork.url, e.g. `yarn node:fork`,
+// after moving it to the latest block of fork.from (the node this script reads).
+//
+// Endpoints (JSON, bigints as "123n"):
+//   GET  /proposals
+//   POST /proposals   { proposal, signature }
+//   POST /votes       { vote, signature }
+//   GET  /proposals/:id/preview
+//
+// The frontend uses it when VITE_GOVERNANCE_URL is set.
+
+interface GovernanceScriptConfig {
+  votingEscrow: string;
+  contracts?: GovernedAddresses;
+  quorum?: string;
+  minVotingPeriod?: number;
+  maxVotingPeriod?: number;
+  port?: number;
+  dataDir?: string;
+  fork?: { url: string; from?: string };
+}
+
+class BadRequest extends Error {}
+
+const readBody = (request: http.IncomingMessage) => new Promise<string>((resolve, reject) => {
+  let body = '';
+  request.on('data', (chunk) => {
+    body += chunk;
+  });
+  request.on('end', () => resolve(body));
+  request.on('error', reject);
+});
+
+async function main() {
+  const configPath = process.env.GOVERNANCE_CONFIG;
+  if (!configPath) throw new Error('GOVERNANCE_CONFIG must point to a governance config file');
+  const config: GovernanceScriptConfig = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  const provider = ethers.provider;
+
+  const governance = new LocalGovernance({
+    provider,
+    chainId: (await provider.getNetwork()).chainId,
+    votingEscrow: config.votingEscrow,
+    storage: fileStorage(config.dataDir ?? '.governance'),
+    quorum: config.quorum === undefined ? undefined : ethers.parseUnits(config.quorum, 18),
+    minVotingPeriod: config.minVotingPeriod,
+    maxVotingPeriod: config.maxVotingPeriod,
+    contracts: config.contracts,
+    fork: config.fork && { provider: new JsonRpcProvider(config.fork.url), from: config.fork.from },
+  });
+
+  const route = async (method: string, url: URL, body: string): Promise<unknown> => {
+    const submission = () => {
+      try {
+        return deserializeJson<unknown>(body);
+      } catch {
+        throw new BadRequest('The body is not JSON');
+      }
+    };
+    // Everything the backend rejects is the submitter's to fix
+    const submit = <T>(action: Promise<T>) => action.catch((error) => {
+      throw new BadRequest((error as Error).message);
+    });
+    const [resource, id, action] = url.pathname.split('/').filter(Boolean);
+    if (method === 'GET' && resource === 'proposals' && id && action === 'preview') return governance.preview(id);
+    switch (`${method} ${url.pathname.replace(/\/$/, '')}`) {
+      case 'GET /proposals': return governance.proposals();
+      case 'POST /proposals': return submit(governance.propose(submission() as SignedProposal));
+      case 'POST /votes': return submit(governance.vote(submission() as SignedVote));
+      default: return undefined;
+    }
+  };
+
+  const server = http.createServer((request, response) => {
+    response.setHeader('Access-Control-Allow-Origin', '*');
+    response.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    response.setHeader('Content-Type', 'application/json');
+    if (request.method === 'OPTIONS') {
+      response.end();
+      return;
+    }
+    readBody(request)
+      .then((body) => route(request.method ?? 'GET', new URL(request.url ?? '/', 'http://localhost'), body))
+      .then((body) => {
+        response.statusCode = body === undefined ? 404 : 200;
+        response.end(body === undefined ? '{"error":"Not found"}' : serializeJson(body));
+      })
+      .catch((error) => {
+        response.statusCode = error instanceof BadRequest ? 400 : 500;
+        response.end(JSON.stringify({ error: (error as Error).message }));
+      });
+  });
+
+  const port = config.port ?? 8788;
+  server.listen(port);
+  console.log(`Governance serving http://localhost:${port}`);
+
+  await new Promise<void>((resolve) => process.once('SIGINT', resolve));
+  server.close();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,163 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import { Contract } from 'ethers';
+import { ethers } from 'hardhat';
+
+import { ERC20_ABI, FEE_DISTRIBUTOR_ABI, REWARDS_CONTROLLER_ABI, VOTING_ESCROW_ABI } from '../src/lib/abis';
+import { AccountView, EventIndexer, IndexerContracts, PositionView, TokenMetadata } from '../src/lib/indexer';
+import { serializeJson } from '../src/lib/storage';
+import { fileStorage } from './storage';
+
+// Runs the event indexer against a node and serves the index over HTTP, e.g.
+//   INDEXER_CONFIG=indexer.json yarn hardhat run scripts/indexer.ts --network localhost
+//
+// indexer.json:
+// {
+//   "contracts": { "liquidFlowCore": "0x...", "batchProcessor": "0x...", "feeDistributor": "0x...", "rewardsController": "0x..." },
+//   "tokens": { "lfToken": "0x...", "burnedLF": "0x...", "votingEscrow": "0x..." },
+//   "startBlock": 0,
+//   "confirmations": 12,
+//   "port": 8787,
+//   "dataDir": ".indexer"
+// }
+//
+// Endpoints (JSON, bigints as "123n"):
+//   GET /status
+//   GET /positions/:lp
+//   GET /accounts/:address
+//   GET /batches
+//   GET /events?names=StrategyShipped,LiquidityPulled&account=0x...&strategyHash=0x...&fromBlock=0
+//
+// The frontend reads it when VITE_INDEXER_URL is set.
+
+interface IndexerScriptConfig {
+  contracts: IndexerContracts;
+  tokens?: { lfToken?: string; burnedLF?: string; votingEscrow?: string };
+  startBlock?: number;
+  confirmations?: number;
+  blockRange?: number;
+  pollIntervalMs?: number;
+  protocolFeeBps?: number;
+  port?: number;
+  dataDir?: string;
+}
+
+async function main() {
+  const configPath = process.env.INDEXER_CONFIG;
+  if (!configPath) throw new Error('INDEXER_CONFIG must point to an indexer config file');
+  const config: IndexerScriptConfig = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  const provider = ethers.provider;
+
+  const indexer = new EventIndexer({
+    provider,
+    contracts: config.contracts,
+    storage: fileStorage(config.dataDir ?? '.indexer'),
+    startBlock: config.startBlock,
+    confirmations: config.confirmations,
+    blockRange: config.blockRange,
+    pollIntervalMs: config.pollIntervalMs,
+    protocolFeeBps: config.protocolFeeBps === undefined ? undefined : BigInt(config.protocolFeeBps),
+    log: (message) => console.log(`[indexer] ${message}`),
+  });
+
+  const metadata = new Map<string, Promise<TokenMetadata>>();
+  const tokenMetadata = (address: string) => {
+    const key = address.toLowerCase();
+    if (!metadata.has(key)) {
+      const token = new Contract(address, ERC20_ABI, provider);
+      metadata.set(key, Promise.all([token.symbol(), token.decimals()])
+        .then(([symbol, decimals]) => ({ address, symbol, decimals: Number(decimals) }))
+        .catch(() => ({ address, symbol: address.slice(0, 8), decimals: 18 })));
+    }
+    return metadata.get(key)!;
+  };
+
+  const positions = async (lp: string): Promise<PositionView[]> =>
+    Promise.all((await indexer.positions(lp)).map(async (position) => ({
+      ...position,
+      tokenMetadata: await Promise.all(position.tokens.map(tokenMetadata)),
+    })));
+
+  const account = async (address: string): Promise<AccountView> => {
+    const activity = await indexer.account(address);
+    const { tokens } = config;
+    const { feeDistributor, rewardsController } = config.contracts;
+
+    let balances: AccountView['balances'] = null;
+    if (tokens?.lfToken && tokens.burnedLF && tokens.votingEscrow) {
+      const votingEscrow = new Contract(tokens.votingEscrow, VOTING_ESCROW_ABI, provider);
+      const [lf, blf, veblf, lock] = await Promise.all([
+        new Contract(tokens.lfToken, ERC20_ABI, provider).balanceOf(address),
+        new Contract(tokens.burnedLF, ERC20_ABI, provider).balanceOf(address),
+        votingEscrow.balanceOf(address),
+        votingEscrow.getLock(address),
+      ]);
+      balances = { lf, blf, veblf, lockEnd: lock.end };
+    }
+
+    const pendingFees: AccountView['pendingFees'] = [];
+    if (feeDistributor) {
+      const distributor = new Contract(feeDistributor, FEE_DISTRIBUTOR_ABI, provider);
+      for (const token of await distributor.getFeeTokens() as string[]) {
+        const amount: bigint = await distributor.getTotalClaimable(address, token);
+        if (amount > 0n) pendingFees.push({ token: await tokenMetadata(token), amount });
+      }
+    }
+
+    let pendingRewards = 0n;
+    if (rewardsController) {
+      const controller = new Contract(rewardsController, REWARDS_CONTROLLER_ABI, provider);
+      for (const position of await indexer.positions(address)) {
+        if (position.active) pendingRewards += await controller.getPendingRewards(address, position.strategyHash);
+      }
+    }
+
+    return { ...activity, balances, pendingFees, pendingRewards };
+  };
+
+  const route = async (url: URL): Promise<unknown> => {
+    const [resource, id] = url.pathname.split('/').filter(Boolean);
+    const query = url.searchParams;
+    switch (resource) {
+      case 'status': return indexer.status();
+      case 'positions': return id ? positions(id) : indexer.positions();
+      case 'accounts': return id ? account(id) : undefined;
+      case 'batches': return indexer.settledBatches();
+      case 'events': return indexer.events({
+        names: query.get('names')?.split(','),
+        account: query.get('account') ?? undefined,
+        strategyHash: query.get('strategyHash') ?? undefined,
+        fromBlock: query.has('fromBlock') ? Number(query.get('fromBlock')) : undefined,
+      });
+      default: return undefined;
+    }
+  };
+
+  const server = http.createServer((request, response) => {
+    response.setHeader('Access-Control-Allow-Origin', '*');
+    response.setHeader('Content-Type', 'application/json');
+    route(new URL(request.url ?? '/', 'http://localhost'))
+      .then((body) => {
+        response.statusCode = body === undefined ? 404 : 200;
+        response.end(body === undefined ? '{"error":"Not found"}' : serializeJson(body));
+      })
+      .catch((error) => {
+        response.statusCode = 500;
+        response.end(JSON.stringify({ error: (error as Error).message }));
+      });
+  });
+
+  await indexer.start();
+  const port = config.port ?? 8787;
+  server.listen(port);
+  console.log(`Indexer serving http://localhost:${port}`);
+
+  await new Promise<void>((resolve) => process.once('SIGINT', resolve));
+  server.close();
+  await indexer.stop();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
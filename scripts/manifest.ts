@@ -0,0 +1,57 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { InterfaceAbi, Provider } from 'ethers';
+
+import {
+  DeploymentManifest,
+  ManifestContract,
+  abiHash,
+  emptyManifest,
+  parseManifest,
+  serializeManifest,
+  toManifestValue,
+} from '../src/lib/manifest';
+
+// Reading and writing deployment manifests from deploy scripts. Files live in
+// public/manifests so the app serves them as-is; MANIFEST_DIR overrides that.
+
+export interface DeployedContract {
+  address: string;
+  transactionHash: string;
+  abi: InterfaceAbi;
+  args?: unknown[];
+}
+
+export function manifestPath(chainId: number): string {
+  return path.join(process.env.MANIFEST_DIR ?? path.join('public', 'manifests'), `${chainId}.json`);
+}
+
+export function readManifest(chainId: number, network: string): DeploymentManifest {
+  const file = manifestPath(chainId);
+  if (!fs.existsSync(file)) return emptyManifest(chainId, network);
+  const manifest = parseManifest(fs.readFileSync(file, 'utf8'));
+  if (manifest.chainId !== chainId) throw new Error(`${file} is for chain ${manifest.chainId}, not ${chainId}`);
+  return manifest;
+}
+
+// Replaced atomically so an interrupted deployment never leaves half a file
+export function writeManifest(manifest: DeploymentManifest): string {
+  const file = manifestPath(manifest.chainId);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(`${file}.tmp`, serializeManifest(manifest));
+  fs.renameSync(`${file}.tmp`, file);
+  return file;
+}
+
+export async function manifestEntry(provider: Provider, deployed: DeployedContract): Promise<ManifestContract> {
+  const receipt = await provider.getTransactionReceipt(deployed.transactionHash);
+  if (!receipt) throw new Error(`Deployment transaction ${deployed.transactionHash} not found`);
+  return {
+    address: deployed.address,
+    blockNumber: receipt.blockNumber,
+    blockHash: receipt.blockHash,
+    transactionHash: deployed.transactionHash,
+    constructorArgs: (deployed.args ?? []).map(toManifestValue),
+    abiHash: abiHash(deployed.abi),
+  };
+}
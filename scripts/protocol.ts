@@ -0,0 +1,258 @@
+import { Contract, ContractFactory, ContractTransactionResponse, InterfaceAbi, Provider, Signer, getAddress } from 'ethers';
+
+import {
+  DeploymentManifest,
+  abiHash,
+  recordContract,
+  toManifestValue,
+  verifyManifest,
+} from '../src/lib/manifest';
+import { BRIDGE_PROVIDERS, BridgeProviderName } from '../src/lib/bridge';
+import { manifestEntry } from './manifest';
+
+// Deploys and wires the whole protocol. The manifest is the resume state: a
+// contract already recorded with code on chain and the same constructor
+// arguments is reused, and every wiring step reads the current on-chain value
+// before sending its setter. A run that stops halfway (out of gas, RPC error,
+// Ctrl-C) picks up from the last recorded contract and the first unset
+// reference when started again.
+
+export interface ProtocolConfig {
+  // Receives LiquidFlowCore and BridgeRouter fees; defaults to the deployer
+  feeCollector?: string;
+  // Wrapped native token for LiquidFlowRouter; a WETHMock is deployed on local chains
+  weth?: string;
+  protocolFeeBps?: number;
+  // LFToken minters besides the deployer, which the constructor already adds
+  minters?: string[];
+  // Tokens FeeDistributor accepts
+  feeTokens?: string[];
+  bridge?: {
+    chains?: number[];
+    // Adapter address by BridgeRouter.BridgeProvider name
+    adapters?: Partial<Record<BridgeProviderName, string>>;
+  };
+  // Contracts to deploy again even if the manifest has a usable instance
+  redeploy?: string[];
+}
+
+export interface Artifacts {
+  readArtifact(name: string): Promise<{ abi: InterfaceAbi; bytecode: string }>;
+}
+
+export interface DeployContext {
+  deployer: Signer;
+  provider: Provider;
+  chainId: number;
+  artifacts: Artifacts;
+  // Called after every deployment so an interrupted run keeps its progress
+  save: (manifest: DeploymentManifest) => void;
+  log?: (message: string) => void;
+}
+
+export interface DeployResult {
+  manifest: DeploymentManifest;
+  deployed: string[];
+  reused: string[];
+  wired: string[];
+  skipped: string[];
+}
+
+export const LOCAL_CHAIN_IDS = [31337, 31338];
+
+// Canonical wrapped native token per chain
+export const WRAPPED_NATIVE: Record<number, string> = {
+  1: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+  10: '0x4200000000000000000000000000000000000006',
+  // WPOL: the router wraps msg.value, which is POL on Polygon
+  137: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270',
+  8453: '0x4200000000000000000000000000000000000006',
+  42161: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1',
+  84532: '0x4200000000000000000000000000000000000006',
+  421614: '0x980B62Da83eFf3D4576C647993b0c1D7faf17c73',
+  11155111: '0xfFf9976782d46CC05630D1f6eBAb18b2324d6B14',
+};
+
+interface DeploySpec {
+  name: string;
+  args: (addresses: Record<string, string>) => unknown[];
+}
+
+interface WiringStep {
+  description: string;
+  done: () => Promise<boolean>;
+  send: () => Promise<ContractTransactionResponse>;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export async function deployProtocol(context: DeployContext, config: ProtocolConfig, initial: DeploymentManifest): Promise<DeployResult> {
+  const { deployer, provider, chainId, artifacts } = context;
+  const log = context.log ?? (() => undefined);
+  const deployerAddress = await deployer.getAddress();
+  const isLocal = LOCAL_CHAIN_IDS.includes(chainId);
+  const feeCollector = getAddress(config.feeCollector ?? deployerAddress);
+  const result: DeployResult = { manifest: initial, deployed: [], reused: [], wired: [], skipped: [] };
+
+  const weth = config.weth ?? WRAPPED_NATIVE[chainId];
+  if (!weth && !isLocal) throw new Error(`No wrapped native token known for chain ${chainId}; set "weth" in the deploy config`);
+
+  // Constructor dependencies decide the order
+  const specs: DeploySpec[] = [
+    { name: 'LFToken', args: () => [] },
+    { name: 'BurnedLF', args: () => [] },
+    { name: 'VotingEscrow', args: (a) => [a.BurnedLF] },
+    { name: 'FeeDistributor', args: (a) => [a.VotingEscrow] },
+    { name: 'RewardsController', args: (a) => [a.LFToken, a.VotingEscrow] },
+    { name: 'LiquidFlowCore', args: () => [feeCollector] },
+    { name: 'SolverRegistry', args: (a) => [a.LFToken] },
+    { name: 'BatchProcessor', args: (a) => [a.SolverRegistry, a.LiquidFlowCore] },
+    ...(weth ? [] : [{ name: 'WETHMock', args: () => [] }]),
+    { name: 'LiquidFlowRouter', args: (a) => [a.LiquidFlowCore, a.BatchProcessor, weth ? getAddress(weth) : a.WETHMock] },
+    { name: 'XYKStrategy', args: (a) => [a.LiquidFlowCore] },
+    { name: 'StrategyFactory', args: (a) => [a.LiquidFlowCore] },
+    { name: 'BridgeRouter', args: () => [feeCollector] },
+    // Settles commit-reveal intents; its owner (the deployer) stakes and runs it with `yarn solver`
+    { name: 'ReferenceSolver', args: (a) => [a.BatchProcessor, a.SolverRegistry, a.LFToken] },
+  ];
+
+  // Recorded contracts that are gone from the chain are deployed again
+  const issues = await verifyManifest(initial, provider, { chainId });
+  const unusable = new Set(issues.map((issue) => issue.contract));
+  const manifestUnusable = issues.some((issue) => !issue.contract);
+
+  const addresses: Record<string, string> = {};
+  const abis: Record<string, InterfaceAbi> = {};
+  for (const spec of specs) {
+    const artifact = await artifacts.readArtifact(spec.name);
+    const args = spec.args(addresses);
+    const existing = result.manifest.contracts[spec.name];
+    abis[spec.name] = artifact.abi;
+
+    const argsMatch = existing && JSON.stringify(existing.constructorArgs) === JSON.stringify(args.map(toManifestValue));
+    if (existing && argsMatch && !manifestUnusable && !unusable.has(spec.name) && !config.redeploy?.includes(spec.name)) {
+      if (existing.abiHash !== abiHash(artifact.abi)) {
+        log(`${spec.name} at ${existing.address} was deployed from a different ABI; add it to "redeploy" to replace it`);
+      }
+      addresses[spec.name] = existing.address;
+      result.reused.push(spec.name);
+      log(`${spec.name} reused at ${existing.address}`);
+      continue;
+    }
+
+    log(`Deploying ${spec.name}...`);
+    const contract = await new ContractFactory(artifact.abi, artifact.bytecode, deployer).deploy(...args);
+    await contract.waitForDeployment();
+    const address = await contract.getAddress();
+    const entry = await manifestEntry(provider, {
+      address,
+      transactionHash: contract.deploymentTransaction()!.hash,
+      abi: artifact.abi,
+      args,
+    });
+    result.manifest = recordContract(result.manifest, spec.name, entry);
+    context.save(result.manifest);
+    addresses[spec.name] = getAddress(address);
+    result.deployed.push(spec.name);
+    log(`${spec.name} deployed to: ${address}`);
+  }
+
+  const at = (name: string) => new Contract(addresses[name], abis[name], deployer);
+  const lfToken = at('LFToken');
+  const feeDistributor = at('FeeDistributor');
+  const core = at('LiquidFlowCore');
+  const strategyFactory = at('StrategyFactory');
+  const bridgeRouter = at('BridgeRouter');
+
+  // A setter whose getter must end up returning the address of `target`
+  const reference = (contract: string, setter: string, getter: string, target: string): WiringStep => ({
+    description: `${contract}.${setter}(${target})`,
+    done: async () => sameAddress(await at(contract)[getter](), addresses[target]),
+    send: () => at(contract)[setter](addresses[target]),
+  });
+
+  const steps: WiringStep[] = [
+    reference('LFToken', 'setBurnedLF', 'burnedLF', 'BurnedLF'),
+    reference('BurnedLF', 'setLFToken', 'lfToken', 'LFToken'),
+    reference('BurnedLF', 'setVotingEscrow', 'votingEscrow', 'VotingEscrow'),
+    reference('VotingEscrow', 'setFeeDistributor', 'feeDistributor', 'FeeDistributor'),
+    reference('VotingEscrow', 'setRewardsController', 'rewardsController', 'RewardsController'),
+    reference('RewardsController', 'setLiquidFlowCore', 'liquidFlowCore', 'LiquidFlowCore'),
+    reference('RewardsController', 'setVotingEscrow', 'votingEscrow', 'VotingEscrow'),
+    reference('LiquidFlowCore', 'setBatchProcessor', 'batchProcessor', 'BatchProcessor'),
+    reference('LiquidFlowCore', 'setRouter', 'router', 'LiquidFlowRouter'),
+    reference('SolverRegistry', 'setBatchProcessor', 'batchProcessor', 'BatchProcessor'),
+    reference('StrategyFactory', 'setLiquidFlowCore', 'liquidFlowCore', 'LiquidFlowCore'),
+    {
+      description: 'LiquidFlowCore.setStrategyApproval(XYKStrategy, true)',
+      done: () => core.approvedStrategies(addresses.XYKStrategy),
+      send: () => core.setStrategyApproval(addresses.XYKStrategy, true),
+    },
+    {
+      description: 'StrategyFactory.addTemplate(XYK, XYKStrategy)',
+      done: async () => {
+        const count = Number(await strategyFactory.templateCount());
+        for (let id = 0; id < count; id++) {
+          const template = await strategyFactory.templates(id);
+          if (sameAddress(template.implementation, addresses.XYKStrategy)) return true;
+        }
+        return false;
+      },
+      send: () => strategyFactory.addTemplate('XYK', addresses.XYKStrategy, false),
+    },
+  ];
+
+  if (config.protocolFeeBps !== undefined) {
+    steps.push({
+      description: `LiquidFlowCore.setProtocolFee(${config.protocolFeeBps})`,
+      done: async () => (await core.protocolFeeBps()) === BigInt(config.protocolFeeBps!),
+      send: () => core.setProtocolFee(config.protocolFeeBps),
+    });
+  }
+  for (const minter of config.minters ?? []) {
+    steps.push({
+      description: `LFToken.setMinter(${minter}, true)`,
+      done: () => lfToken.minters(minter),
+      send: () => lfToken.setMinter(minter, true),
+    });
+  }
+  for (const token of config.feeTokens ?? []) {
+    steps.push({
+      description: `FeeDistributor.addFeeToken(${token})`,
+      done: () => feeDistributor.isFeeToken(token),
+      send: () => feeDistributor.addFeeToken(token),
+    });
+  }
+  for (const bridgeChainId of config.bridge?.chains ?? []) {
+    steps.push({
+      description: `BridgeRouter.setSupportedChain(${bridgeChainId}, true)`,
+      done: () => bridgeRouter.supportedChains(bridgeChainId),
+      send: () => bridgeRouter.setSupportedChain(bridgeChainId, true),
+    });
+  }
+  for (const [name, adapter] of Object.entries(config.bridge?.adapters ?? {})) {
+    const provider = BRIDGE_PROVIDERS.indexOf(name as BridgeProviderName);
+    if (provider < 0) throw new Error(`Unknown bridge provider ${name}`);
+    steps.push({
+      description: `BridgeRouter.setAdapter(${name}, ${adapter}, true)`,
+      done: async () => {
+        const current = await bridgeRouter.adapters(provider);
+        return current.isActive && sameAddress(current.adapter, adapter);
+      },
+      send: () => bridgeRouter.setAdapter(provider, adapter, true),
+    });
+  }
+
+  for (const step of steps) {
+    if (await step.done()) {
+      result.skipped.push(step.description);
+      continue;
+    }
+    log(`Wiring ${step.description}...`);
+    const tx = await step.send();
+    await tx.wait();
+    result.wired.push(step.description);
+  }
+
+  return result;
+}
@@ -0,0 +1,79 @@
+import * as fs from 'fs';
+import { ethers } from 'hardhat';
+
+import { combineVenueSources, SolverBot, VenueSource, xycVenueSource, xykVenueSource } from '../src/lib/solver';
+import { DEFAULT_FEE_TIERS } from '../src/lib/router';
+import { XYKStrategyParams, saltFromLabel } from '../src/lib/strategy';
+
+// Runs the reference solver against a node, e.g.
+//   SOLVER_CONFIG=solver.json yarn hardhat run scripts/solver.ts --network localhost
+//
+// solver.json:
+// {
+//   "batchProcessor": "0x...",
+//   "solver": "0x...",                      // ReferenceSolver owned by the first signer
+//   "bidBps": 1000,
+//   "xyc": { "aqua": "0x...", "app": "0x...", "makers": ["0x..."], "salts": ["", "pool-a"] },
+//   "xyk": { "strategy": "0x...", "positions": [{ "lp": "0x...", "token0": "0x...", "token1": "0x...", "feeBps": 30, "salt": "" }] }
+// }
+//
+// Salts are labels hashed with saltFromLabel; "" is the zero salt.
+
+interface SolverScriptConfig {
+  batchProcessor: string;
+  solver: string;
+  bidBps?: number;
+  slippageBps?: number;
+  pollIntervalMs?: number;
+  closeBatches?: boolean;
+  xyc?: { aqua: string; app: string; makers: string[]; salts?: string[]; feeTiers?: number[] };
+  xyk?: { strategy: string; protocolFeeBps?: number; positions: (Omit<XYKStrategyParams, 'feeBps' | 'salt'> & { feeBps: number; salt?: string })[] };
+}
+
+async function main() {
+  const path = process.env.SOLVER_CONFIG;
+  if (!path) throw new Error('SOLVER_CONFIG must point to a solver config file');
+  const config: SolverScriptConfig = JSON.parse(fs.readFileSync(path, 'utf8'));
+
+  const [signer] = await ethers.getSigners();
+  const sources: VenueSource[] = [];
+  if (config.xyc) {
+    sources.push(xycVenueSource(signer, config.xyc.aqua, config.xyc.app, {
+      makers: config.xyc.makers,
+      salts: (config.xyc.salts ?? ['']).map(saltFromLabel),
+      feeTiers: config.xyc.feeTiers?.map(BigInt) ?? DEFAULT_FEE_TIERS,
+    }));
+  }
+  if (config.xyk) {
+    const positions = config.xyk.positions.map((position) => ({
+      ...position,
+      feeBps: BigInt(position.feeBps),
+      salt: saltFromLabel(position.salt ?? ''),
+    }));
+    sources.push(xykVenueSource(signer, config.xyk.strategy, positions, BigInt(config.xyk.protocolFeeBps ?? 0)));
+  }
+  if (sources.length === 0) throw new Error('No liquidity configured');
+
+  const bot = new SolverBot({
+    signer,
+    batchProcessor: config.batchProcessor,
+    solver: config.solver,
+    venues: combineVenueSources(...sources),
+    bidBps: BigInt(config.bidBps ?? 0),
+    slippageBps: BigInt(config.slippageBps ?? 0),
+    closeBatches: config.closeBatches ?? true,
+    pollIntervalMs: config.pollIntervalMs,
+    log: (message) => console.log(`[solver] ${message}`),
+  });
+
+  await bot.start();
+  console.log(`Solver ${config.solver} watching BatchProcessor ${config.batchProcessor}`);
+
+  await new Promise<void>((resolve) => process.once('SIGINT', resolve));
+  await bot.stop();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
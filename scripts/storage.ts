@@ -0,0 +1,18 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { KeyValueStorage } from '../src/lib/storage';
+
+// One JSON file per key, replaced atomically so a crash never leaves half a snapshot
+export function fileStorage(dir: string): KeyValueStorage {
+  fs.mkdirSync(dir, { recursive: true });
+  const file = (key: string) => path.join(dir, `${key.replace(/[^a-zA-Z0-9]+/g, '-')}.json`);
+  return {
+    getItem: (key) => fs.existsSync(file(key)) ? fs.readFileSync(file(key), 'utf8') : null,
+    setItem: (key, value) => {
+      fs.writeFileSync(`${file(key)}.tmp`, value);
+      fs.renameSync(`${file(key)}.tmp`, file(key));
+    },
+    removeItem: (key) => fs.rmSync(file(key), { force: true }),
+  };
+}
@@ -1,7 +1,9 @@
 import { Routes, Route } from 'react-router-dom';
 import Layout from './components/Layout';
+import DeploymentGate from './components/DeploymentGate';
 import Dashboard from './pages/Dashboard';
 import Swap from './pages/Swap';
+import Intents from './pages/Intents';
 import Provide from './pages/Provide';
 import Tokenomics from './pages/Tokenomics';
 import Governance from './pages/Governance';
@@ -10,14 +12,17 @@ import Analytics from './pages/Analytics';
 function App() {
   return (
     <Layout>
-      <Routes>
-        <Route path="/" element={<Dashboard />} />
-        <Route path="/swap" element={<Swap />} />
-        <Route path="/provide" element={<Provide />} />
-        <Route path="/tokenomics" element={<Tokenomics />} />
-        <Route path="/governance" element={<Governance />} />
-        <Route path="/analytics" element={<Analytics />} />
-      </Routes>
+      <DeploymentGate>
+        <Routes>
+          <Route path="/" element={<Dashboard />} />
+          <Route path="/swap" element={<Swap />} />
+          <Route path="/intents" element={<Intents />} />
+          <Route path="/provide" element={<Provide />} />
+          <Route path="/tokenomics" element={<Tokenomics />} />
+          <Route path="/governance" element={<Governance />} />
+          <Route path="/analytics" element={<Analytics />} />
+        </Routes>
+      </DeploymentGate>
     </Layout>
   );
 }
@@ -0,0 +1,74 @@
+import { formatUnits, getAddress } from 'ethers';
+import { Check, Circle, Clock, Loader2, XCircle } from 'lucide-react';
+import { AllocationRequest, AllocationStep, StepProgress, StepStatus } from '../lib/allocation';
+
+const STATUS_COLORS: Record<StepStatus, string> = {
+  pending: 'text-gray-400',
+  running: 'text-white',
+  waiting: 'text-amber-500',
+  done: 'text-gray-300',
+  failed: 'text-red-400',
+};
+
+function StatusIcon({ status }: { status: StepStatus }) {
+  if (status === 'running') return <Loader2 className="w-4 h-4 animate-spin text-flow-blue" />;
+  if (status === 'waiting') return <Clock className="w-4 h-4 text-amber-500" />;
+  if (status === 'done') return <Check className="w-4 h-4 text-flow-emerald" />;
+  if (status === 'failed') return <XCircle className="w-4 h-4 text-red-400" />;
+  return <Circle className="w-4 h-4 text-gray-600" />;
+}
+
+function describeStep(step: AllocationStep, request: AllocationRequest, chainName: (chainId: number) => string): string {
+  const amount = (value: bigint, side: 0 | 1) => `${formatUnits(value, request.decimals[side])} ${request.symbols[side]}`;
+  switch (step.kind) {
+    case 'approve': {
+      const side = request.tokens[step.chainId].map(token => getAddress(token)).indexOf(getAddress(step.token)) as 0 | 1;
+      if (step.reset) return `Set the ${request.symbols[side]} allowance of ${step.target} back to ${formatUnits(step.amount!, request.decimals[side])}`;
+      return step.amount === null
+        ? `Approve ${request.symbols[side]} for ${step.target}`
+        : `Approve ${amount(step.amount, side)} for ${step.target}`;
+    }
+    case 'bridge':
+      return `Bridge ${amount(step.amount, step.side)} to ${chainName(step.dstChain)}`;
+    case 'ship':
+      if (step.reset) return `Set the position back to ${amount(step.amounts![0], 0)} and ${amount(step.amounts![1], 1)}`;
+      return step.amounts
+        ? `Ship ${amount(step.amounts[0], 0)} and ${amount(step.amounts[1], 1)}`
+        : 'Ship what the bridges delivered';
+    case 'dock':
+      return 'Request to dock the position';
+  }
+}
+
+// Steps of an allocation plan, with their progress once it runs
+export default function AllocationProgress({ request, steps, progress = {}, chainName }: {
+  request: AllocationRequest;
+  steps: AllocationStep[];
+  progress?: Record<string, StepProgress>;
+  chainName: (chainId: number) => string;
+}) {
+  return (
+    <ol className="space-y-2">
+      {steps.map(step => {
+        const { status, error, data } = progress[step.id] ?? { status: 'pending', error: null, data: {} };
+        return (
+          <li key={step.id} className="bg-dark-700/30 rounded-xl p-3">
+            <div className="flex items-start gap-3">
+              <div className="mt-0.5 flex-shrink-0"><StatusIcon status={status} /></div>
+              <div className="flex-1 min-w-0">
+                <p className={`text-sm ${STATUS_COLORS[status]}`}>{describeStep(step, request, chainName)}</p>
+                <p className="text-xs text-gray-500">
+                  on {chainName(step.chainId)}
+                  {status === 'waiting' && ' · waiting for the transfer to arrive'}
+                  {data.outputAmount !== undefined && step.kind === 'bridge' && ` · ${formatUnits(data.outputAmount, request.decimals[step.side])} ${request.symbols[step.side]} delivered`}
+                  {data.transactionHash && ` · ${data.transactionHash.slice(0, 10)}...`}
+                </p>
+                {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+              </div>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
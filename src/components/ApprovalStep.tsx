@@ -0,0 +1,140 @@
+import { useEffect, useState } from 'react';
+import { formatUnits } from 'ethers';
+import { motion } from 'framer-motion';
+import { Check, KeyRound, Loader2, Unlock } from 'lucide-react';
+import { useStore } from '../store/useStore';
+import { AllowanceCheck, ApprovalTarget, permitCovers, permitKey } from '../lib/allowance';
+import { TokenInfo } from '../lib/tokenList';
+import { describeError } from '../lib/errors';
+
+interface ApprovalStepProps {
+  token: TokenInfo | null;
+  target: ApprovalTarget;
+  // Amount the flow is about to spend; null while nothing valid is entered
+  amount: bigint | null;
+  // Whether the flow can submit as far as this token's allowance goes
+  onReadyChange: (ready: boolean) => void;
+}
+
+const TARGET_LABELS: Record<ApprovalTarget, string> = {
+  LiquidFlowRouter: 'the Liquid Flow router',
+  LiquidFlowCore: 'Liquid Flow',
+  Aqua: 'Aqua',
+  VotingEscrow: 'the voting escrow',
+  FeeDistributor: 'the fee distributor',
+  BridgeRouter: 'the bridge router',
+  ReferenceSolver: 'the batch solver',
+  XYKStrategy: 'the swap pool',
+};
+
+// Renders nothing unless the allowance is short; then offers an approval, or a
+// permit signature where the token and the target support one
+export default function ApprovalStep({ token, target, amount, onReadyChange }: ApprovalStepProps) {
+  const { wallet, deployment, approvals } = useStore();
+  const [check, setCheck] = useState<AllowanceCheck | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped to read the allowance again after an approval lands
+  const [version, setVersion] = useState(0);
+
+  const canCheck = wallet.isConnected && deployment.status === 'ready';
+
+  useEffect(() => {
+    setCheck(null);
+    setError(null);
+    if (!canCheck || !token || amount === null) return;
+    let cancelled = false;
+    approvals.check(token.address, target, amount)
+      .then(result => !cancelled && setCheck(result))
+      .catch(reason => !cancelled && setError(describeError(reason)));
+    return () => {
+      cancelled = true;
+    };
+  }, [canCheck, token?.address, target, amount, wallet.address, wallet.chainId, version, approvals.check]);
+
+  const permit = check ? approvals.permits[permitKey(check.token, check.spender)] : undefined;
+  const permitted = !!check && !!permit && permitCovers(permit, check);
+  const ready = !!check && (check.status === 'not-required' || check.status === 'sufficient' || permitted);
+
+  useEffect(() => onReadyChange(ready), [ready, onReadyChange]);
+
+  if (!token || amount === null || (!check && !error) || (ready && !permitted)) return null;
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      setVersion(value => value + 1);
+    } catch (reason) {
+      setError(describeError(reason));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (permitted) {
+    return (
+      <div className="mt-4 flex items-center gap-2 text-sm text-flow-emerald">
+        <Check className="w-4 h-4" />
+        <span>Permit for {formatUnits(amount, token.decimals)} {token.symbol} signed; it is sent with the transaction</span>
+      </div>
+    );
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: 'auto' }}
+      className="mt-4 bg-dark-700/50 rounded-xl p-4"
+    >
+      {check && (
+        <>
+          <p className="text-sm text-gray-300 mb-3">
+            {check.status === 'permit'
+              ? `Sign a permit to let ${TARGET_LABELS[target]} spend ${formatUnits(amount, token.decimals)} ${token.symbol}. No approval transaction needed.`
+              : `Allow ${TARGET_LABELS[target]} to spend your ${token.symbol} before continuing.`}
+          </p>
+          {check.status === 'approve' && (
+            <div className="flex gap-2 mb-3">
+              {(['exact', 'unlimited'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => approvals.setMode(mode)}
+                  className={`flex-1 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    approvals.mode === mode ? 'bg-flow-blue text-white' : 'bg-dark-600 text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {mode === 'exact' ? 'Exact amount' : 'Unlimited'}
+                </button>
+              ))}
+            </div>
+          )}
+          {check.status === 'approve' && approvals.mode === 'unlimited' && (
+            <p className="text-xs text-amber-500 mb-3">
+              An unlimited approval stays in place after this transaction. Revoke it from your wallet when you no longer use {TARGET_LABELS[target]}.
+            </p>
+          )}
+          <button
+            disabled={busy}
+            onClick={() => run(() => check.status === 'permit' ? approvals.signPermit(check) : approvals.approve(check))}
+            className="w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-flow-blue/20 text-flow-blue font-medium hover:bg-flow-blue/30 transition-colors disabled:opacity-60"
+          >
+            {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : check.status === 'permit' ? <KeyRound className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+            {check.status === 'permit' ? `Sign permit for ${token.symbol}` : `Approve ${token.symbol}`}
+          </button>
+          {check.status === 'permit' && (
+            <button
+              disabled={busy}
+              onClick={() => run(() => approvals.approve(check))}
+              className="w-full mt-2 text-xs text-gray-500 hover:text-gray-300"
+            >
+              Send an approval transaction instead
+            </button>
+          )}
+        </>
+      )}
+      {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+    </motion.div>
+  );
+}
@@ -0,0 +1,78 @@
+import { ReactNode } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, Loader2, RefreshCw } from 'lucide-react';
+import { useStore } from '../store/useStore';
+
+interface DeploymentGateProps {
+  children: ReactNode;
+}
+
+const TITLES = {
+  missing: 'Liquid Flow is not deployed on this network',
+  stale: 'The deployment for this network is out of date',
+  error: 'Could not load the deployment for this network',
+};
+
+// Blocks the app on a connected chain until its deployment manifest is verified
+export default function DeploymentGate({ children }: DeploymentGateProps) {
+  const { wallet, deployment } = useStore();
+
+  if (!wallet.isConnected || deployment.status === 'ready' || deployment.status === 'idle') {
+    return <>{children}</>;
+  }
+
+  if (deployment.status === 'loading') {
+    return (
+      <div className="flex items-center justify-center gap-3 py-32 text-gray-400">
+        <Loader2 className="w-5 h-5 animate-spin" />
+        <span>Checking deployment on chain {deployment.chainId}...</span>
+      </div>
+    );
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="max-w-xl mx-auto mt-16 glass rounded-2xl p-8"
+    >
+      <div className="flex items-center gap-3 mb-4">
+        <AlertTriangle className="w-6 h-6 text-amber-500" />
+        <h2 className="text-xl font-semibold text-white">{TITLES[deployment.status]}</h2>
+      </div>
+
+      {deployment.status === 'missing' && (
+        <p className="text-gray-400">
+          No contract manifest exists for chain {deployment.chainId}. Switch to a supported network to continue.
+        </p>
+      )}
+
+      {deployment.status === 'stale' && (
+        <ul className="space-y-2">
+          {deployment.issues.map((issue) => (
+            <li
+              key={`${issue.kind}-${issue.contract ?? ''}`}
+              className="p-3 rounded-xl bg-amber-500/10 border border-amber-500/20 text-sm text-amber-500"
+            >
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {deployment.status === 'error' && (
+        <div className="p-3 rounded-xl bg-red-500/10 border border-red-500/20 text-sm text-red-400">
+          {deployment.error}
+        </div>
+      )}
+
+      <button
+        onClick={() => deployment.load(deployment.chainId!)}
+        className="mt-6 flex items-center gap-2 px-4 py-2 rounded-xl glass hover:bg-white/10 text-sm text-gray-300 transition-colors"
+      >
+        <RefreshCw className="w-4 h-4" />
+        Check again
+      </button>
+    </motion.div>
+  );
+}
@@ -0,0 +1,11 @@
+import { AlertCircle } from 'lucide-react';
+
+// Positions and $LF balances are only read through scripts/indexer.ts
+export default function IndexerNotice({ what }: { what: string }) {
+  return (
+    <div className="flex items-center gap-2 bg-amber-500/10 border border-amber-500/20 rounded-xl p-3 text-sm text-amber-500">
+      <AlertCircle className="w-4 h-4 flex-shrink-0" />
+      <span>Indexer not configured: set VITE_INDEXER_URL to see your {what}.</span>
+    </div>
+  );
+}
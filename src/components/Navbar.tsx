@@ -9,14 +9,17 @@ import {
   BarChart3,
   Wallet,
   ChevronDown,
-  ExternalLink
+  ExternalLink,
+  ListChecks
 } from 'lucide-react';
 import { useStore } from '../store/useStore';
+import TransactionHistory from './TransactionHistory';
 import { useState } from 'react';
 
 const navItems = [
   { path: '/', label: 'Dashboard', icon: BarChart3 },
   { path: '/swap', label: 'Swap', icon: ArrowLeftRight },
+  { path: '/intents', label: 'Intents', icon: ListChecks },
   { path: '/provide', label: 'Provide', icon: PlusCircle },
   { path: '/tokenomics', label: '$LF', icon: Coins },
   { path: '/governance', label: 'Governance', icon: Vote },
@@ -133,28 +136,64 @@ export default function Navbar() {
               </div>
             )}
 
+            {/* Transaction history */}
+            {wallet.isConnected && <TransactionHistory />}
+
             {/* Wallet button */}
-            {wallet.isConnected ? (
-              <motion.button
-                onClick={wallet.disconnect}
-                className="flex items-center gap-2 px-4 py-2 rounded-xl bg-flow-gradient text-white font-medium text-sm btn-glow"
-                whileHover={{ scale: 1.02 }}
-                whileTap={{ scale: 0.98 }}
-              >
-                <Wallet className="w-4 h-4" />
-                <span>{formatAddress(wallet.address!)}</span>
-              </motion.button>
-            ) : (
-              <motion.button
-                onClick={wallet.connect}
-                className="flex items-center gap-2 px-4 py-2 rounded-xl bg-flow-gradient text-white font-medium text-sm btn-glow"
-                whileHover={{ scale: 1.02 }}
-                whileTap={{ scale: 0.98 }}
-              >
-                <Wallet className="w-4 h-4" />
-                <span>Connect Wallet</span>
-              </motion.button>
-            )}
+            <div className="relative">
+              {wallet.isConnected ? (
+                <motion.button
+                  onClick={wallet.disconnect}
+                  title={wallet.walletName ?? undefined}
+                  className="flex items-center gap-2 px-4 py-2 rounded-xl bg-flow-gradient text-white font-medium text-sm btn-glow"
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                >
+                  <Wallet className="w-4 h-4" />
+                  <span>{formatAddress(wallet.address!)}</span>
+                </motion.button>
+              ) : (
+                <motion.button
+                  onClick={wallet.connect}
+                  className="flex items-center gap-2 px-4 py-2 rounded-xl bg-flow-gradient text-white font-medium text-sm btn-glow"
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                >
+                  <Wallet className="w-4 h-4" />
+                  <span>Connect Wallet</span>
+                </motion.button>
+              )}
+
+              {/* Wallet picker when several wallets announced themselves */}
+              {wallet.choices.length > 0 && (
+                <motion.div
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="absolute right-0 mt-2 w-56 py-2 glass rounded-xl shadow-xl"
+                >
+                  {wallet.choices.map((choice) => (
+                    <button
+                      key={choice.uuid}
+                      onClick={() => wallet.connectWith(choice.uuid)}
+                      className="w-full flex items-center gap-3 px-4 py-2 text-gray-300 hover:bg-white/10 transition-colors"
+                    >
+                      {choice.icon ? (
+                        <img src={choice.icon} alt="" className="w-5 h-5 rounded" />
+                      ) : (
+                        <Wallet className="w-5 h-5 text-gray-400" />
+                      )}
+                      <span className="text-sm">{choice.name}</span>
+                    </button>
+                  ))}
+                </motion.div>
+              )}
+
+              {wallet.error && wallet.choices.length === 0 && (
+                <div className="absolute right-0 mt-2 w-64 p-3 rounded-xl bg-red-500/10 border border-red-500/20 text-xs text-red-400">
+                  {wallet.error}
+                </div>
+              )}
+            </div>
           </div>
         </div>
       </div>
@@ -1,5 +1,7 @@
 import { motion } from 'framer-motion';
-import { ExternalLink, TrendingUp, TrendingDown, Activity } from 'lucide-react';
+import { ExternalLink, TrendingUp, TrendingDown, Activity, Loader2, LogOut } from 'lucide-react';
+import { useStore } from '../store/useStore';
+import { ExecuteDockButton, useDockAction } from './WithdrawalQueue';
 
 interface Position {
   id: string;
@@ -29,7 +31,15 @@ const chainIcons: { [key: string]: string } = {
   polygon: '🟣',
 };
 
+const formatAmount = (amount: string) => parseFloat(amount).toLocaleString(undefined, { maximumFractionDigits: 4 });
+
 export default function PositionCard({ position, index }: PositionCardProps) {
+  const { withdrawals } = useStore();
+  const { busy, error, run } = useDockAction();
+  const tokens = [position.token0.address, position.token1.address];
+  // A requested dock replaces the request button until it is executed
+  const withdrawal = withdrawals.pending.find(candidate => candidate.strategyHash === position.strategyHash);
+
   return (
     <motion.div
       initial={{ opacity: 0, x: -20 }}
@@ -60,7 +70,7 @@ export default function PositionCard({ position, index }: PositionCardProps) {
           </div>
         </div>
         <div className="text-right">
-          <p className="text-lg font-bold text-white">${position.valueUSD.toLocaleString()}</p>
+          <p className="text-lg font-bold text-white">${position.valueUSD.toLocaleString(undefined, { maximumFractionDigits: 0 })}</p>
           <p className="text-sm text-gray-400">Total Value</p>
         </div>
       </div>
@@ -68,8 +78,8 @@ export default function PositionCard({ position, index }: PositionCardProps) {
       <div className="grid grid-cols-2 gap-4 mb-4">
         <div className="bg-dark-700/50 rounded-xl p-3">
           <p className="text-xs text-gray-400 mb-1">Token Amounts</p>
-          <p className="text-sm text-white">{position.token0.amount} {position.token0.symbol}</p>
-          <p className="text-sm text-white">{position.token1.amount} {position.token1.symbol}</p>
+          <p className="text-sm text-white">{formatAmount(position.token0.amount)} {position.token0.symbol}</p>
+          <p className="text-sm text-white">{formatAmount(position.token1.amount)} {position.token1.symbol}</p>
         </div>
         <div className="bg-dark-700/50 rounded-xl p-3">
           <p className="text-xs text-gray-400 mb-1">Fees Earned</p>
@@ -102,6 +112,31 @@ export default function PositionCard({ position, index }: PositionCardProps) {
           <ExternalLink className="w-3 h-3" />
         </button>
       </div>
+
+      <div className="flex items-center justify-end gap-2 mt-4">
+        {withdrawals.paused && withdrawals.isOwner && (
+          <button
+            onClick={() => run(() => withdrawals.emergencyDock(position.strategyHash, tokens))}
+            disabled={busy}
+            className="px-3 py-1.5 rounded-lg bg-red-500/10 text-red-400 text-sm font-medium hover:bg-red-500/20 transition-colors disabled:opacity-60"
+          >
+            Emergency Dock
+          </button>
+        )}
+        {withdrawal ? (
+          <ExecuteDockButton withdrawal={withdrawal} onRun={run} busy={busy} />
+        ) : (
+          <button
+            onClick={() => run(() => withdrawals.requestDock(position.strategyHash, tokens))}
+            disabled={busy}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-dark-700/50 text-gray-300 text-sm font-medium hover:text-white transition-colors disabled:opacity-60"
+          >
+            {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <LogOut className="w-4 h-4" />}
+            <span>Request Dock</span>
+          </button>
+        )}
+      </div>
+      {error && <p className="mt-2 text-sm text-red-400 text-right">{error}</p>}
     </motion.div>
   );
 }
@@ -0,0 +1,221 @@
+import { useState } from 'react';
+import { parseUnits } from 'ethers';
+import { ArrowRight, CheckCircle, Plus, Trash2, XCircle } from 'lucide-react';
+import TokenSelect from './TokenSelect';
+import { ActionDiff, ForkPreview, GovernanceCall, callName } from '../lib/governanceActions';
+
+type CallKind = GovernanceCall['method'];
+
+const CALL_KINDS: { method: CallKind; label: string }[] = [
+  { method: 'setProtocolFee', label: 'Protocol fee' },
+  { method: 'setBatchDuration', label: 'Batch duration' },
+  { method: 'addFeeToken', label: 'Add fee token' },
+  { method: 'setRewardConfig', label: 'Reward config' },
+];
+
+const inputClass = 'w-full bg-dark-700/50 rounded-xl px-3 py-2 text-sm text-white placeholder-gray-500 outline-none';
+
+// Whole hundredths from a decimal such as "12.5"
+const toHundredths = (value: string, name: string) => {
+  const parsed = Number(value);
+  if (!value.trim() || !Number.isFinite(parsed) || parsed < 0) throw new Error(`Enter ${name}`);
+  return BigInt(Math.round(parsed * 100));
+};
+
+// Builds a typed admin call from the form, in the units people think in
+export function ActionBuilder({ onAdd }: { onAdd: (call: GovernanceCall) => void }) {
+  const [method, setMethod] = useState<CallKind>('setProtocolFee');
+  const [fields, setFields] = useState<Record<string, string>>({});
+  const [token, setToken] = useState<{ address: string; symbol: string } | null>(null);
+  const [choosingToken, setChoosingToken] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const field = (name: string, placeholder: string) => (
+    <input
+      value={fields[name] ?? ''}
+      onChange={(e) => setFields({ ...fields, [name]: e.target.value })}
+      placeholder={placeholder}
+      className={inputClass}
+    />
+  );
+
+  const build = (): GovernanceCall => {
+    switch (method) {
+      case 'setProtocolFee':
+        return { contract: 'LiquidFlowCore', method, feeBps: toHundredths(fields.fee ?? '', 'a fee') };
+      case 'setBatchDuration': {
+        const seconds = fields.duration ?? '';
+        if (!/^\d+$/.test(seconds.trim())) throw new Error('Enter a duration in whole seconds');
+        return { contract: 'BatchProcessor', method, duration: BigInt(seconds.trim()) };
+      }
+      case 'addFeeToken':
+        if (!token) throw new Error('Select a token');
+        return { contract: 'FeeDistributor', method, token: token.address };
+      case 'setRewardConfig': {
+        let baseEmissionRate: bigint;
+        try {
+          baseEmissionRate = parseUnits((fields.emission ?? '').trim(), 18);
+        } catch {
+          throw new Error('Enter a base emission in LF per second');
+        }
+        return {
+          contract: 'RewardsController',
+          method,
+          baseEmissionRate,
+          ilCompensationRate: toHundredths(fields.il ?? '', 'an IL compensation multiplier'),
+          loyaltyMultiplier: toHundredths(fields.loyalty ?? '', 'a loyalty bonus'),
+          maxBoost: toHundredths(fields.boost ?? '', 'a max boost'),
+        };
+      }
+    }
+  };
+
+  const add = () => {
+    try {
+      onAdd(build());
+      setFields({});
+      setToken(null);
+      setError(null);
+    } catch (reason) {
+      setError((reason as Error).message);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        {CALL_KINDS.map(kind => (
+          <button
+            key={kind.method}
+            onClick={() => {
+              setMethod(kind.method);
+              setError(null);
+            }}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+              method === kind.method ? 'bg-flow-purple/20 text-flow-purple' : 'bg-dark-700/50 text-gray-400 hover:text-white'
+            }`}
+          >
+            {kind.label}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <div className="flex-1 grid grid-cols-2 gap-2">
+          {method === 'setProtocolFee' && field('fee', 'Fee, % of LP fees (max 20)')}
+          {method === 'setBatchDuration' && field('duration', 'Seconds (max 180)')}
+          {method === 'addFeeToken' && (
+            <button onClick={() => setChoosingToken(true)} className={`${inputClass} text-left`}>
+              {token ? token.symbol : 'Select token'}
+            </button>
+          )}
+          {method === 'setRewardConfig' && (
+            <>
+              {field('emission', 'Base emission, LF/s per $1000')}
+              {field('il', 'IL compensation, e.g. 1.5x')}
+              {field('loyalty', 'Loyalty bonus, % per day')}
+              {field('boost', 'Max vebLF boost, e.g. 2.5x')}
+            </>
+          )}
+        </div>
+        <button
+          onClick={add}
+          className="flex items-center gap-1 px-3 py-2 rounded-xl bg-dark-700/50 text-gray-300 text-sm font-medium hover:text-white transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add</span>
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {choosingToken && (
+        <TokenSelect
+          onSelect={(selected) => setToken({ address: selected.address, symbol: selected.symbol })}
+          onClose={() => setChoosingToken(false)}
+        />
+      )}
+    </div>
+  );
+}
+
+export function CallList({ calls, onRemove }: { calls: GovernanceCall[]; onRemove: (index: number) => void }) {
+  return (
+    <div className="space-y-1">
+      {calls.map((call, index) => (
+        <div key={index} className="flex items-center justify-between bg-dark-700/50 rounded-lg px-3 py-2 text-sm">
+          <span className="font-mono text-gray-300">{callName(call)}</span>
+          <button onClick={() => onRemove(index)} className="text-gray-500 hover:text-red-400 transition-colors">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ChangeRow({ label, from, to, changed }: { label: string; from: string; to: string; changed: boolean }) {
+  return (
+    <div className="flex items-center justify-between gap-4 text-sm">
+      <span className="text-gray-400">{label}</span>
+      <span className="flex items-center gap-2 text-right">
+        <span className={changed ? 'text-gray-500 line-through' : 'text-gray-300'}>{from}</span>
+        {changed && (
+          <>
+            <ArrowRight className="w-3 h-3 text-gray-500" />
+            <span className="text-white font-medium">{to}</span>
+          </>
+        )}
+      </span>
+    </div>
+  );
+}
+
+// Current values against the proposed ones, per action
+export function ActionDiffList({ diffs }: { diffs: ActionDiff[] }) {
+  return (
+    <div className="space-y-2">
+      {diffs.map(({ call, changes }, index) => (
+        <div key={index} className="bg-dark-700/50 rounded-xl p-3 space-y-1">
+          <p className="text-xs font-mono text-gray-500">{index + 1}. {callName(call)}</p>
+          {changes.map(change => (
+            <ChangeRow key={change.label} label={change.label} from={change.current} to={change.proposed} changed={change.current !== change.proposed} />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// The state a passed proposal left on the fork, action by action
+export function ForkPreviewResult({ preview }: { preview: ForkPreview }) {
+  return (
+    <div className="space-y-2">
+      <p className={`flex items-center gap-2 text-sm ${preview.succeeded ? 'text-flow-emerald' : 'text-amber-500'}`}>
+        {preview.succeeded ? <CheckCircle className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+        <span>
+          {preview.succeeded
+            ? `Every action ran on a fork of block ${preview.blockNumber} and left the values as proposed`
+            : `Running on a fork of block ${preview.blockNumber} did not leave the values as proposed`}
+        </span>
+      </p>
+      {preview.actions.map(({ call, status, error, gasUsed, changes }, index) => (
+        <div key={index} className="bg-dark-700/50 rounded-xl p-3 space-y-1">
+          <p className="flex items-center justify-between text-xs font-mono text-gray-500">
+            <span>{index + 1}. {callName(call)}</span>
+            <span className={status === 'executed' ? 'text-flow-emerald' : status === 'reverted' ? 'text-red-400' : ''}>
+              {status}{gasUsed !== undefined && ` · ${gasUsed.toLocaleString()} gas`}
+            </span>
+          </p>
+          {changes.map(change => (
+            <ChangeRow
+              key={change.label}
+              label={change.label}
+              from={change.before}
+              to={change.after ?? change.proposed}
+              changed={change.after !== null && change.after !== change.before}
+            />
+          ))}
+          {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useEffect, useState } from 'react';
+import { formatUnits, isAddress } from 'ethers';
+import { motion } from 'framer-motion';
+import { AlertTriangle, Loader2, Search, Star, Trash2, X } from 'lucide-react';
+import { useStore } from '../store/useStore';
+import { RegistryToken, searchTokens } from '../lib/tokenList';
+
+interface TokenSelectProps {
+  // Token picked on the other side, not selectable here
+  exclude?: string;
+  onSelect: (token: RegistryToken) => void;
+  onClose: () => void;
+}
+
+export function TokenIcon({ token, className = 'w-6 h-6' }: { token: Pick<RegistryToken, 'symbol' | 'logoURI'>; className?: string }) {
+  const [failed, setFailed] = useState(false);
+  if (token.logoURI && !failed) {
+    return <img src={token.logoURI} alt="" className={`${className} rounded-full`} onError={() => setFailed(true)} />;
+  }
+  return (
+    <span className={`${className} rounded-full bg-dark-500 flex items-center justify-center text-xs font-bold text-gray-300`}>
+      {token.symbol.slice(0, 1)}
+    </span>
+  );
+}
+
+export function formatBalance(balance: bigint | undefined, decimals: number): string {
+  if (balance === undefined) return '-';
+  return Number(formatUnits(balance, decimals)).toLocaleString(undefined, { maximumSignificantDigits: 6 });
+}
+
+export default function TokenSelect({ exclude, onSelect, onClose }: TokenSelectProps) {
+  const { tokenList } = useStore();
+  const [query, setQuery] = useState('');
+  const [candidate, setCandidate] = useState<RegistryToken | null>(null);
+  const [lookupError, setLookupError] = useState<string | null>(null);
+  const [looking, setLooking] = useState(false);
+
+  const results = searchTokens(tokenList.tokens, query, tokenList.favorites);
+  const favorites = new Set(tokenList.favorites.map(address => address.toLowerCase()));
+
+  // A pasted address that is not in the registry is looked up on chain
+  useEffect(() => {
+    setCandidate(null);
+    setLookupError(null);
+    const address = query.trim();
+    if (!isAddress(address) || results.length > 0) return;
+    let cancelled = false;
+    setLooking(true);
+    tokenList.lookup(address)
+      .then(token => !cancelled && setCandidate(token))
+      .catch(error => !cancelled && setLookupError((error as Error).message))
+      .finally(() => !cancelled && setLooking(false));
+    return () => {
+      cancelled = true;
+      setLooking(false);
+    };
+  }, [query, results.length, tokenList.lookup]);
+
+  const select = (token: RegistryToken) => {
+    onSelect(token);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="glass rounded-3xl p-6 w-full max-w-md max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-white">Select a token</h2>
+          <button onClick={onClose} className="p-1 rounded-lg text-gray-400 hover:text-white hover:bg-white/10">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2 px-3 py-2 rounded-xl bg-dark-700/50 mb-4">
+          <Search className="w-4 h-4 text-gray-500" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search name or paste address"
+            className="flex-1 bg-transparent text-sm text-white outline-none placeholder-gray-600"
+          />
+        </div>
+
+        {tokenList.errors.map((error) => (
+          <p key={error} className="mb-2 text-xs text-amber-500">{error}</p>
+        ))}
+
+        <div className="flex-1 overflow-y-auto -mx-2">
+          {results.map((token) => {
+            const disabled = !!exclude && token.address.toLowerCase() === exclude.toLowerCase();
+            return (
+              <div
+                key={token.address}
+                className={`flex items-center gap-3 px-2 py-2 rounded-xl ${disabled ? 'opacity-40' : 'hover:bg-white/5 cursor-pointer'}`}
+                onClick={() => !disabled && select(token)}
+              >
+                <TokenIcon token={token} className="w-8 h-8" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-white">{token.symbol}</span>
+                    {!token.verified && (
+                      <span className="px-1.5 py-0.5 rounded text-[10px] font-medium bg-amber-500/10 text-amber-500">Unverified</span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 truncate">{token.name}</p>
+                </div>
+                <span className="text-sm text-gray-400">{formatBalance(tokenList.balances[token.address], token.decimals)}</span>
+                {token.source === 'imported' && (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); tokenList.removeImported(token.address); }}
+                    className="p-1 text-gray-500 hover:text-red-400"
+                    title="Remove imported token"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+                <button
+                  onClick={(e) => { e.stopPropagation(); tokenList.toggleFavorite(token.address); }}
+                  className="p-1"
+                  title="Favorite"
+                >
+                  <Star className={`w-4 h-4 ${favorites.has(token.address.toLowerCase()) ? 'text-amber-400 fill-amber-400' : 'text-gray-600 hover:text-gray-400'}`} />
+                </button>
+              </div>
+            );
+          })}
+
+          {results.length === 0 && !candidate && (
+            <div className="px-2 py-6 text-center text-sm text-gray-500">
+              {looking ? (
+                <span className="flex items-center justify-center gap-2"><Loader2 className="w-4 h-4 animate-spin" /> Reading token</span>
+              ) : lookupError ?? (tokenList.status === 'loading' ? 'Loading tokens...' : 'No tokens found. Paste an address to import one.')}
+            </div>
+          )}
+
+          {candidate && (
+            <div className="mx-2 mt-2 p-4 rounded-xl bg-amber-500/10 border border-amber-500/20">
+              <div className="flex items-center gap-3 mb-3">
+                <TokenIcon token={candidate} className="w-8 h-8" />
+                <div>
+                  <p className="font-medium text-white">{candidate.symbol} <span className="text-gray-400 font-normal">· {candidate.decimals} decimals</span></p>
+                  <p className="text-xs text-gray-400">{candidate.name}</p>
+                </div>
+              </div>
+              <div className="flex items-start gap-2 text-xs text-amber-500 mb-3">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                <span>
+                  This token is not on any token list. Anyone can deploy a token with any name and symbol, including
+                  copies of real ones. Check the address before trading it.
+                </span>
+              </div>
+              <p className="text-xs text-gray-500 break-all mb-3">{candidate.address}</p>
+              <button
+                onClick={() => {
+                  tokenList.importToken(candidate);
+                  select(candidate);
+                }}
+                className="w-full py-2 rounded-xl bg-amber-500/20 text-amber-500 font-medium hover:bg-amber-500/30 transition-colors"
+              >
+                Import anyway
+              </button>
+            </div>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Check, Clock, Loader2, Rocket, X, XCircle } from 'lucide-react';
+import { useStore } from '../store/useStore';
+import { DEFAULT_CONFIRMATIONS, TrackedTransaction, TransactionStatus } from '../lib/transactions';
+import { describeError } from '../lib/errors';
+
+const STATUS_LABELS: Record<TransactionStatus, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  failed: 'Failed',
+  replaced: 'Replaced',
+  cancelled: 'Cancelled',
+  dropped: 'Dropped',
+};
+
+const STATUS_COLORS: Record<TransactionStatus, string> = {
+  pending: 'text-flow-blue',
+  confirmed: 'text-flow-emerald',
+  failed: 'text-red-400',
+  replaced: 'text-amber-500',
+  cancelled: 'text-gray-400',
+  dropped: 'text-gray-400',
+};
+
+const formatHash = (hash: string) => `${hash.slice(0, 8)}...${hash.slice(-6)}`;
+
+function StatusIcon({ record }: { record: TrackedTransaction }) {
+  if (record.status === 'pending') return <Loader2 className="w-4 h-4 animate-spin text-flow-blue" />;
+  if (record.status === 'confirmed') return <Check className="w-4 h-4 text-flow-emerald" />;
+  if (record.status === 'failed') return <XCircle className="w-4 h-4 text-red-400" />;
+  return <X className="w-4 h-4 text-gray-400" />;
+}
+
+// Navbar menu with the connected account's recent transactions on this chain
+export default function TransactionHistory() {
+  const { transactions } = useStore();
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const pending = transactions.records.filter(record => record.status === 'pending').length;
+
+  const run = async (hash: string, action: () => Promise<void>) => {
+    setBusy(hash);
+    setError(null);
+    try {
+      await action();
+    } catch (reason) {
+      setError(describeError(reason));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        title="Recent transactions"
+        className="flex items-center gap-2 px-3 py-2 rounded-lg glass hover:bg-white/10 transition-colors"
+      >
+        {pending > 0 ? <Loader2 className="w-4 h-4 animate-spin text-flow-blue" /> : <Clock className="w-4 h-4 text-gray-400" />}
+        {pending > 0 && <span className="text-sm text-flow-blue">{pending}</span>}
+      </button>
+
+      {open && (
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="absolute right-0 mt-2 w-80 glass rounded-xl shadow-xl"
+        >
+          <div className="flex items-center justify-between px-4 py-3 border-b border-white/5">
+            <span className="text-sm font-medium text-white">Recent transactions</span>
+            {transactions.records.some(record => record.status !== 'pending') && (
+              <button onClick={transactions.clear} className="text-xs text-gray-500 hover:text-gray-300">
+                Clear
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto py-2">
+            {transactions.records.length === 0 && (
+              <p className="px-4 py-3 text-sm text-gray-500">No transactions yet</p>
+            )}
+            {transactions.records.map((record) => (
+              <div key={record.hash} className="px-4 py-2">
+                <div className="flex items-center gap-2">
+                  <StatusIcon record={record} />
+                  <span className="flex-1 text-sm text-gray-300 truncate">{record.label}</span>
+                  <span className={`text-xs ${STATUS_COLORS[record.status]}`}>
+                    {STATUS_LABELS[record.status]}
+                    {(record.status === 'confirmed' || record.status === 'failed') && record.confirmations < DEFAULT_CONFIRMATIONS
+                      && ` ${record.confirmations}/${DEFAULT_CONFIRMATIONS}`}
+                  </span>
+                </div>
+                <p className="ml-6 text-xs text-gray-500">
+                  {formatHash(record.hash)}
+                  {record.previousHashes && ' · sped up'}
+                  {record.replacedBy && ` · by ${formatHash(record.replacedBy)}`}
+                </p>
+                {record.error && <p className="ml-6 mt-1 text-xs text-red-400">{record.error}</p>}
+                {record.status === 'pending' && (
+                  <div className="ml-6 mt-2 flex gap-2">
+                    <button
+                      disabled={busy !== null}
+                      onClick={() => run(record.hash, () => transactions.speedUp(record.hash))}
+                      className="flex items-center gap-1 px-2 py-1 rounded-lg bg-flow-blue/20 text-xs text-flow-blue hover:bg-flow-blue/30 disabled:opacity-60"
+                    >
+                      {busy === record.hash ? <Loader2 className="w-3 h-3 animate-spin" /> : <Rocket className="w-3 h-3" />}
+                      Speed up
+                    </button>
+                    <button
+                      disabled={busy !== null}
+                      onClick={() => run(record.hash, () => transactions.cancel(record.hash))}
+                      className="px-2 py-1 rounded-lg bg-dark-600 text-xs text-gray-400 hover:text-white disabled:opacity-60"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {error && <p className="px-4 pb-3 text-xs text-red-400">{error}</p>}
+        </motion.div>
+      )}
+    </div>
+  );
+}
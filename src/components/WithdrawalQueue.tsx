@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertCircle, Clock, Loader2, LogOut, ShieldAlert } from 'lucide-react';
+import { useStore } from '../store/useStore';
+import { PendingWithdrawal, secondsUntilReady } from '../lib/withdrawals';
+import { describeError } from '../lib/errors';
+
+export function formatCountdown(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}h ${String(minutes).padStart(2, '0')}m` : `${minutes}:${rest}`;
+}
+
+// Chain time, ticking every second from the offset of the last queue read
+export function useChainNow(): number {
+  const { withdrawals } = useStore();
+  const [now, setNow] = useState(() => Date.now() / 1000);
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now() / 1000), 1000);
+    return () => clearInterval(timer);
+  }, []);
+  return Math.floor(now) + withdrawals.clockOffset;
+}
+
+// Runs a dock action, keeping its error next to the button
+export function useDockAction() {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (reason) {
+      setError(describeError(reason));
+    } finally {
+      setBusy(false);
+    }
+  };
+  return { busy, error, run };
+}
+
+// Counts down to the end of the withdrawal delay, then executes the dock in one click
+export function ExecuteDockButton({ withdrawal, onRun, busy }: {
+  withdrawal: PendingWithdrawal;
+  onRun: (action: () => Promise<void>) => void;
+  busy: boolean;
+}) {
+  const { withdrawals } = useStore();
+  const remaining = secondsUntilReady(withdrawal, useChainNow());
+
+  if (remaining > 0) {
+    return (
+      <span className="flex items-center gap-1 text-sm text-amber-500">
+        <Clock className="w-4 h-4" />
+        <span>Dock ready in {formatCountdown(remaining)}</span>
+      </span>
+    );
+  }
+  return (
+    <button
+      onClick={() => onRun(() => withdrawals.executeDock(withdrawal.requestId))}
+      disabled={busy}
+      className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-flow-emerald/20 text-flow-emerald text-sm font-medium hover:bg-flow-emerald/30 transition-colors disabled:opacity-60"
+    >
+      {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <LogOut className="w-4 h-4" />}
+      <span>Execute Dock</span>
+    </button>
+  );
+}
+
+function WithdrawalRow({ withdrawal }: { withdrawal: PendingWithdrawal }) {
+  const { tokenList, withdrawals } = useStore();
+  const { busy, error, run } = useDockAction();
+  const symbol = (address: string) =>
+    tokenList.tokens.find(token => token.address.toLowerCase() === address.toLowerCase())?.symbol ?? `${address.slice(0, 8)}...`;
+
+  return (
+    <div className="bg-dark-700/50 rounded-xl p-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <p className="text-white font-medium">{withdrawal.tokens.map(symbol).join('/')}</p>
+          <p className="text-xs text-gray-500 truncate">
+            Requested {new Date(withdrawal.requestedAt * 1000).toLocaleString()} · {withdrawal.strategyHash.slice(0, 10)}...
+          </p>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          {withdrawals.paused && withdrawals.isOwner && (
+            <button
+              onClick={() => run(() => withdrawals.emergencyDock(withdrawal.strategyHash, withdrawal.tokens))}
+              disabled={busy}
+              className="px-3 py-1.5 rounded-lg bg-red-500/10 text-red-400 text-sm font-medium hover:bg-red-500/20 transition-colors disabled:opacity-60"
+            >
+              Dock Now
+            </button>
+          )}
+          <ExecuteDockButton withdrawal={withdrawal} onRun={run} busy={busy} />
+        </div>
+      </div>
+      {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+    </div>
+  );
+}
+
+// Dock requests of the connected account waiting out the withdrawal delay
+export default function WithdrawalQueue() {
+  const { withdrawals } = useStore();
+  if (withdrawals.pending.length === 0 && !withdrawals.paused && !withdrawals.error) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="glass rounded-2xl p-6 space-y-3"
+    >
+      <h2 className="text-xl font-semibold text-white">Withdrawal Queue</h2>
+      {withdrawals.paused && (
+        <div className="flex items-start gap-2 bg-amber-500/10 border border-amber-500/20 rounded-xl p-3 text-sm text-amber-500">
+          <ShieldAlert className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <span>
+            Liquid Flow is paused, so swaps no longer draw on your positions. Queued docks still go through
+            {withdrawals.isOwner ? '; as the protocol owner you can also dock a position at once.' : '.'}
+          </span>
+        </div>
+      )}
+      {withdrawals.error && (
+        <div className="flex items-center gap-2 bg-red-500/10 border border-red-500/20 rounded-xl p-3 text-sm text-red-400">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{withdrawals.error}</span>
+        </div>
+      )}
+      {withdrawals.pending.map(withdrawal => (
+        <WithdrawalRow key={withdrawal.requestId} withdrawal={withdrawal} />
+      ))}
+      {withdrawals.pending.length > 0 && (
+        <p className="text-xs text-gray-500">
+          A dock waits until the current batch can settle; executing it clears the position's balances.
+        </p>
+      )}
+    </motion.div>
+  );
+}
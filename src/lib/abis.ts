@@ -0,0 +1,290 @@
+// Human-readable ABI fragments for the calls made from TypeScript.
+// Kept minimal and hand-written so the UI does not depend on generated typechain output.
+
+const XYC_STRATEGY = '(address maker, address token0, address token1, uint256 feeBps, bytes32 salt)';
+
+export const AQUA_ABI = [
+  'function rawBalances(address maker, address app, bytes32 strategyHash, address token) view returns (uint248 balance, uint8 tokensCount)',
+  'function ship(address app, bytes strategy, address[] tokens, uint256[] amounts) returns (bytes32)',
+  'function dock(address app, bytes32 strategyHash, address[] tokens)',
+];
+
+export const XYC_SWAP_ABI = [
+  `function swapExactIn(${XYC_STRATEGY} strategy, bool zeroForOne, bool takerUseAquaPush, uint256 amountIn, uint256 amountOutMin, address to, bytes takerData) returns (uint256 amountOut)`,
+  `function swapExactOut(${XYC_STRATEGY} strategy, bool zeroForOne, bool takerUseAquaPush, uint256 amountOut, uint256 amountInMax, address to, bytes takerData) returns (uint256 amountIn)`,
+];
+
+export const SWAP_EXECUTOR_ABI = [
+  'function arbitraryCall(address target, bytes data) returns (bytes result)',
+  'function arbitraryCalls(address[] targets, bytes[] data) returns (bytes[] results)',
+];
+
+const XYK_PARAMS = '(address lp, address token0, address token1, uint256 feeBps, bytes32 salt)';
+
+export const XYK_STRATEGY_ABI = [
+  `function swapExactIn(${XYK_PARAMS} params, bool zeroForOne, uint256 amountIn, uint256 minAmountOut, address recipient) returns (uint256 amountOut)`,
+  `function swapExactOut(${XYK_PARAMS} params, bool zeroForOne, uint256 amountOut, uint256 maxAmountIn, address recipient) returns (uint256 amountIn)`,
+  `function quoteExactIn(${XYK_PARAMS} params, bool zeroForOne, uint256 amountIn) view returns (uint256 amountOut)`,
+  `function quoteExactOut(${XYK_PARAMS} params, bool zeroForOne, uint256 amountOut) view returns (uint256 amountIn)`,
+  `function getReserves(${XYK_PARAMS} params) view returns (uint256 reserve0, uint256 reserve1)`,
+  `function getStrategyHash(${XYK_PARAMS} params) view returns (bytes32)`,
+  'event Swap(address indexed lp, bytes32 indexed strategyHash, address indexed user, address tokenIn, address tokenOut, uint256 amountIn, uint256 amountOut, uint256 fee)',
+];
+
+const SWAP_INTENT = '(bytes32 intentId, address user, address tokenIn, address tokenOut, uint256 amountIn, uint256 minAmountOut, uint256 maxFee, uint8 mevPref, bool allowPartialFill, uint256 deadline, bytes32 commitHash, bool revealed)';
+const BATCH = '(uint256 id, uint256 openTime, uint256 closeTime, uint256 solveDeadline, uint8 status, bytes32[] intentIds, bytes32 winningSolutionHash, address winningSolver)';
+const SOLVER_SOLUTION = '(bytes32 solutionHash, address solver, uint256 batchId, uint256 totalUserSurplus, uint256 solverBid, bytes executionData, uint256 submittedAt)';
+
+export const BATCH_PROCESSOR_ABI = [
+  'function submitIntent(address tokenIn, address tokenOut, uint256 amountIn, uint256 minAmountOut, uint256 maxFee, uint8 mevPref, bool allowPartialFill, uint256 deadline) returns (bytes32 intentId)',
+  'function submitCommittedIntent(bytes32 commitHash) returns (bytes32 intentId)',
+  'function revealIntent(bytes32 intentId, address tokenIn, address tokenOut, uint256 amountIn, uint256 minAmountOut, uint256 maxFee, bool allowPartialFill, uint256 deadline, bytes32 salt)',
+  'function cancelIntent(bytes32 intentId)',
+  'function submitSolution(uint256 batchId, bytes executionData, uint256 totalUserSurplus, uint256 solverBid)',
+  'function closeBatch()',
+  'function executeBatch(bytes32 solutionHash)',
+  `function getCurrentBatch() view returns (${BATCH})`,
+  `function batches(uint256 batchId) view returns (uint256 id, uint256 openTime, uint256 closeTime, uint256 solveDeadline, uint8 status, bytes32 winningSolutionHash, address winningSolver)`,
+  'function getBatchIntents(uint256 batchId) view returns (bytes32[])',
+  `function getIntent(bytes32 intentId) view returns (${SWAP_INTENT})`,
+  `function getSolution(bytes32 solutionHash) view returns (${SOLVER_SOLUTION})`,
+  'function solverWindow() view returns (uint256)',
+  'function batchDuration() view returns (uint256)',
+  'function setBatchDuration(uint256 _duration)',
+  'function owner() view returns (address)',
+  'event BatchOpened(uint256 indexed batchId, uint256 openTime, uint256 closeTime)',
+  'event BatchClosed(uint256 indexed batchId, uint256 intentCount)',
+  'event BatchSettled(uint256 indexed batchId, address indexed solver, uint256 userSurplus)',
+  'event BatchCancelled(uint256 indexed batchId, string reason)',
+  'event IntentSubmitted(bytes32 indexed intentId, uint256 indexed batchId, address indexed user, address tokenIn, address tokenOut, uint256 amountIn)',
+  'event IntentRevealed(bytes32 indexed intentId, address indexed user)',
+  'event IntentCancelled(bytes32 indexed intentId, address indexed user)',
+  'event SolutionSubmitted(bytes32 indexed solutionHash, uint256 indexed batchId, address indexed solver, uint256 userSurplus, uint256 solverBid)',
+  'event SolverSelected(uint256 indexed batchId, address indexed solver, bytes32 solutionHash)',
+];
+
+export const REFERENCE_SOLVER_ABI = [
+  'function register(uint256 stakeAmount)',
+  'function unregister()',
+  'function submitSolution(uint256 batchId, bytes executionData, uint256 totalUserSurplus, uint256 solverBid)',
+  'function sweep(address token, uint256 amount)',
+  'event SolutionExecuted(uint256 indexed batchId, uint256 callCount)',
+];
+
+export const LIQUID_FLOW_ROUTER_ABI = [
+  'function swap(address tokenIn, address tokenOut, uint256 amountIn, uint256 minAmountOut, uint256 deadline) returns (bytes32 intentId)',
+  'function swapWithPermit(address tokenIn, address tokenOut, uint256 amountIn, uint256 minAmountOut, uint256 deadline, uint256 permitDeadline, uint8 v, bytes32 r, bytes32 s) returns (bytes32 intentId)',
+  'function getQuote(address strategy, bytes strategyParams, bool zeroForOne, uint256 amountIn) view returns (uint256 amountOut)',
+  'function cancelIntent(bytes32 intentId)',
+  'function routedIntents(bytes32 intentId) view returns (address user, address tokenIn, uint256 amountIn, uint256 batchId, uint256 deadline)',
+  'event IntentRouted(bytes32 indexed intentId, address indexed user, address tokenIn, uint256 amountIn)',
+  'event IntentRefunded(bytes32 indexed intentId, address indexed user, uint256 amountIn)',
+  'function provideLiquidity(address strategy, bytes strategyData, address[] tokens, uint256[] amounts)',
+  'function provideLiquidityETH(address strategy, bytes strategyData, address[] tokens, uint256[] amounts) payable',
+  'function WETH() view returns (address)',
+];
+
+const BRIDGE_QUOTE = '(uint8 provider, uint256 estimatedTime, uint256 fee, uint256 outputAmount, uint8 securityRating)';
+const BRIDGE_REQUEST = '(bytes32 requestId, address user, uint8 provider, uint256 srcChain, uint256 dstChain, address token, uint256 amount, address recipient, uint256 timestamp, bool completed)';
+
+export const BRIDGE_ROUTER_ABI = [
+  `function getQuotes(uint256 srcChain, uint256 dstChain, address token, uint256 amount) view returns (${BRIDGE_QUOTE}[] quotes)`,
+  'function bridge(uint8 provider, uint256 dstChain, address token, uint256 amount, address recipient) payable returns (bytes32 requestId)',
+  `function getRequest(bytes32 requestId) view returns (${BRIDGE_REQUEST})`,
+  'function protocolFeeBps() view returns (uint256)',
+  'function isChainSupported(uint256 chainId) view returns (bool)',
+  'function isTokenSupported(uint256 chainId, address token) view returns (bool)',
+  'function getAdapter(uint8 provider) view returns ((address adapter, bool isActive, uint256 totalVolume, uint256 successCount, uint256 failCount))',
+  'event BridgeInitiated(bytes32 indexed requestId, address indexed user, uint8 provider, uint256 srcChain, uint256 dstChain, address token, uint256 amount)',
+  'event BridgeCompleted(bytes32 indexed requestId, address indexed user, uint256 outputAmount)',
+  'event BridgeFailed(bytes32 indexed requestId, address indexed user, string reason)',
+];
+
+// Local stand-in for a provider's adapter, driven by the simulated relayer
+export const BRIDGE_ADAPTER_MOCK_ABI = [
+  'function release(bytes32 requestId, address token, address recipient, uint256 amount)',
+  'function confirm(bytes32 requestId, uint256 outputAmount)',
+  'function fail(bytes32 requestId, string reason)',
+  'function released(bytes32 requestId) view returns (uint256)',
+  'event TransferReleased(bytes32 indexed requestId, address token, address recipient, uint256 amount)',
+];
+
+export const ERC20_ABI = [
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+  'function balanceOf(address account) view returns (uint256)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'function transferFrom(address from, address to, uint256 amount) returns (bool)',
+];
+
+// EIP-2612, plus the ERC-5267 domain getter newer implementations expose
+export const ERC20_PERMIT_ABI = [
+  'function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+  'function nonces(address owner) view returns (uint256)',
+  'function DOMAIN_SEPARATOR() view returns (bytes32)',
+  'function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)',
+];
+
+export const LIQUID_FLOW_CORE_ABI = [
+  'function ship(address strategy, bytes strategyData, address[] tokens, uint256[] amounts)',
+  'function requestDock(address strategy, bytes32 strategyHash, address[] tokens)',
+  'function executeDock(bytes32 requestId)',
+  'function emergencyDock(address lp, address strategy, bytes32 strategyHash, address[] tokens)',
+  'function balanceOf(address lp, address strategy, bytes32 strategyHash, address token) view returns (uint256)',
+  'function isStrategyActive(bytes32 strategyHash) view returns (bool)',
+  'function getStrategy(bytes32 strategyHash) view returns (tuple(address strategyContract, bytes32 strategyHash, address lp, bool isActive, uint256 createdAt, uint256 totalVolume, uint256 totalFees))',
+  'function getWithdrawalRequest(bytes32 requestId) view returns (tuple(address lp, address strategy, bytes32 strategyHash, address[] tokens, uint256 requestedAt, bool executed))',
+  'function MIN_WITHDRAWAL_DELAY() view returns (uint256)',
+  'function paused() view returns (bool)',
+  'function owner() view returns (address)',
+  'function protocolFeeBps() view returns (uint256)',
+  'function setProtocolFee(uint256 newFeeBps)',
+  'event StrategyShipped(address indexed lp, address indexed strategy, bytes32 indexed strategyHash, address[] tokens, uint256[] amounts)',
+  'event StrategyDocked(address indexed lp, address indexed strategy, bytes32 indexed strategyHash)',
+  'event LiquidityPulled(address indexed lp, bytes32 indexed strategyHash, address token, uint256 amount, address recipient)',
+  'event LiquidityPushed(address indexed lp, bytes32 indexed strategyHash, address token, uint256 amount, address from)',
+  'event WithdrawalRequested(bytes32 indexed requestId, address indexed lp, address strategy, bytes32 strategyHash)',
+  'event WithdrawalExecuted(bytes32 indexed requestId, address indexed lp)',
+  'event ProtocolFeeUpdated(uint256 oldFee, uint256 newFee)',
+];
+
+export const FEE_DISTRIBUTOR_ABI = [
+  'function getFeeTokens() view returns (address[])',
+  'function getTotalClaimable(address user, address token) view returns (uint256 total)',
+  'function isFeeToken(address token) view returns (bool)',
+  'function addFeeToken(address token)',
+  'function owner() view returns (address)',
+  'event FeesClaimed(address indexed user, uint256 indexed epoch, address indexed token, uint256 amount)',
+];
+
+export const REWARDS_CONTROLLER_ABI = [
+  'function getPendingRewards(address lp, bytes32 strategyHash) view returns (uint256)',
+  'function config() view returns (uint256 baseEmissionRate, uint256 ilCompensationRate, uint256 loyaltyMultiplier, uint256 maxBoost)',
+  'function setRewardConfig(uint256 baseEmissionRate, uint256 ilCompensationRate, uint256 loyaltyMultiplier, uint256 maxBoost)',
+  'function owner() view returns (address)',
+  'event RewardsClaimed(address indexed lp, uint256 baseReward, uint256 ilCompensation, uint256 loyaltyBonus, uint256 total)',
+];
+
+export const VOTING_ESCROW_ABI = [
+  'function balanceOf(address account) view returns (uint256)',
+  'function balanceOfAt(address account, uint256 timestamp) view returns (uint256)',
+  'function getLock(address account) view returns (tuple(uint256 amount, uint256 end, uint256 maxVebLF, uint256 start))',
+];
+
+// Custom errors of every contract the app talks to, including the OpenZeppelin
+// ones they inherit, so any revert can be decoded whichever contract raised it
+export const CONTRACT_ERRORS_ABI = [
+  // LiquidFlowCore
+  'error ArrayLengthMismatch()',
+  'error InsufficientBalance()',
+  'error InvalidAmount()',
+  'error InvalidStrategy()',
+  'error StrategyNotActive()',
+  'error StrategyNotApproved()',
+  'error UnauthorizedCaller()',
+  'error WithdrawalAlreadyExecuted()',
+  'error WithdrawalNotReady()',
+  'error ZeroAddress()',
+  // BatchProcessor
+  'error BatchNotOpen()',
+  'error BatchNotSolving()',
+  'error DeadlinePassed()',
+  'error IntentAlreadyExists()',
+  'error IntentExpired()',
+  'error InvalidCommitment()',
+  'error InvalidSolution()',
+  'error NotIntentOwner()',
+  'error SolverNotRegistered()',
+  // SolverRegistry
+  'error InsufficientStake()',
+  'error ReputationTooLow()',
+  'error SolverAlreadyRegistered()',
+  'error SolverNotActive()',
+  // LiquidFlowRouter (also NotIntentOwner, as above)
+  'error DeadlineExpired()',
+  'error InsufficientOutput()',
+  'error IntentBeingSolved()',
+  'error InvalidPath()',
+  // ReferenceSolver
+  'error CallFailed(uint256 index, bytes reason)',
+  'error OnlyBatchProcessor()',
+  'error PayoutBelowMinimum(bytes32 intentId)',
+  'error PullNotCovered(uint256 index)',
+  // XYKStrategy, XYCSwap
+  'error IdenticalTokens()',
+  'error InsufficientInputAmount(uint256 actual, uint256 maximum)',
+  'error InsufficientOutputAmount(uint256 actual, uint256 minimum)',
+  'error InvalidTokenPair()',
+  // StrategyFactory
+  'error AlreadyVerified()',
+  'error InsufficientFee()',
+  'error StrategyNotFound()',
+  'error TemplateNotActive()',
+  // SwapExecutor
+  'error LengthMismatch()',
+  'error OnlyAqua()',
+  // LFToken, BurnedLF
+  'error BurnedLFNotSet()',
+  'error ExceedsMaxSupply()',
+  'error NotLFToken()',
+  'error NotMinter()',
+  'error NotVotingEscrow()',
+  'error TransferNotAllowed()',
+  'error ZeroAmount()',
+  // VotingEscrow
+  'error InvalidLockTime()',
+  'error LockExists()',
+  'error LockExpired()',
+  'error LockNotExpired()',
+  'error LockTooLong()',
+  'error LockTooShort()',
+  'error NoLockFound()',
+  // FeeDistributor
+  'error AlreadyClaimed()',
+  'error EpochNotEnded()',
+  'error InvalidToken()',
+  'error NoClaimableAmount()',
+  // RewardsController
+  'error InsufficientBudget()',
+  'error NoPosition()',
+  // BridgeRouter
+  'error AdapterNotActive()',
+  'error BridgeCallFailed()',
+  'error InsufficientAmount()',
+  'error InvalidProvider()',
+  'error UnsupportedChain()',
+  'error UnsupportedToken()',
+  // OpenZeppelin
+  'error ECDSAInvalidSignature()',
+  'error ECDSAInvalidSignatureLength(uint256 length)',
+  'error ECDSAInvalidSignatureS(bytes32 s)',
+  'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+  'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+  'error ERC20InvalidApprover(address approver)',
+  'error ERC20InvalidReceiver(address receiver)',
+  'error ERC20InvalidSender(address sender)',
+  'error ERC20InvalidSpender(address spender)',
+  'error ERC2612ExpiredSignature(uint256 deadline)',
+  'error ERC2612InvalidSigner(address signer, address owner)',
+  'error ERC5267ExtensionsNotSupported()',
+  'error EnforcedPause()',
+  'error ExpectedPause()',
+  'error InvalidAccountNonce(address account, uint256 currentNonce)',
+  'error InvalidShortString()',
+  'error OwnableInvalidOwner(address owner)',
+  'error OwnableUnauthorizedAccount(address account)',
+  'error ReentrancyGuardReentrantCall()',
+  'error SafeCastOverflowedIntDowncast(uint8 bits, int256 value)',
+  'error SafeCastOverflowedIntToUint(int256 value)',
+  'error SafeCastOverflowedUintDowncast(uint8 bits, uint256 value)',
+  'error SafeCastOverflowedUintToInt(uint256 value)',
+  'error SafeERC20FailedDecreaseAllowance(address spender, uint256 currentAllowance, uint256 requestedDecrease)',
+  'error SafeERC20FailedOperation(address token)',
+  'error StringTooLong(string str)',
+  'error StringsInsufficientHexLength(uint256 value, uint256 length)',
+  'error StringsInvalidAddressFormat()',
+  'error StringsInvalidChar()',
+];
@@ -0,0 +1,653 @@
+import {
+  Contract,
+  EventLog,
+  Provider,
+  Signer,
+  TransactionReceipt,
+  TransactionResponse,
+  getAddress,
+  hexlify,
+  isError,
+  randomBytes,
+} from 'ethers';
+import { BRIDGE_ROUTER_ABI, ERC20_ABI, LIQUID_FLOW_CORE_ABI, LIQUID_FLOW_ROUTER_ABI } from './abis';
+import { buildApproval } from './allowance';
+import { BRIDGE_PROVIDERS, BridgeProviderName, BridgeWeights, DEFAULT_BRIDGE_WEIGHTS, bridgeRequestId, fetchBridgeQuotes, rankBridgeQuotes } from './bridge';
+import { describeError } from './errors';
+import { Provision, ProvisionRequest, buildProvision, fetchPositionReserves, pairedAmount, provisionParams, shippedStrategy } from './provide';
+import { KeyValueStorage, defaultStorage, deserializeJson, serializeJson } from './storage';
+import { encodeXYKStrategyParams, hashCoreStrategy, saltFromLabel } from './strategy';
+import { TokenInfo, TokenList } from './tokenList';
+
+// Spreading a position across chains.
+//
+// An allocation splits what the LP adds by percentage across chains. The plan
+// bridges every other chain's share through BridgeRouter, then approves and
+// ships the position on each chain; shares that crossed a bridge are shipped
+// with what arrived. The executor runs the steps in order and stores its
+// progress as it goes, transaction hashes included, so a plan cut off by a
+// reload picks up where it stopped without sending anything twice. A failed
+// step can be retried, and what already happened can be rolled back.
+
+export interface ChainShare {
+  chainId: number;
+  // Whole percent; the shares add up to 100
+  percent: number;
+}
+
+export interface AllocationRequest {
+  // Chain the LP holds the amounts on
+  sourceChain: number;
+  // The pair on every chain with a share, in the order the user entered it
+  tokens: Record<number, [string, string]>;
+  feeBps: bigint;
+  // Position label, the same on every chain
+  label: string;
+  // Added in total, tokenA then tokenB
+  amounts: [bigint, bigint];
+  shares: ChainShare[];
+  // How the pair is shown; the same on every chain
+  symbols: [string, string];
+  decimals: [number, number];
+}
+
+interface StepBase {
+  id: string;
+  // Chain the step's transaction is sent on
+  chainId: number;
+  // Steps that have to be done first
+  after: string[];
+}
+
+export interface ApproveStep extends StepBase {
+  kind: 'approve';
+  token: string;
+  target: 'BridgeRouter' | 'LiquidFlowCore';
+  // null: what the ship on this chain sets for the token
+  amount: bigint | null;
+  // Sets the allowance to exactly `amount` instead of at least it
+  reset?: boolean;
+}
+
+export interface BridgeStep extends StepBase {
+  kind: 'bridge';
+  dstChain: number;
+  token: string;
+  // Paid on the source, protocol fee included
+  amount: bigint;
+  // Which token of the pair
+  side: 0 | 1;
+}
+
+export interface ShipStep extends StepBase {
+  kind: 'ship';
+  // Added, tokenA then tokenB; null for what the bridges to this chain delivered
+  amounts: [bigint, bigint] | null;
+  // Ships `amounts` as the position's balances instead of adding them
+  reset?: boolean;
+}
+
+export interface DockStep extends StepBase {
+  kind: 'dock';
+}
+
+export type AllocationStep = ApproveStep | BridgeStep | ShipStep | DockStep;
+
+export interface AllocationPlan {
+  id: string;
+  request: AllocationRequest;
+  steps: AllocationStep[];
+  createdAt: number;
+}
+
+// waiting: sent, and waiting on something outside the wallet, e.g. a bridge transfer
+export type StepStatus = 'pending' | 'running' | 'waiting' | 'done' | 'failed';
+
+// What a step left behind, recorded as soon as it is known
+export interface StepData {
+  transactionHash?: string;
+  blockNumber?: number;
+  provider?: BridgeProviderName;
+  requestId?: string;
+  // Delivered on the destination chain
+  outputAmount?: bigint;
+  // Allowance before the step
+  allowance?: bigint;
+  // Position reserves before the step, tokenA then tokenB
+  reserves?: [bigint, bigint];
+  // What the ship added, tokenA then tokenB
+  added?: [bigint, bigint];
+}
+
+export interface StepProgress {
+  status: StepStatus;
+  error: string | null;
+  data: StepData;
+}
+
+export type AllocationPhase = 'forward' | 'rollback';
+
+export interface AllocationRun {
+  plan: AllocationPlan;
+  phase: AllocationPhase;
+  // Steps undoing the completed ones, once rolling back
+  rollback: AllocationStep[];
+  progress: Record<string, StepProgress>;
+  startedAt: number;
+  updatedAt: number;
+}
+
+export type AllocationStatus = 'running' | 'waiting' | 'failed' | 'done' | 'rolled-back';
+
+export interface StepContext {
+  // The run as the step starts, e.g. for what earlier steps delivered
+  run: AllocationRun;
+  // What an earlier attempt at the step recorded
+  data: StepData;
+  // Stored right away, so an interrupted step knows what it already sent
+  record: (data: Partial<StepData>) => void;
+}
+
+// Resolves to false while the step waits on something outside the wallet;
+// the executor runs it again on the next resume
+export type StepRunner = (step: AllocationStep, context: StepContext) => Promise<boolean>;
+
+export function validateShares(shares: ChainShare[]): string[] {
+  const errors: string[] = [];
+  if (shares.some((share) => !Number.isInteger(share.percent) || share.percent < 0 || share.percent > 100)) {
+    errors.push('Shares must be whole percentages from 0 to 100');
+  }
+  if (new Set(shares.map((share) => share.chainId)).size !== shares.length) errors.push('Each chain can have one share');
+  const total = shares.reduce((sum, share) => sum + share.percent, 0);
+  if (total !== 100) errors.push(`Shares add up to ${total}%, not 100%`);
+  return errors;
+}
+
+// Steps for the allocation: approvals and bridge transfers out of the source
+// chain first, then the position on the source chain, then on each other chain
+// once its transfers arrive. Rounding dust stays on the source chain, or goes
+// to the first share without one.
+export function planAllocation(request: AllocationRequest): AllocationPlan {
+  const errors = validateShares(request.shares);
+  if (errors.length > 0) throw new Error(errors[0]);
+  if (request.amounts[0] <= 0n || request.amounts[1] <= 0n) throw new Error('Both amounts must be above zero');
+
+  const shares = request.shares.filter((share) => share.percent > 0);
+  for (const { chainId } of shares) {
+    if (!request.tokens[chainId]) throw new Error(`No token pair for chain ${chainId}`);
+  }
+  const split = new Map(shares.map(({ chainId, percent }) => [
+    chainId,
+    request.amounts.map((amount) => amount * BigInt(percent) / 100n) as [bigint, bigint],
+  ]));
+  const dustTo = split.has(request.sourceChain) ? request.sourceChain : shares[0].chainId;
+  const allotted = [...split.values()];
+  split.set(dustTo, split.get(dustTo)!.map((amount, side) =>
+    amount + request.amounts[side] - allotted.reduce((sum, amounts) => sum + amounts[side], 0n)) as [bigint, bigint]);
+  for (const [chainId, amounts] of split) {
+    if (amounts[0] === 0n || amounts[1] === 0n) throw new Error(`The share for chain ${chainId} rounds to nothing`);
+  }
+
+  const source = request.tokens[request.sourceChain];
+  if (!source) throw new Error(`No token pair for chain ${request.sourceChain}`);
+  const remote = [...split.keys()].filter((chainId) => chainId !== request.sourceChain);
+  const steps: AllocationStep[] = [];
+  const sides = [0, 1] as const;
+
+  for (const side of sides) {
+    const bridged = remote.reduce((sum, chainId) => sum + split.get(chainId)![side], 0n);
+    if (bridged === 0n) continue;
+    steps.push({
+      id: approveStepId(request.sourceChain, 'BridgeRouter', source[side]),
+      kind: 'approve',
+      chainId: request.sourceChain,
+      after: [],
+      token: source[side],
+      target: 'BridgeRouter',
+      amount: bridged,
+    });
+  }
+  const bridges = (chainId: number) => sides.map((side) => `bridge:${chainId}:${side}`);
+  for (const chainId of remote) {
+    for (const side of sides) {
+      steps.push({
+        id: bridges(chainId)[side],
+        kind: 'bridge',
+        chainId: request.sourceChain,
+        after: [approveStepId(request.sourceChain, 'BridgeRouter', source[side])],
+        dstChain: chainId,
+        token: source[side],
+        amount: split.get(chainId)![side],
+        side,
+      });
+    }
+  }
+  for (const chainId of [...split.keys()].sort((a, b) => Number(b === request.sourceChain) - Number(a === request.sourceChain))) {
+    // What the approvals and the ship on another chain cover is only known once its transfers arrive
+    const delivery = chainId === request.sourceChain ? [] : bridges(chainId);
+    const approvals = sides.map((side) => approveStepId(chainId, 'LiquidFlowCore', request.tokens[chainId][side]));
+    for (const side of sides) {
+      const token = request.tokens[chainId][side];
+      steps.push({ id: approvals[side], kind: 'approve', chainId, after: delivery, token, target: 'LiquidFlowCore', amount: null });
+    }
+    steps.push({
+      id: `ship:${chainId}`,
+      kind: 'ship',
+      chainId,
+      after: [...delivery, ...approvals],
+      amounts: chainId === request.sourceChain ? split.get(chainId)! : null,
+    });
+  }
+
+  return { id: hexlify(randomBytes(8)), request, steps, createdAt: Date.now() };
+}
+
+function approveStepId(chainId: number, target: ApproveStep['target'], token: string): string {
+  return `approve:${chainId}:${target}:${getAddress(token)}`;
+}
+
+// The pair on each chain, matched by symbol in the token lists
+export function counterpartTokens(
+  lists: TokenList[],
+  pair: [TokenInfo, TokenInfo],
+  chainIds: number[],
+): Record<number, [string, string]> {
+  const tokens: Record<number, [string, string]> = {};
+  for (const chainId of chainIds) {
+    if (chainId === pair[0].chainId) {
+      tokens[chainId] = [pair[0].address, pair[1].address];
+      continue;
+    }
+    tokens[chainId] = pair.map(({ symbol }) => {
+      const matches = new Set(lists
+        .flatMap((list) => list.tokens)
+        .filter((token) => token.chainId === chainId && token.symbol.toLowerCase() === symbol.toLowerCase())
+        .map((token) => getAddress(token.address)));
+      if (matches.size === 0) throw new Error(`No ${symbol} on chain ${chainId} in the token lists`);
+      if (matches.size > 1) throw new Error(`More than one ${symbol} on chain ${chainId} in the token lists`);
+      return [...matches][0];
+    }) as [string, string];
+  }
+  return tokens;
+}
+
+// Steps of the current phase
+export function activeSteps(run: AllocationRun): AllocationStep[] {
+  return run.phase === 'forward' ? run.plan.steps : run.rollback;
+}
+
+export function stepProgress(run: AllocationRun, stepId: string): StepProgress {
+  return run.progress[stepId] ?? { status: 'pending', error: null, data: {} };
+}
+
+export function allocationStatus(run: AllocationRun): AllocationStatus {
+  const statuses = activeSteps(run).map((step) => stepProgress(run, step.id).status);
+  if (statuses.every((status) => status === 'done')) return run.phase === 'forward' ? 'done' : 'rolled-back';
+  if (statuses.includes('failed')) return 'failed';
+  if (statuses.includes('waiting')) return 'waiting';
+  return 'running';
+}
+
+// Steps undoing what the forward steps did, latest first: ships are set back
+// to the reserves they replaced (or docked when the position was new),
+// allowances restored, and delivered transfers bridged back to the source chain
+export function rollbackSteps(run: AllocationRun): AllocationStep[] {
+  const unsettled = run.plan.steps.find((step) => ['running', 'waiting'].includes(stepProgress(run, step.id).status));
+  if (unsettled) throw new Error('Steps in flight have to settle before rolling back; resume the allocation first');
+
+  return run.plan.steps
+    .filter((step) => stepProgress(run, step.id).status === 'done')
+    .reverse()
+    .flatMap((step): AllocationStep[] => {
+      const { data } = stepProgress(run, step.id);
+      const id = `undo:${step.id}`;
+      switch (step.kind) {
+        case 'approve':
+          // Nothing was sent when the allowance already covered the amount
+          return data.transactionHash && data.allowance !== undefined ? [{ ...step, id, after: [], amount: data.allowance, reset: true }] : [];
+        case 'ship': {
+          const reserves = data.reserves!;
+          return reserves[0] > 0n && reserves[1] > 0n
+            ? [{ id, kind: 'ship', chainId: step.chainId, after: [], amounts: reserves, reset: true }]
+            : [{ id, kind: 'dock', chainId: step.chainId, after: [] }];
+        }
+        case 'bridge': {
+          const token = run.plan.request.tokens[step.dstChain][step.side];
+          const amount = data.outputAmount!;
+          const approval = `undo:approve:${step.id}`;
+          return [
+            { id: approval, kind: 'approve', chainId: step.dstChain, after: [], token, target: 'BridgeRouter', amount },
+            { id, kind: 'bridge', chainId: step.dstChain, after: [approval], dstChain: step.chainId, token, amount, side: step.side },
+          ];
+        }
+        case 'dock':
+          return [];
+      }
+    });
+}
+
+export function serializeAllocationRun(run: AllocationRun): string {
+  return serializeJson(run);
+}
+
+export function deserializeAllocationRun(json: string): AllocationRun {
+  return deserializeJson<AllocationRun>(json);
+}
+
+export interface AllocationExecutorOptions {
+  storage?: KeyValueStorage;
+  // Where the run is stored, e.g. one key per account
+  key: string;
+  runStep: StepRunner;
+  // How often start() checks on a run waiting for a bridge transfer
+  pollIntervalMs?: number;
+  onChange?: (run: AllocationRun | null) => void;
+}
+
+export class AllocationExecutor {
+  private readonly storage: KeyValueStorage;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private pending: Promise<AllocationRun> | null = null;
+
+  constructor(private readonly options: AllocationExecutorOptions) {
+    this.storage = options.storage ?? defaultStorage();
+  }
+
+  current(): AllocationRun | null {
+    const json = this.storage.getItem(this.options.key);
+    return json ? deserializeAllocationRun(json) : null;
+  }
+
+  async begin(plan: AllocationPlan): Promise<AllocationRun> {
+    await this.idle();
+    const current = this.current();
+    if (current && !['done', 'rolled-back'].includes(allocationStatus(current))) {
+      throw new Error('Finish or roll back the allocation in progress first');
+    }
+    const now = Date.now();
+    this.save({ plan, phase: 'forward', rollback: [], progress: {}, startedAt: now, updatedAt: now });
+    return this.resume();
+  }
+
+  // Runs every step it can, in order, until the run finishes or a step fails.
+  // Steps waiting on a bridge transfer, and the ones that need them, are left
+  // for a later resume.
+  resume(): Promise<AllocationRun> {
+    if (!this.pending) {
+      this.pending = this.execute().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  // Runs the failed step again from scratch, keeping what it saw before its first attempt
+  async retry(): Promise<AllocationRun> {
+    await this.idle();
+    const run = this.require();
+    const failed = activeSteps(run).find((step) => stepProgress(run, step.id).status === 'failed');
+    if (!failed) throw new Error('No failed step to retry');
+    const { allowance, reserves } = stepProgress(run, failed.id).data;
+    this.save(withProgress(run, failed.id, { status: 'pending', error: null, data: { allowance, reserves } }));
+    return this.resume();
+  }
+
+  async rollback(): Promise<AllocationRun> {
+    await this.idle();
+    const run = this.require();
+    if (run.phase === 'rollback') throw new Error('The allocation is already rolling back');
+    this.save({ ...run, phase: 'rollback', rollback: rollbackSteps(run), updatedAt: Date.now() });
+    return this.resume();
+  }
+
+  // Forgets the run; one still moving funds has to settle first
+  dismiss(): void {
+    const run = this.current();
+    if (this.pending || (run && ['running', 'waiting'].includes(allocationStatus(run)))) {
+      throw new Error('The allocation is still in progress');
+    }
+    this.storage.removeItem(this.options.key);
+    this.options.onChange?.(null);
+  }
+
+  // Resumes a run waiting on a bridge transfer every poll interval
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      const run = this.current();
+      if (run && allocationStatus(run) === 'waiting') this.resume().catch(() => undefined);
+    }, this.options.pollIntervalMs ?? 15_000);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async execute(): Promise<AllocationRun> {
+    let run = this.require();
+    for (const step of activeSteps(run)) {
+      const { status } = stepProgress(run, step.id);
+      if (status === 'done') continue;
+      if (status === 'failed') break;
+      if (step.after.some((id) => stepProgress(run, id).status !== 'done')) continue;
+
+      run = this.save(withProgress(run, step.id, { status: 'running', error: null }));
+      let finished: boolean;
+      try {
+        finished = await this.options.runStep(step, {
+          run,
+          data: stepProgress(run, step.id).data,
+          record: (data) => {
+            run = this.save(withProgress(run, step.id, { data: { ...stepProgress(run, step.id).data, ...data } }));
+          },
+        });
+      } catch (error) {
+        return this.save(withProgress(run, step.id, { status: 'failed', error: describeError(error) }));
+      }
+      run = this.save(withProgress(run, step.id, { status: finished ? 'done' : 'waiting' }));
+    }
+    return run;
+  }
+
+  private async idle(): Promise<void> {
+    await this.pending?.catch(() => undefined);
+  }
+
+  private require(): AllocationRun {
+    const run = this.current();
+    if (!run) throw new Error('No allocation in progress');
+    return run;
+  }
+
+  private save(run: AllocationRun): AllocationRun {
+    this.storage.setItem(this.options.key, serializeAllocationRun(run));
+    this.options.onChange?.(run);
+    return run;
+  }
+}
+
+function withProgress(run: AllocationRun, stepId: string, update: Partial<StepProgress>): AllocationRun {
+  return {
+    ...run,
+    progress: { ...run.progress, [stepId]: { ...stepProgress(run, stepId), ...update } },
+    updatedAt: Date.now(),
+  };
+}
+
+// Addresses of the protocol on one chain
+export interface AllocationContracts {
+  liquidFlowCore: string;
+  liquidFlowRouter: string;
+  xykStrategy: string;
+  bridgeRouter: string;
+}
+
+export interface AllocationRunnerOptions {
+  // The LP's signer on the chain, e.g. after switching the wallet to it
+  connect: (chainId: number) => Promise<{ signer: Signer; contracts: AllocationContracts }>;
+  // Picks the bridge provider for each transfer
+  bridgeWeights?: BridgeWeights;
+  onTransaction?: (response: TransactionResponse, label: string) => void;
+}
+
+// Runs steps with the LP's own transactions: approvals and ships through
+// LiquidFlowRouter, transfers through the best-ranked BridgeRouter provider
+export function allocationStepRunner(options: AllocationRunnerOptions): StepRunner {
+  return async (step, context) => {
+    const { signer, contracts } = await options.connect(step.chainId);
+    const provider = signer.provider;
+    if (!provider) throw new Error('Signer has no provider');
+    const lp = await signer.getAddress();
+    const { request } = context.run.plan;
+    const position: ProvisionRequest = {
+      lp,
+      strategy: contracts.xykStrategy,
+      tokenA: request.tokens[step.chainId][0],
+      tokenB: request.tokens[step.chainId][1],
+      feeBps: request.feeBps,
+      salt: saltFromLabel(request.label),
+    };
+    // Whether a transaction an earlier attempt sent went through; sending again is safe when not
+    const landed = async () => context.data.transactionHash ? confirmedReceipt(provider, context.data.transactionHash) : null;
+    const send = async (tx: TransactionResponse, label: string) => {
+      context.record({ transactionHash: tx.hash });
+      options.onTransaction?.(tx, label);
+      return (await tx.wait())!;
+    };
+
+    switch (step.kind) {
+      case 'approve': {
+        if (await landed()) return true;
+        const spender = step.target === 'BridgeRouter' ? contracts.bridgeRouter : contracts.liquidFlowCore;
+        let amount = step.amount;
+        if (amount === null) {
+          const ship = activeSteps(context.run).find((other) => other.kind === 'ship' && other.chainId === step.chainId) as ShipStep;
+          const reserves = await fetchPositionReserves(provider, contracts.liquidFlowCore, position);
+          const { provision } = shipProvision(context.run, ship, position, reserves);
+          amount = provision.amounts[provision.tokens.indexOf(getAddress(step.token))];
+        }
+        const allowance: bigint = await new Contract(step.token, ERC20_ABI, provider).allowance(lp, spender);
+        if (context.data.allowance === undefined) context.record({ allowance });
+        if (step.reset ? allowance === amount : allowance >= amount) return true;
+        await send(await signer.sendTransaction(buildApproval({ token: step.token, spender, amount }, 'exact')), 'Approve for allocation');
+        return true;
+      }
+      case 'bridge': {
+        const router = new Contract(contracts.bridgeRouter, BRIDGE_ROUTER_ABI, signer);
+        let { requestId, blockNumber } = context.data;
+        if (!requestId) {
+          let receipt = await landed();
+          if (!receipt) {
+            const quotes = rankBridgeQuotes(
+              await fetchBridgeQuotes(provider, contracts.bridgeRouter, {
+                srcChain: step.chainId,
+                dstChain: step.dstChain,
+                token: step.token,
+                amount: step.amount,
+              }),
+              options.bridgeWeights ?? DEFAULT_BRIDGE_WEIGHTS,
+            );
+            if (quotes.length === 0) throw new Error(`No bridge provider is active for chain ${step.dstChain}`);
+            context.record({ provider: quotes[0].provider });
+            receipt = await send(
+              await router.bridge(BRIDGE_PROVIDERS.indexOf(quotes[0].provider), step.dstChain, step.token, step.amount, lp),
+              `Bridge to chain ${step.dstChain}`,
+            );
+          }
+          requestId = bridgeRequestId(receipt.logs);
+          blockNumber = receipt.blockNumber;
+          context.record({ requestId, blockNumber });
+        }
+        const settlement = async (event: 'BridgeCompleted' | 'BridgeFailed') =>
+          (await router.queryFilter(router.filters[event](requestId), blockNumber))
+            .find((log): log is EventLog => log instanceof EventLog);
+        const completed = await settlement('BridgeCompleted');
+        if (completed) {
+          context.record({ outputAmount: completed.args.outputAmount });
+          return true;
+        }
+        const failed = await settlement('BridgeFailed');
+        // The adapter refunded it; a retry sends a new transfer
+        if (failed) throw new Error(`Bridge transfer failed: ${failed.args.reason}`);
+        return false;
+      }
+      case 'ship': {
+        const reserves = await fetchPositionReserves(provider, contracts.liquidFlowCore, position);
+        const { provision, added } = shipProvision(context.run, step, position, reserves);
+        let receipt = await landed();
+        if (!receipt) {
+          if (!context.data.reserves) context.record({ reserves });
+          const router = new Contract(contracts.liquidFlowRouter, LIQUID_FLOW_ROUTER_ABI, signer);
+          receipt = await send(
+            await router.provideLiquidity(position.strategy, provision.strategyData, provision.tokens, provision.amounts),
+            `Ship on chain ${step.chainId}`,
+          );
+          context.record({ added });
+        }
+        const shipped = shippedStrategy(receipt.logs);
+        if (shipped.strategyHash !== provision.strategyHash || shipped.lp !== provision.params.lp) {
+          throw new Error('The shipped strategy is not the requested position');
+        }
+        return true;
+      }
+      case 'dock': {
+        const core = new Contract(contracts.liquidFlowCore, LIQUID_FLOW_CORE_ABI, signer);
+        if (!await landed()) {
+          const params = provisionParams(position);
+          const strategyHash = hashCoreStrategy(params.lp, position.strategy, encodeXYKStrategyParams(params));
+          await send(await core.requestDock(position.strategy, strategyHash, [params.token0, params.token1]), `Request dock on chain ${step.chainId}`);
+        }
+        return true;
+      }
+    }
+  };
+}
+
+// What the ship step sends for a position holding `reserves`, and what that
+// adds to it. Delivered amounts are trimmed to the reserves' ratio when the
+// position exists.
+function shipProvision(
+  run: AllocationRun,
+  step: ShipStep,
+  position: ProvisionRequest,
+  reserves: [bigint, bigint],
+): { provision: Provision; added: [bigint, bigint] } {
+  if (step.reset) {
+    const amounts = step.amounts!;
+    return { provision: buildProvision(position, [0n, 0n], amounts), added: [amounts[0] - reserves[0], amounts[1] - reserves[1]] };
+  }
+  const added = fitToReserves(step.amounts ?? delivered(run, step.chainId), reserves);
+  return { provision: buildProvision(position, reserves, added), added };
+}
+
+// What the bridge transfers to the chain delivered, tokenA then tokenB
+function delivered(run: AllocationRun, chainId: number): [bigint, bigint] {
+  const amounts: (bigint | undefined)[] = [undefined, undefined];
+  for (const step of run.plan.steps) {
+    if (step.kind === 'bridge' && step.dstChain === chainId) amounts[step.side] = stepProgress(run, step.id).data.outputAmount;
+  }
+  if (amounts[0] === undefined || amounts[1] === undefined) throw new Error(`Transfers to chain ${chainId} have not been delivered`);
+  return amounts as [bigint, bigint];
+}
+
+// The most of `added` that keeps the reserves' ratio; the rest stays in the wallet
+export function fitToReserves(added: [bigint, bigint], reserves: [bigint, bigint]): [bigint, bigint] {
+  if (reserves[0] === 0n || reserves[1] === 0n) return added;
+  const pairedB = pairedAmount(added[0], reserves[0], reserves[1]);
+  return pairedB <= added[1] ? [added[0], pairedB] : [pairedAmount(added[1], reserves[1], reserves[0]), added[1]];
+}
+
+// Receipt of a transaction that went through, following speed-ups; null when
+// it reverted, was cancelled or never reached the chain
+async function confirmedReceipt(provider: Provider, hash: string): Promise<TransactionReceipt | null> {
+  const tx = await provider.getTransaction(hash);
+  if (!tx) return null;
+  try {
+    const receipt = await tx.wait();
+    return receipt?.status === 1 ? receipt : null;
+  } catch (error) {
+    if (isError(error, 'TRANSACTION_REPLACED') && !error.cancelled) return error.receipt;
+    return null;
+  }
+}
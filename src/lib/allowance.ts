@@ -0,0 +1,192 @@
+import { Contract, ContractRunner, Interface, MaxUint256, Signature, Signer, TypedDataDomain, TypedDataEncoder, ZeroAddress, getAddress } from 'ethers';
+import { ERC20_ABI, ERC20_PERMIT_ABI } from './abis';
+import { DeploymentManifest, contractAddress } from './manifest';
+
+// Allowances for the protocol contracts that move a user's tokens.
+//
+// Before a flow submits, it checks the allowance its target needs and shows an
+// approval step only when that allowance is short. Tokens that implement
+// EIP-2612 can skip the approval transaction where the target's entry point
+// takes a permit: the user signs one for the exact amount and the permit
+// travels with the call that spends it.
+
+// Manifest names of the contracts a flow may need an allowance for
+export type ApprovalTarget = 'LiquidFlowRouter' | 'LiquidFlowCore' | 'Aqua' | 'VotingEscrow' | 'FeeDistributor' | 'BridgeRouter' | 'ReferenceSolver' | 'XYKStrategy';
+
+export interface ApprovalTargetSpec {
+  // Whether the target moves tokens with transferFrom, so needs an allowance
+  allowance: boolean;
+  // Whether the target has an entry point that takes a permit in place of an approval
+  permit: boolean;
+}
+
+export const APPROVAL_TARGETS: Record<ApprovalTarget, ApprovalTargetSpec> = {
+  // swap pulls the input; swapWithPermit takes a permit for it
+  LiquidFlowRouter: { allowance: true, permit: true },
+  // ship checks the LP's allowance, strategies pull from the LP on every swap
+  LiquidFlowCore: { allowance: true, permit: false },
+  // Same model for makers shipping to Aqua
+  Aqua: { allowance: true, permit: false },
+  // createLock and increaseAmount burn the soulbound bLF directly, it cannot be approved
+  VotingEscrow: { allowance: false, permit: false },
+  // depositFees pulls the fee token
+  FeeDistributor: { allowance: true, permit: false },
+  // bridge pulls the full amount, protocol fee included
+  BridgeRouter: { allowance: true, permit: false },
+  // Settling a commit-reveal intent pulls its input from the user
+  ReferenceSolver: { allowance: true, permit: false },
+  // swapExactIn pulls the input of an unprotected swap from the swapper
+  XYKStrategy: { allowance: true, permit: false },
+};
+
+export type ApprovalMode = 'exact' | 'unlimited';
+
+// not-required: the target never spends through an allowance
+// sufficient: the current allowance covers the amount
+// approve: an approval transaction has to land first
+// permit: short, but the token and the target take a signed permit instead
+export type ApprovalStatus = 'not-required' | 'sufficient' | 'approve' | 'permit';
+
+export interface ApprovalRequest {
+  token: string;
+  owner: string;
+  target: ApprovalTarget;
+  spender: string;
+  amount: bigint;
+}
+
+export interface AllowanceCheck extends ApprovalRequest {
+  allowance: bigint;
+  status: ApprovalStatus;
+  // Domain to sign the permit in, when status is 'permit'
+  permitDomain?: TypedDataDomain;
+}
+
+export interface PermitSignature {
+  token: string;
+  owner: string;
+  spender: string;
+  value: bigint;
+  nonce: bigint;
+  deadline: bigint;
+  v: number;
+  r: string;
+  s: string;
+}
+
+// A transaction for the user's wallet to send
+export interface ApprovalTransaction {
+  to: string;
+  data: string;
+}
+
+export const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+// Selector of permit(address,address,uint256,uint256,uint8,bytes32,bytes32)
+const PERMIT_SELECTOR = new Interface(ERC20_PERMIT_ABI).getFunction('permit')!.selector.slice(2);
+
+const erc20 = new Interface(ERC20_ABI);
+
+export function spenderAddress(manifest: DeploymentManifest, target: ApprovalTarget): string {
+  return contractAddress(manifest, target);
+}
+
+export async function checkAllowance(runner: ContractRunner, request: ApprovalRequest): Promise<AllowanceCheck> {
+  const spec = APPROVAL_TARGETS[request.target];
+  if (!spec.allowance) return { ...request, allowance: 0n, status: 'not-required' };
+
+  const allowance: bigint = await new Contract(request.token, ERC20_ABI, runner).allowance(request.owner, request.spender);
+  if (allowance >= request.amount) return { ...request, allowance, status: 'sufficient' };
+
+  const domain = spec.permit ? await permitDomain(runner, request.token) : null;
+  return domain
+    ? { ...request, allowance, status: 'permit', permitDomain: domain }
+    : { ...request, allowance, status: 'approve' };
+}
+
+export function approvalAmount(amount: bigint, mode: ApprovalMode): bigint {
+  return mode === 'unlimited' ? MaxUint256 : amount;
+}
+
+export function buildApproval(check: Pick<AllowanceCheck, 'token' | 'spender' | 'amount'>, mode: ApprovalMode): ApprovalTransaction {
+  return {
+    to: check.token,
+    data: erc20.encodeFunctionData('approve', [check.spender, approvalAmount(check.amount, mode)]),
+  };
+}
+
+// The EIP-712 domain the token verifies permits in, or null when it does not
+// implement EIP-2612. A domain is only trusted when it hashes to the token's own
+// DOMAIN_SEPARATOR, so a signature made with it is one the token accepts.
+export async function permitDomain(runner: ContractRunner, token: string): Promise<TypedDataDomain | null> {
+  const provider = runner.provider;
+  if (!provider) throw new Error('Runner has no provider');
+  const contract = new Contract(token, ERC20_PERMIT_ABI, runner);
+
+  let separator: string;
+  try {
+    [separator] = await Promise.all([contract.DOMAIN_SEPARATOR(), contract.nonces(ZeroAddress)]);
+  } catch {
+    return null;
+  }
+
+  let domain: TypedDataDomain;
+  try {
+    // ERC-5267: the token describes its domain; the bits in fields say which parts it uses
+    const [fields, name, version, chainId, verifyingContract] = await contract.eip712Domain();
+    const used = parseInt(fields, 16);
+    domain = {
+      ...(used & 1 ? { name } : {}),
+      ...(used & 2 ? { version } : {}),
+      ...(used & 4 ? { chainId } : {}),
+      ...(used & 8 ? { verifyingContract } : {}),
+    };
+  } catch {
+    // Older tokens: DAI-style permits share the separator but not the signature,
+    // so the EIP-2612 permit has to be in the code as well
+    const code = await provider.getCode(token);
+    if (!code.includes(PERMIT_SELECTOR)) return null;
+    const [name, { chainId }] = await Promise.all([new Contract(token, ERC20_ABI, runner).name(), provider.getNetwork()]);
+    domain = { name, version: '1', chainId, verifyingContract: getAddress(token) };
+  }
+  return TypedDataEncoder.hashDomain(domain) === separator ? domain : null;
+}
+
+export async function signPermit(
+  signer: Signer,
+  domain: TypedDataDomain,
+  request: Pick<ApprovalRequest, 'token' | 'spender' | 'amount'>,
+  deadline: bigint,
+): Promise<PermitSignature> {
+  const owner = await signer.getAddress();
+  const nonce: bigint = await new Contract(request.token, ERC20_PERMIT_ABI, signer).nonces(owner);
+  const message = { owner, spender: request.spender, value: request.amount, nonce, deadline };
+  const signature = Signature.from(await signer.signTypedData(domain, PERMIT_TYPES, message));
+  return { token: getAddress(request.token), ...message, v: signature.v, r: signature.r, s: signature.s };
+}
+
+// Whether a signed permit still grants exactly what the request spends.
+// Spenders call permit with the amount they pull, so the value must match.
+export function permitCovers(permit: PermitSignature, request: ApprovalRequest, nowSeconds = BigInt(Math.floor(Date.now() / 1000))): boolean {
+  return sameAddress(permit.token, request.token)
+    && sameAddress(permit.owner, request.owner)
+    && sameAddress(permit.spender, request.spender)
+    && permit.value === request.amount
+    && permit.deadline > nowSeconds;
+}
+
+export function permitKey(token: string, spender: string): string {
+  return `${getAddress(token)}:${getAddress(spender)}`;
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
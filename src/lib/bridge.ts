@@ -0,0 +1,203 @@
+import { Contract, EventLog, Interface, Provider, getAddress } from 'ethers';
+import { BRIDGE_ROUTER_ABI } from './abis';
+import { BPS_BASE } from './quote';
+
+// Cross-chain transfers through BridgeRouter.
+//
+// The router quotes every active provider and hands the tokens to the chosen
+// provider's adapter. Quotes are ranked by how the user weighs speed, cost,
+// delivered amount and the provider's security rating. A transfer is followed
+// from BridgeInitiated until the adapter (or the relayer behind it) reports
+// BridgeCompleted or BridgeFailed.
+
+export type BridgeProviderName = 'DEBRIDGE' | 'STARGATE' | 'ACROSS' | 'NATIVE';
+
+// Order of BridgeRouter.BridgeProvider
+export const BRIDGE_PROVIDERS: BridgeProviderName[] = ['DEBRIDGE', 'STARGATE', 'ACROSS', 'NATIVE'];
+
+export const BRIDGE_PROVIDER_LABELS: Record<BridgeProviderName, string> = {
+  DEBRIDGE: 'deBridge',
+  STARGATE: 'Stargate',
+  ACROSS: 'Across',
+  NATIVE: 'Native bridge',
+};
+
+export interface BridgeQuote {
+  provider: BridgeProviderName;
+  // Seconds
+  estimatedTime: number;
+  // Provider fee, in the bridged token
+  fee: bigint;
+  // BridgeRouter's cut, taken before the provider sees the amount
+  protocolFee: bigint;
+  // Expected on the destination chain
+  outputAmount: bigint;
+  // 1 to 5
+  securityRating: number;
+}
+
+// Relative importance of each criterion; any non-negative numbers, they are normalized
+export interface BridgeWeights {
+  time: number;
+  fee: number;
+  output: number;
+  security: number;
+}
+
+export const DEFAULT_BRIDGE_WEIGHTS: BridgeWeights = { time: 1, fee: 1, output: 2, security: 1 };
+
+export interface RankedBridgeQuote extends BridgeQuote {
+  // 0 to 1, higher is better
+  score: number;
+}
+
+// pending: initiated, not delivered yet
+// completed: delivered on the destination chain
+// failed: the provider gave up; its adapter returns the funds
+export type BridgeStatus = 'pending' | 'completed' | 'failed';
+
+export interface TrackedBridgeTransfer {
+  requestId: string;
+  provider: BridgeProviderName;
+  srcChain: number;
+  dstChain: number;
+  token: string;
+  // Handed to the provider, after the protocol fee
+  amount: bigint;
+  recipient: string;
+  status: BridgeStatus;
+  initiatedAt: number;
+  transactionHash: string;
+  outputAmount: bigint | null;
+  reason: string | null;
+  settledTransactionHash: string | null;
+}
+
+export function validateBridgeWeights(weights: BridgeWeights): string[] {
+  const values = Object.values(weights);
+  if (values.some((value) => !Number.isFinite(value) || value < 0)) return ['Weights must be zero or more'];
+  if (values.every((value) => value === 0)) return ['At least one weight must be above zero'];
+  return [];
+}
+
+// Quotes of every active provider for bridging `amount` of the token, as the
+// user pays it. Throws when the router does not take the route at all.
+export async function fetchBridgeQuotes(
+  provider: Provider,
+  bridgeRouter: string,
+  route: { srcChain: number; dstChain: number; token: string; amount: bigint },
+): Promise<BridgeQuote[]> {
+  const router = new Contract(bridgeRouter, BRIDGE_ROUTER_ABI, provider);
+  const [chainSupported, tokenSupported, protocolFeeBps] = await Promise.all([
+    router.isChainSupported(route.dstChain),
+    router.isTokenSupported(route.dstChain, route.token),
+    router.protocolFeeBps(),
+  ]);
+  if (!chainSupported) throw new Error(`Bridging to chain ${route.dstChain} is not supported`);
+  if (!tokenSupported) throw new Error(`This token cannot be bridged to chain ${route.dstChain}`);
+
+  // getQuotes prices what reaches the provider; bridge() takes the protocol fee first
+  const protocolFee = route.amount * protocolFeeBps / BPS_BASE;
+  const quotes = await router.getQuotes(route.srcChain, route.dstChain, route.token, route.amount - protocolFee);
+  return quotes
+    // Inactive providers come back zeroed
+    .filter((quote: { estimatedTime: bigint; outputAmount: bigint }) => quote.estimatedTime > 0n || quote.outputAmount > 0n)
+    .map((quote: { provider: bigint; estimatedTime: bigint; fee: bigint; outputAmount: bigint; securityRating: bigint }) => ({
+      provider: BRIDGE_PROVIDERS[Number(quote.provider)],
+      estimatedTime: Number(quote.estimatedTime),
+      fee: quote.fee,
+      protocolFee,
+      outputAmount: quote.outputAmount,
+      securityRating: Number(quote.securityRating),
+    }));
+}
+
+// Position of value between the worst and best seen, 1 for the best. When
+// every quote has the same value the criterion does not tell them apart.
+function normalize(value: number, values: number[], higherIsBetter: boolean): number {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (max === min) return 1;
+  return higherIsBetter ? (value - min) / (max - min) : (max - value) / (max - min);
+}
+
+// Best first. Each criterion is scaled across the quotes at hand and weighted;
+// ties go to the larger output, then the faster provider.
+export function rankBridgeQuotes(quotes: BridgeQuote[], weights: BridgeWeights): RankedBridgeQuote[] {
+  if (validateBridgeWeights(weights).length > 0) throw new Error('Invalid bridge weights');
+  const total = weights.time + weights.fee + weights.output + weights.security;
+  // Amounts share the token's decimals, so their ratio survives the conversion
+  const fees = quotes.map((quote) => Number(quote.fee));
+  const outputs = quotes.map((quote) => Number(quote.outputAmount));
+  const times = quotes.map((quote) => quote.estimatedTime);
+  const ratings = quotes.map((quote) => quote.securityRating);
+
+  return quotes
+    .map((quote, index) => ({
+      ...quote,
+      score: (weights.time * normalize(times[index], times, false)
+        + weights.fee * normalize(fees[index], fees, false)
+        + weights.output * normalize(outputs[index], outputs, true)
+        + weights.security * normalize(ratings[index], ratings, true)) / total,
+    }))
+    .sort((a, b) => b.score - a.score
+      || (b.outputAmount > a.outputAmount ? 1 : b.outputAmount < a.outputAmount ? -1 : 0)
+      || a.estimatedTime - b.estimatedTime);
+}
+
+const bridgeRouterInterface = new Interface(BRIDGE_ROUTER_ABI);
+
+// Request ID assigned by the bridge() call with these receipt logs
+export function bridgeRequestId(logs: readonly { topics: readonly string[]; data: string }[]): string {
+  for (const log of logs) {
+    const parsed = bridgeRouterInterface.parseLog(log);
+    if (parsed?.name === 'BridgeInitiated') return parsed.args.requestId;
+  }
+  throw new Error('BridgeInitiated not found in bridge receipt');
+}
+
+// The account's transfers through the router, newest first
+export async function fetchBridgeTransfers(
+  provider: Provider,
+  bridgeRouter: string,
+  account: string,
+  fromBlock = 0,
+): Promise<TrackedBridgeTransfer[]> {
+  const router = new Contract(bridgeRouter, BRIDGE_ROUTER_ABI, provider);
+  const initiated = (await router.queryFilter(router.filters.BridgeInitiated(null, getAddress(account)), fromBlock))
+    .filter((log): log is EventLog => log instanceof EventLog);
+  if (initiated.length === 0) return [];
+
+  const requestIds = initiated.map((log) => log.args.requestId as string);
+  const byRequest = (logs: unknown[]) => new Map(logs
+    .filter((log): log is EventLog => log instanceof EventLog)
+    .map((log) => [log.args.requestId as string, log]));
+  const [completed, failed, requests, blocks] = await Promise.all([
+    router.queryFilter(router.filters.BridgeCompleted(requestIds), fromBlock).then(byRequest),
+    router.queryFilter(router.filters.BridgeFailed(requestIds), fromBlock).then(byRequest),
+    Promise.all(requestIds.map((requestId) => router.getRequest(requestId))),
+    Promise.all([...new Set(initiated.map((log) => log.blockNumber))].map((number) => provider.getBlock(number))),
+  ]);
+  const timestamps = new Map(blocks.map((block) => [block?.number, block?.timestamp ?? 0]));
+
+  return initiated.map((log, index): TrackedBridgeTransfer => {
+    const requestId = requestIds[index];
+    const done = completed.get(requestId);
+    const failure = failed.get(requestId);
+    return {
+      requestId,
+      provider: BRIDGE_PROVIDERS[Number(log.args.provider)],
+      srcChain: Number(log.args.srcChain),
+      dstChain: Number(log.args.dstChain),
+      token: getAddress(log.args.token),
+      amount: log.args.amount,
+      recipient: getAddress(requests[index].recipient),
+      status: done ? 'completed' : failure ? 'failed' : 'pending',
+      initiatedAt: timestamps.get(log.blockNumber) ?? 0,
+      transactionHash: log.transactionHash,
+      outputAmount: done ? done.args.outputAmount : null,
+      reason: failure ? failure.args.reason : null,
+      settledTransactionHash: (done ?? failure)?.transactionHash ?? null,
+    };
+  }).reverse();
+}
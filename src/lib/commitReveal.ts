@@ -0,0 +1,279 @@
+import { AbiCoder, Contract, Signer, TransactionResponse, ZeroAddress, keccak256 } from 'ethers';
+import { BATCH_PROCESSOR_ABI } from './abis';
+import { describeError } from './errors';
+import { BatchStatus } from './solver';
+import { KeyValueStorage, defaultStorage, deserializeJson, serializeJson } from './storage';
+import { randomSalt } from './strategy';
+
+// Commit-reveal submission for BatchProcessor ("Basic" MEV protection).
+//
+// The intent is first committed as a hash, so its details stay hidden while the
+// batch is open. Once the batch closes the set of intents is frozen and the
+// client reveals, which has to land before the solver window ends or solvers
+// never see the intent. The salt is the only way to reveal, so every record is
+// persisted before its transaction is sent and survives a page reload.
+
+export interface IntentParams {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  minAmountOut: bigint;
+  maxFee: bigint;
+  allowPartialFill: boolean;
+  deadline: bigint;
+}
+
+// pending: saved, commit not confirmed yet
+// committed: on-chain, waiting for the batch to close
+// missed: the solver window ended before the reveal landed
+export type CommitmentStatus = 'pending' | 'committed' | 'revealed' | 'missed' | 'cancelled' | 'failed';
+
+export interface CommitmentRecord extends IntentParams {
+  salt: string;
+  commitHash: string;
+  status: CommitmentStatus;
+  createdAt: number;
+  commitTxHash?: string;
+  intentId?: string;
+  batchId?: bigint;
+  revealTxHash?: string;
+  error?: string;
+}
+
+export interface RevealWarning {
+  intentId: string;
+  batchId: bigint;
+  secondsLeft: number;
+}
+
+export interface CommitRevealOptions {
+  signer: Signer;
+  batchProcessor: string;
+  chainId: number | bigint;
+  storage?: KeyValueStorage;
+  // Warn when the solver window closes within this many seconds and the reveal has not
+  // landed, whether it is still to be sent, waiting on the wallet or failing
+  warnBeforeSeconds?: number;
+  pollIntervalMs?: number;
+  onChange?: (records: CommitmentRecord[]) => void;
+  onWarning?: (warning: RevealWarning) => void;
+  // Every transaction the client sends, e.g. for a transaction history
+  onTransaction?: (response: TransactionResponse, label: string) => void;
+}
+
+// Records older than this without a commit transaction never made it on-chain
+const ABANDONED_AFTER_MS = 10 * 60 * 1000;
+
+export function computeCommitHash(params: IntentParams, salt: string): string {
+  return keccak256(AbiCoder.defaultAbiCoder().encode(
+    ['address', 'address', 'uint256', 'uint256', 'uint256', 'bool', 'uint256', 'bytes32'],
+    [params.tokenIn, params.tokenOut, params.amountIn, params.minAmountOut, params.maxFee, params.allowPartialFill, params.deadline, salt]
+  ));
+}
+
+export function serializeCommitments(records: CommitmentRecord[]): string {
+  return serializeJson(records);
+}
+
+export function deserializeCommitments(json: string): CommitmentRecord[] {
+  return deserializeJson<CommitmentRecord[]>(json);
+}
+
+export class CommitRevealClient {
+  private readonly batchProcessor: Contract;
+  private readonly storage: KeyValueStorage;
+  private readonly warned = new Set<string>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private pending: Promise<void> | null = null;
+
+  constructor(private readonly options: CommitRevealOptions) {
+    this.batchProcessor = new Contract(options.batchProcessor, BATCH_PROCESSOR_ABI, options.signer);
+    this.storage = options.storage ?? defaultStorage();
+  }
+
+  async records(): Promise<CommitmentRecord[]> {
+    const json = this.storage.getItem(await this.storageKey());
+    return json ? deserializeCommitments(json) : [];
+  }
+
+  // Commits the intent to the current batch. The record is stored before the
+  // transaction is sent, so a reload mid-flight can still recover and reveal.
+  async commit(params: IntentParams): Promise<CommitmentRecord> {
+    const salt = randomSalt();
+    const record: CommitmentRecord = {
+      ...params,
+      salt,
+      commitHash: computeCommitHash(params, salt),
+      status: 'pending',
+      createdAt: Date.now(),
+    };
+    await this.save(record);
+
+    let commitTxHash: string | undefined;
+    try {
+      const tx = await this.batchProcessor.submitCommittedIntent(record.commitHash);
+      commitTxHash = tx.hash as string;
+      await this.save({ ...record, commitTxHash });
+      this.options.onTransaction?.(tx, 'Commit swap intent');
+      const receipt = await tx.wait();
+      return this.save({ ...record, commitTxHash, ...this.parseCommit(receipt.logs) });
+    } catch (error) {
+      // A sent commit may still land, so it stays pending until recover() finds its receipt
+      if (commitTxHash) return this.save({ ...record, commitTxHash, error: describeError(error) });
+      return this.save({ ...record, status: 'failed', error: describeError(error) });
+    }
+  }
+
+  async reveal(record: CommitmentRecord): Promise<CommitmentRecord> {
+    if (!record.intentId) throw new Error('Commitment not confirmed yet');
+    const tx = await this.batchProcessor.revealIntent(
+      record.intentId,
+      record.tokenIn,
+      record.tokenOut,
+      record.amountIn,
+      record.minAmountOut,
+      record.maxFee,
+      record.allowPartialFill,
+      record.deadline,
+      record.salt
+    );
+    this.options.onTransaction?.(tx, 'Reveal swap intent');
+    await tx.wait();
+    return this.save({ ...record, status: 'revealed', revealTxHash: tx.hash });
+  }
+
+  async cancel(intentId: string): Promise<CommitmentRecord> {
+    const record = (await this.records()).find((candidate) => candidate.intentId === intentId);
+    if (!record) throw new Error('Unknown intent');
+    const tx = await this.batchProcessor.cancelIntent(intentId);
+    this.options.onTransaction?.(tx, 'Cancel swap intent');
+    await tx.wait();
+    return this.save({ ...record, status: 'cancelled' });
+  }
+
+  // Drops finished records from storage
+  async prune(): Promise<void> {
+    const open = (await this.records()).filter((record) => record.status === 'pending' || record.status === 'committed');
+    await this.write(open);
+  }
+
+  async start(): Promise<void> {
+    const wake = () => void this.tick().catch(() => undefined);
+    await this.batchProcessor.on('BatchClosed', wake);
+    this.timer = setInterval(wake, this.options.pollIntervalMs ?? 1000);
+    wake();
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await this.batchProcessor.removeAllListeners();
+    await this.pending;
+  }
+
+  // Advances every open commitment. Overlapping calls share the in-flight step;
+  // deadlines are checked apart from it, so a reveal stuck on a wallet prompt
+  // does not hold back the warning.
+  tick(): Promise<void> {
+    if (!this.pending) {
+      this.pending = this.step().finally(() => {
+        this.pending = null;
+      });
+    }
+    return Promise.all([this.warnDeadlines(), this.pending]).then(() => undefined);
+  }
+
+  private async warnDeadlines(): Promise<void> {
+    const records = (await this.records()).filter((record) => record.status === 'committed' && !this.warned.has(record.intentId!));
+    if (records.length === 0) return;
+
+    const now = BigInt((await this.options.signer.provider!.getBlock('latest'))!.timestamp);
+    for (const record of records) {
+      const batch = await this.batchProcessor.batches(record.batchId);
+      if (Number(batch.status) !== BatchStatus.Solving || now >= batch.solveDeadline) continue;
+      const secondsLeft = Number(batch.solveDeadline - now);
+      if (secondsLeft > (this.options.warnBeforeSeconds ?? 5) || this.warned.has(record.intentId!)) continue;
+      this.warned.add(record.intentId!);
+      this.options.onWarning?.({ intentId: record.intentId!, batchId: record.batchId!, secondsLeft });
+    }
+  }
+
+  private async step(): Promise<void> {
+    const records = (await this.records()).filter((record) => record.status === 'pending' || record.status === 'committed');
+    if (records.length === 0) return;
+
+    const current = await this.batchProcessor.getCurrentBatch();
+    const now = BigInt((await this.options.signer.provider!.getBlock('latest'))!.timestamp);
+
+    for (let record of records) {
+      if (record.status === 'pending') {
+        record = await this.recover(record);
+        if (record.status !== 'committed') continue;
+      }
+
+      const intent = await this.batchProcessor.getIntent(record.intentId);
+      if (intent.user === ZeroAddress) {
+        await this.save({ ...record, status: 'cancelled' });
+        continue;
+      }
+      if (intent.revealed) {
+        await this.save({ ...record, status: 'revealed' });
+        continue;
+      }
+
+      const batch = record.batchId === current.id ? current : await this.batchProcessor.batches(record.batchId);
+      const status = Number(batch.status);
+      if (status === BatchStatus.Open) continue;
+      if (status !== BatchStatus.Solving || now >= batch.solveDeadline || record.deadline <= now) {
+        await this.save({ ...record, status: 'missed' });
+        continue;
+      }
+
+      try {
+        await this.reveal(record);
+      } catch (error) {
+        await this.save({ ...record, error: describeError(error) });
+      }
+    }
+  }
+
+  // Picks up a commit whose confirmation was interrupted, e.g. by a reload
+  private async recover(record: CommitmentRecord): Promise<CommitmentRecord> {
+    if (!record.commitTxHash) {
+      return Date.now() - record.createdAt > ABANDONED_AFTER_MS ? this.save({ ...record, status: 'failed' }) : record;
+    }
+    const receipt = await this.options.signer.provider!.getTransactionReceipt(record.commitTxHash);
+    if (!receipt) return record;
+    if (receipt.status === 0) return this.save({ ...record, status: 'failed', error: 'Commit reverted' });
+    return this.save({ ...record, error: undefined, ...this.parseCommit(receipt.logs) });
+  }
+
+  private parseCommit(logs: readonly { topics: readonly string[]; data: string }[]): Pick<CommitmentRecord, 'status' | 'intentId' | 'batchId'> {
+    for (const log of logs) {
+      const parsed = this.batchProcessor.interface.parseLog(log);
+      if (parsed?.name === 'IntentSubmitted') {
+        return { status: 'committed', intentId: parsed.args.intentId, batchId: parsed.args.batchId };
+      }
+    }
+    throw new Error('IntentSubmitted not found in commit receipt');
+  }
+
+  private async save(record: CommitmentRecord): Promise<CommitmentRecord> {
+    const records = await this.records();
+    const index = records.findIndex((candidate) => candidate.commitHash === record.commitHash);
+    if (index === -1) records.push(record);
+    else records[index] = record;
+    await this.write(records);
+    return record;
+  }
+
+  private async write(records: CommitmentRecord[]): Promise<void> {
+    this.storage.setItem(await this.storageKey(), serializeCommitments(records));
+    this.options.onChange?.(records);
+  }
+
+  private async storageKey(): Promise<string> {
+    const user = await this.options.signer.getAddress();
+    return `liquidflow:commitments:${this.options.chainId}:${this.options.batchProcessor.toLowerCase()}:${user.toLowerCase()}`;
+  }
+}
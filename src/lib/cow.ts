@@ -0,0 +1,311 @@
+import { getAddress } from 'ethers';
+import { PoolState, WAD } from './quote';
+import { Allocation, splitAmount } from './router';
+import { sortTokens } from './strategy';
+
+// Coincidence-of-wants matching for batch settlement.
+//
+// Intents on the same pair are cleared together at one uniform price per pair:
+// sellers of tokenA all get the same tokenB-per-tokenA rate and sellers of
+// tokenB get its inverse. Opposing flow is netted peer to peer and only the
+// imbalance is routed to strategies. The routed amount x is chosen so the
+// prices stay uniform with the AMM in the loop:
+//
+//   (soldB + ammOut(x)) * (soldA - x) == soldA * soldB
+//
+// The left side is what A sellers receive times what B sellers receive, so
+// the equality says the two rates are exact inverses. x = 0 (pure netting at
+// soldB / soldA) always solves it; a positive root exists when the AMM pays A
+// sellers more than netting does, and then the price follows the AMM.
+// Only direct pairs are matched; rings across three or more tokens are not.
+
+export interface MatchableIntent {
+  intentId: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  minAmountOut: bigint;
+  allowPartialFill: boolean;
+}
+
+// Pools for tokenIn -> tokenOut, already oriented
+export type Liquidity<P extends { state: PoolState }> = (tokenIn: string, tokenOut: string) => P[];
+
+export interface CowFill<I extends MatchableIntent> {
+  intent: I;
+  // Executed input; below intent.amountIn for partial fills
+  amountIn: bigint;
+  amountOut: bigint;
+  // intent.minAmountOut scaled to the executed input, rounded up
+  minAmountOut: bigint;
+  surplus: bigint;
+  partial: boolean;
+}
+
+export interface AmmLeg<P> {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  amountOut: bigint;
+  allocations: Allocation<P>[];
+}
+
+export interface PairClearing<P> {
+  tokenA: string;
+  tokenB: string;
+  // Total input sold on each side
+  soldA: bigint;
+  soldB: bigint;
+  // Uniform prices, WAD-scaled: tokenB per tokenA, and tokenA per tokenB
+  priceAB: bigint;
+  priceBA: bigint;
+  // Totals paid out to each side
+  paidToA: bigint;
+  paidToB: bigint;
+  amm: AmmLeg<P> | null;
+}
+
+export interface CowResult<I extends MatchableIntent, P> {
+  fills: CowFill<I>[];
+  clearings: PairClearing<P>[];
+  unfilled: I[];
+  // Surplus of the fills by their output token; amounts in different tokens do not add up
+  surplusByToken: Map<string, bigint>;
+}
+
+interface Order<I> {
+  intent: I;
+  amountIn: bigint;
+}
+
+interface Clearing<P> {
+  paidToA: bigint;
+  paidToB: bigint;
+  amm: AmmLeg<P> | null;
+}
+
+const SEARCH_ROUNDS = 128;
+// The partial-fill search clears the pair once per round, so it searches the excess
+// to route only to 2^-COARSE_SEARCH_ROUNDS of the amount sold, then checks the size
+// it settles on with an exact clearing.
+const COARSE_SEARCH_ROUNDS = 24;
+const PARTIAL_ROUNDS = 32;
+
+function sum<I>(orders: Order<I>[]): bigint {
+  return orders.reduce((total, order) => total + order.amountIn, 0n);
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+  return (a + b - 1n) / b;
+}
+
+function scaledMin(intent: MatchableIntent, amountIn: bigint): bigint {
+  return amountIn === intent.amountIn ? intent.minAmountOut : ceilDiv(intent.minAmountOut * amountIn, intent.amountIn);
+}
+
+function route<P extends { state: PoolState }>(pools: P[], amountIn: bigint, steps: number): Allocation<P>[] {
+  if (pools.length === 0 || amountIn <= 0n) return [];
+  return splitAmount(pools, amountIn, steps);
+}
+
+function routedOut<P>(allocations: Allocation<P>[]): bigint {
+  return allocations.reduce((total, { amountOut }) => total + amountOut, 0n);
+}
+
+// Largest x in [0, sold] with (other + out(x)) * (sold - x) >= sold * other.
+// The left side is concave in x, so the feasible set is an interval starting at 0.
+function excessToRoute<P extends { state: PoolState }>(sold: bigint, other: bigint, pools: P[], steps: number, rounds: number): bigint {
+  if (sold === 0n || pools.length === 0) return 0n;
+  const feasible = (x: bigint) => (other + routedOut(route(pools, x, steps))) * (sold - x) >= sold * other;
+
+  // Nothing to gain from the AMM if even a tiny amount does worse than netting
+  const probe = sold / 1000n || 1n;
+  if (other > 0n && !feasible(probe)) return 0n;
+
+  let lo = probe;
+  let hi = sold;
+  for (let round = 0; round < rounds && lo < hi; round++) {
+    const mid = (lo + hi + 1n) / 2n;
+    if (feasible(mid)) lo = mid;
+    else hi = mid - 1n;
+  }
+  return lo;
+}
+
+function clear<P extends { state: PoolState }>(
+  soldA: bigint,
+  soldB: bigint,
+  poolsAB: P[],
+  poolsBA: P[],
+  tokenA: string,
+  tokenB: string,
+  steps: number,
+  rounds: number
+): Clearing<P> | null {
+  if (soldA === 0n && soldB === 0n) return null;
+  if (soldB === 0n && poolsAB.length === 0) return null;
+  if (soldA === 0n && poolsBA.length === 0) return null;
+
+  const excessA = excessToRoute(soldA, soldB, poolsAB, steps, rounds);
+  if (excessA > 0n) {
+    const allocations = route(poolsAB, excessA, steps);
+    const amountOut = routedOut(allocations);
+    return {
+      paidToA: soldB + amountOut,
+      paidToB: soldA - excessA,
+      amm: { tokenIn: tokenA, tokenOut: tokenB, amountIn: excessA, amountOut, allocations },
+    };
+  }
+
+  const excessB = excessToRoute(soldB, soldA, poolsBA, steps, rounds);
+  if (excessB > 0n) {
+    const allocations = route(poolsBA, excessB, steps);
+    const amountOut = routedOut(allocations);
+    return {
+      paidToA: soldB - excessB,
+      paidToB: soldA + amountOut,
+      amm: { tokenIn: tokenB, tokenOut: tokenA, amountIn: excessB, amountOut, allocations },
+    };
+  }
+
+  // Opposing flow meets inside the AMM spread: pure peer-to-peer netting
+  if (soldA === 0n || soldB === 0n) return null;
+  return { paidToA: soldB, paidToB: soldA, amm: null };
+}
+
+function payout(amountIn: bigint, sold: bigint, paid: bigint): bigint {
+  return sold === 0n ? 0n : amountIn * paid / sold;
+}
+
+// Clears one pair, dropping or shrinking intents until every limit holds at
+// the uniform price. The most demanding limit is handled first; partial-fill
+// intents are shrunk to the largest size that still meets their own limit.
+function matchPair<I extends MatchableIntent, P extends { state: PoolState }>(
+  tokenA: string,
+  tokenB: string,
+  intents: I[],
+  liquidity: Liquidity<P>,
+  steps: number
+): { fills: CowFill<I>[]; clearing: PairClearing<P> | null; unfilled: I[] } {
+  const poolsAB = liquidity(tokenA, tokenB);
+  const poolsBA = liquidity(tokenB, tokenA);
+  const isA = (intent: I) => getAddress(intent.tokenIn) === tokenA;
+
+  let orders: Order<I>[] = intents.map((intent) => ({ intent, amountIn: intent.amountIn }));
+  const unfilled: I[] = [];
+  const shrunk = new Set<string>();
+
+  const evaluate = (candidate: Order<I>[], rounds = SEARCH_ROUNDS) => {
+    const sideA = candidate.filter((order) => isA(order.intent));
+    const sideB = candidate.filter((order) => !isA(order.intent));
+    const soldA = sum(sideA);
+    const soldB = sum(sideB);
+    const clearing = clear(soldA, soldB, poolsAB, poolsBA, tokenA, tokenB, steps, rounds);
+    const outOf = (order: Order<I>) => !clearing
+      ? 0n
+      : isA(order.intent) ? payout(order.amountIn, soldA, clearing.paidToA) : payout(order.amountIn, soldB, clearing.paidToB);
+    return { soldA, soldB, clearing, outOf };
+  };
+  const meetsLimit = (order: Order<I>, outOf: (order: Order<I>) => bigint) =>
+    outOf(order) > 0n && outOf(order) >= scaledMin(order.intent, order.amountIn);
+  const limitPrice = (order: Order<I>) => order.intent.minAmountOut * WAD / order.intent.amountIn;
+
+  for (;;) {
+    const { outOf } = evaluate(orders);
+    const violators = orders
+      .filter((order) => !meetsLimit(order, outOf))
+      .sort((a, b) => limitPrice(b) > limitPrice(a) ? 1 : limitPrice(b) < limitPrice(a) ? -1 : 0);
+    if (violators.length === 0) break;
+
+    const [worst] = violators;
+    const others = orders.filter((order) => order !== worst);
+    orders = others;
+
+    if (!worst.intent.allowPartialFill || shrunk.has(worst.intent.intentId)) {
+      unfilled.push(worst.intent);
+      continue;
+    }
+
+    // Largest size that meets the intent's own limit against the other orders
+    let lo = 0n;
+    let hi = worst.amountIn - 1n;
+    for (let round = 0; round < PARTIAL_ROUNDS && lo < hi; round++) {
+      const mid = (lo + hi + 1n) / 2n;
+      const order = { intent: worst.intent, amountIn: mid };
+      if (meetsLimit(order, evaluate([...others, order], COARSE_SEARCH_ROUNDS).outOf)) lo = mid;
+      else hi = mid - 1n;
+    }
+    if (lo > 0n && meetsLimit({ intent: worst.intent, amountIn: lo }, evaluate([...others, { intent: worst.intent, amountIn: lo }]).outOf)) {
+      shrunk.add(worst.intent.intentId);
+      orders = [...others, { intent: worst.intent, amountIn: lo }];
+    } else {
+      unfilled.push(worst.intent);
+    }
+  }
+
+  const { soldA, soldB, clearing, outOf } = evaluate(orders);
+  if (!clearing) return { fills: [], clearing: null, unfilled: [...unfilled, ...orders.map((order) => order.intent)] };
+
+  const fills = orders.map((order): CowFill<I> => {
+    const amountOut = outOf(order);
+    const minAmountOut = scaledMin(order.intent, order.amountIn);
+    return {
+      intent: order.intent,
+      amountIn: order.amountIn,
+      amountOut,
+      minAmountOut,
+      surplus: amountOut - minAmountOut,
+      partial: order.amountIn < order.intent.amountIn,
+    };
+  });
+
+  return {
+    fills,
+    unfilled,
+    clearing: {
+      tokenA,
+      tokenB,
+      soldA,
+      soldB,
+      priceAB: soldA === 0n ? 0n : clearing.paidToA * WAD / soldA,
+      priceBA: soldB === 0n ? 0n : clearing.paidToB * WAD / soldB,
+      paidToA: clearing.paidToA,
+      paidToB: clearing.paidToB,
+      amm: clearing.amm,
+    },
+  };
+}
+
+// Matches every pair in the batch independently. Fill outputs are rounded
+// down, so the payouts never exceed what netting and the AMM legs provide.
+export function matchIntents<I extends MatchableIntent, P extends { state: PoolState }>(
+  intents: I[],
+  liquidity: Liquidity<P>,
+  steps = 20
+): CowResult<I, P> {
+  const pairs = new Map<string, { tokenA: string; tokenB: string; intents: I[] }>();
+  const result: CowResult<I, P> = { fills: [], clearings: [], unfilled: [], surplusByToken: new Map() };
+  for (const intent of intents) {
+    // Swapping a token for itself is no pair; it stays unfilled
+    if (getAddress(intent.tokenIn) === getAddress(intent.tokenOut)) {
+      result.unfilled.push(intent);
+      continue;
+    }
+    const [tokenA, tokenB] = sortTokens(getAddress(intent.tokenIn), getAddress(intent.tokenOut));
+    const key = `${tokenA}:${tokenB}`;
+    if (!pairs.has(key)) pairs.set(key, { tokenA, tokenB, intents: [] });
+    pairs.get(key)!.intents.push(intent);
+  }
+
+  for (const { tokenA, tokenB, intents: pairIntents } of pairs.values()) {
+    const { fills, clearing, unfilled } = matchPair(tokenA, tokenB, pairIntents, liquidity, steps);
+    result.fills.push(...fills);
+    result.unfilled.push(...unfilled);
+    if (clearing) result.clearings.push(clearing);
+  }
+  for (const { intent, surplus } of result.fills) {
+    const token = getAddress(intent.tokenOut);
+    result.surplusByToken.set(token, (result.surplusByToken.get(token) ?? 0n) + surplus);
+  }
+  return result;
+}
@@ -0,0 +1,149 @@
+import { Interface, Result, dataLength, isError, isHexString } from 'ethers';
+import { CONTRACT_ERRORS_ABI } from './abis';
+import { isUserRejection } from './wallet';
+
+// Turns reverts into messages a user can act on. Every contract's custom
+// errors are known here, so a revert decodes the same way whether it surfaced
+// from a gas estimate, a failed eth_call or a replay of a mined transaction.
+
+export interface DecodedRevert {
+  // Error name, 'Error' for require messages and 'Panic' for failed asserts
+  name: string;
+  args: unknown[];
+  message: string;
+}
+
+const errors = new Interface(CONTRACT_ERRORS_ABI);
+const builtin = new Interface(['error Error(string reason)', 'error Panic(uint256 code)']);
+
+const PANIC_REASONS: Record<number, string> = {
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division by zero',
+  0x21: 'invalid enum value',
+  0x22: 'corrupted storage',
+  0x31: 'pop from an empty array',
+  0x32: 'index out of bounds',
+  0x41: 'out of memory',
+  0x51: 'call to an uninitialized function',
+};
+
+// Wording for the errors a user can run into; the rest are named as is
+const MESSAGES: Record<string, string | ((args: Result) => string)> = {
+  // Swaps
+  InsufficientOutputAmount: (args) => `Price moved: the swap would return ${args.actual}, below your minimum of ${args.minimum}`,
+  InsufficientInputAmount: (args) => `Price moved: the swap would cost ${args.actual}, above your maximum of ${args.maximum}`,
+  InsufficientOutput: 'The swap would return less than your minimum',
+  DeadlineExpired: 'The transaction deadline passed before it was mined',
+  InvalidTokenPair: 'The pool does not trade this pair',
+  IdenticalTokens: 'Both sides of the pair are the same token',
+  // Batches and intents
+  BatchNotOpen: 'The current batch is closed; try again when the next one opens',
+  BatchNotSolving: 'The batch is not accepting solutions',
+  DeadlinePassed: 'The batch deadline has passed',
+  IntentExpired: 'The intent deadline has already passed',
+  IntentAlreadyExists: 'An identical intent was already submitted in this block',
+  InvalidCommitment: 'The revealed intent does not match its commitment',
+  NotIntentOwner: 'Only the account that submitted the intent can do this',
+  IntentBeingSolved: 'The batch of this intent is being solved; it can be cancelled once the batch ends or the intent expires',
+  InvalidSolution: 'The solution is not valid for this batch',
+  // Solvers
+  InsufficientStake: 'The stake is below the minimum required to register as a solver',
+  SolverNotRegistered: 'This account is not a registered solver',
+  SolverAlreadyRegistered: 'This account is already registered as a solver',
+  SolverNotActive: 'The solver is not active',
+  ReputationTooLow: 'The solver reputation is too low',
+  CallFailed: (args) => `Settlement call ${args.index} failed`,
+  // Liquidity
+  InsufficientBalance: 'Balance or allowance is too low for this amount',
+  StrategyNotApproved: 'The strategy is not approved by the protocol',
+  StrategyNotActive: 'The strategy is not active',
+  InvalidStrategy: 'Unknown strategy',
+  WithdrawalNotReady: 'The withdrawal delay has not passed yet',
+  WithdrawalAlreadyExecuted: 'The withdrawal was already executed',
+  EnforcedPause: 'The protocol is paused',
+  ExpectedPause: 'Only available while the protocol is paused',
+  // $LF, bLF and vebLF
+  ZeroAmount: 'Enter an amount greater than zero',
+  ExceedsMaxSupply: 'The amount would exceed the maximum $LF supply',
+  TransferNotAllowed: 'bLF cannot be transferred',
+  LockExists: 'You already have a lock; increase it instead',
+  LockExpired: 'Your lock has expired',
+  LockNotExpired: 'Your lock has not expired yet',
+  LockTooShort: 'The lock duration is below the minimum',
+  LockTooLong: 'The lock duration is above the maximum',
+  InvalidLockTime: 'The new unlock time must be later than the current one',
+  NoLockFound: 'You have no lock',
+  AlreadyClaimed: 'These fees were already claimed',
+  EpochNotEnded: 'The fee epoch has not ended yet',
+  NoClaimableAmount: 'Nothing to claim',
+  InvalidToken: 'The token is not accepted here',
+  NoPosition: 'No position found',
+  // Bridging
+  UnsupportedChain: 'The destination chain is not supported',
+  UnsupportedToken: 'The token cannot be bridged',
+  AdapterNotActive: 'The bridge provider is not active',
+  BridgeCallFailed: 'The bridge provider rejected the transfer',
+  InsufficientAmount: 'The amount is too small to bridge',
+  // OpenZeppelin
+  ERC20InsufficientBalance: (args) => `Balance too low: ${args.balance} available, ${args.needed} needed`,
+  ERC20InsufficientAllowance: (args) => `Allowance too low: ${args.allowance} approved, ${args.needed} needed`,
+  ERC2612ExpiredSignature: 'The permit signature has expired',
+  ERC2612InvalidSigner: 'The permit was signed by a different account',
+  OwnableUnauthorizedAccount: 'Only the contract owner can do this',
+  SafeERC20FailedOperation: (args) => `Token transfer failed for ${args.token}`,
+  UnauthorizedCaller: 'This account is not allowed to call this function',
+  ReentrancyGuardReentrantCall: 'Reentrant call rejected',
+};
+
+// "LockTooShort" -> "Lock too short"
+function humanize(name: string): string {
+  const words = name.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export function decodeRevertData(data: string): DecodedRevert {
+  if (data === '0x') return { name: 'Revert', args: [], message: 'The transaction reverted without a reason' };
+
+  const parsed = builtin.parseError(data) ?? errors.parseError(data);
+  if (!parsed) return { name: 'Unknown', args: [], message: `The transaction reverted with an unknown error (${data.slice(0, 10)})` };
+
+  const args = parsed.args.toArray();
+  // ethers parses these two as its own unnamed builtins, so their args are positional
+  if (parsed.name === 'Error') return { name: 'Error', args, message: String(args[0]) };
+  if (parsed.name === 'Panic') {
+    const code = Number(args[0]);
+    return { name: 'Panic', args, message: `Contract error: ${PANIC_REASONS[code] ?? `panic 0x${code.toString(16)}`}` };
+  }
+  const wording = MESSAGES[parsed.name];
+  const message = typeof wording === 'function' ? wording(parsed.args) : wording ?? humanize(parsed.name);
+  return { name: parsed.name, args, message };
+}
+
+// Revert data from an ethers error or a wallet's JSON-RPC error, which nest it
+// at different depths (error.data, error.error.data, error.info.error.data, ...)
+export function revertData(error: unknown, depth = 0): string | null {
+  if (depth > 4 || typeof error !== 'object' || error === null) return null;
+  const { data, error: inner, info, cause } = error as Record<string, unknown>;
+  if (typeof data === 'string' && isHexString(data) && (data === '0x' || dataLength(data) >= 4)) return data;
+  for (const nested of [data, inner, info, cause]) {
+    const found = revertData(nested, depth + 1);
+    if (found !== null) return found;
+  }
+  return null;
+}
+
+export function decodeRevert(error: unknown): DecodedRevert | null {
+  const data = revertData(error);
+  return data === null ? null : decodeRevertData(data);
+}
+
+// One line for the UI: the decoded revert, or the error's own short message
+export function describeError(error: unknown): string {
+  // Raw EIP-1193 rejections, and the ones ethers wraps when a signer sends
+  if (isUserRejection(error) || isError(error, 'ACTION_REJECTED')) return 'Request rejected in the wallet';
+  const decoded = decodeRevert(error);
+  if (decoded) return decoded.message;
+  const { shortMessage, message } = (error ?? {}) as { shortMessage?: string; message?: string };
+  return shortMessage ?? message ?? String(error);
+}
@@ -0,0 +1,443 @@
+import { Contract, Provider, Signer, TypedDataDomain, TypedDataEncoder, getAddress, parseUnits, verifyTypedData } from 'ethers';
+import { VOTING_ESCROW_ABI } from './abis';
+import { ForkPreview, ForkProvider, GovernedAddresses, ProposalAction, decodeAction, previewOnFork } from './governanceActions';
+import { KeyValueStorage, defaultStorage, deserializeJson, serializeJson } from './storage';
+
+// Off-chain governance weighted by vebLF.
+//
+// A proposal is signed by its proposer (EIP-712) and names a snapshot: a block
+// and its timestamp. A voter's weight is VotingEscrow.balanceOfAt(voter,
+// snapshot) read at that block, so locks created or grown after the snapshot
+// do not count. Votes are EIP-712 signatures over the proposal ID, a choice
+// and the chain time they were cast at, checked against the chain when they
+// are submitted.
+//
+// A proposal may carry admin calls (src/lib/governanceActions.ts), signed
+// with it, for the protocol owner to execute once it passes.
+//
+// Backends only store what was signed plus the weights they read. Anyone with
+// a proposal and its votes can recompute the tally from the signatures and the
+// chain with recomputeTally, without trusting the backend. Reading balances at
+// the snapshot block needs a node that keeps historical state, i.e. an archive
+// node on long-lived networks.
+//
+// Neither time a vote carries is proven by the chain: its signed date is the
+// voter's claim and the time it was received is the backend's. A recount
+// leaves out votes dated or received after voting ended, but a late vote that
+// is backdated and recorded as received in time still counts, so that check
+// is only advisory.
+
+export type VoteSupport = 'against' | 'for' | 'abstain';
+
+// Position is the value signed as `support`, as in Governor Bravo
+export const VOTE_SUPPORT: VoteSupport[] = ['against', 'for', 'abstain'];
+
+export const PROPOSAL_TYPES = {
+  Proposal: [
+    { name: 'proposer', type: 'address' },
+    { name: 'title', type: 'string' },
+    { name: 'description', type: 'string' },
+    { name: 'snapshot', type: 'uint256' },
+    { name: 'snapshotBlock', type: 'uint256' },
+    { name: 'end', type: 'uint256' },
+    { name: 'actions', type: 'Action[]' },
+  ],
+  Action: [
+    { name: 'target', type: 'address' },
+    { name: 'data', type: 'bytes' },
+  ],
+};
+
+export const VOTE_TYPES = {
+  Vote: [
+    { name: 'proposalId', type: 'bytes32' },
+    { name: 'voter', type: 'address' },
+    { name: 'support', type: 'uint8' },
+    { name: 'reason', type: 'string' },
+    { name: 'timestamp', type: 'uint256' },
+  ],
+};
+
+// Absolute vebLF of for, against and abstain votes together
+export const DEFAULT_QUORUM = parseUnits('100000', 18);
+
+export interface Proposal {
+  proposer: string;
+  title: string;
+  description: string;
+  // Timestamp of snapshotBlock; voting opens with it
+  snapshot: number;
+  snapshotBlock: number;
+  // Votes are accepted while chain time is before it
+  end: number;
+  // Calls to execute once the proposal passes, in order; none for a signalling proposal
+  actions: ProposalAction[];
+}
+
+export interface SignedProposal {
+  proposal: Proposal;
+  signature: string;
+}
+
+export interface ProposalRecord extends SignedProposal {
+  // EIP-712 hash of the proposal
+  id: string;
+  // Recorded by the backend when the proposal is accepted, so later changes do not move it
+  quorum: bigint;
+}
+
+export interface Vote {
+  proposalId: string;
+  voter: string;
+  // Index into VOTE_SUPPORT
+  support: number;
+  reason: string;
+  // Chain time the vote was cast at; it must be before the proposal's end
+  timestamp: number;
+}
+
+export interface SignedVote {
+  vote: Vote;
+  signature: string;
+}
+
+export interface VoteRecord extends SignedVote {
+  weight: bigint;
+  submittedAt: number;
+}
+
+export interface Tally {
+  for: bigint;
+  against: bigint;
+  abstain: bigint;
+  quorum: bigint;
+  quorumReached: boolean;
+  // Quorum reached and more weight for than against
+  passed: boolean;
+}
+
+export interface ProposalView {
+  record: ProposalRecord;
+  votes: VoteRecord[];
+  tally: Tally;
+}
+
+export type ProposalStatus = 'active' | 'passed' | 'defeated';
+
+export interface RejectedVote {
+  voter: string;
+  reason: string;
+}
+
+export interface RecomputedTally {
+  tally: Tally;
+  // Weight of every counted vote, by voter
+  weights: Record<string, bigint>;
+  rejected: RejectedVote[];
+}
+
+// Where proposals and votes live: the browser's storage, or a service such as scripts/governance.ts
+export interface GovernanceBackend {
+  // Newest first
+  proposals(): Promise<ProposalView[]>;
+  propose(signed: SignedProposal): Promise<ProposalView>;
+  vote(signed: SignedVote): Promise<ProposalView>;
+  // Runs a passed proposal's actions on a fork
+  preview(proposalId: string): Promise<ForkPreview>;
+}
+
+export function governanceDomain(chainId: number | bigint, votingEscrow: string): TypedDataDomain {
+  return { name: 'Liquid Flow Governance', version: '1', chainId, verifyingContract: getAddress(votingEscrow) };
+}
+
+export function proposalId(domain: TypedDataDomain, proposal: Proposal): string {
+  return TypedDataEncoder.hash(domain, PROPOSAL_TYPES, proposal);
+}
+
+export async function signProposal(signer: Signer, domain: TypedDataDomain, proposal: Proposal): Promise<SignedProposal> {
+  return { proposal, signature: await signer.signTypedData(domain, PROPOSAL_TYPES, proposal) };
+}
+
+export async function signVote(signer: Signer, domain: TypedDataDomain, vote: Vote): Promise<SignedVote> {
+  return { vote, signature: await signer.signTypedData(domain, VOTE_TYPES, vote) };
+}
+
+// A proposal snapshotted at the latest block, open for `votingPeriod` seconds
+export async function draftProposal(
+  provider: Provider,
+  proposer: string,
+  title: string,
+  description: string,
+  votingPeriod: number,
+  actions: ProposalAction[] = [],
+): Promise<Proposal> {
+  const block = await provider.getBlock('latest');
+  if (!block) throw new Error('Could not read the latest block');
+  return {
+    proposer: getAddress(proposer),
+    title: title.trim(),
+    description: description.trim(),
+    snapshot: block.timestamp,
+    snapshotBlock: block.number,
+    end: block.timestamp + votingPeriod,
+    actions,
+  };
+}
+
+// A vote dated at the latest block
+export async function draftVote(provider: Provider, proposalId: string, voter: string, support: number, reason: string): Promise<Vote> {
+  const block = await provider.getBlock('latest');
+  if (!block) throw new Error('Could not read the latest block');
+  return { proposalId, voter: getAddress(voter), support, reason: reason.trim(), timestamp: block.timestamp };
+}
+
+export async function votingPower(provider: Provider, votingEscrow: string, account: string, proposal: Proposal): Promise<bigint> {
+  const escrow = new Contract(votingEscrow, VOTING_ESCROW_ABI, provider);
+  return escrow.balanceOfAt(account, proposal.snapshot, { blockTag: proposal.snapshotBlock });
+}
+
+function recoversTo(domain: TypedDataDomain, types: typeof PROPOSAL_TYPES | typeof VOTE_TYPES, value: object, signature: string, account: string): boolean {
+  try {
+    return getAddress(verifyTypedData(domain, types, value, signature)) === getAddress(account);
+  } catch {
+    return false;
+  }
+}
+
+export function tallyVotes(quorum: bigint, votes: { vote: Vote; weight: bigint }[]): Tally {
+  const totals: Record<VoteSupport, bigint> = { for: 0n, against: 0n, abstain: 0n };
+  for (const { vote, weight } of votes) totals[VOTE_SUPPORT[vote.support]] += weight;
+  const quorumReached = totals.for + totals.against + totals.abstain >= quorum;
+  return { ...totals, quorum, quorumReached, passed: quorumReached && totals.for > totals.against };
+}
+
+export function proposalStatus(view: ProposalView, now: number): ProposalStatus {
+  if (now < view.record.proposal.end) return 'active';
+  return view.tally.passed ? 'passed' : 'defeated';
+}
+
+// Recounts a proposal from the signatures and the chain alone. Votes that are
+// not signed by their voter, name another proposal, are dated or were received
+// after voting ended, repeat a voter or carry no weight are left out and reported.
+export async function recomputeTally(
+  provider: Provider,
+  domain: TypedDataDomain,
+  record: ProposalRecord,
+  votes: (SignedVote & Partial<Pick<VoteRecord, 'submittedAt'>>)[],
+): Promise<RecomputedTally> {
+  if (proposalId(domain, record.proposal) !== record.id) throw new Error('The proposal ID does not match its content');
+  if (!recoversTo(domain, PROPOSAL_TYPES, record.proposal, record.signature, record.proposal.proposer)) {
+    throw new Error('The proposal is not signed by its proposer');
+  }
+
+  const weights: Record<string, bigint> = {};
+  const rejected: RejectedVote[] = [];
+  const counted: { vote: Vote; weight: bigint }[] = [];
+  for (const { vote, signature, submittedAt } of votes) {
+    const reject = (reason: string) => rejected.push({ voter: vote.voter, reason });
+    if (vote.proposalId !== record.id) {
+      reject('Signed for another proposal');
+    } else if (!VOTE_SUPPORT[vote.support]) {
+      reject('Unknown vote choice');
+    } else if (!recoversTo(domain, VOTE_TYPES, vote, signature, vote.voter)) {
+      reject('Not signed by the voter');
+    } else if (vote.timestamp >= record.proposal.end) {
+      reject('Signed after voting ended');
+    } else if (submittedAt !== undefined && submittedAt >= record.proposal.end) {
+      reject('Received after voting ended');
+    } else if (getAddress(vote.voter) in weights) {
+      reject('Voted more than once');
+    } else {
+      const weight = await votingPower(provider, domain.verifyingContract!, vote.voter, record.proposal);
+      if (weight === 0n) {
+        reject('No vebLF at the snapshot');
+      } else {
+        weights[getAddress(vote.voter)] = weight;
+        counted.push({ vote, weight });
+      }
+    }
+  }
+  return { tally: tallyVotes(record.quorum, counted), weights, rejected };
+}
+
+export function sameTally(a: Tally, b: Tally): boolean {
+  return a.for === b.for && a.against === b.against && a.abstain === b.abstain && a.quorum === b.quorum;
+}
+
+export interface LocalGovernanceOptions {
+  provider: Provider;
+  chainId: number | bigint;
+  votingEscrow: string;
+  storage?: KeyValueStorage;
+  quorum?: bigint;
+  // Bounds on end - snapshot, in seconds
+  minVotingPeriod?: number;
+  maxVotingPeriod?: number;
+  // How far behind chain time a new proposal's snapshot may be, in seconds
+  maxSnapshotAge?: number;
+  // When known, actions must call the governed contract they belong to
+  contracts?: GovernedAddresses;
+  // Where passed proposals are previewed; with `from`, the fork is first moved
+  // to the latest block of that node
+  fork?: { provider: ForkProvider; from?: string };
+}
+
+interface GovernanceSnapshot {
+  proposals: ProposalRecord[];
+  votes: Record<string, VoteRecord[]>;
+}
+
+// Checks every submission against the chain and keeps the accepted ones in a
+// key-value store: localStorage in the browser, files in scripts/governance.ts
+export class LocalGovernance implements GovernanceBackend {
+  readonly domain: TypedDataDomain;
+  private readonly storage: KeyValueStorage;
+  private readonly key: string;
+
+  constructor(private readonly options: LocalGovernanceOptions) {
+    this.domain = governanceDomain(options.chainId, options.votingEscrow);
+    this.storage = options.storage ?? defaultStorage();
+    this.key = `liquidflow:governance:${options.chainId}:${getAddress(options.votingEscrow)}`;
+  }
+
+  async proposals(): Promise<ProposalView[]> {
+    const state = this.load();
+    return state.proposals.map((record) => this.view(state, record)).reverse();
+  }
+
+  async propose({ proposal, signature }: SignedProposal): Promise<ProposalView> {
+    const { provider, votingEscrow } = this.options;
+    if (!proposal.title.trim()) throw new Error('A proposal needs a title');
+    proposal.actions.forEach((action, index) => {
+      try {
+        decodeAction(action, this.options.contracts);
+      } catch (error) {
+        throw new Error(`Action ${index + 1}: ${(error as Error).message}`);
+      }
+    });
+    if (!recoversTo(this.domain, PROPOSAL_TYPES, proposal, signature, proposal.proposer)) {
+      throw new Error('The proposal is not signed by its proposer');
+    }
+
+    const period = proposal.end - proposal.snapshot;
+    const minPeriod = this.options.minVotingPeriod ?? 24 * 3600;
+    const maxPeriod = this.options.maxVotingPeriod ?? 30 * 24 * 3600;
+    if (period < minPeriod || period > maxPeriod) {
+      throw new Error(`The voting period must be between ${minPeriod / 3600} and ${maxPeriod / 3600} hours`);
+    }
+    const [snapshotBlock, latest] = await Promise.all([provider.getBlock(proposal.snapshotBlock), provider.getBlock('latest')]);
+    if (!snapshotBlock || snapshotBlock.timestamp !== proposal.snapshot) {
+      throw new Error(`The snapshot does not match block ${proposal.snapshotBlock}`);
+    }
+    // Otherwise a proposer could pick a past moment that suits them
+    if (latest!.timestamp - proposal.snapshot > (this.options.maxSnapshotAge ?? 3600)) {
+      throw new Error('The snapshot is too old; sign the proposal again');
+    }
+    if (await votingPower(provider, votingEscrow, proposal.proposer, proposal) === 0n) {
+      throw new Error('The proposer has no vebLF at the snapshot');
+    }
+
+    const id = proposalId(this.domain, proposal);
+    const state = this.load();
+    if (state.proposals.some((record) => record.id === id)) throw new Error('The proposal already exists');
+    const record: ProposalRecord = { id, proposal, signature, quorum: this.options.quorum ?? DEFAULT_QUORUM };
+    state.proposals.push(record);
+    state.votes[id] = [];
+    this.save(state);
+    return this.view(state, record);
+  }
+
+  async vote({ vote, signature }: SignedVote): Promise<ProposalView> {
+    const { provider, votingEscrow } = this.options;
+    const record = this.load().proposals.find((candidate) => candidate.id === vote.proposalId);
+    if (!record) throw new Error('Unknown proposal');
+    if (!VOTE_SUPPORT[vote.support]) throw new Error('Unknown vote choice');
+    if (!recoversTo(this.domain, VOTE_TYPES, vote, signature, vote.voter)) throw new Error('The vote is not signed by the voter');
+
+    const [latest, weight] = await Promise.all([
+      provider.getBlock('latest'),
+      votingPower(provider, votingEscrow, vote.voter, record.proposal),
+    ]);
+    if (latest!.timestamp >= record.proposal.end) throw new Error('Voting has ended');
+    // Otherwise a recount would drop the vote once voting ends
+    if (vote.timestamp >= record.proposal.end) throw new Error('The vote is dated after voting ended');
+    if (vote.timestamp > latest!.timestamp) throw new Error('The vote is dated ahead of chain time');
+    if (weight === 0n) throw new Error('The voter has no vebLF at the snapshot');
+
+    // Read again: another vote may have landed while the chain was read
+    const state = this.load();
+    const votes = state.votes[record.id];
+    if (votes.some((existing) => getAddress(existing.vote.voter) === getAddress(vote.voter))) {
+      throw new Error('This account already voted');
+    }
+    votes.push({ vote, signature, weight, submittedAt: latest!.timestamp });
+    this.save(state);
+    return this.view(state, record);
+  }
+
+  async preview(id: string): Promise<ForkPreview> {
+    const { provider, fork } = this.options;
+    if (!fork) throw new Error('No fork is set up to preview proposals on');
+    const view = (await this.proposals()).find((candidate) => candidate.record.id === id);
+    if (!view) throw new Error('Unknown proposal');
+    if (view.record.proposal.actions.length === 0) throw new Error('The proposal has no actions to run');
+    const latest = await provider.getBlock('latest');
+    if (proposalStatus(view, latest!.timestamp) !== 'passed') throw new Error('Only passed proposals can be previewed');
+    return previewOnFork(fork.provider, view.record.proposal.actions, fork.from ? { jsonRpcUrl: fork.from, blockNumber: latest!.number } : undefined);
+  }
+
+  private view(state: GovernanceSnapshot, record: ProposalRecord): ProposalView {
+    const votes = state.votes[record.id] ?? [];
+    return { record, votes, tally: tallyVotes(record.quorum, votes) };
+  }
+
+  private load(): GovernanceSnapshot {
+    const json = this.storage.getItem(this.key);
+    return json ? deserializeJson<GovernanceSnapshot>(json) : { proposals: [], votes: {} };
+  }
+
+  private save(state: GovernanceSnapshot): void {
+    this.storage.setItem(this.key, serializeJson(state));
+  }
+}
+
+// Client for the backend served by scripts/governance.ts
+export class GovernanceClient implements GovernanceBackend {
+  constructor(private readonly baseUrl: string) {}
+
+  proposals(): Promise<ProposalView[]> {
+    return this.request('/proposals');
+  }
+
+  propose(signed: SignedProposal): Promise<ProposalView> {
+    return this.request('/proposals', signed);
+  }
+
+  vote(signed: SignedVote): Promise<ProposalView> {
+    return this.request('/votes', signed);
+  }
+
+  preview(proposalId: string): Promise<ForkPreview> {
+    return this.request(`/proposals/${proposalId}/preview`);
+  }
+
+  private async request<T>(path: string, body?: unknown): Promise<T> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}${path}`, body === undefined ? undefined : {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: serializeJson(body),
+    });
+    const text = await response.text();
+    if (!response.ok) {
+      // Submissions are rejected with the reason the backend gives
+      let reason: string | undefined;
+      try {
+        reason = JSON.parse(text).error;
+      } catch {
+        // Not from the governance service
+      }
+      throw new Error(reason ?? `Governance request failed: ${response.status} ${path}`);
+    }
+    return deserializeJson<T>(text);
+  }
+}
@@ -0,0 +1,275 @@
+import { Contract, Interface, InterfaceAbi, Provider, Result, Signer, formatUnits, getAddress, parseEther, toQuantity } from 'ethers';
+import { BATCH_PROCESSOR_ABI, ERC20_ABI, FEE_DISTRIBUTOR_ABI, LIQUID_FLOW_CORE_ABI, REWARDS_CONTROLLER_ABI } from './abis';
+import { describeError } from './errors';
+
+// Admin calls a governance proposal can carry.
+//
+// A proposal signs its actions as they would be executed, a target and its
+// calldata, so what passes is exactly what runs. Only the owner-only setters
+// below are accepted; each decodes back to a typed call that can be shown as
+// the parameters it changes, current against proposed. A passed proposal can
+// be run on a fork first (previewOnFork) by impersonating the owner of each
+// target, which shows the state it would leave behind and any call that
+// reverts, without touching the real chain.
+
+export type GovernedContract = 'LiquidFlowCore' | 'BatchProcessor' | 'FeeDistributor' | 'RewardsController';
+
+// Deployed address of each governed contract, by its manifest name
+export type GovernedAddresses = Partial<Record<GovernedContract, string>>;
+
+export interface ProposalAction {
+  target: string;
+  data: string;
+}
+
+export type GovernanceCall =
+  | { contract: 'LiquidFlowCore'; method: 'setProtocolFee'; feeBps: bigint }
+  | { contract: 'BatchProcessor'; method: 'setBatchDuration'; duration: bigint }
+  | { contract: 'FeeDistributor'; method: 'addFeeToken'; token: string }
+  | {
+    contract: 'RewardsController';
+    method: 'setRewardConfig';
+    // LF per second per $1000 of TVL, 18 decimals
+    baseEmissionRate: bigint;
+    // The rest are hundredths: 150 is 1.5x, 100 is 1% a day
+    ilCompensationRate: bigint;
+    loyaltyMultiplier: bigint;
+    maxBoost: bigint;
+  };
+
+// One value a call sets, formatted for reading
+export interface ParameterChange {
+  label: string;
+  current: string;
+  proposed: string;
+}
+
+export interface ActionDiff {
+  action: ProposalAction;
+  call: GovernanceCall;
+  changes: ParameterChange[];
+}
+
+export interface PreviewedChange {
+  label: string;
+  before: string;
+  proposed: string;
+  // Read on the fork once the proposal ran; null when its action did not run
+  after: string | null;
+}
+
+export interface PreviewedAction {
+  call: GovernanceCall;
+  status: 'executed' | 'reverted' | 'skipped';
+  error?: string;
+  gasUsed?: bigint;
+  changes: PreviewedChange[];
+}
+
+export interface ForkPreview {
+  // Fork block the proposal ran on
+  blockNumber: number;
+  // Every action executed and left each value as proposed
+  succeeded: boolean;
+  actions: PreviewedAction[];
+}
+
+// A node that can impersonate accounts and roll back, such as `hardhat node --fork`
+export interface ForkProvider extends Provider {
+  send(method: string, params: unknown[]): Promise<any>;
+  getSigner(address: string): Promise<Signer>;
+}
+
+interface CallSpec {
+  abi: InterfaceAbi;
+  args: (call: GovernanceCall) => unknown[];
+  decode: (args: Result) => GovernanceCall;
+  // Values the call sets, as the contract holds them now and as proposed
+  read: (contract: Contract, call: GovernanceCall, provider: Provider) => Promise<ParameterChange[]>;
+}
+
+const formatHundredths = (value: bigint) => (Number(value) / 100).toString();
+
+const formatBps = (bps: bigint) => `${formatHundredths(bps)}%`;
+
+const tokenLabel = async (provider: Provider, token: string) => {
+  try {
+    return `${await new Contract(token, ERC20_ABI, provider).symbol()} (${token})`;
+  } catch {
+    return token;
+  }
+};
+
+const SPECS: Record<GovernedContract, CallSpec> = {
+  LiquidFlowCore: {
+    abi: LIQUID_FLOW_CORE_ABI,
+    args: (call) => [(call as { feeBps: bigint }).feeBps],
+    decode: (args) => ({ contract: 'LiquidFlowCore', method: 'setProtocolFee', feeBps: args[0] }),
+    read: async (contract, call) => [{
+      label: 'Protocol fee (share of LP fees)',
+      current: formatBps(await contract.protocolFeeBps()),
+      proposed: formatBps((call as { feeBps: bigint }).feeBps),
+    }],
+  },
+  BatchProcessor: {
+    abi: BATCH_PROCESSOR_ABI,
+    args: (call) => [(call as { duration: bigint }).duration],
+    decode: (args) => ({ contract: 'BatchProcessor', method: 'setBatchDuration', duration: args[0] }),
+    read: async (contract, call) => [{
+      label: 'Batch duration',
+      current: `${await contract.batchDuration()}s`,
+      proposed: `${(call as { duration: bigint }).duration}s`,
+    }],
+  },
+  FeeDistributor: {
+    abi: FEE_DISTRIBUTOR_ABI,
+    args: (call) => [(call as { token: string }).token],
+    decode: (args) => ({ contract: 'FeeDistributor', method: 'addFeeToken', token: getAddress(args[0]) }),
+    read: async (contract, call, provider) => {
+      const { token } = call as { token: string };
+      return [{
+        label: `Fee token ${await tokenLabel(provider, token)}`,
+        current: await contract.isFeeToken(token) ? 'distributed' : 'not distributed',
+        proposed: 'distributed',
+      }];
+    },
+  },
+  RewardsController: {
+    abi: REWARDS_CONTROLLER_ABI,
+    args: (call) => {
+      const { baseEmissionRate, ilCompensationRate, loyaltyMultiplier, maxBoost } = call as Extract<GovernanceCall, { method: 'setRewardConfig' }>;
+      return [baseEmissionRate, ilCompensationRate, loyaltyMultiplier, maxBoost];
+    },
+    decode: (args) => ({
+      contract: 'RewardsController',
+      method: 'setRewardConfig',
+      baseEmissionRate: args[0],
+      ilCompensationRate: args[1],
+      loyaltyMultiplier: args[2],
+      maxBoost: args[3],
+    }),
+    read: async (contract, call) => {
+      const proposed = call as Extract<GovernanceCall, { method: 'setRewardConfig' }>;
+      const current = await contract.config();
+      const rows: [string, keyof typeof proposed & string, (value: bigint) => string][] = [
+        ['Base emission', 'baseEmissionRate', (value) => `${formatUnits(value, 18)} LF/s per $1000 TVL`],
+        ['IL compensation', 'ilCompensationRate', (value) => `${formatHundredths(value)}x`],
+        ['Loyalty bonus', 'loyaltyMultiplier', (value) => `${formatBps(value)} per day`],
+        ['Max vebLF boost', 'maxBoost', (value) => `${formatHundredths(value)}x`],
+      ];
+      return rows.map(([label, key, format]) => ({
+        label,
+        current: format(current[key]),
+        proposed: format(proposed[key] as bigint),
+      }));
+    },
+  },
+};
+
+const METHODS: Record<GovernedContract, string> = {
+  LiquidFlowCore: 'setProtocolFee',
+  BatchProcessor: 'setBatchDuration',
+  FeeDistributor: 'addFeeToken',
+  RewardsController: 'setRewardConfig',
+};
+
+const CONTRACTS = Object.keys(SPECS) as GovernedContract[];
+
+const interfaces = Object.fromEntries(CONTRACTS.map((name) => [name, new Interface(SPECS[name].abi)])) as Record<GovernedContract, Interface>;
+
+export function callName(call: GovernanceCall): string {
+  return `${call.contract}.${call.method}`;
+}
+
+export function encodeAction(addresses: GovernedAddresses, call: GovernanceCall): ProposalAction {
+  const target = addresses[call.contract];
+  if (!target) throw new Error(`${call.contract} is not deployed on this network`);
+  return {
+    target: getAddress(target),
+    data: interfaces[call.contract].encodeFunctionData(METHODS[call.contract], SPECS[call.contract].args(call)),
+  };
+}
+
+// Throws unless the action is one of the governed calls, made on the
+// contract it belongs to when the addresses are known
+export function decodeAction(action: ProposalAction, addresses: GovernedAddresses = {}): GovernanceCall {
+  const selector = action.data.slice(0, 10).toLowerCase();
+  const contract = CONTRACTS.find((name) => interfaces[name].getFunction(METHODS[name])!.selector === selector);
+  if (!contract) throw new Error(`${action.target} is called with something other than a governed setter`);
+  const expected = addresses[contract];
+  if (expected && getAddress(expected) !== getAddress(action.target)) {
+    throw new Error(`${METHODS[contract]} is called on ${action.target}, which is not ${contract}`);
+  }
+  let args: Result;
+  try {
+    args = interfaces[contract].decodeFunctionData(METHODS[contract], action.data);
+  } catch {
+    throw new Error(`The ${METHODS[contract]} call to ${action.target} is malformed`);
+  }
+  return SPECS[contract].decode(args);
+}
+
+// What each action would change if executed now
+export async function diffActions(provider: Provider, actions: ProposalAction[], addresses: GovernedAddresses = {}): Promise<ActionDiff[]> {
+  return Promise.all(actions.map(async (action) => {
+    const call = decodeAction(action, addresses);
+    const contract = new Contract(action.target, SPECS[call.contract].abi, provider);
+    return { action, call, changes: await SPECS[call.contract].read(contract, call, provider) };
+  }));
+}
+
+// Runs the actions in order on the fork as the owner of each target, reads
+// back what they changed, then rolls the fork back. With `forkFrom` the fork
+// is first moved to that block of the source chain, so it starts from fresh state.
+export async function previewOnFork(
+  fork: ForkProvider,
+  actions: ProposalAction[],
+  forkFrom?: { jsonRpcUrl: string; blockNumber: number },
+): Promise<ForkPreview> {
+  const calls = actions.map((action) => decodeAction(action));
+  if (forkFrom) await fork.send('hardhat_reset', [{ forking: forkFrom }]);
+  const blockNumber = await fork.getBlockNumber();
+  const snapshot = await fork.send('evm_snapshot', []);
+
+  const previewed: PreviewedAction[] = [];
+  try {
+    let failed = false;
+    for (const [index, action] of actions.entries()) {
+      const call = calls[index];
+      const contract = new Contract(action.target, SPECS[call.contract].abi, fork);
+      const before = await SPECS[call.contract].read(contract, call, fork);
+      const changes = before.map(({ label, current, proposed }) => ({ label, before: current, proposed, after: null }));
+      // Actions run one after another; the ones after a revert never would
+      if (failed) {
+        previewed.push({ call, status: 'skipped', changes });
+        continue;
+      }
+
+      const owner: string = await contract.owner();
+      await fork.send('hardhat_impersonateAccount', [owner]);
+      await fork.send('hardhat_setBalance', [owner, toQuantity(parseEther('10'))]);
+      try {
+        const signer = await fork.getSigner(owner);
+        const receipt = await (await signer.sendTransaction({ to: action.target, data: action.data })).wait();
+        const after = await SPECS[call.contract].read(contract, call, fork);
+        previewed.push({
+          call,
+          status: 'executed',
+          gasUsed: receipt?.gasUsed,
+          changes: changes.map((change, row) => ({ ...change, after: after[row].current })),
+        });
+      } catch (error) {
+        failed = true;
+        previewed.push({ call, status: 'reverted', error: describeError(error), changes });
+      } finally {
+        await fork.send('hardhat_stopImpersonatingAccount', [owner]);
+      }
+    }
+  } finally {
+    await fork.send('evm_revert', [snapshot]);
+  }
+
+  const succeeded = previewed.every(({ status, changes }) =>
+    status === 'executed' && changes.every(({ after, proposed }) => after === proposed));
+  return { blockNumber, succeeded, actions: previewed };
+}
@@ -0,0 +1,596 @@
+import { Block, Interface, Log, Provider } from 'ethers';
+import { BATCH_PROCESSOR_ABI, FEE_DISTRIBUTOR_ABI, LIQUID_FLOW_CORE_ABI, LIQUID_FLOW_ROUTER_ABI, REWARDS_CONTROLLER_ABI } from './abis';
+import { KeyValueStorage, deserializeJson, memoryStorage, serializeJson } from './storage';
+import { hashCoreStrategy } from './strategy';
+
+// Local event indexer for the protocol contracts.
+//
+// Logs are ingested in block ranges up to the chain head and appended to a
+// snapshot that is persisted after every range together with a checkpoint
+// (last indexed block and its hash). Hashes of recent blocks are kept until
+// they are `confirmations` deep; if the checkpoint hash no longer matches the
+// chain, the indexer walks back to the newest stored block that is still
+// canonical, drops every event after it and re-indexes from there.
+//
+// Positions, balances and history are derived from the events on read, so a
+// rollback never leaves stale aggregates behind.
+
+export type IndexedValue = string | bigint | boolean | IndexedValue[];
+
+export interface IndexedEvent {
+  id: string;
+  name: string;
+  address: string;
+  blockNumber: number;
+  blockHash: string;
+  timestamp: number;
+  transactionHash: string;
+  logIndex: number;
+  args: Record<string, IndexedValue>;
+}
+
+export interface Checkpoint {
+  blockNumber: number;
+  blockHash: string;
+}
+
+export interface IndexerSnapshot {
+  chainId: string;
+  // Watched addresses, lowercased and sorted; a different set starts a fresh index
+  contracts: string[];
+  checkpoint: Checkpoint | null;
+  // Hashes of blocks that can still be reorged away, by block number
+  blocks: Record<number, string>;
+  events: IndexedEvent[];
+}
+
+export interface IndexerContracts {
+  liquidFlowCore?: string;
+  batchProcessor?: string;
+  feeDistributor?: string;
+  rewardsController?: string;
+}
+
+export const INDEXED_EVENTS: Record<keyof IndexerContracts, readonly string[]> = {
+  liquidFlowCore: [
+    'StrategyShipped',
+    'StrategyDocked',
+    'LiquidityPulled',
+    'LiquidityPushed',
+    'WithdrawalRequested',
+    'WithdrawalExecuted',
+    'ProtocolFeeUpdated',
+  ],
+  batchProcessor: ['BatchSettled'],
+  feeDistributor: ['FeesClaimed'],
+  rewardsController: ['RewardsClaimed'],
+};
+
+const CONTRACT_ABIS: Record<keyof IndexerContracts, string[]> = {
+  liquidFlowCore: LIQUID_FLOW_CORE_ABI,
+  batchProcessor: BATCH_PROCESSOR_ABI,
+  feeDistributor: FEE_DISTRIBUTOR_ABI,
+  rewardsController: REWARDS_CONTROLLER_ABI,
+};
+
+// LiquidFlowCore.protocolFeeBps at deployment
+export const DEFAULT_PROTOCOL_FEE_BPS = 1000n;
+
+export interface PositionFlow {
+  tokenIndex: number;
+  // Change of the virtual balance: the pulled amount, or the pushed amount net of the protocol fee
+  delta: bigint;
+  // Gross swap input for pushes, zero for pulls
+  amountIn: bigint;
+  timestamp: number;
+}
+
+export interface IndexedPosition {
+  lp: string;
+  strategy: string;
+  strategyHash: string;
+  // Encoded strategy parameters, known when the position was shipped by a LiquidFlowCore or LiquidFlowRouter call
+  strategyData: string | null;
+  tokens: string[];
+  shipped: bigint[];
+  // Virtual balances after pulls and pushes, net of the protocol fee
+  balances: bigint[];
+  // Gross amounts pulled plus pushed, as counted by LiquidFlowCore.totalVolume
+  volume: bigint[];
+  protocolFees: bigint[];
+  flows: PositionFlow[];
+  active: boolean;
+  shippedBlock: number;
+  shippedAt: number;
+  dockedAt: number | null;
+  withdrawal: { requestId: string; requestedAt: number; executed: boolean } | null;
+}
+
+export interface AccountActivity {
+  address: string;
+  feesClaimed: Record<string, bigint>;
+  rewardsClaimed: bigint;
+  // Every indexed event that names the account, oldest first
+  history: IndexedEvent[];
+}
+
+export interface SettledBatch {
+  batchId: bigint;
+  solver: string;
+  userSurplus: bigint;
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: string;
+}
+
+export interface EventQuery {
+  names?: string[];
+  account?: string;
+  strategyHash?: string;
+  fromBlock?: number;
+}
+
+export interface IndexerStatus {
+  chainId: string;
+  checkpoint: Checkpoint | null;
+  eventCount: number;
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  added: number;
+  // Last block kept after a reorg, or null when none was detected
+  rolledBackTo: number | null;
+}
+
+export interface EventIndexerOptions {
+  provider: Provider;
+  contracts: IndexerContracts;
+  storage?: KeyValueStorage;
+  // First block to index, usually the earliest deployment block
+  startBlock?: number;
+  // Depth after which a block is treated as final
+  confirmations?: number;
+  // Blocks per eth_getLogs request
+  blockRange?: number;
+  pollIntervalMs?: number;
+  // Fee in effect at startBlock; later changes are taken from ProtocolFeeUpdated
+  protocolFeeBps?: bigint;
+  log?: (message: string) => void;
+}
+
+function sameAddress(a: IndexedValue | undefined, b: string): boolean {
+  return typeof a === 'string' && a.toLowerCase() === b.toLowerCase();
+}
+
+function mentions(event: IndexedEvent, account: string): boolean {
+  return Object.values(event.args).some((value) => Array.isArray(value)
+    ? value.some((item) => sameAddress(item, account))
+    : sameAddress(value, account));
+}
+
+function toIndexedValue(value: unknown): IndexedValue {
+  if (Array.isArray(value)) return value.map(toIndexedValue);
+  if (typeof value === 'bigint' || typeof value === 'boolean') return value;
+  return String(value);
+}
+
+export function filterEvents(events: IndexedEvent[], query: EventQuery = {}): IndexedEvent[] {
+  return events.filter((event) =>
+    (!query.names || query.names.includes(event.name)) &&
+    (!query.account || mentions(event, query.account)) &&
+    (!query.strategyHash || event.args.strategyHash === query.strategyHash) &&
+    (query.fromBlock === undefined || event.blockNumber >= query.fromBlock));
+}
+
+// Replays LiquidFlowCore events into per-strategy positions
+export function derivePositions(events: IndexedEvent[], protocolFeeBps = DEFAULT_PROTOCOL_FEE_BPS): IndexedPosition[] {
+  const positions = new Map<string, IndexedPosition>();
+  const requests = new Map<string, string>();
+  let feeBps = protocolFeeBps;
+
+  for (const event of events) {
+    const args = event.args;
+    const position = positions.get(args.strategyHash as string);
+    const tokenIndex = position && typeof args.token === 'string'
+      ? position.tokens.findIndex((token) => sameAddress(token, args.token as string))
+      : -1;
+
+    switch (event.name) {
+      case 'ProtocolFeeUpdated':
+        feeBps = args.newFee as bigint;
+        break;
+      case 'StrategyShipped': {
+        const amounts = args.amounts as bigint[];
+        positions.set(args.strategyHash as string, {
+          lp: args.lp as string,
+          strategy: args.strategy as string,
+          strategyHash: args.strategyHash as string,
+          strategyData: (args.strategyData as string | undefined) ?? null,
+          tokens: args.tokens as string[],
+          shipped: [...amounts],
+          balances: [...amounts],
+          volume: amounts.map(() => 0n),
+          protocolFees: amounts.map(() => 0n),
+          flows: [],
+          active: true,
+          shippedBlock: event.blockNumber,
+          shippedAt: event.timestamp,
+          dockedAt: null,
+          withdrawal: null,
+        });
+        break;
+      }
+      case 'LiquidityPulled':
+        if (tokenIndex === -1) break;
+        position!.balances[tokenIndex] -= args.amount as bigint;
+        position!.volume[tokenIndex] += args.amount as bigint;
+        position!.flows.push({ tokenIndex, delta: -(args.amount as bigint), amountIn: 0n, timestamp: event.timestamp });
+        break;
+      case 'LiquidityPushed': {
+        if (tokenIndex === -1) break;
+        const fee = (args.amount as bigint) * feeBps / 10000n;
+        position!.balances[tokenIndex] += (args.amount as bigint) - fee;
+        position!.volume[tokenIndex] += args.amount as bigint;
+        position!.protocolFees[tokenIndex] += fee;
+        position!.flows.push({ tokenIndex, delta: (args.amount as bigint) - fee, amountIn: args.amount as bigint, timestamp: event.timestamp });
+        break;
+      }
+      case 'WithdrawalRequested': {
+        const requested = positions.get(args.strategyHash as string);
+        if (!requested) break;
+        requested.withdrawal = { requestId: args.requestId as string, requestedAt: event.timestamp, executed: false };
+        requests.set(args.requestId as string, args.strategyHash as string);
+        break;
+      }
+      case 'WithdrawalExecuted': {
+        const executed = positions.get(requests.get(args.requestId as string) ?? '');
+        if (executed?.withdrawal) executed.withdrawal.executed = true;
+        break;
+      }
+      case 'StrategyDocked':
+        if (!position) break;
+        // Both executeDock and emergencyDock delete the virtual balances
+        position.active = false;
+        position.dockedAt = event.timestamp;
+        position.balances = position.balances.map(() => 0n);
+        break;
+    }
+  }
+
+  return [...positions.values()];
+}
+
+export function deriveAccountActivity(events: IndexedEvent[], address: string): AccountActivity {
+  const history = filterEvents(events, { account: address });
+  const feesClaimed: Record<string, bigint> = {};
+  let rewardsClaimed = 0n;
+
+  for (const event of history) {
+    if (event.name === 'FeesClaimed' && sameAddress(event.args.user, address)) {
+      const token = event.args.token as string;
+      feesClaimed[token] = (feesClaimed[token] ?? 0n) + (event.args.amount as bigint);
+    }
+    if (event.name === 'RewardsClaimed' && sameAddress(event.args.lp, address)) {
+      rewardsClaimed += event.args.total as bigint;
+    }
+  }
+
+  return { address, feesClaimed, rewardsClaimed, history };
+}
+
+export function deriveSettledBatches(events: IndexedEvent[]): SettledBatch[] {
+  return filterEvents(events, { names: ['BatchSettled'] }).map((event) => ({
+    batchId: event.args.batchId as bigint,
+    solver: event.args.solver as string,
+    userSurplus: event.args.userSurplus as bigint,
+    blockNumber: event.blockNumber,
+    timestamp: event.timestamp,
+    transactionHash: event.transactionHash,
+  }));
+}
+
+const coreInterface = new Interface(LIQUID_FLOW_CORE_ABI);
+
+// Calls whose input carries the strategy parameters of the StrategyShipped they emit
+const SHIP_CALLS = [
+  { iface: coreInterface, names: ['ship', 'shipFor'] },
+  { iface: new Interface(LIQUID_FLOW_ROUTER_ABI), names: ['provideLiquidity', 'provideLiquidityETH'] },
+];
+
+// StrategyShipped does not carry the strategy parameters; recover them from
+// the transaction input when the LP called the core or the router directly.
+// The parameters only count when they hash to the shipped strategy, so the
+// router's address does not need to be known.
+export async function shippedStrategyData(provider: Provider, log: Log): Promise<string | null> {
+  const tx = await provider.getTransaction(log.transactionHash);
+  if (!tx) return null;
+  const shipped = coreInterface.parseLog(log);
+  if (!shipped) return null;
+  for (const { iface, names } of SHIP_CALLS) {
+    const call = iface.parseTransaction({ data: tx.data, value: tx.value });
+    if (!call || !names.includes(call.name)) continue;
+    const strategyData: string = call.args.strategyData;
+    return hashCoreStrategy(shipped.args.lp, shipped.args.strategy, strategyData) === shipped.args.strategyHash ? strategyData : null;
+  }
+  return null;
+}
+
+interface EventSource {
+  iface: Interface;
+  names: readonly string[];
+}
+
+function emptySnapshot(chainId: string, contracts: string[]): IndexerSnapshot {
+  return { chainId, contracts, checkpoint: null, blocks: {}, events: [] };
+}
+
+export class EventIndexer {
+  private readonly sources = new Map<string, EventSource>();
+  private readonly topics: string[] = [];
+  private readonly storage: KeyValueStorage;
+  private snapshot: IndexerSnapshot | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private pending: Promise<SyncResult> | null = null;
+
+  constructor(private readonly options: EventIndexerOptions) {
+    for (const [key, address] of Object.entries(options.contracts) as [keyof IndexerContracts, string | undefined][]) {
+      if (!address) continue;
+      const source = { iface: new Interface(CONTRACT_ABIS[key]), names: INDEXED_EVENTS[key] };
+      this.sources.set(address.toLowerCase(), source);
+      this.topics.push(...source.names.map((name) => source.iface.getEvent(name)!.topicHash));
+    }
+    if (this.sources.size === 0) throw new Error('No contracts to index');
+    this.storage = options.storage ?? memoryStorage();
+  }
+
+  async start(): Promise<void> {
+    const wake = () => void this.tick().catch((error) => this.log(`Sync failed: ${(error as Error).message}`));
+    this.timer = setInterval(wake, this.options.pollIntervalMs ?? 2000);
+    wake();
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await this.pending?.catch(() => undefined);
+  }
+
+  // Indexes up to the current head. Overlapping calls share the in-flight sync.
+  tick(): Promise<SyncResult> {
+    if (!this.pending) {
+      this.pending = this.sync().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  // Drops everything indexed so far; the next tick starts again from startBlock
+  async reset(): Promise<void> {
+    const state = await this.state();
+    this.snapshot = emptySnapshot(state.chainId, state.contracts);
+    this.save(this.snapshot);
+  }
+
+  async status(): Promise<IndexerStatus> {
+    const state = await this.state();
+    return { chainId: state.chainId, checkpoint: state.checkpoint, eventCount: state.events.length };
+  }
+
+  async events(query: EventQuery = {}): Promise<IndexedEvent[]> {
+    return filterEvents((await this.state()).events, query);
+  }
+
+  async positions(lp?: string): Promise<IndexedPosition[]> {
+    const positions = derivePositions((await this.state()).events, this.options.protocolFeeBps);
+    return lp ? positions.filter((position) => sameAddress(position.lp, lp)) : positions;
+  }
+
+  async account(address: string): Promise<AccountActivity> {
+    return deriveAccountActivity((await this.state()).events, address);
+  }
+
+  async settledBatches(): Promise<SettledBatch[]> {
+    return deriveSettledBatches((await this.state()).events);
+  }
+
+  private async sync(): Promise<SyncResult> {
+    const { provider } = this.options;
+    const state = await this.state();
+    const head = await provider.getBlockNumber();
+    const rolledBackTo = await this.rollbackReorg(state);
+    const fromBlock = state.checkpoint ? state.checkpoint.blockNumber + 1 : this.options.startBlock ?? 0;
+    const blockRange = this.options.blockRange ?? 2000;
+    let added = 0;
+
+    for (let from = fromBlock; from <= head; from += blockRange) {
+      const to = Math.min(from + blockRange - 1, head);
+      const logs = await provider.getLogs({
+        address: [...this.sources.keys()],
+        topics: [this.topics],
+        fromBlock: from,
+        toBlock: to,
+      });
+
+      const blocks = new Map<number, Promise<Block | null>>();
+      const getBlock = (blockNumber: number) => {
+        if (!blocks.has(blockNumber)) blocks.set(blockNumber, provider.getBlock(blockNumber));
+        return blocks.get(blockNumber)!;
+      };
+      // The head moved backwards mid-sync; the next tick rolls back
+      const tip = await getBlock(to);
+      if (!tip) break;
+
+      const sorted = [...logs].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+      for (const log of sorted) {
+        const event = await this.decode(log, getBlock);
+        if (!event) continue;
+        state.events.push(event);
+        state.blocks[log.blockNumber] = log.blockHash;
+        added++;
+      }
+
+      state.blocks[to] = tip.hash!;
+      state.checkpoint = { blockNumber: to, blockHash: tip.hash! };
+      this.prune(state, head);
+      this.save(state);
+    }
+
+    if (added > 0) this.log(`Indexed ${added} events up to block ${state.checkpoint?.blockNumber}`);
+    return { fromBlock, toBlock: state.checkpoint?.blockNumber ?? fromBlock - 1, added, rolledBackTo };
+  }
+
+  // Walks back from the checkpoint to the newest stored block that is still
+  // canonical and drops everything indexed after it
+  private async rollbackReorg(state: IndexerSnapshot): Promise<number | null> {
+    const { provider } = this.options;
+    if (!state.checkpoint) return null;
+    const current = await provider.getBlock(state.checkpoint.blockNumber);
+    if (current?.hash === state.checkpoint.blockHash) return null;
+
+    const stored = Object.keys(state.blocks).map(Number).sort((a, b) => b - a);
+    let ancestor: number | null = null;
+    for (const blockNumber of stored) {
+      if (blockNumber >= state.checkpoint.blockNumber) continue;
+      const block = await provider.getBlock(blockNumber);
+      if (block?.hash === state.blocks[blockNumber]) {
+        ancestor = blockNumber;
+        break;
+      }
+    }
+
+    if (ancestor === null) {
+      // Deeper than the confirmation window (or a restarted dev chain): nothing can be trusted
+      this.log('Reorg beyond the stored blocks, re-indexing from the start block');
+      Object.assign(state, emptySnapshot(state.chainId, state.contracts));
+      this.save(state);
+      return (this.options.startBlock ?? 0) - 1;
+    }
+
+    const dropped = state.events.filter((event) => event.blockNumber > ancestor!).length;
+    state.events = state.events.filter((event) => event.blockNumber <= ancestor!);
+    for (const blockNumber of stored) {
+      if (blockNumber > ancestor) delete state.blocks[blockNumber];
+    }
+    state.checkpoint = { blockNumber: ancestor, blockHash: state.blocks[ancestor] };
+    this.save(state);
+    this.log(`Reorg detected, rolled back to block ${ancestor} and dropped ${dropped} events`);
+    return ancestor;
+  }
+
+  // Forgets hashes of confirmed blocks, keeping the newest confirmed one as the rollback floor
+  private prune(state: IndexerSnapshot, head: number): void {
+    const confirmed = head - (this.options.confirmations ?? 12);
+    const stored = Object.keys(state.blocks).map(Number);
+    const floor = Math.max(...stored.filter((blockNumber) => blockNumber <= confirmed));
+    for (const blockNumber of stored) {
+      if (blockNumber < floor) delete state.blocks[blockNumber];
+    }
+  }
+
+  private async decode(log: Log, getBlock: (blockNumber: number) => Promise<Block | null>): Promise<IndexedEvent | null> {
+    const source = this.sources.get(log.address.toLowerCase());
+    const parsed = source?.iface.parseLog(log);
+    if (!source || !parsed || !source.names.includes(parsed.name)) return null;
+
+    const args: Record<string, IndexedValue> = {};
+    parsed.fragment.inputs.forEach((input, i) => {
+      args[input.name] = toIndexedValue(parsed.args[i]);
+    });
+    if (parsed.name === 'StrategyShipped') {
+      const strategyData = await shippedStrategyData(this.options.provider, log);
+      if (strategyData) args.strategyData = strategyData;
+    }
+
+    const block = await getBlock(log.blockNumber);
+    return {
+      id: `${log.blockNumber}-${log.index}`,
+      name: parsed.name,
+      address: log.address,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      timestamp: block?.timestamp ?? 0,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      args,
+    };
+  }
+
+  private async state(): Promise<IndexerSnapshot> {
+    if (this.snapshot) return this.snapshot;
+    const chainId = (await this.options.provider.getNetwork()).chainId.toString();
+    const contracts = [...this.sources.keys()].sort();
+    const json = this.storage.getItem(this.storageKey(chainId));
+    const stored = json ? deserializeJson<IndexerSnapshot>(json) : null;
+    this.snapshot = stored && stored.contracts.join() === contracts.join() ? stored : emptySnapshot(chainId, contracts);
+    return this.snapshot;
+  }
+
+  private save(state: IndexerSnapshot): void {
+    this.storage.setItem(this.storageKey(state.chainId), serializeJson(state));
+  }
+
+  private storageKey(chainId: string): string {
+    return `liquidflow:indexer:${chainId}`;
+  }
+
+  private log(message: string): void {
+    this.options.log?.(message);
+  }
+}
+
+// Shapes served by scripts/indexer.ts, enriched with token metadata and live reads
+
+export interface TokenMetadata {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface PositionView extends IndexedPosition {
+  tokenMetadata: TokenMetadata[];
+}
+
+export interface AccountView extends AccountActivity {
+  // Live reads, null when the token contracts are not configured
+  balances: { lf: bigint; blf: bigint; veblf: bigint; lockEnd: bigint } | null;
+  pendingFees: { token: TokenMetadata; amount: bigint }[];
+  pendingRewards: bigint;
+}
+
+export class IndexerClient {
+  constructor(private readonly baseUrl: string) {}
+
+  status(): Promise<IndexerStatus> {
+    return this.get('/status');
+  }
+
+  positions(lp: string): Promise<PositionView[]> {
+    return this.get(`/positions/${lp}`);
+  }
+
+  account(address: string): Promise<AccountView> {
+    return this.get(`/accounts/${address}`);
+  }
+
+  settledBatches(): Promise<SettledBatch[]> {
+    return this.get('/batches');
+  }
+
+  events(query: EventQuery = {}): Promise<IndexedEvent[]> {
+    const params = new URLSearchParams();
+    if (query.names) params.set('names', query.names.join(','));
+    if (query.account) params.set('account', query.account);
+    if (query.strategyHash) params.set('strategyHash', query.strategyHash);
+    if (query.fromBlock !== undefined) params.set('fromBlock', String(query.fromBlock));
+    return this.get(`/events?${params}`);
+  }
+
+  private async get<T>(path: string): Promise<T> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}${path}`);
+    if (!response.ok) throw new Error(`Indexer request failed: ${response.status} ${path}`);
+    return deserializeJson<T>(await response.text());
+  }
+}
@@ -0,0 +1,214 @@
+import { Contract, EventLog, Log, Provider, ZeroAddress, getAddress } from 'ethers';
+import { BATCH_PROCESSOR_ABI, LIQUID_FLOW_ROUTER_ABI } from './abis';
+import { BatchStatus, SolutionFill, decodeSolutionFills, fetchIntent } from './solver';
+
+// Follows an account's batch-auction intents from submission to settlement.
+//
+// Everything is read back from BatchProcessor events: IntentSubmitted puts an
+// intent in a batch, BatchClosed starts the solver competition, SolverSelected
+// and BatchSettled end it, BatchCancelled or IntentCancelled drop it. Swaps
+// through LiquidFlowRouter are submitted by the router, which BatchProcessor
+// records as the intent's user; the router's IntentRouted event ties those to
+// the account. Fills are read from the winning solution's execution data.
+// The router keeps the input of its intents, which no solver can pull, and
+// refunds it with IntentRefunded once the intent can no longer be filled.
+
+// committed: submitted as a commitment, not revealed yet
+// open: in a batch that accepts intents
+// solving: batch closed, solvers competing
+// executing: a solver was selected, settlement not seen yet
+// settled: filled by the winning solution
+// unfilled: the batch settled without filling the intent
+// cancelled: cancelled by the user, or refunded by the router
+// batch-cancelled: the batch was cancelled without a solution
+export type IntentStage = 'committed' | 'open' | 'solving' | 'executing' | 'settled' | 'unfilled' | 'cancelled' | 'batch-cancelled';
+
+export interface IntentEvent {
+  name: string;
+  blockNumber: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+export interface IntentFill {
+  amountIn: bigint;
+  amountOut: bigint;
+  // Output above minAmountOut, scaled down for partial fills
+  surplus: bigint;
+  partial: boolean;
+}
+
+export interface TrackedIntent {
+  intentId: string;
+  batchId: bigint;
+  // 'router' when submitted through LiquidFlowRouter, which then receives the fill
+  via: 'direct' | 'router';
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  // Zero while a commitment is unrevealed, and once the intent is cancelled
+  minAmountOut: bigint;
+  deadline: bigint;
+  stage: IntentStage;
+  // Oldest first
+  events: IntentEvent[];
+  solver: string | null;
+  fill: IntentFill | null;
+  // Whether cancelIntent can still succeed: the intent's batch is the open one,
+  // or for router swaps, the batch has ended or the deadline has passed
+  cancellable: boolean;
+}
+
+export interface IntentTrackerContracts {
+  batchProcessor: string;
+  router?: string;
+}
+
+// Mirrors cow.ts: the minimum output a partial fill of amountIn has to meet
+function scaledMinimum(minAmountOut: bigint, amountIn: bigint, filledIn: bigint): bigint {
+  return filledIn === amountIn ? minAmountOut : (minAmountOut * filledIn + amountIn - 1n) / amountIn;
+}
+
+function byBatch(logs: (EventLog | Log)[]): Map<bigint, EventLog> {
+  const found = new Map<bigint, EventLog>();
+  for (const log of logs) {
+    if (log instanceof EventLog) found.set(log.args.batchId, log);
+  }
+  return found;
+}
+
+function byIntent(logs: (EventLog | Log)[]): Map<string, EventLog> {
+  const found = new Map<string, EventLog>();
+  for (const log of logs) {
+    if (log instanceof EventLog) found.set(log.args.intentId, log);
+  }
+  return found;
+}
+
+// The account's intents, newest first
+export async function fetchAccountIntents(
+  provider: Provider,
+  contracts: IntentTrackerContracts,
+  account: string,
+  fromBlock = 0,
+): Promise<TrackedIntent[]> {
+  const user = getAddress(account);
+  const batchProcessor = new Contract(contracts.batchProcessor, BATCH_PROCESSOR_ABI, provider);
+  const router = contracts.router ? new Contract(contracts.router, LIQUID_FLOW_ROUTER_ABI, provider) : null;
+
+  const routed = router ? await router.queryFilter(router.filters.IntentRouted(null, user), fromBlock) : [];
+  const routedIds = new Set(routed.map((log) => (log as EventLog).args.intentId as string));
+  const submitted = [
+    ...await batchProcessor.queryFilter(batchProcessor.filters.IntentSubmitted(null, null, user), fromBlock),
+    ...routedIds.size > 0 ? await batchProcessor.queryFilter(batchProcessor.filters.IntentSubmitted([...routedIds]), fromBlock) : [],
+  ].filter((log): log is EventLog => log instanceof EventLog)
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+  if (submitted.length === 0) return [];
+
+  const intentIds = submitted.map((log) => log.args.intentId as string);
+  const batchIds = [...new Set(submitted.map((log) => log.args.batchId as bigint))];
+  const [revealed, cancelled, refunded, closed, selected, settled, batchCancelled, current, latest] = await Promise.all([
+    batchProcessor.queryFilter(batchProcessor.filters.IntentRevealed(intentIds), fromBlock).then(byIntent),
+    batchProcessor.queryFilter(batchProcessor.filters.IntentCancelled(intentIds), fromBlock).then(byIntent),
+    router && routedIds.size > 0
+      ? router.queryFilter(router.filters.IntentRefunded([...routedIds]), fromBlock).then(byIntent)
+      : new Map<string, EventLog>(),
+    batchProcessor.queryFilter(batchProcessor.filters.BatchClosed(batchIds), fromBlock).then(byBatch),
+    batchProcessor.queryFilter(batchProcessor.filters.SolverSelected(batchIds), fromBlock).then(byBatch),
+    batchProcessor.queryFilter(batchProcessor.filters.BatchSettled(batchIds), fromBlock).then(byBatch),
+    batchProcessor.queryFilter(batchProcessor.filters.BatchCancelled(batchIds), fromBlock).then(byBatch),
+    batchProcessor.getCurrentBatch(),
+    provider.getBlock('latest'),
+  ]);
+
+  // Fills of every settled batch, claimed by the account's intents as they are matched
+  const fills = new Map<bigint, SolutionFill[] | null>();
+  await Promise.all([...selected].filter(([batchId]) => settled.has(batchId)).map(async ([batchId, log]) => {
+    const solution = await batchProcessor.getSolution(log.args.solutionHash);
+    fills.set(batchId, decodeSolutionFills(solution.executionData));
+  }));
+
+  const timestamps = new Map<number, Promise<number>>();
+  const timestamp = (blockNumber: number) => {
+    if (!timestamps.has(blockNumber)) timestamps.set(blockNumber, provider.getBlock(blockNumber).then((block) => block?.timestamp ?? 0));
+    return timestamps.get(blockNumber)!;
+  };
+  const toEvent = async (log: EventLog): Promise<IntentEvent> => ({
+    name: log.eventName,
+    blockNumber: log.blockNumber,
+    transactionHash: log.transactionHash,
+    timestamp: await timestamp(log.blockNumber),
+  });
+
+  const onChain = await Promise.all(intentIds.map((intentId) => fetchIntent(batchProcessor, intentId)));
+  const events = await Promise.all(submitted.map(async (log) => {
+    const { intentId, batchId } = log.args;
+    const logs = [log, revealed.get(intentId), closed.get(batchId), selected.get(batchId), settled.get(batchId),
+      batchCancelled.get(batchId), cancelled.get(intentId), refunded.get(intentId)].filter((entry): entry is EventLog => !!entry);
+    return (await Promise.all(logs.map(toEvent))).sort((a, b) => a.blockNumber - b.blockNumber);
+  }));
+
+  // In submission order, so fills are claimed the same way on every read
+  const tracked = submitted.map((log, index): TrackedIntent => {
+    const intentId: string = log.args.intentId;
+    const batchId: bigint = log.args.batchId;
+    // Cancelled intents are deleted on chain; the submission event still has their tokens
+    const live = onChain[index].user !== ZeroAddress;
+    const intent: TrackedIntent = {
+      intentId,
+      batchId,
+      via: routedIds.has(intentId) ? 'router' : 'direct',
+      tokenIn: live ? onChain[index].tokenIn : log.args.tokenIn,
+      tokenOut: live ? onChain[index].tokenOut : log.args.tokenOut,
+      amountIn: live ? onChain[index].amountIn : log.args.amountIn,
+      minAmountOut: live ? onChain[index].minAmountOut : 0n,
+      deadline: live ? onChain[index].deadline : 0n,
+      stage: live && !onChain[index].revealed ? 'committed' : 'open',
+      events: events[index],
+      solver: selected.has(batchId) ? getAddress(selected.get(batchId)!.args.solver) : null,
+      fill: null,
+      cancellable: false,
+    };
+
+    if (cancelled.has(intentId) || refunded.has(intentId)) return { ...intent, stage: 'cancelled' };
+    // Router swaps whose batch is being solved are refunded once they expire
+    const refundable = intent.via === 'router' && BigInt(latest?.timestamp ?? 0) > intent.deadline;
+    if (batchCancelled.has(batchId)) return { ...intent, stage: 'batch-cancelled', cancellable: intent.via === 'router' };
+    if (settled.has(batchId)) {
+      const fill = live ? claimFill(fills.get(batchId) ?? null, onChain[index].user, intent) : null;
+      if (!fill) return { ...intent, stage: 'unfilled', cancellable: intent.via === 'router' };
+      return {
+        ...intent,
+        stage: 'settled',
+        fill: {
+          amountIn: fill.amountIn,
+          amountOut: fill.amountOut,
+          surplus: fill.amountOut - scaledMinimum(intent.minAmountOut, intent.amountIn, fill.amountIn),
+          partial: fill.amountIn < intent.amountIn,
+        },
+      };
+    }
+    if (selected.has(batchId)) return { ...intent, stage: 'executing', cancellable: refundable };
+    if (closed.has(batchId)) return { ...intent, stage: 'solving', cancellable: refundable };
+    return { ...intent, cancellable: current.id === batchId && Number(current.status) === BatchStatus.Open };
+  });
+
+  return tracked.sort((a, b) => b.events[0].blockNumber - a.events[0].blockNumber);
+}
+
+// Takes the intent's fill out of its batch's fills. Fills carry no intent ID,
+// so the intent gets one from the same owner for the same pair, preferring
+// one that filled its whole amount.
+function claimFill(
+  fills: SolutionFill[] | null,
+  owner: string,
+  intent: Pick<TrackedIntent, 'tokenIn' | 'tokenOut' | 'amountIn'>,
+): SolutionFill | null {
+  if (!fills) return null;
+  const candidates = fills.filter((fill) => fill.user === getAddress(owner)
+    && fill.tokenIn === getAddress(intent.tokenIn) && fill.tokenOut === getAddress(intent.tokenOut) && fill.amountIn <= intent.amountIn);
+  const fill = candidates.find((candidate) => candidate.amountIn === intent.amountIn) ?? candidates[0];
+  if (!fill) return null;
+  fills.splice(fills.indexOf(fill), 1);
+  return fill;
+}
@@ -0,0 +1,172 @@
+import { Interface, InterfaceAbi, Provider, getAddress, keccak256, toUtf8Bytes } from 'ethers';
+
+// Per-chain deployment manifest: the single source of contract addresses for
+// the app and the off-chain services. Deploy scripts write one file per
+// chainId (public/manifests/<chainId>.json, served next to the app) and record
+// every contract with the block and transaction that created it, its
+// constructor arguments and a hash of its ABI.
+//
+// A manifest can go stale without changing: a local node restarts, a testnet
+// is reset, a contract is redeployed elsewhere. verifyManifest checks it
+// against the chain before the app trusts any address in it.
+
+export const MANIFEST_VERSION = 1;
+
+export type ManifestValue = string | number | boolean | null | ManifestValue[] | { [key: string]: ManifestValue };
+
+export interface ManifestContract {
+  address: string;
+  blockNumber: number;
+  // Lets readers detect a chain that was reset or reorged past the deployment
+  blockHash: string;
+  transactionHash: string;
+  // JSON form of the constructor arguments, bigints as decimal strings
+  constructorArgs: ManifestValue[];
+  abiHash: string;
+}
+
+export interface DeploymentManifest {
+  version: number;
+  chainId: number;
+  network: string;
+  updatedAt: string;
+  contracts: Record<string, ManifestContract>;
+}
+
+export type ManifestIssueKind = 'version' | 'chain' | 'missing-contract' | 'no-code' | 'reorged' | 'abi';
+
+export interface ManifestIssue {
+  kind: ManifestIssueKind;
+  contract?: string;
+  message: string;
+}
+
+export interface VerifyManifestOptions {
+  chainId: number;
+  // Contracts the reader cannot work without
+  required?: string[];
+  // ABI hashes the reader was built against, by contract name
+  abiHashes?: Record<string, string>;
+}
+
+export function emptyManifest(chainId: number, network: string): DeploymentManifest {
+  return { version: MANIFEST_VERSION, chainId, network, updatedAt: new Date(0).toISOString(), contracts: {} };
+}
+
+// Hash of the ABI in canonical form, so formatting and fragment order in the
+// artifact do not matter, only the callable surface does
+export function abiHash(abi: Interface | InterfaceAbi): string {
+  const fragments = Interface.from(abi).fragments.map((fragment) => fragment.format('full')).sort();
+  return keccak256(toUtf8Bytes(fragments.join('\n')));
+}
+
+export function toManifestValue(value: unknown): ManifestValue {
+  if (typeof value === 'bigint') return value.toString();
+  if (value === undefined || value === null) return null;
+  if (Array.isArray(value)) return value.map(toManifestValue);
+  if (typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, toManifestValue(entry)]));
+  }
+  return value as ManifestValue;
+}
+
+export function recordContract(manifest: DeploymentManifest, name: string, contract: ManifestContract): DeploymentManifest {
+  return {
+    ...manifest,
+    updatedAt: new Date().toISOString(),
+    contracts: { ...manifest.contracts, [name]: { ...contract, address: getAddress(contract.address) } },
+  };
+}
+
+export function contractAddress(manifest: DeploymentManifest, name: string): string {
+  const contract = manifest.contracts[name];
+  if (!contract) throw new Error(`${name} is not in the manifest for chain ${manifest.chainId}`);
+  return contract.address;
+}
+
+const isHash = (value: unknown) => typeof value === 'string' && /^0x[0-9a-fA-F]{64}$/.test(value);
+
+// Checks the shape of a parsed manifest file; throws on anything malformed
+export function parseManifest(json: string): DeploymentManifest {
+  const value = JSON.parse(json) as Partial<DeploymentManifest>;
+  if (typeof value !== 'object' || value === null) throw new Error('Manifest is not an object');
+  if (typeof value.version !== 'number') throw new Error('Manifest has no version');
+  if (typeof value.chainId !== 'number') throw new Error('Manifest has no chainId');
+  if (typeof value.contracts !== 'object' || value.contracts === null) throw new Error('Manifest has no contracts');
+  for (const [name, contract] of Object.entries(value.contracts)) {
+    if (typeof contract?.address !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(contract.address)) {
+      throw new Error(`Manifest entry ${name} has an invalid address`);
+    }
+    if (!Number.isInteger(contract.blockNumber) || !isHash(contract.blockHash) || !isHash(contract.transactionHash)) {
+      throw new Error(`Manifest entry ${name} has no deployment block or transaction`);
+    }
+    if (!Array.isArray(contract.constructorArgs) || !isHash(contract.abiHash)) {
+      throw new Error(`Manifest entry ${name} has no constructor arguments or ABI hash`);
+    }
+  }
+  return {
+    version: value.version,
+    chainId: value.chainId,
+    network: value.network ?? '',
+    updatedAt: value.updatedAt ?? '',
+    contracts: value.contracts,
+  };
+}
+
+export function serializeManifest(manifest: DeploymentManifest): string {
+  const contracts = Object.fromEntries(Object.entries(manifest.contracts).sort(([a], [b]) => a.localeCompare(b)));
+  return `${JSON.stringify({ ...manifest, contracts }, null, 2)}\n`;
+}
+
+// Everything that makes the manifest unusable on `provider`; empty means it can be trusted
+export async function verifyManifest(
+  manifest: DeploymentManifest,
+  provider: Pick<Provider, 'getCode' | 'getBlock'>,
+  options: VerifyManifestOptions,
+): Promise<ManifestIssue[]> {
+  const issues: ManifestIssue[] = [];
+  if (manifest.version !== MANIFEST_VERSION) {
+    issues.push({ kind: 'version', message: `Manifest version ${manifest.version} is not supported (expected ${MANIFEST_VERSION})` });
+  }
+  if (manifest.chainId !== options.chainId) {
+    issues.push({ kind: 'chain', message: `Manifest is for chain ${manifest.chainId}, connected to ${options.chainId}` });
+  }
+  if (issues.length > 0) return issues;
+
+  for (const name of options.required ?? []) {
+    if (!manifest.contracts[name]) issues.push({ kind: 'missing-contract', contract: name, message: `${name} is not deployed` });
+  }
+
+  const blocks = new Map<number, Promise<string | null>>();
+  const blockHash = (blockNumber: number) => {
+    if (!blocks.has(blockNumber)) blocks.set(blockNumber, provider.getBlock(blockNumber).then((block) => block?.hash ?? null));
+    return blocks.get(blockNumber)!;
+  };
+
+  await Promise.all(Object.entries(manifest.contracts).map(async ([name, contract]) => {
+    const [code, hash] = await Promise.all([provider.getCode(contract.address), blockHash(contract.blockNumber)]);
+    if (hash !== contract.blockHash) {
+      issues.push({ kind: 'reorged', contract: name, message: `${name} deployment block ${contract.blockNumber} is no longer on chain` });
+    } else if (code === '0x') {
+      issues.push({ kind: 'no-code', contract: name, message: `${name} has no code at ${contract.address}` });
+    }
+    const expected = options.abiHashes?.[name];
+    if (expected && expected !== contract.abiHash) {
+      issues.push({ kind: 'abi', contract: name, message: `${name} was deployed with a different ABI` });
+    }
+  }));
+
+  // Stable order regardless of which RPC call returned first
+  return issues.sort((a, b) => (a.contract ?? '').localeCompare(b.contract ?? '') || a.kind.localeCompare(b.kind));
+}
+
+// Fetches `${baseUrl}manifests/<chainId>.json`; null when the chain has no manifest
+export async function fetchManifest(chainId: number, baseUrl = '/'): Promise<DeploymentManifest | null> {
+  const response = await fetch(`${baseUrl}manifests/${chainId}.json`);
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error(`Manifest request failed: ${response.status}`);
+  const text = await response.text();
+  // Dev servers answer unknown paths with index.html
+  if (!text.trimStart().startsWith('{')) return null;
+  return parseManifest(text);
+}
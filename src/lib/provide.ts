@@ -0,0 +1,146 @@
+import { Contract, EventLog, Interface, Provider, getAddress, parseUnits } from 'ethers';
+import { LIQUID_FLOW_CORE_ABI } from './abis';
+import { shippedStrategyData } from './indexer';
+import { XYKStrategyParams, decodeXYKStrategyParams, encodeXYKStrategyParams, hashCoreStrategy, sortTokens } from './strategy';
+
+// Shipping XYKStrategy positions through LiquidFlowRouter.
+//
+// A position is one XYKStrategy.StrategyParams (LP, pair, fee tier and salt),
+// and LiquidFlowCore keeps its virtual balances under hashCoreStrategy of the
+// encoded params, the key XYKStrategy quotes and swaps them under. Shipping the same params again replaces those balances, so
+// adding to a position ships its current reserves plus the new amounts, paired
+// at the reserves' ratio. A new position is paired at the price the LP sets.
+
+export interface ProvisionRequest {
+  lp: string;
+  strategy: string;
+  // In the order the user entered them
+  tokenA: string;
+  tokenB: string;
+  feeBps: bigint;
+  salt: string;
+}
+
+export interface Provision {
+  params: XYKStrategyParams;
+  strategyData: string;
+  // Key LiquidFlowCore registers the position under
+  strategyHash: string;
+  // token0 and token1 of the params
+  tokens: [string, string];
+  // What the position holds after shipping: current reserves plus the added amounts
+  amounts: [bigint, bigint];
+}
+
+export interface ShippedStrategy {
+  lp: string;
+  strategy: string;
+  strategyHash: string;
+  tokens: string[];
+  amounts: bigint[];
+}
+
+export function provisionParams(request: ProvisionRequest): XYKStrategyParams {
+  const [token0, token1] = sortTokens(request.tokenA, request.tokenB);
+  return { lp: getAddress(request.lp), token0, token1, feeBps: request.feeBps, salt: request.salt };
+}
+
+// Current virtual balances of the position, in the order of tokenA and tokenB;
+// zero for a position that was never shipped
+export async function fetchPositionReserves(
+  provider: Provider,
+  liquidFlowCore: string,
+  request: ProvisionRequest,
+): Promise<[bigint, bigint]> {
+  const params = provisionParams(request);
+  const strategyHash = hashCoreStrategy(params.lp, request.strategy, encodeXYKStrategyParams(params));
+  const core = new Contract(liquidFlowCore, LIQUID_FLOW_CORE_ABI, provider);
+  const [reserveA, reserveB] = await Promise.all([
+    core.balanceOf(params.lp, request.strategy, strategyHash, request.tokenA),
+    core.balanceOf(params.lp, request.strategy, strategyHash, request.tokenB),
+  ]);
+  return [reserveA, reserveB];
+}
+
+// Reserves that stand for "1 A = price B" when a new position has none yet
+export function priceAsReserves(price: string, decimalsA: number, decimalsB: number): [bigint, bigint] | null {
+  let priceB: bigint;
+  try {
+    priceB = parseUnits(price.trim(), decimalsB);
+  } catch {
+    return null;
+  }
+  return priceB > 0n ? [10n ** BigInt(decimalsA), priceB] : null;
+}
+
+// Amount of the other token that keeps the reserves' ratio when `amount` of this one is added
+export function pairedAmount(amount: bigint, reserveIn: bigint, reserveOut: bigint): bigint {
+  if (reserveIn === 0n) throw new Error('Reserves set no ratio');
+  return amount * reserveOut / reserveIn;
+}
+
+// Params and amounts to ship when adding to a position holding `reserves`
+export function buildProvision(
+  request: ProvisionRequest,
+  reserves: [bigint, bigint],
+  added: [bigint, bigint],
+): Provision {
+  if (added[0] <= 0n || added[1] <= 0n) throw new Error('Both amounts must be above zero');
+  const params = provisionParams(request);
+  const strategyData = encodeXYKStrategyParams(params);
+  const totalA = reserves[0] + added[0];
+  const totalB = reserves[1] + added[1];
+  const aFirst = params.token0 === getAddress(request.tokenA);
+  return {
+    params,
+    strategyData,
+    strategyHash: hashCoreStrategy(params.lp, request.strategy, strategyData),
+    tokens: [params.token0, params.token1],
+    amounts: aFirst ? [totalA, totalB] : [totalB, totalA],
+  };
+}
+
+const coreInterface = new Interface(LIQUID_FLOW_CORE_ABI);
+
+// StrategyShipped in the receipt logs of a ship or provideLiquidity call
+export function shippedStrategy(logs: readonly { topics: readonly string[]; data: string }[]): ShippedStrategy {
+  for (const log of logs) {
+    const parsed = coreInterface.parseLog(log);
+    if (parsed?.name !== 'StrategyShipped') continue;
+    return {
+      lp: getAddress(parsed.args.lp),
+      strategy: getAddress(parsed.args.strategy),
+      strategyHash: parsed.args.strategyHash,
+      tokens: parsed.args.tokens.map(getAddress),
+      amounts: [...parsed.args.amounts],
+    };
+  }
+  throw new Error('StrategyShipped not found in receipt');
+}
+
+// Active positions of the strategy read straight from StrategyShipped logs, for
+// when no indexer is running. Only ships whose parameters can be recovered from
+// the transaction input are returned.
+export async function fetchShippedPositions(
+  provider: Provider,
+  liquidFlowCore: string,
+  strategy: string,
+  fromBlock = 0,
+): Promise<XYKStrategyParams[]> {
+  const core = new Contract(liquidFlowCore, LIQUID_FLOW_CORE_ABI, provider);
+  const shipped = await core.queryFilter(core.filters.StrategyShipped(null, getAddress(strategy)), fromBlock);
+
+  // Shipping the same params again only replaces the balances
+  const latest = new Map<string, EventLog>();
+  for (const log of shipped) {
+    if (log instanceof EventLog) latest.set(log.args.strategyHash, log);
+  }
+  const positions = await Promise.all([...latest.values()].map(async (log) => {
+    const [active, strategyData] = await Promise.all([
+      core.isStrategyActive(log.args.strategyHash) as Promise<boolean>,
+      shippedStrategyData(provider, log),
+    ]);
+    return active && strategyData ? decodeXYKStrategyParams(strategyData) : null;
+  }));
+  return positions.filter((params): params is XYKStrategyParams => params !== null);
+}
@@ -0,0 +1,126 @@
+// Exact bigint quoting for the constant product strategies.
+//
+// Every formula below mirrors the Solidity implementation operation by operation
+// (same multiplication order, same floor divisions), so a quote computed here is
+// the amount the contract will produce for the same reserves, down to the wei.
+
+export const BPS_BASE = 10000n;
+export const WAD = 10n ** 18n;
+
+// 'xyc' = XYCSwap on Aqua, 'xyk' = XYKStrategy on LiquidFlowCore
+export type CurveKind = 'xyc' | 'xyk';
+
+export interface PoolState {
+  kind: CurveKind;
+  reserveIn: bigint;
+  reserveOut: bigint;
+  feeBps: bigint;
+  // LiquidFlowCore.push credits the strategy with amount minus the protocol fee.
+  // Only affects the post-swap reserves reported for 'xyk' pools.
+  protocolFeeBps?: bigint;
+}
+
+export interface Quote {
+  amountIn: bigint;
+  amountOut: bigint;
+  // LP fee charged on the input, in tokenIn units
+  feeAmount: bigint;
+  // Prices are tokenOut per tokenIn, scaled by WAD
+  spotPrice: bigint;
+  executionPrice: bigint;
+  marginalPriceAfter: bigint;
+  // Shortfall against a fee-adjusted spot-price fill, rounded up
+  priceImpactBps: bigint;
+  reserveInAfter: bigint;
+  reserveOutAfter: bigint;
+}
+
+// XYCSwap._quoteExactIn
+export function xycAmountOut(amountIn: bigint, balanceIn: bigint, balanceOut: bigint, feeBps: bigint): bigint {
+  const amountInWithFee = amountIn * (BPS_BASE - feeBps) / BPS_BASE;
+  const denominator = balanceIn + amountInWithFee;
+  if (denominator === 0n) throw new Error('Empty reserves');
+  return amountInWithFee * balanceOut / denominator;
+}
+
+// XYKStrategy._calculateAmountOut
+export function xykAmountOut(amountIn: bigint, balanceIn: bigint, balanceOut: bigint, feeBps: bigint): bigint {
+  const amountInWithFee = amountIn * (BPS_BASE - feeBps);
+  const numerator = amountInWithFee * balanceOut;
+  const denominator = (balanceIn * BPS_BASE) + amountInWithFee;
+  if (denominator === 0n) throw new Error('Empty reserves');
+  return numerator / denominator;
+}
+
+// XYCSwap._quoteExactOut and XYKStrategy._calculateAmountIn share the same formula
+export function amountInForExactOut(amountOut: bigint, balanceIn: bigint, balanceOut: bigint, feeBps: bigint): bigint {
+  // The contracts revert with an arithmetic panic in both cases
+  if (amountOut >= balanceOut) throw new Error('Insufficient liquidity');
+  if (feeBps >= BPS_BASE) throw new Error('Invalid fee');
+  const numerator = balanceIn * amountOut * BPS_BASE;
+  const denominator = (balanceOut - amountOut) * (BPS_BASE - feeBps);
+  return (numerator / denominator) + 1n;
+}
+
+export function amountOutForExactIn(pool: PoolState, amountIn: bigint): bigint {
+  return pool.kind === 'xyc'
+    ? xycAmountOut(amountIn, pool.reserveIn, pool.reserveOut, pool.feeBps)
+    : xykAmountOut(amountIn, pool.reserveIn, pool.reserveOut, pool.feeBps);
+}
+
+// Fee as each contract accounts for it: XYCSwap floors the post-fee input,
+// XYKStrategy floors the fee itself (the value emitted in its Swap event).
+export function feeAmount(kind: CurveKind, amountIn: bigint, feeBps: bigint): bigint {
+  return kind === 'xyc'
+    ? amountIn - amountIn * (BPS_BASE - feeBps) / BPS_BASE
+    : amountIn * feeBps / BPS_BASE;
+}
+
+export function quoteExactIn(pool: PoolState, amountIn: bigint): Quote {
+  return buildQuote(pool, amountIn, amountOutForExactIn(pool, amountIn));
+}
+
+export function quoteExactOut(pool: PoolState, amountOut: bigint): Quote {
+  return buildQuote(pool, amountInForExactOut(amountOut, pool.reserveIn, pool.reserveOut, pool.feeBps), amountOut);
+}
+
+// Reverse of a pool: the same reserves seen from the other swap direction
+export function flipPool(pool: PoolState): PoolState {
+  return { ...pool, reserveIn: pool.reserveOut, reserveOut: pool.reserveIn };
+}
+
+export function spotPrice(reserveIn: bigint, reserveOut: bigint): bigint {
+  return reserveIn === 0n ? 0n : reserveOut * WAD / reserveIn;
+}
+
+// Quote for a fill whose amounts are already known, e.g. an on-chain quote
+export function buildQuote(pool: PoolState, amountIn: bigint, amountOut: bigint): Quote {
+  const { kind, reserveIn, reserveOut, feeBps } = pool;
+
+  const credited = kind === 'xyk' && pool.protocolFeeBps
+    ? amountIn - amountIn * pool.protocolFeeBps / BPS_BASE
+    : amountIn;
+  const reserveInAfter = reserveIn + credited;
+  const reserveOutAfter = reserveOut - amountOut;
+
+  // Output a zero-impact fill would give: amountIn * (1 - fee) at the spot price
+  const idealOut = reserveIn === 0n ? 0n : amountIn * (BPS_BASE - feeBps) * reserveOut / (BPS_BASE * reserveIn);
+  const shortfall = idealOut > amountOut ? idealOut - amountOut : 0n;
+  const priceImpactBps = idealOut === 0n ? 0n : ceilDiv(shortfall * BPS_BASE, idealOut);
+
+  return {
+    amountIn,
+    amountOut,
+    feeAmount: feeAmount(kind, amountIn, feeBps),
+    spotPrice: spotPrice(reserveIn, reserveOut),
+    executionPrice: amountIn === 0n ? 0n : amountOut * WAD / amountIn,
+    marginalPriceAfter: spotPrice(reserveInAfter, reserveOutAfter),
+    priceImpactBps,
+    reserveInAfter,
+    reserveOutAfter,
+  };
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+  return (a + b - 1n) / b;
+}
@@ -0,0 +1,376 @@
+import { Contract, EventLog, Signer, getAddress } from 'ethers';
+import { BRIDGE_ADAPTER_MOCK_ABI, BRIDGE_ROUTER_ABI } from './abis';
+import { BRIDGE_PROVIDERS, BridgeProviderName } from './bridge';
+import { describeError } from './errors';
+
+// Relays BridgeRouter transfers between chains that run BridgeAdapterMock as a
+// provider's adapter, standing in for the provider's own messaging.
+//
+// A transfer is a message from the source chain's BridgeInitiated to the
+// destination: the destination's adapter releases the output from its own
+// balance, then the source's adapter confirms with completeBridge. Releases
+// are recorded per request on the destination, so a relayer that stops between
+// the two steps only confirms when it runs again; one that keeps failing to
+// release fails the request, which refunds the user on the source.
+//
+// For testing, deliveries can be dropped (retried later), duplicated (must be
+// rejected by the contracts) and delayed. checkBridgeConsistency then compares
+// the routers' bookkeeping with what happened on both sides.
+
+export interface RelayedChain {
+  chainId: number;
+  // Relayer account on this chain; owns the adapter
+  signer: Signer;
+  bridgeRouter: string;
+  // BridgeAdapterMock registered on the router for the relayed provider
+  adapter: string;
+  // Where BridgeInitiated is looked for, e.g. the router's deploy block
+  fromBlock?: number;
+}
+
+export interface RelayerFaults {
+  // Chance that a delivery attempt is lost in transit; it is retried later
+  dropRate?: number;
+  // Chance that a delivered message arrives a second time
+  duplicateRate?: number;
+  // A new message waits up to this many ticks before its first attempt
+  maxDelayTicks?: number;
+  // Math.random unless given; seededRandom makes a run reproducible
+  random?: () => number;
+}
+
+export interface BridgeRelayerConfig {
+  provider: BridgeProviderName;
+  chains: RelayedChain[];
+  // The same asset on every chain, by chain ID, e.g. [{ 31337: '0x...', 31338: '0x...' }]
+  tokens: Record<number, string>[];
+  faults?: RelayerFaults;
+  // Failed releases after which the request is failed and refunded
+  maxAttempts?: number;
+  // Ticks before a dropped or failed attempt is retried
+  retryTicks?: number;
+  pollIntervalMs?: number;
+  log?: (message: string) => void;
+}
+
+export type RelayEvent =
+  | { action: 'dropped'; requestId: string }
+  | { action: 'delivered'; requestId: string; outputAmount: bigint }
+  | { action: 'duplicate'; requestId: string; accepted: boolean }
+  | { action: 'retry'; requestId: string; reason: string }
+  | { action: 'failed'; requestId: string; reason: string };
+
+// Queued under `${source}:${requestId}`
+interface Message {
+  requestId: string;
+  source: number;
+  destination: number;
+  attempts: number;
+  // Tick from which the message may be attempted
+  readyAt: number;
+}
+
+interface ChainContracts {
+  config: RelayedChain;
+  router: Contract;
+  adapter: Contract;
+}
+
+export interface ConsistencyIssue {
+  chainId: number;
+  requestId?: string;
+  message: string;
+}
+
+export interface ConsistencyReport {
+  ok: boolean;
+  initiated: number;
+  completed: number;
+  failed: number;
+  // Neither completed nor failed yet
+  pending: string[];
+  issues: ConsistencyIssue[];
+}
+
+// Deterministic generator in [0, 1) (mulberry32)
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const connect = (chain: RelayedChain): ChainContracts => ({
+  config: chain,
+  router: new Contract(chain.bridgeRouter, BRIDGE_ROUTER_ABI, chain.signer),
+  adapter: new Contract(chain.adapter, BRIDGE_ADAPTER_MOCK_ABI, chain.signer),
+});
+
+const eventLogs = (logs: unknown[]) => logs.filter((log): log is EventLog => log instanceof EventLog);
+
+export class BridgeRelayer {
+  private readonly chains = new Map<number, ChainContracts>();
+  private readonly providerIndex: number;
+  private readonly cursors = new Map<number, number>();
+  private readonly queue = new Map<string, Message>();
+  private readonly random: () => number;
+  private ticks = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private pending: Promise<RelayEvent[]> | null = null;
+
+  constructor(private readonly config: BridgeRelayerConfig) {
+    for (const chain of config.chains) {
+      this.chains.set(chain.chainId, connect(chain));
+      this.cursors.set(chain.chainId, chain.fromBlock ?? 0);
+    }
+    this.providerIndex = BRIDGE_PROVIDERS.indexOf(config.provider);
+    this.random = config.faults?.random ?? Math.random;
+  }
+
+  // Messages seen and not settled yet
+  queued(): number {
+    return this.queue.size;
+  }
+
+  start(): void {
+    const wake = () => void this.tick().catch((error) => this.log(`tick failed: ${describeError(error)}`));
+    this.timer = setInterval(wake, this.config.pollIntervalMs ?? 2000);
+    wake();
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await this.pending;
+  }
+
+  // Picks up new transfers and attempts every message that is due. Overlapping
+  // calls share the in-flight step.
+  tick(): Promise<RelayEvent[]> {
+    if (!this.pending) {
+      this.pending = this.step().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  private async step(): Promise<RelayEvent[]> {
+    this.ticks++;
+    for (const chain of this.chains.values()) await this.scan(chain);
+
+    const events: RelayEvent[] = [];
+    for (const message of [...this.queue.values()]) {
+      if (message.readyAt <= this.ticks) events.push(...await this.relay(message));
+    }
+    return events;
+  }
+
+  private async scan(chain: ChainContracts): Promise<void> {
+    const fromBlock = this.cursors.get(chain.config.chainId)!;
+    const head = await chain.config.signer.provider!.getBlockNumber();
+    if (head < fromBlock) return;
+    const logs = eventLogs(await chain.router.queryFilter(chain.router.filters.BridgeInitiated(), fromBlock, head));
+    this.cursors.set(chain.config.chainId, head + 1);
+
+    for (const log of logs) {
+      const requestId: string = log.args.requestId;
+      const destination = Number(log.args.dstChain);
+      const key = `${chain.config.chainId}:${requestId}`;
+      if (Number(log.args.provider) !== this.providerIndex || this.queue.has(key)) continue;
+      if (!this.chains.has(destination)) {
+        this.log(`${requestId}: chain ${destination} is not relayed`);
+        continue;
+      }
+      const delay = Math.floor(this.random() * ((this.config.faults?.maxDelayTicks ?? 0) + 1));
+      this.queue.set(key, { requestId, source: chain.config.chainId, destination, attempts: 0, readyAt: this.ticks + delay });
+      this.log(`${requestId}: ${chain.config.chainId} -> ${destination}${delay > 0 ? `, delayed ${delay} ticks` : ''}`);
+    }
+  }
+
+  private async relay(message: Message): Promise<RelayEvent[]> {
+    const { requestId } = message;
+    const key = `${message.source}:${requestId}`;
+    const source = this.chains.get(message.source)!;
+    const destination = this.chains.get(message.destination)!;
+    const request = await source.router.getRequest(requestId);
+    if (request.completed) {
+      this.queue.delete(key);
+      return [];
+    }
+
+    const retryAt = this.ticks + (this.config.retryTicks ?? 1);
+    if (this.random() < (this.config.faults?.dropRate ?? 0)) {
+      message.readyAt = retryAt;
+      this.log(`${requestId}: dropped`);
+      return [{ action: 'dropped', requestId }];
+    }
+
+    message.attempts++;
+    let outputAmount: bigint;
+    try {
+      outputAmount = await this.deliver(source, destination, request);
+    } catch (error) {
+      const reason = describeError(error);
+      if (message.attempts < (this.config.maxAttempts ?? 3)) {
+        message.readyAt = retryAt;
+        this.log(`${requestId}: attempt ${message.attempts} failed: ${reason}`);
+        return [{ action: 'retry', requestId, reason }];
+      }
+      await (await source.adapter.fail(requestId, reason)).wait();
+      this.queue.delete(key);
+      this.log(`${requestId}: failed and refunded: ${reason}`);
+      return [{ action: 'failed', requestId, reason }];
+    }
+
+    this.queue.delete(key);
+    this.log(`${requestId}: delivered ${outputAmount}`);
+    const events: RelayEvent[] = [{ action: 'delivered', requestId, outputAmount }];
+    if (this.random() < (this.config.faults?.duplicateRate ?? 0)) {
+      events.push(await this.redeliver(source, destination, request, outputAmount));
+    }
+    return events;
+  }
+
+  // Releases on the destination unless an earlier attempt already did, then confirms on the source
+  private async deliver(
+    source: ChainContracts,
+    destination: ChainContracts,
+    request: { requestId: string; token: string; amount: bigint; recipient: string },
+  ): Promise<bigint> {
+    let outputAmount: bigint = await destination.adapter.released(request.requestId);
+    if (outputAmount === 0n) {
+      outputAmount = await this.outputAmount(source, destination, request);
+      const token = this.destinationToken(source, destination, request.token);
+      await (await destination.adapter.release(request.requestId, token, request.recipient, outputAmount)).wait();
+    }
+    await (await source.adapter.confirm(request.requestId, outputAmount)).wait();
+    return outputAmount;
+  }
+
+  // Sends both steps of a delivered message again; the contracts must turn both away
+  private async redeliver(
+    source: ChainContracts,
+    destination: ChainContracts,
+    request: { requestId: string; token: string; recipient: string },
+    outputAmount: bigint,
+  ): Promise<RelayEvent> {
+    const token = this.destinationToken(source, destination, request.token);
+    let accepted = false;
+    for (const send of [
+      () => destination.adapter.release(request.requestId, token, request.recipient, outputAmount),
+      () => source.adapter.confirm(request.requestId, outputAmount),
+    ]) {
+      try {
+        await (await send()).wait();
+        accepted = true;
+      } catch {
+        // Rejected, as it should be
+      }
+    }
+    this.log(`${request.requestId}: duplicate ${accepted ? 'ACCEPTED' : 'rejected'}`);
+    return { action: 'duplicate', requestId: request.requestId, accepted };
+  }
+
+  // What the source router quoted for the provider on this amount
+  private async outputAmount(source: ChainContracts, destination: ChainContracts, request: { token: string; amount: bigint }): Promise<bigint> {
+    const quotes = await source.router.getQuotes(source.config.chainId, destination.config.chainId, request.token, request.amount);
+    return quotes[this.providerIndex].outputAmount;
+  }
+
+  private destinationToken(source: ChainContracts, destination: ChainContracts, token: string): string {
+    const asset = this.config.tokens.find((entry) => entry[source.config.chainId]
+      && getAddress(entry[source.config.chainId]) === getAddress(token));
+    const mapped = asset?.[destination.config.chainId];
+    if (!mapped) throw new Error(`No counterpart of ${token} on chain ${destination.config.chainId}`);
+    return mapped;
+  }
+
+  private log(message: string): void {
+    this.config.log?.(message);
+  }
+}
+
+// Compares each router's bookkeeping for the provider with the events on both
+// sides: every initiated request counts as a success for the adapter and every
+// failure once more as a fail, `completed` is set exactly when one of
+// BridgeCompleted or BridgeFailed was emitted, and the destination released
+// the completed output once and nothing for failed requests.
+export async function checkBridgeConsistency(
+  config: Pick<BridgeRelayerConfig, 'provider' | 'chains'>,
+): Promise<ConsistencyReport> {
+  const providerIndex = BRIDGE_PROVIDERS.indexOf(config.provider);
+  const chains = new Map(config.chains.map((chain) => [chain.chainId, connect(chain)]));
+  const report: ConsistencyReport = { ok: true, initiated: 0, completed: 0, failed: 0, pending: [], issues: [] };
+  const issue = (chainId: number, message: string, requestId?: string) => report.issues.push({ chainId, requestId, message });
+
+  // Releases on each chain as the destination, by request
+  const releases = new Map<number, Map<string, EventLog[]>>();
+  for (const [chainId, chain] of chains) {
+    const byRequest = new Map<string, EventLog[]>();
+    for (const log of eventLogs(await chain.adapter.queryFilter(chain.adapter.filters.TransferReleased(), chain.config.fromBlock ?? 0))) {
+      byRequest.set(log.args.requestId, [...byRequest.get(log.args.requestId) ?? [], log]);
+    }
+    releases.set(chainId, byRequest);
+  }
+
+  for (const [chainId, chain] of chains) {
+    const fromBlock = chain.config.fromBlock ?? 0;
+    const initiated = eventLogs(await chain.router.queryFilter(chain.router.filters.BridgeInitiated(), fromBlock))
+      .filter((log) => Number(log.args.provider) === providerIndex);
+    const ids = new Set(initiated.map((log) => log.args.requestId as string));
+    const settled = async (event: 'BridgeCompleted' | 'BridgeFailed') => {
+      const found = new Map<string, EventLog[]>();
+      for (const log of eventLogs(await chain.router.queryFilter(chain.router.filters[event](), fromBlock))) {
+        if (ids.has(log.args.requestId)) found.set(log.args.requestId, [...found.get(log.args.requestId) ?? [], log]);
+      }
+      return found;
+    };
+    const completed = await settled('BridgeCompleted');
+    const failed = await settled('BridgeFailed');
+
+    const adapter = await chain.router.getAdapter(providerIndex);
+    if (adapter.successCount !== BigInt(initiated.length)) {
+      issue(chainId, `successCount is ${adapter.successCount}, ${initiated.length} transfers were initiated`);
+    }
+    if (adapter.failCount !== BigInt(failed.size)) {
+      issue(chainId, `failCount is ${adapter.failCount}, ${failed.size} transfers failed`);
+    }
+
+    for (const log of initiated) {
+      const requestId: string = log.args.requestId;
+      const completions = completed.get(requestId) ?? [];
+      const failures = failed.get(requestId) ?? [];
+      const request = await chain.router.getRequest(requestId);
+      const released = releases.get(Number(log.args.dstChain))?.get(requestId) ?? [];
+      report.initiated++;
+
+      if (completions.length + failures.length > 1) issue(chainId, 'settled more than once', requestId);
+      if (request.completed !== completions.length + failures.length > 0) {
+        issue(chainId, `completed is ${request.completed} with ${completions.length + failures.length} settlement events`, requestId);
+      }
+      if (released.length > 1) issue(chainId, `released ${released.length} times on chain ${log.args.dstChain}`, requestId);
+
+      if (completions.length > 0) {
+        report.completed++;
+        const outputAmount: bigint = completions[0].args.outputAmount;
+        if (released.length === 0) issue(chainId, 'completed without a release on the destination', requestId);
+        else if (released[0].args.amount !== outputAmount) {
+          issue(chainId, `completed with ${outputAmount}, released ${released[0].args.amount}`, requestId);
+        }
+      } else if (failures.length > 0) {
+        report.failed++;
+        if (released.length > 0) issue(chainId, 'refunded on the source and released on the destination', requestId);
+      } else {
+        report.pending.push(requestId);
+      }
+    }
+  }
+
+  report.ok = report.issues.length === 0;
+  return report;
+}
@@ -0,0 +1,217 @@
+import { Contract, ContractRunner, Interface, getAddress } from 'ethers';
+import { AQUA_ABI, SWAP_EXECUTOR_ABI, XYC_SWAP_ABI } from './abis';
+import { BPS_BASE, PoolState, amountOutForExactIn } from './quote';
+import { XYCStrategy, hashXYCStrategy } from './strategy';
+
+// Split-route optimizer across XYC strategies shipped to Aqua.
+//
+// A maker can ship several strategies for the same pair (different fee tiers or
+// salts) backed by the same wallet. Each strategy has its own Aqua reserves, so
+// an order can be split across them and every leg quoted independently.
+
+export const DEFAULT_FEE_TIERS = [5n, 30n, 100n];
+
+export interface RoutePool {
+  strategy: XYCStrategy;
+  strategyHash: string;
+  zeroForOne: boolean;
+  state: PoolState;
+}
+
+export interface RouteLeg extends RoutePool {
+  amountIn: bigint;
+  amountOut: bigint;
+}
+
+export interface Route {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  amountOut: bigint;
+  legs: RouteLeg[];
+}
+
+export interface SwapCall {
+  target: string;
+  data: string;
+}
+
+export interface CandidateQuery {
+  makers: string[];
+  tokenA: string;
+  tokenB: string;
+  feeTiers?: bigint[];
+  salts: string[];
+}
+
+// Every strategy a maker could have shipped for the pair: both token orders,
+// each fee tier and each known salt.
+export function candidateStrategies({ makers, tokenA, tokenB, feeTiers = DEFAULT_FEE_TIERS, salts }: CandidateQuery): XYCStrategy[] {
+  const candidates: XYCStrategy[] = [];
+  for (const maker of makers) {
+    for (const [token0, token1] of [[tokenA, tokenB], [tokenB, tokenA]]) {
+      for (const feeBps of feeTiers) {
+        for (const salt of salts) {
+          candidates.push({ maker, token0, token1, feeBps, salt });
+        }
+      }
+    }
+  }
+  return candidates;
+}
+
+// Reads aqua.rawBalances for each candidate and keeps the ones with live reserves
+// on both sides, oriented for a tokenIn -> tokenOut swap.
+export async function discoverPools(
+  runner: ContractRunner,
+  aquaAddress: string,
+  app: string,
+  candidates: XYCStrategy[],
+  tokenIn: string
+): Promise<RoutePool[]> {
+  const aqua = new Contract(aquaAddress, AQUA_ABI, runner);
+  const input = getAddress(tokenIn);
+
+  const pools = await Promise.all(candidates.map(async (strategy): Promise<RoutePool | null> => {
+    const strategyHash = hashXYCStrategy(strategy);
+    const [[balance0], [balance1]] = await Promise.all([
+      aqua.rawBalances(strategy.maker, app, strategyHash, strategy.token0),
+      aqua.rawBalances(strategy.maker, app, strategyHash, strategy.token1),
+    ]);
+    if (balance0 === 0n || balance1 === 0n) return null;
+
+    const zeroForOne = getAddress(strategy.token0) === input;
+    if (!zeroForOne && getAddress(strategy.token1) !== input) return null;
+
+    return {
+      strategy,
+      strategyHash,
+      zeroForOne,
+      state: {
+        kind: 'xyc',
+        reserveIn: zeroForOne ? balance0 : balance1,
+        reserveOut: zeroForOne ? balance1 : balance0,
+        feeBps: strategy.feeBps,
+      },
+    };
+  }));
+
+  return pools.filter((pool): pool is RoutePool => pool !== null);
+}
+
+export interface Allocation<P> {
+  pool: P;
+  amountIn: bigint;
+  amountOut: bigint;
+}
+
+// Allocates amountIn across pools to maximize total output.
+//
+// Output is concave in the input for every pool, so the order is cut into
+// `steps` chunks and each chunk goes to the pool with the best marginal output.
+// The allocation is then refined by moving progressively smaller chunks between
+// pools while that still improves the total. Pools that get nothing are omitted.
+export function splitAmount<P extends { state: PoolState }>(pools: P[], amountIn: bigint, steps = 20): Allocation<P>[] {
+  if (pools.length === 0) throw new Error('No liquidity for pair');
+  if (amountIn <= 0n) throw new Error('Invalid amount');
+
+  const outOf = (i: number, amount: bigint) => amount === 0n ? 0n : amountOutForExactIn(pools[i].state, amount);
+  const alloc = pools.map(() => 0n);
+
+  const chunk = amountIn / BigInt(steps) || amountIn;
+  let remaining = amountIn;
+  while (remaining > 0n) {
+    const size = remaining < chunk * 2n ? remaining : chunk;
+    let best = 0;
+    let bestGain = -1n;
+    for (let i = 0; i < pools.length; i++) {
+      const gain = outOf(i, alloc[i] + size) - outOf(i, alloc[i]);
+      if (gain > bestGain) {
+        bestGain = gain;
+        best = i;
+      }
+    }
+    alloc[best] += size;
+    remaining -= size;
+  }
+
+  for (let size = chunk / 2n, round = 0; size > 0n && round < 8; size /= 2n, round++) {
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (let from = 0; from < pools.length; from++) {
+        if (alloc[from] < size) continue;
+        const loss = outOf(from, alloc[from]) - outOf(from, alloc[from] - size);
+        for (let to = 0; to < pools.length; to++) {
+          if (to === from) continue;
+          const gain = outOf(to, alloc[to] + size) - outOf(to, alloc[to]);
+          if (gain > loss) {
+            alloc[from] -= size;
+            alloc[to] += size;
+            improved = true;
+            break;
+          }
+        }
+      }
+    }
+  }
+
+  // Never do worse than routing everything through the single best pool
+  const total = alloc.reduce((sum, amount, i) => sum + outOf(i, amount), 0n);
+  let bestSingle = 0;
+  for (let i = 1; i < pools.length; i++) {
+    if (outOf(i, amountIn) > outOf(bestSingle, amountIn)) bestSingle = i;
+  }
+  const finalAlloc = outOf(bestSingle, amountIn) > total
+    ? pools.map((_, i) => i === bestSingle ? amountIn : 0n)
+    : alloc;
+
+  const allocations: Allocation<P>[] = [];
+  finalAlloc.forEach((amount, i) => {
+    if (amount > 0n) allocations.push({ pool: pools[i], amountIn: amount, amountOut: outOf(i, amount) });
+  });
+  return allocations;
+}
+
+export function findBestSplit(pools: RoutePool[], amountIn: bigint, steps = 20): Route {
+  const legs: RouteLeg[] = splitAmount(pools, amountIn, steps).map(({ pool, amountIn, amountOut }) => ({
+    ...pool,
+    amountIn,
+    amountOut,
+  }));
+
+  const { strategy, zeroForOne } = legs[0];
+  return {
+    tokenIn: zeroForOne ? strategy.token0 : strategy.token1,
+    tokenOut: zeroForOne ? strategy.token1 : strategy.token0,
+    amountIn,
+    amountOut: legs.reduce((sum, leg) => sum + leg.amountOut, 0n),
+    legs,
+  };
+}
+
+// One swapExactIn per leg. Input is paid through the Aqua push callback, so the
+// caller (SwapExecutor) must hold amountIn of tokenIn when the calls run.
+export function buildSwapCalls(app: string, route: Route, recipient: string, slippageBps = 0n): SwapCall[] {
+  const xycSwap = new Interface(XYC_SWAP_ABI);
+  return route.legs.map((leg) => ({
+    target: app,
+    data: xycSwap.encodeFunctionData('swapExactIn', [
+      leg.strategy,
+      leg.zeroForOne,
+      true, // takerUseAquaPush
+      leg.amountIn,
+      leg.amountOut * (BPS_BASE - slippageBps) / BPS_BASE,
+      recipient,
+      '0x',
+    ]),
+  }));
+}
+
+// Calldata for SwapExecutor.arbitraryCalls running every leg atomically
+export function encodeExecutorCalls(calls: SwapCall[]): string {
+  return new Interface(SWAP_EXECUTOR_ABI).encodeFunctionData('arbitraryCalls', [
+    calls.map((call) => call.target),
+    calls.map((call) => call.data),
+  ]);
+}
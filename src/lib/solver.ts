@@ -0,0 +1,520 @@
+import { AbiCoder, Contract, ContractRunner, Interface, Signer, ZeroAddress, getAddress } from 'ethers';
+import { BATCH_PROCESSOR_ABI, ERC20_ABI, LIQUID_FLOW_ROUTER_ABI, REFERENCE_SOLVER_ABI, XYC_SWAP_ABI, XYK_STRATEGY_ABI } from './abis';
+import { CowFill, Liquidity, PairClearing, matchIntents } from './cow';
+import { BPS_BASE, CurveKind, PoolState } from './quote';
+import { CandidateQuery, SwapCall, candidateStrategies, discoverPools } from './router';
+import { XYKStrategyParams, encodeXYKStrategyParams, hashXYKStrategyParams } from './strategy';
+
+// Reference solver for BatchProcessor auctions.
+//
+// BatchProcessor neither escrows user input nor pays out itself: it calls back
+// executeSolution on the winning solver. The solver identity is therefore a
+// ReferenceSolver contract, and a solution is a list of calls it runs on
+// settlement: pull the users' input (each user approves the solver), net
+// opposing intents, route the leftover through XYC/XYK liquidity and pay out.
+// The contract only lets a solution pull what the batch's intents cover.
+//
+// Intents placed through LiquidFlowRouter are owned by the router, which holds
+// the input and never approves a solver, so they are not settled here.
+
+// Mirrors BatchProcessor.BatchStatus
+export enum BatchStatus {
+  Open,
+  Solving,
+  Executing,
+  Settled,
+  Cancelled,
+}
+
+// Mirrors BatchProcessor.MEVPreference
+export enum MEVPreference {
+  None,
+  Basic,
+  Protected,
+  Maximum,
+}
+
+export interface SwapIntent {
+  intentId: string;
+  user: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  minAmountOut: bigint;
+  maxFee: bigint;
+  mevPref: MEVPreference;
+  allowPartialFill: boolean;
+  deadline: bigint;
+  commitHash: string;
+  revealed: boolean;
+}
+
+// A two-sided pool the solver can swap through, in either direction
+export interface Venue {
+  id: string;
+  kind: CurveKind;
+  target: string;
+  token0: string;
+  token1: string;
+  reserve0: bigint;
+  reserve1: bigint;
+  feeBps: bigint;
+  protocolFeeBps?: bigint;
+  // Exact-in swap paid by the caller (the solver contract)
+  encodeSwap(zeroForOne: boolean, amountIn: bigint, minAmountOut: bigint, recipient: string): string;
+  // Output quoted by a contract view, for venues that have one
+  quoteExactIn?(zeroForOne: boolean, amountIn: bigint): Promise<bigint>;
+}
+
+// Loads the venues quoting any of the given pairs
+export type VenueSource = (pairs: [string, string][]) => Promise<Venue[]>;
+
+// A venue oriented for one swap direction, as consumed by the router and matcher
+export interface OrientedVenue {
+  venue: Venue;
+  zeroForOne: boolean;
+  state: PoolState;
+}
+
+export interface Solution {
+  fills: CowFill<SwapIntent>[];
+  clearings: PairClearing<OrientedVenue>[];
+  calls: SwapCall[];
+  // Surplus of the fills by their output token
+  surplusByToken: Map<string, bigint>;
+  // The single figure BatchProcessor ranks solutions by. Without prices the solver can
+  // only add up the raw amounts, so it is comparable only across the same tokens.
+  totalUserSurplus: bigint;
+  solverBid: bigint;
+  executionData: string;
+}
+
+export interface SolveOptions {
+  solver: string;
+  now: bigint;
+  // Share of the surplus offered as bid for the execution rights
+  bidBps?: bigint;
+  // Tolerance on every AMM leg's minimum output; a shortfall is paid from the solver's inventory
+  slippageBps?: bigint;
+  // Input the solver is allowed to pull, by user and token (pullableKey). It is
+  // shared by the user's intents in that token, in batch order; intents it no
+  // longer covers are skipped.
+  pullable?: Map<string, bigint>;
+}
+
+export const SOLVER_CALL_TUPLE = 'tuple(address target,bytes data)[]';
+
+export function encodeSolverCalls(calls: SwapCall[]): string {
+  return AbiCoder.defaultAbiCoder().encode([SOLVER_CALL_TUPLE], [calls.map((call) => [call.target, call.data])]);
+}
+
+// What one fill moved, as read back from a settled solution
+export interface SolutionFill {
+  user: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  amountOut: bigint;
+}
+
+// Inverse of the call list computeSolution builds: the n-th pull from a user
+// and the n-th payout belong to the same fill. Null for execution data in
+// another solver's format.
+export function decodeSolutionFills(executionData: string): SolutionFill[] | null {
+  let calls: [string, string][];
+  try {
+    [calls] = AbiCoder.defaultAbiCoder().decode([SOLVER_CALL_TUPLE], executionData) as unknown as [[string, string][]];
+  } catch {
+    return null;
+  }
+  const erc20 = new Interface(ERC20_ABI);
+  const pulls: { token: string; user: string; amount: bigint }[] = [];
+  const payouts: { token: string; user: string; amount: bigint }[] = [];
+  for (const [target, data] of calls) {
+    const parsed = erc20.parseTransaction({ data });
+    if (parsed?.name === 'transferFrom') pulls.push({ token: getAddress(target), user: getAddress(parsed.args[0]), amount: parsed.args[2] });
+    if (parsed?.name === 'transfer') payouts.push({ token: getAddress(target), user: getAddress(parsed.args[0]), amount: parsed.args[1] });
+  }
+  if (pulls.length !== payouts.length || pulls.some((pull, index) => pull.user !== payouts[index].user)) return null;
+  return pulls.map((pull, index) => ({
+    user: pull.user,
+    tokenIn: pull.token,
+    tokenOut: payouts[index].token,
+    amountIn: pull.amount,
+    amountOut: payouts[index].amount,
+  }));
+}
+
+export function isSolvable(intent: SwapIntent, now: bigint): boolean {
+  return intent.user !== ZeroAddress && intent.revealed && intent.amountIn > 0n && intent.deadline > now
+    && getAddress(intent.tokenIn) !== getAddress(intent.tokenOut);
+}
+
+export function pullableKey(user: string, token: string): string {
+  return `${getAddress(user)}:${getAddress(token)}`;
+}
+
+function orient(venue: Venue, tokenIn: string): OrientedVenue {
+  const zeroForOne = venue.token0 === tokenIn;
+  return {
+    venue,
+    zeroForOne,
+    state: {
+      kind: venue.kind,
+      reserveIn: zeroForOne ? venue.reserve0 : venue.reserve1,
+      reserveOut: zeroForOne ? venue.reserve1 : venue.reserve0,
+      feeBps: venue.feeBps,
+      protocolFeeBps: venue.protocolFeeBps,
+    },
+  };
+}
+
+export function venueLiquidity(venues: Venue[]): Liquidity<OrientedVenue> {
+  return (tokenIn, tokenOut) => venues
+    .filter((venue) => (venue.token0 === tokenIn && venue.token1 === tokenOut) || (venue.token0 === tokenOut && venue.token1 === tokenIn))
+    .filter((venue) => venue.reserve0 > 0n && venue.reserve1 > 0n)
+    .map((venue) => orient(venue, tokenIn));
+}
+
+// Builds a complete solution for a batch. Intents are matched peer to peer at
+// uniform prices per pair; the solver pulls every user's input, swaps only the
+// imbalance through the venues (output to itself) and pays each user out.
+export function computeSolution(intents: SwapIntent[], venues: Venue[], options: SolveOptions): Solution {
+  const { solver, now, bidBps = 0n, slippageBps = 0n, pullable } = options;
+  const erc20 = new Interface(ERC20_ABI);
+
+  const remaining = new Map(pullable);
+  const eligible = intents.filter((intent) => {
+    if (!isSolvable(intent, now)) return false;
+    if (!pullable) return true;
+    const key = pullableKey(intent.user, intent.tokenIn);
+    const left = remaining.get(key) ?? 0n;
+    if (left < intent.amountIn) return false;
+    remaining.set(key, left - intent.amountIn);
+    return true;
+  });
+  const { fills, clearings, surplusByToken } = matchIntents(eligible, venueLiquidity(venues));
+  const totalUserSurplus = [...surplusByToken.values()].reduce((total, surplus) => total + surplus, 0n);
+
+  const calls: SwapCall[] = [];
+  for (const fill of fills) {
+    calls.push({ target: fill.intent.tokenIn, data: erc20.encodeFunctionData('transferFrom', [fill.intent.user, solver, fill.amountIn]) });
+  }
+  for (const { amm } of clearings) {
+    if (!amm) continue;
+    for (const { pool: { venue, zeroForOne }, amountIn, amountOut } of amm.allocations) {
+      calls.push({ target: amm.tokenIn, data: erc20.encodeFunctionData('approve', [venue.target, amountIn]) });
+      calls.push({
+        target: venue.target,
+        data: venue.encodeSwap(zeroForOne, amountIn, amountOut * (BPS_BASE - slippageBps) / BPS_BASE, solver),
+      });
+    }
+  }
+  for (const fill of fills) {
+    calls.push({ target: fill.intent.tokenOut, data: erc20.encodeFunctionData('transfer', [fill.intent.user, fill.amountOut]) });
+  }
+
+  return {
+    fills,
+    clearings,
+    calls,
+    surplusByToken,
+    totalUserSurplus,
+    solverBid: totalUserSurplus * bidBps / BPS_BASE,
+    executionData: encodeSolverCalls(calls),
+  };
+}
+
+// ============ Venue sources ============
+
+// XYC strategies shipped to Aqua, found by probing candidate (maker, fee, salt) combinations
+export function xycVenueSource(
+  runner: ContractRunner,
+  aquaAddress: string,
+  app: string,
+  query: Omit<CandidateQuery, 'tokenA' | 'tokenB'>
+): VenueSource {
+  const xycSwap = new Interface(XYC_SWAP_ABI);
+  return async (pairs) => {
+    const venues = await Promise.all(pairs.map(async ([tokenA, tokenB]) => {
+      const candidates = candidateStrategies({ ...query, tokenA, tokenB });
+      const pools = await discoverPools(runner, aquaAddress, app, candidates, tokenA);
+      return pools.map(({ strategy, strategyHash, zeroForOne, state }): Venue => ({
+        id: strategyHash,
+        kind: 'xyc',
+        target: getAddress(app),
+        token0: getAddress(strategy.token0),
+        token1: getAddress(strategy.token1),
+        reserve0: zeroForOne ? state.reserveIn : state.reserveOut,
+        reserve1: zeroForOne ? state.reserveOut : state.reserveIn,
+        feeBps: strategy.feeBps,
+        encodeSwap: (direction, amountIn, minAmountOut, recipient) => xycSwap.encodeFunctionData('swapExactIn', [
+          strategy, direction, false, amountIn, minAmountOut, recipient, '0x',
+        ]),
+      }));
+    }));
+    return dedupe(venues.flat());
+  };
+}
+
+// XYKStrategy positions on LiquidFlowCore with known parameters. Quotes go
+// through LiquidFlowRouter.getQuote when a router is given, else the strategy itself.
+export function xykVenueSource(
+  runner: ContractRunner,
+  strategyAddress: string,
+  positions: XYKStrategyParams[],
+  protocolFeeBps = 0n,
+  routerAddress?: string
+): VenueSource {
+  const strategy = new Contract(strategyAddress, XYK_STRATEGY_ABI, runner);
+  const router = routerAddress ? new Contract(routerAddress, LIQUID_FLOW_ROUTER_ABI, runner) : null;
+  return async (pairs) => {
+    const wanted = new Set(pairs.map(pairKey));
+    const matching = positions.filter((params) => wanted.has(pairKey([params.token0, params.token1])));
+    const venues = await Promise.all(matching.map(async (params): Promise<Venue> => {
+      const [reserve0, reserve1] = await strategy.getReserves(params);
+      return {
+        id: hashXYKStrategyParams(strategyAddress, params),
+        kind: 'xyk',
+        target: getAddress(strategyAddress),
+        token0: getAddress(params.token0),
+        token1: getAddress(params.token1),
+        reserve0,
+        reserve1,
+        feeBps: params.feeBps,
+        protocolFeeBps,
+        encodeSwap: (zeroForOne, amountIn, minAmountOut, recipient) => strategy.interface.encodeFunctionData('swapExactIn', [
+          params, zeroForOne, amountIn, minAmountOut, recipient,
+        ]),
+        quoteExactIn: (zeroForOne, amountIn) => router
+          ? router.getQuote(strategyAddress, encodeXYKStrategyParams(params), zeroForOne, amountIn)
+          : strategy.quoteExactIn(params, zeroForOne, amountIn),
+      };
+    }));
+    return venues;
+  };
+}
+
+export function combineVenueSources(...sources: VenueSource[]): VenueSource {
+  return async (pairs) => dedupe((await Promise.all(sources.map((source) => source(pairs)))).flat());
+}
+
+function pairKey([tokenA, tokenB]: [string, string]): string {
+  const [a, b] = [getAddress(tokenA), getAddress(tokenB)].sort();
+  return `${a}:${b}`;
+}
+
+function dedupe(venues: Venue[]): Venue[] {
+  const seen = new Set<string>();
+  return venues.filter((venue) => !seen.has(venue.id) && !!seen.add(venue.id));
+}
+
+// ============ Chain reads ============
+
+export async function fetchIntent(batchProcessor: Contract, intentId: string): Promise<SwapIntent> {
+  const intent = await batchProcessor.getIntent(intentId);
+  return {
+    intentId,
+    user: intent.user,
+    tokenIn: intent.tokenIn,
+    tokenOut: intent.tokenOut,
+    amountIn: intent.amountIn,
+    minAmountOut: intent.minAmountOut,
+    maxFee: intent.maxFee,
+    mevPref: Number(intent.mevPref),
+    allowPartialFill: intent.allowPartialFill,
+    deadline: intent.deadline,
+    commitHash: intent.commitHash,
+    revealed: intent.revealed,
+  };
+}
+
+export async function fetchBatchIntents(batchProcessor: Contract, batchId: bigint): Promise<SwapIntent[]> {
+  const ids: string[] = await batchProcessor.getBatchIntents(batchId);
+  return Promise.all(ids.map((id) => fetchIntent(batchProcessor, id)));
+}
+
+export interface SubmittedSolution {
+  solutionHash: string;
+  solver: string;
+  userSurplus: bigint;
+  solverBid: bigint;
+  blockNumber: number;
+  logIndex: number;
+}
+
+// Competing solutions for a batch, best first. BatchProcessor does not rank
+// solutions itself, so the convention is: highest user surplus, then highest
+// bid, then earliest submission.
+export async function fetchSolutions(batchProcessor: Contract, batchId: bigint, fromBlock = 0): Promise<SubmittedSolution[]> {
+  const events = await batchProcessor.queryFilter(batchProcessor.filters.SolutionSubmitted(null, batchId), fromBlock);
+  const solutions = events.map((event) => {
+    const { args } = batchProcessor.interface.parseLog(event)!;
+    return {
+      solutionHash: args.solutionHash,
+      solver: getAddress(args.solver),
+      userSurplus: args.userSurplus,
+      solverBid: args.solverBid,
+      blockNumber: event.blockNumber,
+      logIndex: event.index,
+    };
+  });
+  return solutions.sort(compareSolutions);
+}
+
+export function compareSolutions(a: SubmittedSolution, b: SubmittedSolution): number {
+  if (a.userSurplus !== b.userSurplus) return a.userSurplus > b.userSurplus ? -1 : 1;
+  if (a.solverBid !== b.solverBid) return a.solverBid > b.solverBid ? -1 : 1;
+  if (a.blockNumber !== b.blockNumber) return a.blockNumber - b.blockNumber;
+  return a.logIndex - b.logIndex;
+}
+
+// ============ Bot ============
+
+export interface SolverBotConfig {
+  signer: Signer;
+  batchProcessor: string;
+  // ReferenceSolver contract owned by the signer
+  solver: string;
+  venues: VenueSource;
+  bidBps?: bigint;
+  slippageBps?: bigint;
+  // Close batches whose close time has passed instead of waiting for someone else
+  closeBatches?: boolean;
+  // Committed intents are revealed after the batch closes; wait for them until
+  // this many seconds before the solve deadline
+  revealGraceSeconds?: number;
+  pollIntervalMs?: number;
+  log?: (message: string) => void;
+}
+
+export type TickResult =
+  | { action: 'idle' }
+  | { action: 'closed'; batchId: bigint }
+  | { action: 'submitted'; batchId: bigint; solution: Solution }
+  | { action: 'executed'; batchId: bigint; solutionHash: string }
+  | { action: 'lost'; batchId: bigint; winner: string };
+
+export class SolverBot {
+  private readonly batchProcessor: Contract;
+  private readonly solverContract: Contract;
+  private readonly submitted = new Set<bigint>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private pending: Promise<TickResult> | null = null;
+
+  constructor(private readonly config: SolverBotConfig) {
+    this.batchProcessor = new Contract(config.batchProcessor, BATCH_PROCESSOR_ABI, config.signer);
+    this.solverContract = new Contract(config.solver, REFERENCE_SOLVER_ABI, config.signer);
+  }
+
+  // Reacts to batch events and polls for deadlines, which are not signalled by events
+  async start(): Promise<void> {
+    const wake = () => void this.tick().catch((error) => this.log(`tick failed: ${error.message ?? error}`));
+    await this.batchProcessor.on('IntentSubmitted', (intentId: string, batchId: bigint) => {
+      this.log(`intent ${intentId} in batch ${batchId}`);
+    });
+    await this.batchProcessor.on('BatchClosed', wake);
+    this.timer = setInterval(wake, this.config.pollIntervalMs ?? 2000);
+    wake();
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await this.batchProcessor.removeAllListeners();
+    await this.pending;
+  }
+
+  // One step of the bot's state machine. Safe to call concurrently: overlapping
+  // calls share the in-flight step.
+  tick(): Promise<TickResult> {
+    if (!this.pending) {
+      this.pending = this.step().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  private async step(): Promise<TickResult> {
+    const batch = await this.batchProcessor.getCurrentBatch();
+    const batchId: bigint = batch.id;
+    const now = await this.now();
+
+    if (Number(batch.status) === BatchStatus.Open) {
+      if (this.config.closeBatches && batch.intentIds.length > 0 && now >= batch.closeTime) {
+        await (await this.batchProcessor.closeBatch()).wait();
+        this.log(`closed batch ${batchId}`);
+        return { action: 'closed', batchId };
+      }
+      return { action: 'idle' };
+    }
+    if (Number(batch.status) !== BatchStatus.Solving) return { action: 'idle' };
+
+    // The submission lands in a later block, which must still be within the window
+    if (now < batch.solveDeadline) {
+      if (this.submitted.has(batchId)) return { action: 'idle' };
+
+      const intents = await fetchBatchIntents(this.batchProcessor, batchId);
+      const unrevealed = intents.some((intent) => intent.user !== ZeroAddress && !intent.revealed);
+      if (unrevealed && now + BigInt(this.config.revealGraceSeconds ?? 3) < batch.solveDeadline) return { action: 'idle' };
+
+      // Anything that fails before the submission is mined is tried again on the next tick
+      const solution = await this.solve(intents, now);
+      if (solution.fills.length === 0) {
+        this.log(`batch ${batchId}: nothing to fill`);
+        return { action: 'idle' };
+      }
+      await (await this.solverContract.submitSolution(batchId, solution.executionData, solution.totalUserSurplus, solution.solverBid)).wait();
+      this.submitted.add(batchId);
+      const surplus = [...solution.surplusByToken].map(([token, amount]) => `${amount} ${token}`).join(', ') || '0';
+      this.log(`batch ${batchId}: submitted ${solution.fills.length} fills, surplus ${surplus}, bid ${solution.solverBid}`);
+      return { action: 'submitted', batchId, solution };
+    }
+
+    const [best] = await fetchSolutions(this.batchProcessor, batchId);
+    if (!best) return { action: 'idle' };
+    if (best.solver !== getAddress(this.config.solver)) {
+      return { action: 'lost', batchId, winner: best.solver };
+    }
+
+    await (await this.batchProcessor.executeBatch(best.solutionHash)).wait();
+    this.log(`batch ${batchId}: executed ${best.solutionHash}`);
+    return { action: 'executed', batchId, solutionHash: best.solutionHash };
+  }
+
+  private async solve(batchIntents: SwapIntent[], now: bigint): Promise<Solution> {
+    const intents = batchIntents.filter((intent) => isSolvable(intent, now));
+    const pairs = intents.map((intent): [string, string] => [intent.tokenIn, intent.tokenOut]);
+    const venues = pairs.length > 0 ? await this.config.venues(pairs) : [];
+
+    // The solver can only settle input the user approved and holds, once per user and token
+    const pullable = new Map<string, bigint>();
+    const holders = new Map(intents.map((intent) => [pullableKey(intent.user, intent.tokenIn), intent]));
+    await Promise.all([...holders].map(async ([key, { user, tokenIn }]) => {
+      const token = new Contract(tokenIn, ERC20_ABI, this.config.signer);
+      const [allowance, balance]: bigint[] = await Promise.all([
+        token.allowance(user, this.config.solver),
+        token.balanceOf(user),
+      ]);
+      pullable.set(key, allowance < balance ? allowance : balance);
+    }));
+
+    return computeSolution(intents, venues, {
+      solver: this.config.solver,
+      now,
+      bidBps: this.config.bidBps,
+      slippageBps: this.config.slippageBps,
+      pullable,
+    });
+  }
+
+  private async now(): Promise<bigint> {
+    const block = await this.config.signer.provider!.getBlock('latest');
+    return BigInt(block!.timestamp);
+  }
+
+  private log(message: string) {
+    this.config.log?.(message);
+  }
+}
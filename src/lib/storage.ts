@@ -0,0 +1,36 @@
+// Persistence shared by the app's stores, the indexer and the script backends.
+//
+// Records are kept as JSON in a key-value store: localStorage in the browser,
+// memory in tests and files in the scripts (scripts/storage.ts). bigints are
+// written as { $bigint: "<decimal>" } objects, so they survive the round trip
+// anywhere in a value and no string, whatever a user typed, is read back as one.
+
+// Subset of the Web Storage API, so window.localStorage works as is
+export interface KeyValueStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export function memoryStorage(): KeyValueStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+  };
+}
+
+// localStorage where there is one, else storage that lasts as long as the process
+export function defaultStorage(): KeyValueStorage {
+  return typeof localStorage !== 'undefined' ? localStorage : memoryStorage();
+}
+
+export function serializeJson(value: unknown): string {
+  return JSON.stringify(value, (_, item) => typeof item === 'bigint' ? { $bigint: item.toString() } : item);
+}
+
+export function deserializeJson<T>(json: string): T {
+  return JSON.parse(json, (_, item) =>
+    item !== null && typeof item === 'object' && typeof item.$bigint === 'string' ? BigInt(item.$bigint) : item);
+}
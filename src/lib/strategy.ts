@@ -0,0 +1,85 @@
+import { AbiCoder, getAddress, hexlify, keccak256, randomBytes, toUtf8Bytes, ZeroHash } from 'ethers';
+
+// Encoding helpers for the strategy structs shipped to Aqua (XYCSwap.Strategy)
+// and to LiquidFlowCore (XYKStrategy.StrategyParams). Both structs are fully
+// static, so abi.encode(struct) and abi.encode(field, ...) produce the same bytes.
+
+export interface XYCStrategy {
+  maker: string;
+  token0: string;
+  token1: string;
+  feeBps: bigint;
+  salt: string;
+}
+
+export interface XYKStrategyParams {
+  lp: string;
+  token0: string;
+  token1: string;
+  feeBps: bigint;
+  salt: string;
+}
+
+export const XYC_STRATEGY_TUPLE = 'tuple(address maker,address token0,address token1,uint256 feeBps,bytes32 salt)';
+export const XYK_STRATEGY_PARAMS_TUPLE = 'tuple(address lp,address token0,address token1,uint256 feeBps,bytes32 salt)';
+
+const coder = AbiCoder.defaultAbiCoder();
+
+export function encodeXYCStrategy(strategy: XYCStrategy): string {
+  return coder.encode(
+    [XYC_STRATEGY_TUPLE],
+    [[strategy.maker, strategy.token0, strategy.token1, strategy.feeBps, strategy.salt]]
+  );
+}
+
+export function decodeXYCStrategy(data: string): XYCStrategy {
+  const [[maker, token0, token1, feeBps, salt]] = coder.decode([XYC_STRATEGY_TUPLE], data);
+  return { maker, token0, token1, feeBps, salt };
+}
+
+// Mirrors XYCSwap._strategyHash: keccak256(abi.encode(strategy))
+export function hashXYCStrategy(strategy: XYCStrategy): string {
+  return keccak256(encodeXYCStrategy(strategy));
+}
+
+export function encodeXYKStrategyParams(params: XYKStrategyParams): string {
+  return coder.encode(
+    [XYK_STRATEGY_PARAMS_TUPLE],
+    [[params.lp, params.token0, params.token1, params.feeBps, params.salt]]
+  );
+}
+
+export function decodeXYKStrategyParams(data: string): XYKStrategyParams {
+  const [[lp, token0, token1, feeBps, salt]] = coder.decode([XYK_STRATEGY_PARAMS_TUPLE], data);
+  return { lp, token0, token1, feeBps, salt };
+}
+
+// Mirrors the key LiquidFlowCore.ship (and LiquidFlowRouter) register a strategy under:
+// keccak256(abi.encode(msg.sender, strategy, strategyData))
+export function hashCoreStrategy(lp: string, strategy: string, strategyData: string): string {
+  return keccak256(coder.encode(['address', 'address', 'bytes'], [lp, strategy, strategyData]));
+}
+
+// Mirrors XYKStrategy.getStrategyHash: the core's key for the params shipped to `strategy`
+export function hashXYKStrategyParams(strategy: string, params: XYKStrategyParams): string {
+  return hashCoreStrategy(params.lp, strategy, encodeXYKStrategyParams(params));
+}
+
+// Random 32-byte salt for a fresh strategy
+export function randomSalt(): string {
+  return hexlify(randomBytes(32));
+}
+
+// Deterministic salt derived from a label, e.g. `saltFromLabel('eth-usdc-v2')`.
+// The empty label maps to ZeroHash, which is the salt the tests ship with.
+export function saltFromLabel(label: string): string {
+  return label === '' ? ZeroHash : keccak256(toUtf8Bytes(label));
+}
+
+// Canonical pair ordering (token0 < token1), as used by the UI when building params
+export function sortTokens(tokenA: string, tokenB: string): [string, string] {
+  const a = getAddress(tokenA);
+  const b = getAddress(tokenB);
+  if (a === b) throw new Error('Identical tokens');
+  return BigInt(a) < BigInt(b) ? [a, b] : [b, a];
+}
@@ -0,0 +1,201 @@
+import { getAddress } from 'ethers';
+import { BPS_BASE, PoolState, Quote, buildQuote, quoteExactIn } from './quote';
+import { Venue, VenueSource } from './solver';
+
+// Quotes for the Swap page and the limits derived from them.
+//
+// A quote is taken from the best venue for the pair: the contract's own view
+// when the venue has one, the exact local mirror of the curve otherwise.
+// Reserves are read alongside, so price impact and fee are reported for the
+// same state the output was quoted against. The pipeline debounces typing,
+// drops answers to requests that were superseded and re-quotes on a timer so
+// the numbers on screen follow the pools.
+
+export interface SwapSettings {
+  slippageBps: number;
+  // Intent lifetime
+  ttlMinutes: number;
+  // Swaps quoted above this are blocked
+  maxPriceImpactBps: number;
+}
+
+export const DEFAULT_SWAP_SETTINGS: SwapSettings = {
+  slippageBps: 50,
+  ttlMinutes: 30,
+  maxPriceImpactBps: 500,
+};
+
+export const SWAP_SETTING_BOUNDS: Record<keyof SwapSettings, [min: number, max: number]> = {
+  slippageBps: [1, 5000],
+  ttlMinutes: [1, 24 * 60],
+  maxPriceImpactBps: [1, 5000],
+};
+
+export interface QuoteRequest {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+}
+
+export interface SwapQuote extends Quote {
+  request: QuoteRequest;
+  venue: Venue;
+  zeroForOne: boolean;
+  // 'chain' when the output came from a contract view, 'model' from the local curve
+  source: 'chain' | 'model';
+  quotedAt: number;
+}
+
+export type QuoteStatus = 'idle' | 'loading' | 'ready' | 'no-route' | 'error';
+
+export interface QuoteState {
+  status: QuoteStatus;
+  request: QuoteRequest | null;
+  // Kept while a refresh of the same request is loading
+  quote: SwapQuote | null;
+  error: string | null;
+}
+
+export interface QuotePipelineOptions {
+  fetchQuote: (request: QuoteRequest) => Promise<SwapQuote | null>;
+  debounceMs?: number;
+  refreshIntervalMs?: number;
+  onChange: (state: QuoteState) => void;
+}
+
+export const IDLE_QUOTE: QuoteState = { status: 'idle', request: null, quote: null, error: null };
+
+// Returns one message per setting outside its bounds
+export function validateSwapSettings(settings: SwapSettings): string[] {
+  const labels: Record<keyof SwapSettings, string> = {
+    slippageBps: 'Slippage',
+    ttlMinutes: 'Deadline',
+    maxPriceImpactBps: 'Price impact limit',
+  };
+  return (Object.keys(SWAP_SETTING_BOUNDS) as (keyof SwapSettings)[]).flatMap((key) => {
+    const [min, max] = SWAP_SETTING_BOUNDS[key];
+    const value = settings[key];
+    return Number.isInteger(value) && value >= min && value <= max ? [] : [`${labels[key]} must be between ${min} and ${max}`];
+  });
+}
+
+export function minAmountOut(amountOut: bigint, slippageBps: number): bigint {
+  return amountOut * (BPS_BASE - BigInt(slippageBps)) / BPS_BASE;
+}
+
+// Unix seconds, as BatchProcessor compares it with block.timestamp
+export function swapDeadline(ttlMinutes: number, now = Date.now()): bigint {
+  return BigInt(Math.floor(now / 1000) + ttlMinutes * 60);
+}
+
+export function exceedsPriceImpact(quote: Quote, settings: SwapSettings): boolean {
+  return quote.priceImpactBps > BigInt(settings.maxPriceImpactBps);
+}
+
+function sameRequest(a: QuoteRequest | null, b: QuoteRequest | null): boolean {
+  return !!a && !!b && a.amountIn === b.amountIn
+    && getAddress(a.tokenIn) === getAddress(b.tokenIn)
+    && getAddress(a.tokenOut) === getAddress(b.tokenOut);
+}
+
+// Quotes every venue of the pair and keeps the one with the largest output
+export async function bestQuote(venues: VenueSource, request: QuoteRequest, now = Date.now()): Promise<SwapQuote | null> {
+  const tokenIn = getAddress(request.tokenIn);
+  const tokenOut = getAddress(request.tokenOut);
+  if (request.amountIn <= 0n || tokenIn === tokenOut) return null;
+
+  const quotes = await Promise.all((await venues([[tokenIn, tokenOut]])).map(async (venue): Promise<SwapQuote | null> => {
+    const zeroForOne = venue.token0 === tokenIn;
+    const state: PoolState = {
+      kind: venue.kind,
+      reserveIn: zeroForOne ? venue.reserve0 : venue.reserve1,
+      reserveOut: zeroForOne ? venue.reserve1 : venue.reserve0,
+      feeBps: venue.feeBps,
+      protocolFeeBps: venue.protocolFeeBps,
+    };
+    if (state.reserveIn === 0n || state.reserveOut === 0n) return null;
+
+    let quote: Quote;
+    if (venue.quoteExactIn) {
+      const amountOut = await venue.quoteExactIn(zeroForOne, request.amountIn);
+      // LiquidFlowRouter.getQuote answers zero when the strategy call fails
+      if (amountOut === 0n) return null;
+      quote = buildQuote(state, request.amountIn, amountOut);
+    } else {
+      quote = quoteExactIn(state, request.amountIn);
+    }
+    if (quote.amountOut === 0n) return null;
+    return { ...quote, request, venue, zeroForOne, source: venue.quoteExactIn ? 'chain' : 'model', quotedAt: now };
+  }));
+
+  return quotes.reduce<SwapQuote | null>((best, quote) => quote && (!best || quote.amountOut > best.amountOut) ? quote : best, null);
+}
+
+export class QuotePipeline {
+  private state: QuoteState = IDLE_QUOTE;
+  private debounce: ReturnType<typeof setTimeout> | null = null;
+  private refresh: ReturnType<typeof setInterval> | null = null;
+  // Bumped on every fetch; an answer is only applied if nothing was fetched after it
+  private sequence = 0;
+
+  constructor(private readonly options: QuotePipelineOptions) {}
+
+  current(): QuoteState {
+    return this.state;
+  }
+
+  // Quotes the request once input settles; null clears the quote
+  update(request: QuoteRequest | null): void {
+    if (request && sameRequest(request, this.state.request) && this.state.status !== 'error') return;
+    this.clearTimers();
+    this.sequence++;
+    if (!request || request.amountIn <= 0n) {
+      this.emit(IDLE_QUOTE);
+      return;
+    }
+    this.emit({ status: 'loading', request, quote: null, error: null });
+    this.debounce = setTimeout(() => {
+      this.debounce = null;
+      void this.fetch(request);
+      const interval = this.options.refreshIntervalMs ?? 15_000;
+      if (interval > 0) this.refresh = setInterval(() => void this.fetch(request), interval);
+    }, this.options.debounceMs ?? 350);
+  }
+
+  // Re-quotes the current request now, e.g. right before submitting
+  async requote(): Promise<QuoteState> {
+    if (this.state.request) await this.fetch(this.state.request);
+    return this.state;
+  }
+
+  stop(): void {
+    this.clearTimers();
+    this.sequence++;
+    this.state = IDLE_QUOTE;
+  }
+
+  private async fetch(request: QuoteRequest): Promise<void> {
+    const sequence = ++this.sequence;
+    if (this.state.status !== 'loading') this.emit({ ...this.state, status: 'loading' });
+    try {
+      const quote = await this.options.fetchQuote(request);
+      if (sequence !== this.sequence) return;
+      this.emit({ status: quote ? 'ready' : 'no-route', request, quote, error: null });
+    } catch (error) {
+      if (sequence !== this.sequence) return;
+      this.emit({ status: 'error', request, quote: null, error: (error as Error).message });
+    }
+  }
+
+  private emit(state: QuoteState): void {
+    this.state = state;
+    this.options.onChange(state);
+  }
+
+  private clearTimers(): void {
+    if (this.debounce) clearTimeout(this.debounce);
+    if (this.refresh) clearInterval(this.refresh);
+    this.debounce = null;
+    this.refresh = null;
+  }
+}
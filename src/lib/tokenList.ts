@@ -0,0 +1,271 @@
+import { Contract, ContractRunner, getAddress, isAddress, parseUnits } from 'ethers';
+import { ERC20_ABI } from './abis';
+import { DeploymentManifest } from './manifest';
+import { KeyValueStorage, defaultStorage } from './storage';
+
+// Token registry: Uniswap-format token lists, tokens the user imported by
+// address and favorites, per chain.
+//
+// Lists are validated against the token list schema before anything in them
+// is shown, since a malformed entry (wrong decimals, a symbol with spaces)
+// would be displayed and used for amounts as if it were trusted. Imported
+// tokens take their metadata from the chain and stay marked unverified.
+
+export interface TokenInfo {
+  chainId: number;
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  logoURI?: string;
+  tags?: string[];
+}
+
+export interface TokenList {
+  name: string;
+  timestamp: string;
+  version: { major: number; minor: number; patch: number };
+  tokens: TokenInfo[];
+  logoURI?: string;
+  keywords?: string[];
+}
+
+// 'list': from a token list, 'deployment': a protocol contract from the manifest,
+// 'imported': added by the user from on-chain metadata
+export type TokenSource = 'list' | 'deployment' | 'imported';
+
+export interface RegistryToken extends TokenInfo {
+  source: TokenSource;
+  // Name of the list it came from
+  list?: string;
+  verified: boolean;
+}
+
+export interface TokenPreferences {
+  imported: TokenInfo[];
+  favorites: string[];
+}
+
+// Lists bundled with the app; more can be added per chain
+export const DEFAULT_TOKEN_LISTS = ['tokenlists/default.json'];
+
+// Protocol tokens read from the deployment manifest when present
+export const DEPLOYMENT_TOKENS = ['LFToken', 'BurnedLF', 'WETHMock'];
+
+// Bounds and patterns from the Uniswap token list schema
+const LIST_NAME = /^[\w ]+$/;
+const TOKEN_NAME = /^[ \w.'+\-%/À-ÖØ-öø-ÿ:&[\]()]+$/;
+const TOKEN_SYMBOL = /^\S+$/;
+const TAG_ID = /^[\w]+$/;
+const ADDRESS = /^0x[a-fA-F0-9]{40}$/;
+const MAX_TOKENS = 10000;
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isUint = (value: unknown, max = Number.MAX_SAFE_INTEGER) => Number.isInteger(value) && (value as number) >= 0 && (value as number) <= max;
+const isString = (value: unknown, min: number, max: number, pattern?: RegExp) =>
+  typeof value === 'string' && value.length >= min && value.length <= max && (!pattern || pattern.test(value));
+const isUri = (value: unknown) => typeof value === 'string' && /^(https?|ipfs|ipns|data):/.test(value);
+
+// Every schema violation in `value`, with the path it was found at
+export function tokenListErrors(value: unknown): string[] {
+  const errors: string[] = [];
+  if (!isObject(value)) return ['list is not an object'];
+
+  if (!isString(value.name, 1, 30, LIST_NAME)) errors.push('name must be 1-30 letters, digits or spaces');
+  if (typeof value.timestamp !== 'string' || Number.isNaN(Date.parse(value.timestamp))) errors.push('timestamp must be an ISO 8601 date');
+  const version = value.version;
+  if (!isObject(version) || !isUint(version.major) || !isUint(version.minor) || !isUint(version.patch)) {
+    errors.push('version must have integer major, minor and patch');
+  }
+  if (value.logoURI !== undefined && !isUri(value.logoURI)) errors.push('logoURI must be a URI');
+  if (value.keywords !== undefined && (!Array.isArray(value.keywords) || value.keywords.length > 20
+    || !value.keywords.every((keyword) => isString(keyword, 1, 20, LIST_NAME)))) {
+    errors.push('keywords must be at most 20 short words');
+  }
+
+  if (!Array.isArray(value.tokens) || value.tokens.length === 0 || value.tokens.length > MAX_TOKENS) {
+    errors.push(`tokens must be an array of 1-${MAX_TOKENS} tokens`);
+    return errors;
+  }
+  const seen = new Set<string>();
+  value.tokens.forEach((token, index) => {
+    const at = `tokens[${index}]`;
+    if (!isObject(token)) {
+      errors.push(`${at} is not an object`);
+      return;
+    }
+    if (!isUint(token.chainId) || token.chainId === 0) errors.push(`${at}.chainId must be a positive integer`);
+    if (typeof token.address !== 'string' || !ADDRESS.test(token.address)) {
+      errors.push(`${at}.address must be a 20-byte hex address`);
+    } else {
+      const key = `${token.chainId}:${token.address.toLowerCase()}`;
+      if (seen.has(key)) errors.push(`${at} duplicates ${token.address} on chain ${token.chainId}`);
+      seen.add(key);
+    }
+    if (!isUint(token.decimals, 255)) errors.push(`${at}.decimals must be an integer from 0 to 255`);
+    if (!isString(token.name, 1, 40, TOKEN_NAME)) errors.push(`${at}.name must be 1-40 characters without symbols`);
+    if (!isString(token.symbol, 1, 20, TOKEN_SYMBOL)) errors.push(`${at}.symbol must be 1-20 characters without spaces`);
+    if (token.logoURI !== undefined && !isUri(token.logoURI)) errors.push(`${at}.logoURI must be a URI`);
+    if (token.tags !== undefined && (!Array.isArray(token.tags) || token.tags.length > 10
+      || !token.tags.every((tag) => isString(tag, 1, 10, TAG_ID)))) {
+      errors.push(`${at}.tags must be at most 10 tag identifiers`);
+    }
+  });
+  return errors;
+}
+
+export function parseTokenList(json: string): TokenList {
+  const value = JSON.parse(json) as unknown;
+  const errors = tokenListErrors(value);
+  if (errors.length > 0) {
+    throw new Error(`Invalid token list: ${errors[0]}${errors.length > 1 ? ` (and ${errors.length - 1} more)` : ''}`);
+  }
+  const list = value as TokenList;
+  return { ...list, tokens: list.tokens.map((token) => ({ ...token, address: getAddress(token.address) })) };
+}
+
+export async function fetchTokenList(url: string): Promise<TokenList> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Token list request failed: ${response.status} ${url}`);
+  return parseTokenList(await response.text());
+}
+
+// Reads ERC-20 metadata; fails for accounts without code or contracts that are not tokens
+export async function fetchTokenMetadata(runner: ContractRunner, address: string, chainId: number): Promise<TokenInfo> {
+  if (!isAddress(address)) throw new Error('Not an address');
+  const provider = runner.provider;
+  if (provider && await provider.getCode(address) === '0x') throw new Error('No contract at this address');
+
+  const token = new Contract(address, ERC20_ABI, runner);
+  let metadata: [string, string, bigint];
+  try {
+    metadata = await Promise.all([token.name(), token.symbol(), token.decimals()]);
+  } catch {
+    throw new Error('Contract does not implement ERC-20 name, symbol and decimals');
+  }
+  const [name, symbol, decimals] = metadata;
+  // Some tokens pad their strings; anything else odd is shown as is
+  const info: TokenInfo = {
+    chainId,
+    address: getAddress(address),
+    name: name.replace(/\0/g, '').trim(),
+    symbol: symbol.replace(/\0/g, '').trim(),
+    decimals: Number(decimals),
+  };
+  if (!info.symbol || info.decimals > 255) throw new Error('Token metadata is invalid');
+  return info;
+}
+
+// Lists first (earlier lists win), then deployment tokens, then imports; one entry per address
+export function mergeTokens(lists: TokenList[], deployment: TokenInfo[], imported: TokenInfo[], chainId: number): RegistryToken[] {
+  const tokens = new Map<string, RegistryToken>();
+  const add = (token: RegistryToken) => {
+    if (token.chainId !== chainId) return;
+    const key = getAddress(token.address);
+    if (!tokens.has(key)) tokens.set(key, { ...token, address: key });
+  };
+  for (const list of lists) {
+    for (const token of list.tokens) add({ ...token, source: 'list', list: list.name, verified: true });
+  }
+  for (const token of deployment) add({ ...token, source: 'deployment', verified: true });
+  for (const token of imported) add({ ...token, source: 'imported', verified: false });
+  return [...tokens.values()];
+}
+
+export async function deploymentTokens(runner: ContractRunner, manifest: DeploymentManifest): Promise<TokenInfo[]> {
+  const names = DEPLOYMENT_TOKENS.filter((name) => manifest.contracts[name]);
+  return Promise.all(names.map((name) => fetchTokenMetadata(runner, manifest.contracts[name].address, manifest.chainId)));
+}
+
+// Favorites first, then the rest in list order; matches symbol, name or address
+export function searchTokens(tokens: RegistryToken[], query: string, favorites: string[] = []): RegistryToken[] {
+  const needle = query.trim().toLowerCase();
+  const favored = new Set(favorites.map((address) => address.toLowerCase()));
+  const matches = needle
+    ? tokens.filter((token) => token.symbol.toLowerCase().includes(needle)
+      || token.name.toLowerCase().includes(needle)
+      || token.address.toLowerCase() === needle)
+    : tokens;
+  return [
+    ...matches.filter((token) => favored.has(token.address.toLowerCase())),
+    ...matches.filter((token) => !favored.has(token.address.toLowerCase())),
+  ];
+}
+
+// Amount as typed in a token field, or null while it is not a positive amount yet
+export function parseTokenAmount(value: string, decimals: number): bigint | null {
+  try {
+    const amount = parseUnits(value, decimals);
+    return amount > 0n ? amount : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function fetchTokenBalances(runner: ContractRunner, account: string, tokens: TokenInfo[]): Promise<Record<string, bigint>> {
+  const balances = await Promise.all(tokens.map(async (token): Promise<[string, bigint] | null> => {
+    try {
+      return [token.address, await new Contract(token.address, ERC20_ABI, runner).balanceOf(account)];
+    } catch {
+      // A list entry without a contract on this chain has no balance rather than failing the rest
+      return null;
+    }
+  }));
+  return Object.fromEntries(balances.filter((entry): entry is [string, bigint] => entry !== null));
+}
+
+// Imports and favorites, stored per chain
+export class TokenPreferencesStore {
+  constructor(private readonly storage: KeyValueStorage = defaultStorage()) {}
+
+  load(chainId: number): TokenPreferences {
+    try {
+      const stored = JSON.parse(this.storage.getItem(this.key(chainId)) ?? '{}') as Partial<TokenPreferences>;
+      return {
+        imported: (stored.imported ?? []).filter((token) => token.chainId === chainId && isAddress(token.address)),
+        favorites: (stored.favorites ?? []).filter((address) => isAddress(address)),
+      };
+    } catch {
+      return { imported: [], favorites: [] };
+    }
+  }
+
+  addImported(token: TokenInfo): TokenPreferences {
+    const preferences = this.load(token.chainId);
+    const { chainId, address, name, symbol, decimals } = token;
+    const imported = [
+      ...preferences.imported.filter((entry) => !sameAddress(entry.address, address)),
+      { chainId, address: getAddress(address), name, symbol, decimals },
+    ];
+    return this.save(token.chainId, { ...preferences, imported });
+  }
+
+  removeImported(chainId: number, address: string): TokenPreferences {
+    const preferences = this.load(chainId);
+    return this.save(chainId, {
+      imported: preferences.imported.filter((token) => !sameAddress(token.address, address)),
+      favorites: preferences.favorites.filter((favorite) => !sameAddress(favorite, address)),
+    });
+  }
+
+  toggleFavorite(chainId: number, address: string): TokenPreferences {
+    const preferences = this.load(chainId);
+    const favorites = preferences.favorites.some((favorite) => sameAddress(favorite, address))
+      ? preferences.favorites.filter((favorite) => !sameAddress(favorite, address))
+      : [...preferences.favorites, getAddress(address)];
+    return this.save(chainId, { ...preferences, favorites });
+  }
+
+  private save(chainId: number, preferences: TokenPreferences): TokenPreferences {
+    this.storage.setItem(this.key(chainId), JSON.stringify(preferences));
+    return preferences;
+  }
+
+  private key(chainId: number): string {
+    return `liquidflow:tokens:${chainId}`;
+  }
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
@@ -0,0 +1,294 @@
+import { Provider, Signer, TransactionRequest, TransactionResponse, getAddress } from 'ethers';
+import { describeError } from './errors';
+import { KeyValueStorage, defaultStorage, deserializeJson, serializeJson } from './storage';
+
+// Lifecycle of the transactions the app sends, per account and chain.
+//
+// A transaction can leave the pending state in more ways than being mined:
+// the wallet may re-send it with higher fees (speed-up), send a zero-value
+// transfer to self with the same nonce (cancel), or another transaction may
+// take the nonce. The tracker polls the node, tells these apart by looking at
+// what was mined with the nonce, counts confirmations and keeps the history
+// in storage so it survives a reload.
+
+// pending: sent, not mined (or un-mined again by a reorg)
+// failed: mined and reverted
+// replaced: another transaction with different contents took the nonce
+// cancelled: a zero-value transfer to self took the nonce
+// dropped: gone from the node with the nonce still unused
+export type TransactionStatus = 'pending' | 'confirmed' | 'failed' | 'replaced' | 'cancelled' | 'dropped';
+
+export interface TrackedTransaction {
+  hash: string;
+  chainId: number;
+  from: string;
+  nonce: number;
+  to: string | null;
+  data: string;
+  value: bigint;
+  // What the user did, e.g. "Approve WETH"
+  label: string;
+  status: TransactionStatus;
+  submittedAt: number;
+  // Replacements are searched for from this block on
+  submittedBlock: number;
+  blockNumber?: number;
+  confirmations: number;
+  // Hashes this transaction had before it was sped up, oldest first
+  previousHashes?: string[];
+  // Transaction that took the nonce when replaced or cancelled
+  replacedBy?: string;
+  // Decoded revert reason when failed
+  error?: string;
+}
+
+export interface TransactionTrackerOptions {
+  provider: Provider;
+  chainId: number;
+  account: string;
+  storage?: KeyValueStorage;
+  // Confirmations after which a mined transaction is no longer followed
+  confirmations?: number;
+  // How long a transaction unknown to the node may keep its nonce unused before it counts as dropped
+  dropAfterMs?: number;
+  pollIntervalMs?: number;
+  // Oldest records beyond this are forgotten
+  maxRecords?: number;
+  onChange?: (records: TrackedTransaction[]) => void;
+}
+
+export type ReplacementKind = 'repriced' | 'cancelled' | 'replaced';
+
+// Replacements must raise fees by at least 10% to be accepted by most nodes
+const FEE_BUMP_PERCENT = 115n;
+
+export const DEFAULT_CONFIRMATIONS = 3;
+
+export function serializeTransactions(records: TrackedTransaction[]): string {
+  return serializeJson(records);
+}
+
+export function deserializeTransactions(json: string): TrackedTransaction[] {
+  return deserializeJson<TrackedTransaction[]>(json);
+}
+
+// How a mined transaction with the same nonce relates to the tracked one
+export function classifyReplacement(
+  original: Pick<TrackedTransaction, 'from' | 'to' | 'data' | 'value'>,
+  replacement: { to: string | null; data: string; value: bigint },
+): ReplacementKind {
+  const sameTo = (original.to ?? '').toLowerCase() === (replacement.to ?? '').toLowerCase();
+  if (sameTo && original.data === replacement.data && original.value === replacement.value) return 'repriced';
+  if ((replacement.to ?? '').toLowerCase() === original.from.toLowerCase() && replacement.value === 0n && replacement.data === '0x') {
+    return 'cancelled';
+  }
+  return 'replaced';
+}
+
+// Fees for a replacement: the original's bumped enough to be accepted, or the
+// current network fees if those are higher
+export function replacementFees(
+  original: Pick<TransactionResponse, 'gasPrice' | 'maxFeePerGas' | 'maxPriorityFeePerGas'>,
+  network: { gasPrice: bigint | null; maxFeePerGas: bigint | null; maxPriorityFeePerGas: bigint | null },
+): Pick<TransactionRequest, 'gasPrice' | 'maxFeePerGas' | 'maxPriorityFeePerGas'> {
+  const bump = (value: bigint, current: bigint | null) => {
+    const bumped = value * FEE_BUMP_PERCENT / 100n;
+    return current !== null && current > bumped ? current : bumped;
+  };
+  if (original.maxFeePerGas !== null && original.maxPriorityFeePerGas !== null) {
+    return {
+      maxFeePerGas: bump(original.maxFeePerGas, network.maxFeePerGas),
+      maxPriorityFeePerGas: bump(original.maxPriorityFeePerGas, network.maxPriorityFeePerGas),
+    };
+  }
+  return { gasPrice: bump(original.gasPrice, network.gasPrice) };
+}
+
+export class TransactionTracker {
+  private readonly storage: KeyValueStorage;
+  private readonly account: string;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private pending: Promise<void> | null = null;
+
+  constructor(private readonly options: TransactionTrackerOptions) {
+    this.storage = options.storage ?? defaultStorage();
+    this.account = getAddress(options.account);
+  }
+
+  // Newest first
+  records(): TrackedTransaction[] {
+    try {
+      const json = this.storage.getItem(this.storageKey());
+      return json ? deserializeTransactions(json) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async track(response: TransactionResponse, label: string): Promise<TrackedTransaction> {
+    const record: TrackedTransaction = {
+      hash: response.hash,
+      chainId: this.options.chainId,
+      from: getAddress(response.from),
+      nonce: response.nonce,
+      to: response.to,
+      data: response.data,
+      value: response.value,
+      label,
+      status: 'pending',
+      submittedAt: Date.now(),
+      submittedBlock: await this.options.provider.getBlockNumber(),
+      confirmations: 0,
+    };
+    this.write([record, ...this.records().filter((existing) => existing.hash !== record.hash)]);
+    return record;
+  }
+
+  // Re-sends a pending transaction with higher fees; it stays the same record under the new hash
+  async speedUp(hash: string, signer: Signer): Promise<TrackedTransaction> {
+    const { record, sent } = await this.replace(hash, signer, (original) => ({
+      to: original.to, data: original.data, value: original.value, gasLimit: original.gasLimit,
+    }));
+    return this.save(hash, {
+      ...record,
+      hash: sent.hash,
+      previousHashes: [...(record.previousHashes ?? []), record.hash],
+    });
+  }
+
+  // Sends a zero-value transfer to self with the same nonce; the record turns
+  // 'cancelled' once that is mined, or stays as is if the original wins
+  async cancel(hash: string, signer: Signer): Promise<TransactionResponse> {
+    const { sent } = await this.replace(hash, signer, () => ({ to: this.account, data: '0x', value: 0n, gasLimit: 21000n }));
+    return sent;
+  }
+
+  // Forgets transactions that are no longer pending
+  clear(): void {
+    this.write(this.records().filter((record) => record.status === 'pending'));
+  }
+
+  start(): void {
+    const wake = () => void this.tick().catch(() => undefined);
+    this.timer = setInterval(wake, this.options.pollIntervalMs ?? 4000);
+    wake();
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await this.pending;
+  }
+
+  // Updates every record still in flight. Overlapping calls share the in-flight step.
+  tick(): Promise<void> {
+    if (!this.pending) {
+      this.pending = this.step().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  private async step(): Promise<void> {
+    const target = this.options.confirmations ?? DEFAULT_CONFIRMATIONS;
+    const open = this.records().filter((record) => record.status === 'pending'
+      || ((record.status === 'confirmed' || record.status === 'failed') && record.confirmations < target));
+    if (open.length === 0) return;
+
+    const { provider } = this.options;
+    const [head, nextNonce] = await Promise.all([provider.getBlockNumber(), provider.getTransactionCount(this.account, 'latest')]);
+    for (const record of open) {
+      const updated = await this.follow(record, head, nextNonce);
+      if (updated) this.save(record.hash, updated);
+    }
+  }
+
+  private async follow(record: TrackedTransaction, head: number, nextNonce: number): Promise<TrackedTransaction | null> {
+    const { provider } = this.options;
+    const receipt = await provider.getTransactionReceipt(record.hash);
+    if (receipt) {
+      const confirmations = head - receipt.blockNumber + 1;
+      if (receipt.status === 1) return { ...record, status: 'confirmed', blockNumber: receipt.blockNumber, confirmations };
+      return {
+        ...record,
+        status: 'failed',
+        blockNumber: receipt.blockNumber,
+        confirmations,
+        error: record.error ?? await this.revertReason(record, receipt.blockNumber),
+      };
+    }
+
+    // Not mined (any more): a reorg can take a confirmed transaction back out
+    const unmined: TrackedTransaction = { ...record, status: 'pending', blockNumber: undefined, confirmations: 0, error: undefined };
+    if (nextNonce > record.nonce) {
+      const replacement = await this.findByNonce(record.nonce, record.submittedBlock, head);
+      if (!replacement) return { ...unmined, status: 'replaced' };
+      const kind = classifyReplacement(record, replacement);
+      if (kind === 'repriced') {
+        // The wallet sped it up: follow the new hash from the next round
+        return { ...unmined, hash: replacement.hash, previousHashes: [...(record.previousHashes ?? []), record.hash] };
+      }
+      return { ...unmined, status: kind, replacedBy: replacement.hash };
+    }
+    if (Date.now() - record.submittedAt > (this.options.dropAfterMs ?? 10 * 60 * 1000) && !(await provider.getTransaction(record.hash))) {
+      return { ...unmined, status: 'dropped' };
+    }
+    return record.status === 'pending' ? null : unmined;
+  }
+
+  // The transaction this account mined with the nonce, searching newest blocks first
+  private async findByNonce(nonce: number, fromBlock: number, toBlock: number): Promise<TransactionResponse | null> {
+    for (let number = toBlock; number >= fromBlock; number--) {
+      const block = await this.options.provider.getBlock(number, true);
+      const found = block?.prefetchedTransactions.find((tx) => tx.nonce === nonce && getAddress(tx.from) === this.account);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  // Replays the call on the state of its block to recover the revert data,
+  // which receipts do not carry
+  private async revertReason(record: TrackedTransaction, blockNumber: number): Promise<string> {
+    try {
+      await this.options.provider.call({ from: record.from, to: record.to, data: record.data, value: record.value, blockTag: blockNumber });
+      return 'The transaction reverted';
+    } catch (error) {
+      return describeError(error);
+    }
+  }
+
+  private async replace(
+    hash: string,
+    signer: Signer,
+    body: (original: TransactionResponse) => Pick<TransactionRequest, 'to' | 'data' | 'value' | 'gasLimit'>,
+  ): Promise<{ record: TrackedTransaction; sent: TransactionResponse }> {
+    const record = this.records().find((candidate) => candidate.hash === hash);
+    if (!record || record.status !== 'pending') throw new Error('Only a pending transaction can be replaced');
+    const { provider } = this.options;
+    const original = await provider.getTransaction(hash);
+    if (!original) throw new Error('The transaction is no longer known to the node');
+    const sent = await signer.sendTransaction({
+      ...body(original),
+      nonce: record.nonce,
+      chainId: this.options.chainId,
+      ...replacementFees(original, await provider.getFeeData()),
+    });
+    return { record, sent };
+  }
+
+  private save(hash: string, record: TrackedTransaction): TrackedTransaction {
+    this.write(this.records().map((existing) => existing.hash === hash ? record : existing));
+    return record;
+  }
+
+  private write(records: TrackedTransaction[]): void {
+    const kept = records.slice(0, this.options.maxRecords ?? 50);
+    this.storage.setItem(this.storageKey(), serializeTransactions(kept));
+    this.options.onChange?.(kept);
+  }
+
+  private storageKey(): string {
+    return `liquidflow:transactions:${this.options.chainId}:${this.account}`;
+  }
+}
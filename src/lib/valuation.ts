@@ -0,0 +1,145 @@
+import { formatUnits } from 'ethers';
+import { BPS_BASE } from './quote';
+import { PositionFlow } from './indexer';
+
+// Valuation of two-token positions from reserves and pull/push history.
+//
+// Everything is measured in units of token1 at the pool's own spot price
+// (reserve1 / reserve0, which is the XYK marginal price) and converted to USD
+// only at the end, so IL, utilization and 24h changes do not depend on an
+// external price feed. USD figures need a price for at least one of the two
+// tokens; the other is implied by the spot price.
+//
+//   hold value      shipped amounts at today's price
+//   position value  current reserves at today's price
+//   fees            feeBps of every pushed swap input, at today's price
+//   IL              (position value - fees) / hold value - 1
+//   utilization     24h swap volume / position value
+
+export const SECONDS_PER_DAY = 86400;
+
+export const STABLECOIN_SYMBOLS = ['USDC', 'USDC.e', 'USDbC', 'USDT', 'DAI'];
+
+export interface ValuationInput {
+  decimals: [number, number];
+  shipped: [bigint, bigint];
+  reserves: [bigint, bigint];
+  feeBps: bigint;
+  flows: PositionFlow[];
+  // USD per whole token, when known
+  pricesUSD?: [number | undefined, number | undefined];
+}
+
+export interface PositionValuation {
+  // token1 per token0 at the current reserves
+  spotPrice: number;
+  valueUSD: number;
+  holdValueUSD: number;
+  // Percent versus holding the shipped amounts, fees excluded; negative is a loss
+  impermanentLoss: number;
+  earnedFeesTotal: number;
+  earnedFees24h: number;
+  earnedFeesPrev24h: number;
+  volume24hUSD: number;
+  // 24h swap volume as a fraction of the position value
+  utilization24h: number;
+  // Percent change of the position value over 24h, in token1 terms
+  valueChange24h: number;
+}
+
+export interface ValuationSummary {
+  totalValueUSD: number;
+  totalHoldValueUSD: number;
+  totalEarned24h: number;
+  totalEarnedAll: number;
+  // Percent changes over 24h: position value (value-weighted) and fee income versus the day before
+  valueChange24h: number;
+  earnedChange24h: number;
+}
+
+function toNumber(amount: bigint, decimals: number): number {
+  return Number(formatUnits(amount, decimals));
+}
+
+function percentChange(now: number, before: number): number {
+  return before === 0 ? 0 : (now / before - 1) * 100;
+}
+
+export function stablecoinPrice(symbol: string): number | undefined {
+  return STABLECOIN_SYMBOLS.includes(symbol) ? 1 : undefined;
+}
+
+// USD per unit of token1: given directly, or implied through the spot price from token0
+function token1PriceUSD(spotPrice: number, prices: ValuationInput['pricesUSD']): number {
+  const [price0, price1] = prices ?? [undefined, undefined];
+  if (price1 !== undefined) return price1;
+  if (price0 !== undefined && spotPrice > 0) return price0 / spotPrice;
+  return 0;
+}
+
+export function valuePosition(input: ValuationInput, now = Math.floor(Date.now() / 1000)): PositionValuation {
+  const [decimals0, decimals1] = input.decimals;
+  const amounts = ([amount0, amount1]: [bigint, bigint]): [number, number] => [toNumber(amount0, decimals0), toNumber(amount1, decimals1)];
+
+  const [reserve0, reserve1] = amounts(input.reserves);
+  const [shipped0, shipped1] = amounts(input.shipped);
+  // A drained or docked position falls back to the price it was shipped at
+  const spotPrice = reserve0 > 0 ? reserve1 / reserve0 : shipped0 > 0 ? shipped1 / shipped0 : 0;
+  const inToken1 = (amount0: number, amount1: number, price = spotPrice) => amount0 * price + amount1;
+  const usd = token1PriceUSD(spotPrice, input.pricesUSD);
+
+  const dayAgo = now - SECONDS_PER_DAY;
+  const twoDaysAgo = now - 2 * SECONDS_PER_DAY;
+  const fees: [number, number] = [0, 0];
+  const fees24h: [number, number] = [0, 0];
+  const feesPrev24h: [number, number] = [0, 0];
+  const volume24h: [number, number] = [0, 0];
+  // Reserves as they were 24h ago, rebuilt by undoing the last day of flows
+  const reservesDayAgo: [bigint, bigint] = [...input.reserves];
+
+  for (const flow of input.flows) {
+    const decimals = input.decimals[flow.tokenIndex];
+    const fee = toNumber(flow.amountIn * input.feeBps / BPS_BASE, decimals);
+    fees[flow.tokenIndex] += fee;
+    if (flow.timestamp > dayAgo) {
+      fees24h[flow.tokenIndex] += fee;
+      volume24h[flow.tokenIndex] += toNumber(flow.amountIn, decimals);
+      reservesDayAgo[flow.tokenIndex] -= flow.delta;
+    } else if (flow.timestamp > twoDaysAgo) {
+      feesPrev24h[flow.tokenIndex] += fee;
+    }
+  }
+
+  const value = inToken1(reserve0, reserve1);
+  const hold = inToken1(shipped0, shipped1);
+  const feesValue = inToken1(...fees);
+
+  const [then0, then1] = amounts(reservesDayAgo);
+  const valueDayAgo = inToken1(then0, then1, then0 > 0 ? then1 / then0 : spotPrice);
+
+  return {
+    spotPrice,
+    valueUSD: value * usd,
+    holdValueUSD: hold * usd,
+    impermanentLoss: hold === 0 ? 0 : percentChange(value - feesValue, hold),
+    earnedFeesTotal: feesValue * usd,
+    earnedFees24h: inToken1(...fees24h) * usd,
+    earnedFeesPrev24h: inToken1(...feesPrev24h) * usd,
+    volume24hUSD: inToken1(...volume24h) * usd,
+    utilization24h: value === 0 ? 0 : inToken1(...volume24h) / value,
+    valueChange24h: percentChange(value, valueDayAgo),
+  };
+}
+
+export function summarizeValuations(valuations: PositionValuation[]): ValuationSummary {
+  const sum = (pick: (valuation: PositionValuation) => number) => valuations.reduce((total, valuation) => total + pick(valuation), 0);
+  const totalValueUSD = sum((valuation) => valuation.valueUSD);
+  return {
+    totalValueUSD,
+    totalHoldValueUSD: sum((valuation) => valuation.holdValueUSD),
+    totalEarned24h: sum((valuation) => valuation.earnedFees24h),
+    totalEarnedAll: sum((valuation) => valuation.earnedFeesTotal),
+    valueChange24h: totalValueUSD === 0 ? 0 : sum((valuation) => valuation.valueChange24h * valuation.valueUSD) / totalValueUSD,
+    earnedChange24h: percentChange(sum((valuation) => valuation.earnedFees24h), sum((valuation) => valuation.earnedFeesPrev24h)),
+  };
+}
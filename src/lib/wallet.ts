@@ -0,0 +1,195 @@
+import { BrowserProvider, Eip1193Provider, getAddress, toQuantity } from 'ethers';
+
+// Wallet connection over EIP-1193, with injected wallets discovered through
+// EIP-6963 (each extension announces itself instead of racing for
+// window.ethereum). A connection owns its provider event subscriptions and
+// drops them on disconnect, so switching wallets never leaves stale listeners.
+
+export interface EIP1193Provider extends Eip1193Provider {
+  on?(event: string, listener: (...args: any[]) => void): void;
+  removeListener?(event: string, listener: (...args: any[]) => void): void;
+}
+
+export interface EIP6963ProviderInfo {
+  uuid: string;
+  name: string;
+  // Data URI
+  icon: string;
+  // Reverse DNS id, stable across sessions unlike uuid
+  rdns: string;
+}
+
+export interface EIP6963ProviderDetail {
+  info: EIP6963ProviderInfo;
+  provider: EIP1193Provider;
+}
+
+export interface AddEthereumChainParameter {
+  chainId: string;
+  chainName: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  rpcUrls: string[];
+  blockExplorerUrls?: string[];
+}
+
+export interface WalletSession {
+  address: string;
+  chainId: number;
+}
+
+export interface WalletEvents {
+  // An empty list means the wallet revoked access
+  onAccountsChanged?: (accounts: string[]) => void;
+  onChainChanged?: (chainId: number) => void;
+  onDisconnect?: (error?: unknown) => void;
+}
+
+// EIP-1193 / EIP-3085 error codes
+export const USER_REJECTED_REQUEST = 4001;
+export const UNRECOGNIZED_CHAIN = 4902;
+
+const ETH = { name: 'Ether', symbol: 'ETH', decimals: 18 };
+
+export const CHAIN_PARAMETERS: Record<number, AddEthereumChainParameter> = {
+  1: {
+    chainId: '0x1',
+    chainName: 'Ethereum',
+    nativeCurrency: ETH,
+    rpcUrls: ['https://cloudflare-eth.com'],
+    blockExplorerUrls: ['https://etherscan.io'],
+  },
+  10: {
+    chainId: '0xa',
+    chainName: 'OP Mainnet',
+    nativeCurrency: ETH,
+    rpcUrls: ['https://mainnet.optimism.io'],
+    blockExplorerUrls: ['https://optimistic.etherscan.io'],
+  },
+  137: {
+    chainId: '0x89',
+    chainName: 'Polygon',
+    nativeCurrency: { name: 'POL', symbol: 'POL', decimals: 18 },
+    rpcUrls: ['https://polygon-rpc.com'],
+    blockExplorerUrls: ['https://polygonscan.com'],
+  },
+  8453: {
+    chainId: '0x2105',
+    chainName: 'Base',
+    nativeCurrency: ETH,
+    rpcUrls: ['https://mainnet.base.org'],
+    blockExplorerUrls: ['https://basescan.org'],
+  },
+  42161: {
+    chainId: '0xa4b1',
+    chainName: 'Arbitrum One',
+    nativeCurrency: ETH,
+    rpcUrls: ['https://arb1.arbitrum.io/rpc'],
+    blockExplorerUrls: ['https://arbiscan.io'],
+  },
+  11155111: {
+    chainId: '0xaa36a7',
+    chainName: 'Sepolia',
+    nativeCurrency: { name: 'Sepolia Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: ['https://rpc.sepolia.org'],
+    blockExplorerUrls: ['https://sepolia.etherscan.io'],
+  },
+  31337: {
+    chainId: '0x7a69',
+    chainName: 'Hardhat',
+    nativeCurrency: ETH,
+    rpcUrls: ['http://127.0.0.1:8545'],
+  },
+};
+
+export function parseChainId(chainId: string | number | bigint): number {
+  return Number(chainId);
+}
+
+function errorCode(error: unknown): number | undefined {
+  const { code, data } = (error ?? {}) as { code?: number; data?: { originalError?: { code?: number } } };
+  // MetaMask mobile wraps the EIP-3085 code in an internal error
+  return data?.originalError?.code ?? code;
+}
+
+export function isUserRejection(error: unknown): boolean {
+  return errorCode(error) === USER_REJECTED_REQUEST;
+}
+
+// Collects EIP-6963 announcements for `timeoutMs` after requesting them
+export function discoverWallets(target: EventTarget, timeoutMs = 200): Promise<EIP6963ProviderDetail[]> {
+  return new Promise((resolve) => {
+    const found = new Map<string, EIP6963ProviderDetail>();
+    const onAnnounce = (event: Event) => {
+      const detail = (event as CustomEvent<EIP6963ProviderDetail>).detail;
+      if (detail?.info?.uuid && detail.provider) found.set(detail.info.uuid, detail);
+    };
+    target.addEventListener('eip6963:announceProvider', onAnnounce);
+    target.dispatchEvent(new Event('eip6963:requestProvider'));
+    setTimeout(() => {
+      target.removeEventListener('eip6963:announceProvider', onAnnounce);
+      resolve([...found.values()]);
+    }, timeoutMs);
+  });
+}
+
+// Wallets that predate EIP-6963 only inject window.ethereum
+export function legacyWallet(provider: EIP1193Provider | undefined): EIP6963ProviderDetail | null {
+  if (!provider) return null;
+  return { info: { uuid: 'injected', name: 'Browser Wallet', icon: '', rdns: 'injected' }, provider };
+}
+
+export class WalletConnection {
+  private readonly subscriptions: [string, (...args: any[]) => void][] = [];
+
+  constructor(readonly wallet: EIP6963ProviderDetail, private readonly events: WalletEvents = {}) {}
+
+  get provider(): EIP1193Provider {
+    return this.wallet.provider;
+  }
+
+  async connect(): Promise<WalletSession> {
+    const accounts = await this.provider.request({ method: 'eth_requestAccounts' }) as string[];
+    if (accounts.length === 0) throw new Error('No accounts authorized');
+    const chainId = parseChainId(await this.provider.request({ method: 'eth_chainId' }));
+    this.subscribe();
+    return { address: getAddress(accounts[0]), chainId };
+  }
+
+  // Switches the wallet network, registering the chain first if the wallet does not know it
+  async switchChain(chainId: number): Promise<void> {
+    const params = [{ chainId: toQuantity(chainId) }];
+    try {
+      await this.provider.request({ method: 'wallet_switchEthereumChain', params });
+    } catch (error) {
+      if (errorCode(error) !== UNRECOGNIZED_CHAIN) throw error;
+      const chain = CHAIN_PARAMETERS[chainId];
+      if (!chain) throw new Error(`Chain ${chainId} is not configured`);
+      await this.provider.request({ method: 'wallet_addEthereumChain', params: [chain] });
+      // Some wallets add the chain without switching to it
+      if (parseChainId(await this.provider.request({ method: 'eth_chainId' })) !== chainId) {
+        await this.provider.request({ method: 'wallet_switchEthereumChain', params });
+      }
+    }
+  }
+
+  browserProvider(): BrowserProvider {
+    return new BrowserProvider(this.provider);
+  }
+
+  disconnect(): void {
+    for (const [event, listener] of this.subscriptions) this.provider.removeListener?.(event, listener);
+    this.subscriptions.length = 0;
+  }
+
+  private subscribe(): void {
+    this.disconnect();
+    this.listen('accountsChanged', (accounts: string[]) => this.events.onAccountsChanged?.(accounts.map((account) => getAddress(account))));
+    this.listen('chainChanged', (chainId: string) => this.events.onChainChanged?.(parseChainId(chainId)));
+    this.listen('disconnect', (error?: unknown) => this.events.onDisconnect?.(error));
+  }
+
+  private listen(event: string, listener: (...args: any[]) => void): void {
+    this.provider.on?.(event, listener);
+    this.subscriptions.push([event, listener]);
+  }
+}
@@ -0,0 +1,81 @@
+import { Contract, EventLog, Provider, getAddress } from 'ethers';
+import { LIQUID_FLOW_CORE_ABI } from './abis';
+
+// Docking a position goes through LiquidFlowCore's withdrawal queue.
+//
+// requestDock records a WithdrawalRequest; executeDock clears the position's
+// virtual balances once MIN_WITHDRAWAL_DELAY has passed, so a batch that is
+// already running can still settle against them. While the core is paused its
+// owner can emergencyDock a position right away.
+//
+// Requests are read back from WithdrawalRequested logs and the core's request
+// storage, never from local state, so they show up after a reload or in
+// another browser.
+
+export interface PendingWithdrawal {
+  requestId: string;
+  lp: string;
+  strategy: string;
+  strategyHash: string;
+  tokens: string[];
+  requestedAt: number;
+  // First block timestamp executeDock accepts
+  readyAt: number;
+}
+
+export interface WithdrawalQueue {
+  // Oldest first
+  pending: PendingWithdrawal[];
+  // Timestamp of the latest block; the delay is measured in chain time
+  chainTime: number;
+  paused: boolean;
+  owner: string;
+}
+
+export async function fetchWithdrawalQueue(
+  provider: Provider,
+  liquidFlowCore: string,
+  account: string,
+  fromBlock = 0,
+): Promise<WithdrawalQueue> {
+  const core = new Contract(liquidFlowCore, LIQUID_FLOW_CORE_ABI, provider);
+  const [requested, delay, paused, owner, latest] = await Promise.all([
+    core.queryFilter(core.filters.WithdrawalRequested(null, getAddress(account)), fromBlock),
+    core.MIN_WITHDRAWAL_DELAY() as Promise<bigint>,
+    core.paused() as Promise<boolean>,
+    core.owner() as Promise<string>,
+    provider.getBlock('latest'),
+  ]);
+
+  const requests = await Promise.all(requested
+    .filter((log): log is EventLog => log instanceof EventLog)
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index)
+    .map(async (log) => {
+      const requestId = log.args.requestId as string;
+      const [request, active] = await Promise.all([
+        core.getWithdrawalRequest(requestId),
+        core.isStrategyActive(log.args.strategyHash) as Promise<boolean>,
+      ]);
+      return { requestId, request, active };
+    }));
+
+  // A request for a position that was docked some other way has nothing left to clear
+  const pending = requests
+    .filter(({ request, active }) => !request.executed && active)
+    .map(({ requestId, request }): PendingWithdrawal => ({
+      requestId,
+      lp: request.lp,
+      strategy: request.strategy,
+      strategyHash: request.strategyHash,
+      tokens: [...request.tokens],
+      requestedAt: Number(request.requestedAt),
+      readyAt: Number(request.requestedAt + delay),
+    }));
+
+  return { pending, chainTime: latest?.timestamp ?? 0, paused, owner: getAddress(owner) };
+}
+
+// Seconds left at chain time `now`, zero once executeDock goes through
+export function secondsUntilReady(withdrawal: PendingWithdrawal, now: number): number {
+  return Math.max(0, withdrawal.readyAt - Math.floor(now));
+}
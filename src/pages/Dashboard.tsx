@@ -1,3 +1,4 @@
+import { useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { 
   Wallet, 
@@ -11,10 +12,25 @@ import {
 import { useStore } from '../store/useStore';
 import StatCard from '../components/StatCard';
 import PositionCard from '../components/PositionCard';
+import WithdrawalQueue from '../components/WithdrawalQueue';
+import IndexerNotice from '../components/IndexerNotice';
 import { Link } from 'react-router-dom';
 
+const WITHDRAWALS_REFRESH_MS = 15000;
+
 export default function Dashboard() {
-  const { wallet, lp, token } = useStore();
+  const { wallet, deployment, lp, token, withdrawals } = useStore();
+
+  const canRead = wallet.isConnected && deployment.status === 'ready';
+
+  // Dock requests are read from the core, so ones made elsewhere show up too
+  useEffect(() => {
+    if (!canRead) return;
+    const refresh = () => withdrawals.refresh().catch(() => undefined);
+    refresh();
+    const timer = setInterval(refresh, WITHDRAWALS_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [canRead, wallet.address, wallet.chainId, withdrawals.refresh]);
 
   if (!wallet.isConnected) {
     return (
@@ -99,12 +115,14 @@ export default function Dashboard() {
         </Link>
       </motion.div>
 
+      {!lp.indexed && <IndexerNotice what="positions, rewards and $LF balances" />}
+
       {/* Stats Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         <StatCard
           title="Total Value"
-          value={`$${lp.totalValueUSD.toLocaleString()}`}
-          change={5.23}
+          value={`$${lp.totalValueUSD.toLocaleString(undefined, { maximumFractionDigits: 0 })}`}
+          change={lp.valueChange24h}
           icon={<Wallet className="w-6 h-6 text-white" />}
           gradient="from-flow-blue to-flow-cyan"
           delay={0}
@@ -112,7 +130,7 @@ export default function Dashboard() {
         <StatCard
           title="24h Earnings"
           value={`$${lp.totalEarned24h.toFixed(2)}`}
-          change={12.5}
+          change={lp.earnedChange24h}
           icon={<TrendingUp className="w-6 h-6 text-white" />}
           gradient="from-flow-emerald to-flow-cyan"
           delay={0.1}
@@ -179,6 +197,8 @@ export default function Dashboard() {
         </Link>
       </motion.div>
 
+      <WithdrawalQueue />
+
       {/* Positions */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -191,11 +211,17 @@ export default function Dashboard() {
             <span className="text-sm text-gray-400">{lp.positions.length} active</span>
           </div>
         </div>
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-          {lp.positions.map((position, index) => (
-            <PositionCard key={position.id} position={position} index={index} />
-          ))}
-        </div>
+        {lp.positions.length === 0 ? (
+          <div className="glass rounded-2xl p-6 text-center text-gray-400">
+            {lp.indexed ? 'No active positions yet' : 'Positions are listed once an indexer is configured'}
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {lp.positions.map((position, index) => (
+              <PositionCard key={position.id} position={position} index={index} />
+            ))}
+          </div>
+        )}
       </motion.div>
     </div>
   );
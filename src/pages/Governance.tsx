@@ -1,66 +1,383 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { 
-  Vote, 
-  Clock, 
-  CheckCircle, 
+import {
+  Vote,
+  Clock,
+  CheckCircle,
   XCircle,
-  Users,
+  MinusCircle,
   FileText,
-  ExternalLink
+  ShieldCheck,
+  AlertCircle,
+  Loader2,
+  FlaskConical
 } from 'lucide-react';
+import { formatUnits, getAddress } from 'ethers';
 import { useStore } from '../store/useStore';
+import { ProposalView, RecomputedTally, VOTE_SUPPORT, VoteSupport, proposalStatus, sameTally } from '../lib/governance';
+import { ActionDiff, ForkPreview, GovernanceCall } from '../lib/governanceActions';
+import { describeError } from '../lib/errors';
+import { ActionBuilder, ActionDiffList, CallList, ForkPreviewResult } from '../components/ProposalActions';
 
-const proposals = [
-  {
-    id: 1,
-    title: 'LFP-1: Increase Protocol Fee to 12%',
-    description: 'Proposal to increase the protocol fee from 10% to 12% of LP fees to fund development and security audits.',
-    status: 'active',
-    votesFor: 1250000,
-    votesAgainst: 450000,
-    endTime: Date.now() + 3 * 24 * 60 * 60 * 1000,
-    quorum: 2000000,
-  },
-  {
-    id: 2,
-    title: 'LFP-2: Add Polygon zkEVM Support',
-    description: 'Deploy Liquid Flow contracts to Polygon zkEVM to expand cross-chain liquidity.',
-    status: 'active',
-    votesFor: 890000,
-    votesAgainst: 120000,
-    endTime: Date.now() + 5 * 24 * 60 * 60 * 1000,
-    quorum: 2000000,
-  },
-  {
-    id: 3,
-    title: 'LFP-0: Genesis Parameters',
-    description: 'Initial protocol parameters including fee structure, emission schedule, and governance thresholds.',
-    status: 'passed',
-    votesFor: 3500000,
-    votesAgainst: 200000,
-    endTime: Date.now() - 7 * 24 * 60 * 60 * 1000,
-    quorum: 2000000,
-  },
-];
+const GOVERNANCE_REFRESH_MS = 30000;
 
-export default function Governance() {
-  const { wallet, token } = useStore();
-  const [selectedProposal, setSelectedProposal] = useState<number | null>(null);
+const VOTING_PERIODS = [1, 3, 7, 14];
 
-  const formatNumber = (num: number) => {
-    if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
-    if (num >= 1000) return `${(num / 1000).toFixed(1)}K`;
-    return num.toString();
-  };
+const formatNumber = (num: number) => {
+  if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
+  if (num >= 1000) return `${(num / 1000).toFixed(1)}K`;
+  return num.toFixed(num > 0 && num < 10 ? 2 : 0);
+};
+
+const formatVotes = (amount: bigint) => formatNumber(Number(formatUnits(amount, 18)));
 
-  const formatTimeRemaining = (endTime: number) => {
-    const diff = endTime - Date.now();
-    if (diff <= 0) return 'Ended';
-    const days = Math.floor(diff / (24 * 60 * 60 * 1000));
-    const hours = Math.floor((diff % (24 * 60 * 60 * 1000)) / (60 * 60 * 1000));
-    return `${days}d ${hours}h remaining`;
+const formatTimeRemaining = (end: number, now: number) => {
+  const diff = end - now;
+  if (diff <= 0) return 'Ended';
+  const days = Math.floor(diff / (24 * 60 * 60));
+  const hours = Math.floor((diff % (24 * 60 * 60)) / (60 * 60));
+  const minutes = Math.floor((diff % (60 * 60)) / 60);
+  return days > 0 ? `${days}d ${hours}h remaining` : `${hours}h ${minutes}m remaining`;
+};
+
+// Runs a signing action, keeping its error next to the form
+function useGovernanceAction() {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (reason) {
+      setError(describeError(reason));
+    } finally {
+      setBusy(false);
+    }
   };
+  return { busy, error, run };
+}
+
+function ErrorBox({ message }: { message: string }) {
+  return (
+    <div className="flex items-center gap-2 bg-red-500/10 border border-red-500/20 rounded-xl p-3 text-sm text-red-400">
+      <AlertCircle className="w-4 h-4 flex-shrink-0" />
+      <span>{message}</span>
+    </div>
+  );
+}
+
+function CreateProposal({ onCreated }: { onCreated: () => void }) {
+  const { governance } = useStore();
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [votingDays, setVotingDays] = useState(3);
+  const [calls, setCalls] = useState<GovernanceCall[]>([]);
+  const { busy, error, run } = useGovernanceAction();
+
+  const submit = () => run(async () => {
+    await governance.propose(title, description, votingDays, calls);
+    onCreated();
+  });
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: 'auto' }}
+      className="glass rounded-2xl p-6 mb-8 space-y-4"
+    >
+      <input
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        placeholder="LFP-3: Title"
+        className="w-full bg-dark-700/50 rounded-xl px-4 py-3 text-white placeholder-gray-500 outline-none"
+      />
+      <textarea
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder="What should change, and why"
+        rows={4}
+        className="w-full bg-dark-700/50 rounded-xl px-4 py-3 text-white placeholder-gray-500 outline-none resize-none"
+      />
+      <div className="space-y-2">
+        <p className="text-sm text-gray-400">Actions to execute if it passes (optional)</p>
+        <CallList calls={calls} onRemove={(index) => setCalls(calls.filter((_, i) => i !== index))} />
+        <ActionBuilder onAdd={(call) => setCalls([...calls, call])} />
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-gray-400">Voting period</span>
+          {VOTING_PERIODS.map(days => (
+            <button
+              key={days}
+              onClick={() => setVotingDays(days)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                votingDays === days ? 'bg-flow-purple/20 text-flow-purple' : 'bg-dark-700/50 text-gray-400 hover:text-white'
+              }`}
+            >
+              {days}d
+            </button>
+          ))}
+        </div>
+        <motion.button
+          onClick={submit}
+          disabled={busy || !title.trim()}
+          className="flex items-center gap-2 px-4 py-2 rounded-xl bg-flow-gradient text-white font-medium btn-glow disabled:opacity-60"
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+        >
+          {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+          <span>Sign & Submit</span>
+        </motion.button>
+      </div>
+      <p className="text-xs text-gray-500">
+        Voting power is vebLF at the block the proposal is signed at; locks made or grown afterwards do not count.
+      </p>
+      {error && <ErrorBox message={error} />}
+    </motion.div>
+  );
+}
+
+function VerifyResult({ view, result }: { view: ProposalView; result: RecomputedTally }) {
+  const matches = sameTally(view.tally, result.tally)
+    && view.votes.every(({ vote, weight }) => result.weights[getAddress(vote.voter)] === weight);
+
+  return (
+    <div className={`rounded-xl p-3 text-sm space-y-1 ${
+      matches && result.rejected.length === 0 ? 'bg-flow-emerald/10 text-flow-emerald' : 'bg-amber-500/10 border border-amber-500/20 text-amber-500'
+    }`}>
+      <p className="flex items-center gap-2">
+        {matches ? <ShieldCheck className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+        <span>
+          {matches ? 'The tally matches the signatures and the chain' : 'The recomputed tally differs from the one shown'}
+          {' '}({formatVotes(result.tally.for)} for, {formatVotes(result.tally.against)} against, {formatVotes(result.tally.abstain)} abstain)
+        </span>
+      </p>
+      {result.rejected.map(({ voter, reason }, index) => (
+        <p key={`${voter}-${index}`} className="text-xs">
+          {voter.slice(0, 6)}...{voter.slice(-4)}: {reason}
+        </p>
+      ))}
+      <p className="text-xs opacity-80">
+        Late votes are flagged from the voters' signed dates and the backend's receipt times, neither proven on chain, so that check is only advisory.
+      </p>
+    </div>
+  );
+}
+
+function ProposalCard({ view, now, index }: { view: ProposalView; now: number; index: number }) {
+  const { wallet, governance } = useStore();
+  const [expanded, setExpanded] = useState(false);
+  const [reason, setReason] = useState('');
+  const [verified, setVerified] = useState<RecomputedTally | null>(null);
+  const [diffs, setDiffs] = useState<ActionDiff[] | null>(null);
+  const [diffError, setDiffError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ForkPreview | null>(null);
+  const { busy, error, run } = useGovernanceAction();
+
+  const { record, votes, tally } = view;
+  const { proposal } = record;
+  const status = proposalStatus(view, now);
+  const power = governance.votingPower[record.id] ?? 0n;
+  const ownVote = wallet.address
+    ? votes.find(({ vote }) => getAddress(vote.voter) === getAddress(wallet.address!))
+    : undefined;
+  const cast = tally.for + tally.against + tally.abstain;
+  const share = (amount: bigint) => cast === 0n ? 0 : Number(amount * 10000n / cast) / 100;
+  const quorumShare = tally.quorum === 0n ? 100 : Number(cast * 10000n / tally.quorum) / 100;
+
+  const castVote = (support: VoteSupport) => run(async () => {
+    await governance.vote(record.id, support, reason);
+    setReason('');
+  });
+  const verify = () => run(async () => {
+    setVerified(await governance.verify(record.id));
+  });
+  const runPreview = () => run(async () => {
+    setPreview(await governance.preview(record.id));
+  });
+
+  // Current values are read when the proposal is opened
+  const hasActions = proposal.actions.length > 0;
+  useEffect(() => {
+    if (!expanded || !hasActions) return;
+    let cancelled = false;
+    governance.diff(record.id)
+      .then(result => !cancelled && setDiffs(result))
+      .catch(reason => !cancelled && setDiffError(describeError(reason)));
+    return () => {
+      cancelled = true;
+    };
+  }, [expanded, hasActions, record.id, governance.diff]);
+
+  const voteButtons: { support: VoteSupport; label: string; icon: typeof CheckCircle; className: string }[] = [
+    { support: 'for', label: 'Vote For', icon: CheckCircle, className: 'bg-flow-emerald/20 text-flow-emerald hover:bg-flow-emerald/30' },
+    { support: 'against', label: 'Vote Against', icon: XCircle, className: 'bg-red-500/20 text-red-400 hover:bg-red-500/30' },
+    { support: 'abstain', label: 'Abstain', icon: MinusCircle, className: 'bg-dark-600 text-gray-300 hover:bg-dark-500' },
+  ];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.2 + index * 0.1 }}
+      className="glass rounded-2xl p-6 card-hover"
+    >
+      <div className="flex items-start justify-between mb-4 cursor-pointer" onClick={() => setExpanded(!expanded)}>
+        <div className="flex-1">
+          <div className="flex items-center gap-2 mb-2">
+            <span className={`px-2 py-1 rounded-lg text-xs font-medium ${
+              status === 'active'
+                ? 'bg-flow-blue/20 text-flow-blue'
+                : status === 'passed'
+                ? 'bg-flow-emerald/20 text-flow-emerald'
+                : 'bg-red-500/20 text-red-400'
+            }`}>
+              {status.charAt(0).toUpperCase() + status.slice(1)}
+            </span>
+            {status === 'active' && (
+              <span className="flex items-center gap-1 text-xs text-gray-500">
+                <Clock className="w-3 h-3" />
+                {formatTimeRemaining(proposal.end, now)}
+              </span>
+            )}
+          </div>
+          <h3 className="text-lg font-semibold text-white mb-2">{proposal.title}</h3>
+          <p className="text-sm text-gray-400 whitespace-pre-line">{proposal.description}</p>
+          <p className="text-xs text-gray-500 mt-2">
+            By {proposal.proposer.slice(0, 6)}...{proposal.proposer.slice(-4)} · snapshot at block {proposal.snapshotBlock}
+          </p>
+        </div>
+      </div>
+
+      {/* Vote Progress */}
+      <div className="mb-4">
+        <div className="flex items-center justify-between text-sm mb-2">
+          <span className="text-flow-emerald flex items-center gap-1">
+            <CheckCircle className="w-4 h-4" />
+            For: {formatVotes(tally.for)}
+          </span>
+          <span className="text-gray-400">Abstain: {formatVotes(tally.abstain)}</span>
+          <span className="text-red-400 flex items-center gap-1">
+            Against: {formatVotes(tally.against)}
+            <XCircle className="w-4 h-4" />
+          </span>
+        </div>
+        <div className="h-3 bg-dark-600 rounded-full overflow-hidden flex">
+          <div className="h-full bg-gradient-to-r from-flow-emerald to-flow-blue" style={{ width: `${share(tally.for)}%` }} />
+          <div className="h-full bg-gray-500" style={{ width: `${share(tally.abstain)}%` }} />
+          <div className="h-full bg-red-500/70" style={{ width: `${share(tally.against)}%` }} />
+        </div>
+        <div className="flex items-center justify-between text-xs text-gray-500 mt-1">
+          <span>Quorum: {formatVotes(tally.quorum)} · {votes.length} vote{votes.length === 1 ? '' : 's'}</span>
+          <span>{tally.quorumReached ? 'Quorum reached' : `${quorumShare.toFixed(1)}% reached`}</span>
+        </div>
+      </div>
+
+      {expanded && (
+        <motion.div
+          initial={{ opacity: 0, height: 0 }}
+          animate={{ opacity: 1, height: 'auto' }}
+          className="space-y-3 pt-4 border-t border-white/5"
+        >
+          {hasActions && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-gray-400">Executes {proposal.actions.length} action{proposal.actions.length === 1 ? '' : 's'}</p>
+                {status === 'passed' && (
+                  <button
+                    onClick={runPreview}
+                    disabled={busy}
+                    className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-flow-purple/20 text-flow-purple text-sm font-medium hover:bg-flow-purple/30 transition-colors disabled:opacity-60"
+                  >
+                    <FlaskConical className="w-4 h-4" />
+                    <span>Preview on Fork</span>
+                  </button>
+                )}
+              </div>
+              {preview ? <ForkPreviewResult preview={preview} /> : diffs && <ActionDiffList diffs={diffs} />}
+              {diffError && <ErrorBox message={diffError} />}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-400">
+              Your voting power at the snapshot: <span className="text-white font-medium">{formatVotes(power)} vebLF</span>
+            </span>
+            <button
+              onClick={verify}
+              disabled={busy}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-dark-700/50 text-gray-300 text-sm font-medium hover:text-white transition-colors disabled:opacity-60"
+            >
+              <ShieldCheck className="w-4 h-4" />
+              <span>Verify Tally</span>
+            </button>
+          </div>
+
+          {ownVote ? (
+            <p className="text-sm text-gray-400">
+              You voted <span className="text-white font-medium">{VOTE_SUPPORT[ownVote.vote.support]}</span> with {formatVotes(ownVote.weight)} vebLF
+              {ownVote.vote.reason && <>: “{ownVote.vote.reason}”</>}
+            </p>
+          ) : status === 'active' && power > 0n ? (
+            <>
+              <input
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Reason (optional, signed with your vote)"
+                className="w-full bg-dark-700/50 rounded-xl px-4 py-2 text-sm text-white placeholder-gray-500 outline-none"
+              />
+              <div className="flex gap-3">
+                {voteButtons.map(({ support, label, icon: Icon, className }) => (
+                  <motion.button
+                    key={support}
+                    onClick={() => castVote(support)}
+                    disabled={busy}
+                    className={`flex-1 py-3 rounded-xl font-medium transition-colors disabled:opacity-60 ${className}`}
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                  >
+                    <Icon className="w-4 h-4 inline mr-2" />
+                    {label}
+                  </motion.button>
+                ))}
+              </div>
+            </>
+          ) : status === 'active' && (
+            <div className="flex items-center gap-2 bg-amber-500/10 border border-amber-500/20 rounded-xl p-3 text-sm text-amber-500">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>You had no vebLF when this proposal was snapshotted, so you cannot vote on it.</span>
+            </div>
+          )}
+
+          {verified && <VerifyResult view={view} result={verified} />}
+          {error && <ErrorBox message={error} />}
+        </motion.div>
+      )}
+    </motion.div>
+  );
+}
+
+export default function Governance() {
+  const { wallet, token, deployment, governance } = useStore();
+  const [creating, setCreating] = useState(false);
+  const [localNow, setLocalNow] = useState(() => Date.now() / 1000);
+  const canRead = wallet.isConnected && deployment.status === 'ready';
+  const now = Math.floor(localNow) + governance.clockOffset;
+
+  // Proposals and votes may come from other accounts at any time
+  useEffect(() => {
+    if (!canRead) return;
+    const refresh = () => governance.refresh().catch(() => undefined);
+    refresh();
+    const timer = setInterval(refresh, GOVERNANCE_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [canRead, wallet.address, wallet.chainId, governance.refresh]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setLocalNow(Date.now() / 1000), 30000);
+    return () => clearInterval(timer);
+  }, []);
 
   if (!wallet.isConnected) {
     return (
@@ -99,7 +416,9 @@ export default function Governance() {
             <p className="text-gray-400">Vote on proposals with your vebLF</p>
           </div>
           <motion.button
-            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-flow-gradient text-white font-medium btn-glow"
+            onClick={() => setCreating(!creating)}
+            disabled={!canRead}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-flow-gradient text-white font-medium btn-glow disabled:opacity-60"
             whileHover={{ scale: 1.02 }}
             whileTap={{ scale: 0.98 }}
           >
@@ -108,6 +427,8 @@ export default function Governance() {
           </motion.button>
         </div>
 
+        {creating && <CreateProposal onCreated={() => setCreating(false)} />}
+
         {/* Voting Power */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
@@ -115,19 +436,14 @@ export default function Governance() {
           transition={{ delay: 0.1 }}
           className="glass rounded-2xl p-6 mb-8"
         >
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-4">
-              <div className="w-14 h-14 rounded-2xl bg-flow-purple/20 flex items-center justify-center">
-                <Vote className="w-7 h-7 text-flow-purple" />
-              </div>
-              <div>
-                <p className="text-sm text-gray-400">Your Voting Power</p>
-                <p className="text-3xl font-bold text-white">{formatNumber(token.votingPower)} vebLF</p>
-              </div>
+          <div className="flex items-center gap-4">
+            <div className="w-14 h-14 rounded-2xl bg-flow-purple/20 flex items-center justify-center">
+              <Vote className="w-7 h-7 text-flow-purple" />
             </div>
-            <div className="text-right">
-              <p className="text-sm text-gray-400">% of Total</p>
-              <p className="text-xl font-bold text-flow-purple">0.15%</p>
+            <div>
+              <p className="text-sm text-gray-400">Your Voting Power</p>
+              <p className="text-3xl font-bold text-white">{formatNumber(token.votingPower)} vebLF</p>
+              <p className="text-xs text-gray-500">Each proposal counts your vebLF at its snapshot</p>
             </div>
           </div>
         </motion.div>
@@ -135,91 +451,12 @@ export default function Governance() {
         {/* Proposals */}
         <div className="space-y-4">
           <h2 className="text-xl font-semibold text-white">Proposals</h2>
-          {proposals.map((proposal, index) => (
-            <motion.div
-              key={proposal.id}
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: 0.2 + index * 0.1 }}
-              className="glass rounded-2xl p-6 card-hover cursor-pointer"
-              onClick={() => setSelectedProposal(selectedProposal === proposal.id ? null : proposal.id)}
-            >
-              <div className="flex items-start justify-between mb-4">
-                <div className="flex-1">
-                  <div className="flex items-center gap-2 mb-2">
-                    <span className={`px-2 py-1 rounded-lg text-xs font-medium ${
-                      proposal.status === 'active' 
-                        ? 'bg-flow-blue/20 text-flow-blue' 
-                        : proposal.status === 'passed'
-                        ? 'bg-flow-emerald/20 text-flow-emerald'
-                        : 'bg-red-500/20 text-red-400'
-                    }`}>
-                      {proposal.status.charAt(0).toUpperCase() + proposal.status.slice(1)}
-                    </span>
-                    {proposal.status === 'active' && (
-                      <span className="flex items-center gap-1 text-xs text-gray-500">
-                        <Clock className="w-3 h-3" />
-                        {formatTimeRemaining(proposal.endTime)}
-                      </span>
-                    )}
-                  </div>
-                  <h3 className="text-lg font-semibold text-white mb-2">{proposal.title}</h3>
-                  <p className="text-sm text-gray-400">{proposal.description}</p>
-                </div>
-              </div>
-
-              {/* Vote Progress */}
-              <div className="mb-4">
-                <div className="flex items-center justify-between text-sm mb-2">
-                  <span className="text-flow-emerald flex items-center gap-1">
-                    <CheckCircle className="w-4 h-4" />
-                    For: {formatNumber(proposal.votesFor)}
-                  </span>
-                  <span className="text-red-400 flex items-center gap-1">
-                    Against: {formatNumber(proposal.votesAgainst)}
-                    <XCircle className="w-4 h-4" />
-                  </span>
-                </div>
-                <div className="h-3 bg-dark-600 rounded-full overflow-hidden">
-                  <div 
-                    className="h-full bg-gradient-to-r from-flow-emerald to-flow-blue rounded-full"
-                    style={{ 
-                      width: `${(proposal.votesFor / (proposal.votesFor + proposal.votesAgainst)) * 100}%` 
-                    }}
-                  />
-                </div>
-                <div className="flex items-center justify-between text-xs text-gray-500 mt-1">
-                  <span>Quorum: {formatNumber(proposal.quorum)}</span>
-                  <span>{((proposal.votesFor + proposal.votesAgainst) / proposal.quorum * 100).toFixed(1)}% reached</span>
-                </div>
-              </div>
-
-              {/* Vote Buttons */}
-              {proposal.status === 'active' && selectedProposal === proposal.id && (
-                <motion.div
-                  initial={{ opacity: 0, height: 0 }}
-                  animate={{ opacity: 1, height: 'auto' }}
-                  className="flex gap-3 pt-4 border-t border-white/5"
-                >
-                  <motion.button
-                    className="flex-1 py-3 rounded-xl bg-flow-emerald/20 text-flow-emerald font-medium hover:bg-flow-emerald/30 transition-colors"
-                    whileHover={{ scale: 1.02 }}
-                    whileTap={{ scale: 0.98 }}
-                  >
-                    <CheckCircle className="w-4 h-4 inline mr-2" />
-                    Vote For
-                  </motion.button>
-                  <motion.button
-                    className="flex-1 py-3 rounded-xl bg-red-500/20 text-red-400 font-medium hover:bg-red-500/30 transition-colors"
-                    whileHover={{ scale: 1.02 }}
-                    whileTap={{ scale: 0.98 }}
-                  >
-                    <XCircle className="w-4 h-4 inline mr-2" />
-                    Vote Against
-                  </motion.button>
-                </motion.div>
-              )}
-            </motion.div>
+          {governance.error && <ErrorBox message={governance.error} />}
+          {governance.proposals.length === 0 && !governance.error && (
+            <p className="text-gray-500">No proposals yet.</p>
+          )}
+          {governance.proposals.map((view, index) => (
+            <ProposalCard key={view.record.id} view={view} now={now} index={index} />
           ))}
         </div>
       </motion.div>
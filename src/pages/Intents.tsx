@@ -0,0 +1,227 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertCircle, ArrowRight, Check, Circle, Loader2, XCircle } from 'lucide-react';
+import { useStore } from '../store/useStore';
+import { TokenIcon, formatBalance } from '../components/TokenSelect';
+import { IntentStage, TrackedIntent } from '../lib/intents';
+import { describeError } from '../lib/errors';
+
+const STAGE_LABELS: Record<IntentStage, string> = {
+  committed: 'Committed',
+  open: 'Waiting for batch close',
+  solving: 'Solvers competing',
+  executing: 'Settling',
+  settled: 'Filled',
+  unfilled: 'Not filled',
+  cancelled: 'Cancelled',
+  'batch-cancelled': 'Batch cancelled',
+};
+
+const STAGE_COLORS: Record<IntentStage, string> = {
+  committed: 'bg-flow-blue/20 text-flow-blue',
+  open: 'bg-flow-blue/20 text-flow-blue',
+  solving: 'bg-flow-purple/20 text-flow-purple',
+  executing: 'bg-flow-purple/20 text-flow-purple',
+  settled: 'bg-flow-emerald/20 text-flow-emerald',
+  unfilled: 'bg-amber-500/20 text-amber-500',
+  cancelled: 'bg-dark-500 text-gray-400',
+  'batch-cancelled': 'bg-red-500/20 text-red-400',
+};
+
+// The path every intent takes; ending stages replace the last step
+const STEPS = ['IntentSubmitted', 'BatchClosed', 'SolverSelected', 'BatchSettled'];
+
+const STEP_LABELS: Record<string, string> = {
+  IntentSubmitted: 'Submitted',
+  IntentRevealed: 'Revealed',
+  BatchClosed: 'Batch closed',
+  SolverSelected: 'Solver selected',
+  BatchSettled: 'Settled',
+  BatchCancelled: 'Batch cancelled',
+  IntentCancelled: 'Cancelled',
+};
+
+const REFRESH_MS = 5000;
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+function IntentCard({ intent }: { intent: TrackedIntent }) {
+  const { intents, tokenList } = useStore();
+  const [cancelling, setCancelling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const token = (address: string) => tokenList.tokens.find(candidate => candidate.address.toLowerCase() === address.toLowerCase())
+    ?? { symbol: formatAddress(address), decimals: 18, logoURI: undefined };
+  const tokenIn = token(intent.tokenIn);
+  const tokenOut = token(intent.tokenOut);
+
+  const seen = new Map(intent.events.map(event => [event.name, event]));
+  const ending = seen.get('IntentCancelled') ?? seen.get('BatchCancelled');
+  const steps = ending
+    ? [...STEPS.filter(step => seen.has(step)), ending.name]
+    : STEPS;
+
+  const handleCancel = async () => {
+    setCancelling(true);
+    setError(null);
+    try {
+      await intents.cancel(intent.intentId);
+    } catch (reason) {
+      setError(describeError(reason));
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="glass rounded-2xl p-6"
+    >
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div className="flex items-center gap-3">
+          <TokenIcon token={tokenIn} />
+          <span className="font-medium text-white">
+            {intent.stage === 'committed' ? 'Hidden until revealed' : `${formatBalance(intent.amountIn, tokenIn.decimals)} ${tokenIn.symbol}`}
+          </span>
+          <ArrowRight className="w-4 h-4 text-gray-500" />
+          <TokenIcon token={tokenOut} />
+          <span className="font-medium text-white">{intent.stage === 'committed' ? '' : tokenOut.symbol}</span>
+        </div>
+        <span className={`px-3 py-1 rounded-full text-xs font-medium ${STAGE_COLORS[intent.stage]}`}>
+          {STAGE_LABELS[intent.stage]}
+        </span>
+      </div>
+
+      {/* Lifecycle */}
+      <div className="flex items-center gap-2 mb-4">
+        {steps.map((step, index) => {
+          const event = seen.get(step);
+          const failed = step === 'IntentCancelled' || step === 'BatchCancelled';
+          return (
+            <div key={step} className="flex items-center gap-2 flex-1 min-w-0">
+              {event
+                ? failed ? <XCircle className="w-4 h-4 flex-shrink-0 text-red-400" /> : <Check className="w-4 h-4 flex-shrink-0 text-flow-emerald" />
+                : <Circle className="w-4 h-4 flex-shrink-0 text-gray-600" />}
+              <div className="min-w-0">
+                <p className={`text-xs truncate ${event ? 'text-gray-300' : 'text-gray-600'}`}>{STEP_LABELS[step]}</p>
+                {event && (
+                  <p className="text-xs text-gray-500 truncate">{new Date(event.timestamp * 1000).toLocaleTimeString()}</p>
+                )}
+              </div>
+              {index < steps.length - 1 && <div className="h-px flex-1 bg-white/10" />}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div>
+          <p className="text-gray-500">Batch</p>
+          <p className="text-white">#{intent.batchId.toString()}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Minimum received</p>
+          <p className="text-white">{intent.minAmountOut > 0n ? `${formatBalance(intent.minAmountOut, tokenOut.decimals)} ${tokenOut.symbol}` : '-'}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Filled</p>
+          <p className="text-white">
+            {intent.fill ? `${formatBalance(intent.fill.amountOut, tokenOut.decimals)} ${tokenOut.symbol}` : '-'}
+            {intent.fill?.partial && (
+              <span className="block text-xs text-amber-500">
+                Partial: {formatBalance(intent.fill.amountIn, tokenIn.decimals)} of {formatBalance(intent.amountIn, tokenIn.decimals)} {tokenIn.symbol}
+              </span>
+            )}
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-500">Surplus</p>
+          <p className={intent.fill && intent.fill.surplus > 0n ? 'text-flow-emerald' : 'text-white'}>
+            {intent.fill ? `+${formatBalance(intent.fill.surplus, tokenOut.decimals)} ${tokenOut.symbol}` : '-'}
+          </p>
+        </div>
+      </div>
+
+      {intent.solver && (
+        <p className="mt-4 text-sm text-gray-400">
+          Winning solver <span className="font-mono text-gray-300">{formatAddress(intent.solver)}</span>
+        </p>
+      )}
+      {intent.via === 'router' && intent.fill && (
+        <p className="mt-2 text-xs text-gray-500">Submitted through the router, which receives the fill on your behalf</p>
+      )}
+
+      {intent.cancellable && (
+        <button
+          onClick={handleCancel}
+          disabled={cancelling}
+          className="mt-4 flex items-center gap-2 px-4 py-2 rounded-xl bg-red-500/10 text-red-400 text-sm font-medium hover:bg-red-500/20 transition-colors disabled:opacity-60"
+        >
+          {cancelling && <Loader2 className="w-4 h-4 animate-spin" />}
+          {intent.stage === 'open' ? 'Cancel intent' : 'Refund input'}
+        </button>
+      )}
+      {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+    </motion.div>
+  );
+}
+
+export default function Intents() {
+  const { wallet, deployment, intents } = useStore();
+  const [loading, setLoading] = useState(true);
+
+  const canRead = wallet.isConnected && deployment.status === 'ready';
+
+  useEffect(() => {
+    if (!canRead) return;
+    let active = true;
+    const refresh = () => intents.refreshTracked().catch(() => undefined).finally(() => active && setLoading(false));
+    setLoading(true);
+    refresh();
+    const timer = setInterval(refresh, REFRESH_MS);
+    return () => {
+      active = false;
+      clearInterval(timer);
+    };
+  }, [canRead, wallet.address, wallet.chainId, intents.refreshTracked]);
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <h1 className="text-3xl font-bold text-white mb-2">Intents</h1>
+        <p className="text-gray-400">Your batch-auction swaps, from submission to settlement</p>
+      </motion.div>
+
+      {!wallet.isConnected && (
+        <div className="glass rounded-2xl p-6 text-gray-400">Connect a wallet to see your intents.</div>
+      )}
+
+      {intents.trackedError && (
+        <div className="flex items-center gap-2 bg-red-500/10 border border-red-500/20 rounded-xl p-3 text-sm text-red-400">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{intents.trackedError}</span>
+        </div>
+      )}
+
+      {canRead && loading && intents.tracked.length === 0 && (
+        <div className="flex items-center justify-center gap-2 py-12 text-gray-400">
+          <Loader2 className="w-5 h-5 animate-spin" />
+          <span>Loading intents</span>
+        </div>
+      )}
+
+      {canRead && !loading && intents.tracked.length === 0 && !intents.trackedError && (
+        <div className="glass rounded-2xl p-6 text-gray-400">No intents submitted from this account yet.</div>
+      )}
+
+      {intents.tracked.map(intent => (
+        <IntentCard key={intent.intentId} intent={intent} />
+      ))}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { formatUnits } from 'ethers';
 import { motion } from 'framer-motion';
 import { 
   Plus, 
@@ -7,16 +8,19 @@ import {
   Info, 
   Zap,
   Shield,
-  TrendingUp
+  TrendingUp,
+  AlertCircle,
+  CheckCircle,
+  RotateCcw
 } from 'lucide-react';
 import { useStore } from '../store/useStore';
-
-const tokens = [
-  { symbol: 'ETH', name: 'Ethereum', icon: '⟠', balance: '2.5' },
-  { symbol: 'USDC', name: 'USD Coin', icon: '💵', balance: '5000' },
-  { symbol: 'ARB', name: 'Arbitrum', icon: '🔵', balance: '1500' },
-  { symbol: 'WBTC', name: 'Wrapped Bitcoin', icon: '₿', balance: '0.15' },
-];
+import TokenSelect, { TokenIcon, formatBalance } from '../components/TokenSelect';
+import ApprovalStep from '../components/ApprovalStep';
+import AllocationProgress from '../components/AllocationProgress';
+import { RegistryToken, parseTokenAmount } from '../lib/tokenList';
+import { ShippedStrategy, pairedAmount, priceAsReserves } from '../lib/provide';
+import { AllocationPlan, activeSteps, allocationStatus, validateShares } from '../lib/allocation';
+import { describeError } from '../lib/errors';
 
 const feeTiers = [
   { value: 5, label: '0.05%', desc: 'Best for stable pairs' },
@@ -32,20 +36,148 @@ const chains = [
 ];
 
 export default function Provide() {
-  const { wallet } = useStore();
-  const [token0, setToken0] = useState(tokens[0]);
-  const [token1, setToken1] = useState(tokens[1]);
-  const [amount0, setAmount0] = useState('');
-  const [amount1, setAmount1] = useState('');
+  const { wallet, deployment, tokenList, lp, allocation } = useStore();
+  const [token0Selected, setToken0] = useState<RegistryToken | null>(null);
+  const [token1Selected, setToken1] = useState<RegistryToken | null>(null);
+  const [showTokenSelect, setShowTokenSelect] = useState<0 | 1 | null>(null);
+  // The side the user typed; the other is paired to it
+  const [input, setInput] = useState<{ side: 0 | 1; value: string }>({ side: 0, value: '' });
+  // "1 token0 = price token1" for a position that holds nothing yet
+  const [price, setPrice] = useState('');
+  const [label, setLabel] = useState('');
   const [feeTier, setFeeTier] = useState(30);
   const [mode, setMode] = useState<'simple' | 'advanced'>('simple');
   const [chainAllocations, setChainAllocations] = useState(chains);
+  const [approved0, setApproved0] = useState(false);
+  const [approved1, setApproved1] = useState(false);
+  const [reserves, setReserves] = useState<[bigint, bigint] | null>(null);
+  const [reservesError, setReservesError] = useState<string | null>(null);
+  const [wrappedNative, setWrappedNative] = useState<string | null>(null);
+  const [payWithEth, setPayWithEth] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [shipped, setShipped] = useState<ShippedStrategy | null>(null);
+  // Bumped to read the position again after shipping
+  const [version, setVersion] = useState(0);
+  // Reviewed before it starts; the run itself lives in the store
+  const [plan, setPlan] = useState<AllocationPlan | null>(null);
+  const [allocating, setAllocating] = useState(false);
+  const [allocationError, setAllocationError] = useState<string | null>(null);
+
+  const onChain = (token: RegistryToken | null) => token?.chainId === tokenList.chainId ? token : null;
+  const token0 = onChain(token0Selected) ?? tokenList.tokens[0] ?? null;
+  const token1 = onChain(token1Selected) ?? tokenList.tokens.find(token => token.address !== token0?.address) ?? null;
+  const balanceOf = (token: RegistryToken | null) => token ? formatBalance(tokenList.balances[token.address], token.decimals) : '-';
+
+  const canRead = wallet.isConnected && deployment.status === 'ready';
+  const position = token0 && token1 ? { tokenA: token0.address, tokenB: token1.address, feeBps: BigInt(feeTier), label: label.trim() } : null;
+
+  useEffect(() => {
+    setReserves(null);
+    setReservesError(null);
+    if (!canRead || !position) return;
+    let cancelled = false;
+    lp.fetchReserves(position)
+      .then(result => !cancelled && setReserves(result))
+      .catch(error => !cancelled && setReservesError(describeError(error)));
+    return () => {
+      cancelled = true;
+    };
+  }, [canRead, position?.tokenA, position?.tokenB, position?.feeBps, position?.label, wallet.address, version, lp.fetchReserves]);
+
+  useEffect(() => {
+    setWrappedNative(null);
+    if (!canRead) return;
+    let cancelled = false;
+    lp.wrappedNative().then(address => !cancelled && setWrappedNative(address)).catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [canRead, wallet.chainId, lp.wrappedNative]);
+
+  // An existing position is added to at its own ratio, a new one at the price set here
+  const existing = !!reserves && reserves[0] > 0n && reserves[1] > 0n;
+  const ratio = existing ? reserves : token0 && token1 ? priceAsReserves(price, token0.decimals, token1.decimals) : null;
+  const tokens = [token0, token1];
+  const typedToken = tokens[input.side];
+  const typed = typedToken ? parseTokenAmount(input.value, typedToken.decimals) : null;
+  const paired = typed !== null && ratio ? pairedAmount(typed, ratio[input.side], ratio[1 - input.side]) : null;
+  const raw0 = input.side === 0 ? typed : paired;
+  const raw1 = input.side === 1 ? typed : paired;
+  const display = (side: 0 | 1, raw: bigint | null) =>
+    input.side === side ? input.value : raw !== null && tokens[side] ? formatUnits(raw, tokens[side]!.decimals) : '';
+  const amount0 = display(0, raw0);
+  const amount1 = display(1, raw1);
+
+  // Shipping sets the position's balances, so LiquidFlowCore checks the allowance for the totals
+  const total0 = raw0 !== null && reserves ? reserves[0] + raw0 : null;
+  const total1 = raw1 !== null && reserves ? reserves[1] + raw1 : null;
+  const ethSide = wrappedNative ? tokens.findIndex(token => token?.address === wrappedNative) : -1;
+  const canShip = raw0 !== null && raw0 > 0n && raw1 !== null && raw1 > 0n && total0 !== null && approved0 && approved1 && !submitting;
+
+  // Advanced mode spreads the amounts over chains; the plan approves on each chain itself
+  const shares = chainAllocations.map(chain => ({ chainId: chain.id, percent: chain.allocation }));
+  const shareErrors = validateShares(shares);
+  const chainName = (chainId: number) => chains.find(chain => chain.id === chainId)?.name ?? `Chain ${chainId}`;
+  const run = allocation.run;
+  const runStatus = run ? allocationStatus(run) : null;
+  const runActive = runStatus !== null && runStatus !== 'done' && runStatus !== 'rolled-back';
+  const canPlan = raw0 !== null && raw0 > 0n && raw1 !== null && raw1 > 0n && shareErrors.length === 0 && !runActive && !allocating;
+
+  const handleShip = async () => {
+    if (!position || raw0 === null || raw1 === null) return;
+    setSubmitting(true);
+    setSubmitError(null);
+    setShipped(null);
+    try {
+      setShipped(await lp.provide(position, [raw0, raw1], payWithEth && ethSide >= 0));
+      setInput({ side: input.side, value: '' });
+      setVersion(value => value + 1);
+      tokenList.refreshBalances().catch(() => undefined);
+    } catch (error) {
+      setSubmitError(describeError(error));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const allocationAction = async (action: () => Promise<unknown>) => {
+    setAllocating(true);
+    setAllocationError(null);
+    try {
+      await action();
+    } catch (error) {
+      setAllocationError(describeError(error));
+    } finally {
+      setAllocating(false);
+    }
+  };
+
+  const handleReview = () => allocationAction(async () => {
+    if (!position || raw0 === null || raw1 === null) return;
+    setPlan(await allocation.plan(position, [raw0, raw1], shares));
+  });
+
+  const handleStart = () => allocationAction(async () => {
+    if (!plan) return;
+    setPlan(null);
+    setInput({ side: input.side, value: '' });
+    await allocation.execute(plan);
+    setVersion(value => value + 1);
+  });
 
   const estimatedAPY = 12.5;
   const estimatedDailyEarnings = amount0 ? parseFloat(amount0) * 2450 * (estimatedAPY / 100 / 365) : 0;
 
   return (
     <div className="max-w-2xl mx-auto">
+      {showTokenSelect !== null && (
+        <TokenSelect
+          exclude={(showTokenSelect === 0 ? token1 : token0)?.address}
+          onSelect={(token) => (showTokenSelect === 0 ? setToken0 : setToken1)(token)}
+          onClose={() => setShowTokenSelect(null)}
+        />
+      )}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
@@ -82,26 +214,22 @@ export default function Provide() {
             <div className="bg-dark-700/50 rounded-2xl p-4">
               <div className="flex items-center justify-between mb-2">
                 <span className="text-sm text-gray-400">Token 1</span>
-                <span className="text-sm text-gray-500">Balance: {token0.balance}</span>
+                <span className="text-sm text-gray-500">Balance: {balanceOf(token0)}</span>
               </div>
               <div className="flex items-center gap-4">
                 <input
                   type="number"
                   value={amount0}
-                  onChange={(e) => {
-                    setAmount0(e.target.value);
-                    if (e.target.value) {
-                      setAmount1((parseFloat(e.target.value) * 2450).toString());
-                    } else {
-                      setAmount1('');
-                    }
-                  }}
+                  onChange={(e) => setInput({ side: 0, value: e.target.value })}
                   placeholder="0.0"
                   className="flex-1 bg-transparent text-2xl font-bold text-white outline-none placeholder-gray-600"
                 />
-                <button className="flex items-center gap-2 px-4 py-2 rounded-xl bg-dark-600 hover:bg-dark-500 transition-colors">
-                  <span className="text-xl">{token0.icon}</span>
-                  <span className="font-medium text-white">{token0.symbol}</span>
+                <button
+                  onClick={() => setShowTokenSelect(0)}
+                  className="flex items-center gap-2 px-4 py-2 rounded-xl bg-dark-600 hover:bg-dark-500 transition-colors"
+                >
+                  {token0 && <TokenIcon token={token0} />}
+                  <span className="font-medium text-white">{token0?.symbol ?? 'Select'}</span>
                   <ChevronDown className="w-4 h-4 text-gray-400" />
                 </button>
               </div>
@@ -116,25 +244,64 @@ export default function Provide() {
             <div className="bg-dark-700/50 rounded-2xl p-4">
               <div className="flex items-center justify-between mb-2">
                 <span className="text-sm text-gray-400">Token 2</span>
-                <span className="text-sm text-gray-500">Balance: {token1.balance}</span>
+                <span className="text-sm text-gray-500">Balance: {balanceOf(token1)}</span>
               </div>
               <div className="flex items-center gap-4">
                 <input
                   type="number"
                   value={amount1}
-                  onChange={(e) => setAmount1(e.target.value)}
+                  onChange={(e) => setInput({ side: 1, value: e.target.value })}
                   placeholder="0.0"
                   className="flex-1 bg-transparent text-2xl font-bold text-white outline-none placeholder-gray-600"
                 />
-                <button className="flex items-center gap-2 px-4 py-2 rounded-xl bg-dark-600 hover:bg-dark-500 transition-colors">
-                  <span className="text-xl">{token1.icon}</span>
-                  <span className="font-medium text-white">{token1.symbol}</span>
+                <button
+                  onClick={() => setShowTokenSelect(1)}
+                  className="flex items-center gap-2 px-4 py-2 rounded-xl bg-dark-600 hover:bg-dark-500 transition-colors"
+                >
+                  {token1 && <TokenIcon token={token1} />}
+                  <span className="font-medium text-white">{token1?.symbol ?? 'Select'}</span>
                   <ChevronDown className="w-4 h-4 text-gray-400" />
                 </button>
               </div>
             </div>
           </div>
 
+          {/* Pool ratio: the position's reserves, or the initial price of a new one */}
+          {canRead && token0 && token1 && (
+            <div className="mb-6">
+              {reservesError ? (
+                <div className="flex items-start gap-2 bg-amber-500/10 border border-amber-500/20 rounded-xl p-3 text-sm text-amber-500">
+                  <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <span>{reservesError}</span>
+                </div>
+              ) : existing ? (
+                <div className="flex items-start gap-2 bg-dark-700/30 rounded-xl p-3 text-sm text-gray-400">
+                  <Info className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <span>
+                    Your position holds {formatUnits(reserves![0], token0.decimals)} {token0.symbol} and {formatUnits(reserves![1], token1.decimals)} {token1.symbol}.
+                    Amounts are added at this ratio.
+                  </span>
+                </div>
+              ) : reserves && (
+                <div className="bg-dark-700/50 rounded-2xl p-4">
+                  <label className="text-sm text-gray-400 mb-2 block">Initial price</label>
+                  <div className="flex items-center gap-2 text-white">
+                    <span className="whitespace-nowrap">1 {token0.symbol} =</span>
+                    <input
+                      type="number"
+                      value={price}
+                      onChange={(e) => setPrice(e.target.value)}
+                      placeholder="0.0"
+                      className="flex-1 min-w-0 bg-dark-600 rounded-lg px-3 py-2 outline-none placeholder-gray-600"
+                    />
+                    <span>{token1.symbol}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">This is a new position; its price is set by the amounts you ship.</p>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Fee Tier Selection */}
           <div className="mb-6">
             <label className="text-sm text-gray-400 mb-3 block">Fee Tier</label>
@@ -165,6 +332,16 @@ export default function Provide() {
               animate={{ opacity: 1, height: 'auto' }}
               className="mb-6"
             >
+              <label className="text-sm text-gray-400 mb-2 block">Position Label</label>
+              <input
+                type="text"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="Default position"
+                className="w-full mb-1 bg-dark-700/50 rounded-xl px-4 py-3 text-white outline-none placeholder-gray-600"
+              />
+              <p className="text-xs text-gray-500 mb-6">Separate positions on the same pair and fee tier need different labels.</p>
+
               <label className="text-sm text-gray-400 mb-3 block">Chain Allocation</label>
               <div className="space-y-3">
                 {chainAllocations.map((chain, index) => (
@@ -180,9 +357,8 @@ export default function Provide() {
                         max="100"
                         value={chain.allocation}
                         onChange={(e) => {
-                          const newAllocations = [...chainAllocations];
-                          newAllocations[index].allocation = parseInt(e.target.value);
-                          setChainAllocations(newAllocations);
+                          const allocation = parseInt(e.target.value);
+                          setChainAllocations(chainAllocations.map((other, i) => i === index ? { ...other, allocation } : other));
                         }}
                         className="w-full h-2 bg-dark-600 rounded-lg appearance-none cursor-pointer"
                       />
@@ -191,6 +367,13 @@ export default function Provide() {
                   </div>
                 ))}
               </div>
+              {shareErrors.length > 0 ? (
+                <p className="text-xs text-amber-500 mt-3">{shareErrors[0]}</p>
+              ) : (
+                <p className="text-xs text-gray-500 mt-3">
+                  Shares for other chains than the connected one are bridged there, then shipped with what arrives.
+                </p>
+              )}
             </motion.div>
           )}
 
@@ -238,19 +421,149 @@ export default function Provide() {
             </div>
           </div>
 
+          {/* Approvals, shown only while an allowance is short */}
+          {mode === 'simple' && (
+            <div className="-mt-4 mb-6 empty:hidden">
+              <ApprovalStep token={token0} target="LiquidFlowCore" amount={total0} onReadyChange={setApproved0} />
+              <ApprovalStep token={token1} target="LiquidFlowCore" amount={total1} onReadyChange={setApproved1} />
+            </div>
+          )}
+
+          {mode === 'simple' && ethSide >= 0 && (
+            <label className="flex items-center gap-2 mb-6 text-sm text-gray-400 cursor-pointer">
+              <input type="checkbox" checked={payWithEth} onChange={(e) => setPayWithEth(e.target.checked)} />
+              Pay the {tokens[ethSide]!.symbol} side with ETH, wrapped by the router
+            </label>
+          )}
+
+          {submitError && (
+            <div className="mb-6 flex items-start gap-2 bg-red-500/10 border border-red-500/20 rounded-xl p-3 text-sm text-red-400">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{submitError}</span>
+            </div>
+          )}
+          {shipped && (
+            <div className="mb-6 flex items-start gap-2 bg-flow-emerald/10 border border-flow-emerald/20 rounded-xl p-3 text-sm text-flow-emerald">
+              <CheckCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>Strategy {shipped.strategyHash.slice(0, 10)}... shipped</span>
+            </div>
+          )}
+
+          {/* Allocation: the plan under review, or the run in progress */}
+          {plan && (
+            <div className="mb-6">
+              <label className="text-sm text-gray-400 mb-3 block">Allocation Plan</label>
+              <AllocationProgress request={plan.request} steps={plan.steps} chainName={chainName} />
+              <div className="grid grid-cols-2 gap-3 mt-3">
+                <button
+                  onClick={() => setPlan(null)}
+                  className="py-3 rounded-xl bg-dark-600 hover:bg-dark-500 text-gray-300 font-medium transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleStart}
+                  disabled={allocating}
+                  className="py-3 rounded-xl bg-flow-blue hover:bg-flow-blue/80 text-white font-medium transition-colors disabled:opacity-50"
+                >
+                  Start Allocation
+                </button>
+              </div>
+            </div>
+          )}
+          {run && (
+            <div className="mb-6">
+              <div className="flex items-center justify-between mb-3">
+                <label className="text-sm text-gray-400">
+                  {run.phase === 'rollback' ? 'Rolling Back Allocation' : 'Allocation'}
+                </label>
+                <span className="text-xs text-gray-500">
+                  {runStatus === 'waiting' ? 'Waiting for bridge transfers' : runStatus === 'rolled-back' ? 'Rolled back' : runStatus}
+                </span>
+              </div>
+              <AllocationProgress request={run.plan.request} steps={activeSteps(run)} progress={run.progress} chainName={chainName} />
+              <div className="flex flex-wrap gap-3 mt-3">
+                {(runStatus === 'running' || runStatus === 'waiting') && (
+                  <button
+                    onClick={() => allocationAction(allocation.resume)}
+                    disabled={allocating}
+                    className="flex-1 py-3 rounded-xl bg-flow-blue hover:bg-flow-blue/80 text-white font-medium transition-colors disabled:opacity-50"
+                  >
+                    {allocating ? 'Running...' : 'Resume'}
+                  </button>
+                )}
+                {runStatus === 'failed' && (
+                  <button
+                    onClick={() => allocationAction(allocation.retry)}
+                    disabled={allocating}
+                    className="flex-1 py-3 rounded-xl bg-flow-blue hover:bg-flow-blue/80 text-white font-medium transition-colors disabled:opacity-50"
+                  >
+                    Retry Step
+                  </button>
+                )}
+                {run.phase === 'forward' && (runStatus === 'failed' || runStatus === 'done') && (
+                  <button
+                    onClick={() => allocationAction(allocation.rollback)}
+                    disabled={allocating}
+                    className="flex-1 flex items-center justify-center gap-2 py-3 rounded-xl bg-dark-600 hover:bg-dark-500 text-gray-300 font-medium transition-colors disabled:opacity-50"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    Roll Back
+                  </button>
+                )}
+                {(runStatus === 'failed' || !runActive) && (
+                  <button
+                    onClick={() => allocationAction(async () => allocation.dismiss())}
+                    disabled={allocating}
+                    className="flex-1 py-3 rounded-xl bg-dark-600 hover:bg-dark-500 text-gray-300 font-medium transition-colors disabled:opacity-50"
+                  >
+                    Dismiss
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+          {allocationError && (
+            <div className="mb-6 flex items-start gap-2 bg-red-500/10 border border-red-500/20 rounded-xl p-3 text-sm text-red-400">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{allocationError}</span>
+            </div>
+          )}
+
           {/* Action Button */}
-          {wallet.isConnected ? (
+          {wallet.isConnected && mode === 'advanced' ? (
+            <motion.button
+              className={`w-full py-4 rounded-2xl font-semibold text-lg transition-all ${
+                canPlan
+                  ? 'bg-flow-gradient text-white btn-glow'
+                  : 'bg-dark-600 text-gray-500 cursor-not-allowed'
+              }`}
+              whileHover={canPlan ? { scale: 1.02 } : {}}
+              whileTap={canPlan ? { scale: 0.98 } : {}}
+              disabled={!canPlan}
+              onClick={handleReview}
+            >
+              {runActive ? 'Allocation in progress'
+                : raw0 === null || raw1 === null ? 'Enter amounts'
+                : allocating && !plan ? 'Planning...'
+                : 'Review Allocation Plan'}
+            </motion.button>
+          ) : wallet.isConnected ? (
             <motion.button
               className={`w-full py-4 rounded-2xl font-semibold text-lg transition-all ${
-                amount0 && amount1
+                canShip
                   ? 'bg-flow-gradient text-white btn-glow'
                   : 'bg-dark-600 text-gray-500 cursor-not-allowed'
               }`}
-              whileHover={amount0 && amount1 ? { scale: 1.02 } : {}}
-              whileTap={amount0 && amount1 ? { scale: 0.98 } : {}}
-              disabled={!amount0 || !amount1}
+              whileHover={canShip ? { scale: 1.02 } : {}}
+              whileTap={canShip ? { scale: 0.98 } : {}}
+              disabled={!canShip}
+              onClick={handleShip}
             >
-              {amount0 && amount1 ? 'Ship Strategy' : 'Enter amounts'}
+              {raw0 === null || raw1 === null
+                ? existing || !reserves ? 'Enter amounts' : 'Enter amount and price'
+                : submitting ? 'Shipping...'
+                : canShip ? 'Ship Strategy' : 'Approve tokens first'}
             </motion.button>
           ) : (
             <motion.button
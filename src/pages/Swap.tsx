@@ -1,4 +1,5 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { formatUnits } from 'ethers';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   ArrowDownUp, 
@@ -8,24 +9,30 @@ import {
   Shield, 
   Clock,
   AlertCircle,
-  Check
+  Check,
+  Loader2,
+  XCircle
 } from 'lucide-react';
 import { useStore } from '../store/useStore';
+import TokenSelect, { TokenIcon, formatBalance } from '../components/TokenSelect';
+import ApprovalStep from '../components/ApprovalStep';
+import { describeError } from '../lib/errors';
+import { RegistryToken, parseTokenAmount } from '../lib/tokenList';
+import { SwapSettings, exceedsPriceImpact, minAmountOut, swapDeadline } from '../lib/swapQuote';
+import { BRIDGE_PROVIDER_LABELS, BridgeProviderName, BridgeWeights, TrackedBridgeTransfer } from '../lib/bridge';
 
-const tokens = [
-  { symbol: 'ETH', name: 'Ethereum', icon: '⟠', balance: '2.5' },
-  { symbol: 'USDC', name: 'USD Coin', icon: '💵', balance: '5000' },
-  { symbol: 'ARB', name: 'Arbitrum', icon: '🔵', balance: '1500' },
-  { symbol: 'WBTC', name: 'Wrapped Bitcoin', icon: '₿', balance: '0.15' },
-];
+const SLIPPAGE_PRESETS_BPS = [10, 50, 100];
 
 const chains = [
   { id: 42161, name: 'Arbitrum', icon: '🔵' },
   { id: 8453, name: 'Base', icon: '🔷' },
   { id: 1, name: 'Ethereum', icon: '⟠' },
   { id: 10, name: 'Optimism', icon: '🔴' },
+  { id: 31337, name: 'Localhost', icon: '🛠️' },
 ];
 
+type Chain = typeof chains[number];
+
 const mevOptions = [
   { id: 'none', label: 'No Protection', desc: 'Fastest execution', icon: Zap },
   { id: 'basic', label: 'Basic', desc: 'Commit-reveal', icon: Shield },
@@ -33,31 +40,248 @@ const mevOptions = [
   { id: 'maximum', label: 'Maximum', desc: 'MEV-Share rebates', icon: Shield },
 ];
 
+const WEIGHT_LABELS: Record<keyof BridgeWeights, string> = {
+  time: 'Speed',
+  fee: 'Fee',
+  output: 'Received',
+  security: 'Security',
+};
+
+// Bridge transfers are re-read at this interval while bridging
+const TRANSFERS_REFRESH_MS = 5000;
+
+const formatBps = (bps: bigint | number) => `${(Number(bps) / 100).toFixed(2)}%`;
+
+const formatDuration = (seconds: number) =>
+  seconds < 3600 ? `~${Math.max(1, Math.round(seconds / 60))} min`
+  : seconds < 86400 ? `~${Math.round(seconds / 3600)} h`
+  : `~${Math.round(seconds / 86400)} days`;
+
+// Up to 6 significant decimals, enough for a rate or an amount on screen
+const formatAmount = (amount: bigint, decimals: number) => {
+  const value = Number(formatUnits(amount, decimals));
+  return value.toLocaleString(undefined, { maximumSignificantDigits: 6 });
+};
+
+function ChainPicker({ chain, onSelect }: { chain: Chain; onSelect: (chain: Chain) => void }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 text-sm text-gray-400 hover:text-white transition-colors"
+      >
+        <span>{chain.icon}</span>
+        <span>{chain.name}</span>
+        <ChevronDown className="w-3 h-3" />
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-40 glass rounded-xl py-1 z-20 shadow-xl">
+          {chains.map((option) => (
+            <button
+              key={option.id}
+              onClick={() => {
+                setOpen(false);
+                onSelect(option);
+              }}
+              className={`w-full flex items-center gap-2 px-3 py-2 text-sm text-left hover:bg-white/10 ${option.id === chain.id ? 'text-white' : 'text-gray-400'}`}
+            >
+              <span>{option.icon}</span>
+              <span>{option.name}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function BridgeTransferRow({ transfer }: { transfer: TrackedBridgeTransfer }) {
+  const { tokenList } = useStore();
+  const token = tokenList.tokens.find(candidate => candidate.address.toLowerCase() === transfer.token.toLowerCase());
+  const decimals = token?.decimals ?? 18;
+  const destination = chains.find(chain => chain.id === transfer.dstChain)?.name ?? `chain ${transfer.dstChain}`;
+  return (
+    <div className="flex items-start gap-2 text-sm">
+      {transfer.status === 'pending' ? <Loader2 className="w-4 h-4 mt-0.5 flex-shrink-0 animate-spin text-flow-blue" />
+        : transfer.status === 'completed' ? <Check className="w-4 h-4 mt-0.5 flex-shrink-0 text-flow-emerald" />
+        : <XCircle className="w-4 h-4 mt-0.5 flex-shrink-0 text-red-400" />}
+      <div className="flex-1 min-w-0">
+        <p className="text-gray-300">
+          {formatAmount(transfer.amount, decimals)} {token?.symbol ?? ''} to {destination} via {BRIDGE_PROVIDER_LABELS[transfer.provider]}
+        </p>
+        <p className="text-xs text-gray-500">
+          {transfer.status === 'pending' && `In flight since ${new Date(transfer.initiatedAt * 1000).toLocaleTimeString()}`}
+          {transfer.status === 'completed' && transfer.outputAmount !== null && `Delivered ${formatAmount(transfer.outputAmount, decimals)} ${token?.symbol ?? ''}`}
+          {transfer.status === 'failed' && `Failed: ${transfer.reason || 'no reason given'}. The provider returns the funds.`}
+        </p>
+      </div>
+    </div>
+  );
+}
+
 export default function Swap() {
-  const { wallet } = useStore();
-  const [fromToken, setFromToken] = useState(tokens[0]);
-  const [toToken, setToToken] = useState(tokens[1]);
-  const [fromChain, setFromChain] = useState(chains[0]);
-  const [toChain, setToChain] = useState(chains[1]);
+  const { wallet, deployment, intents, swap, tokenList, bridge } = useStore();
+  const [fromSelected, setFromToken] = useState<RegistryToken | null>(null);
+  const [toSelected, setToToken] = useState<RegistryToken | null>(null);
+  // Until another destination is picked, tokens stay on the connected chain
+  const [toChainId, setToChainId] = useState<number | null>(null);
+  const [bridgeProvider, setBridgeProvider] = useState<BridgeProviderName | null>(null);
   const [fromAmount, setFromAmount] = useState('');
   const [mevProtection, setMevProtection] = useState('protected');
   const [allowPartialFill, setAllowPartialFill] = useState(true);
   const [showSettings, setShowSettings] = useState(false);
   const [showTokenSelect, setShowTokenSelect] = useState<'from' | 'to' | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [settingErrors, setSettingErrors] = useState<string[]>([]);
+  const [approved, setApproved] = useState(false);
+  const [weightErrors, setWeightErrors] = useState<string[]>([]);
+
+  const fromChain: Chain = chains.find(chain => chain.id === wallet.chainId)
+    ?? (wallet.chainId ? { id: wallet.chainId, name: `Chain ${wallet.chainId}`, icon: '⛓️' } : chains[0]);
+  const toChain: Chain = chains.find(chain => chain.id === toChainId) ?? fromChain;
+  // A different destination chain turns the form into a bridge transfer of the input token
+  const bridging = toChain.id !== fromChain.id;
 
-  const toAmount = fromAmount ? (parseFloat(fromAmount) * 2450).toFixed(2) : '';
+  // Intents settle in ERC-20s, so the lists carry wrapped native tokens.
+  // Until the user picks, the first two tokens of the chain are preselected.
+  const onChain = (token: RegistryToken | null) => token?.chainId === tokenList.chainId ? token : null;
+  const fromToken = onChain(fromSelected) ?? tokenList.tokens[0] ?? null;
+  const toToken = onChain(toSelected) ?? tokenList.tokens.find(token => token.address !== fromToken?.address) ?? null;
+
+  const { settings, quote: quoteState, requestQuote } = swap;
+  const amountIn = fromToken ? parseTokenAmount(fromAmount, fromToken.decimals) : null;
+  const canQuote = wallet.isConnected && deployment.status === 'ready';
+
+  // Debounced in the pipeline, so this can follow every keystroke
+  useEffect(() => {
+    requestQuote(canQuote && !bridging && amountIn && fromToken && toToken ? { tokenIn: fromToken.address, tokenOut: toToken.address, amountIn } : null);
+  }, [canQuote, bridging, amountIn, fromToken?.address, toToken?.address, wallet.chainId, requestQuote]);
+  useEffect(() => () => requestQuote(null), [requestQuote]);
+
+  // Bridge quotes are read straight from the router, after typing settles
+  const { requestQuotes, refreshTransfers } = bridge;
+  useEffect(() => {
+    if (!canQuote || !bridging || !amountIn || !fromToken) {
+      requestQuotes(null);
+      return;
+    }
+    const timer = setTimeout(() => requestQuotes({ dstChain: toChain.id, token: fromToken.address, amount: amountIn }), 400);
+    return () => clearTimeout(timer);
+  }, [canQuote, bridging, amountIn, fromToken?.address, toChain.id, wallet.chainId, requestQuotes]);
+
+  useEffect(() => {
+    if (!canQuote || !bridging) return;
+    const refresh = () => refreshTransfers().catch(() => undefined);
+    refresh();
+    const timer = setInterval(refresh, TRANSFERS_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [canQuote, bridging, wallet.address, wallet.chainId, refreshTransfers]);
+
+  // Only rank routes for what is currently entered
+  const bridgeRoute = bridge.route;
+  const routeCurrent = !!bridgeRoute && !!fromToken && bridgeRoute.amount === amountIn
+    && bridgeRoute.token === fromToken.address && bridgeRoute.dstChain === toChain.id;
+  const bridgeQuotes = routeCurrent ? bridge.quotes : [];
+  const bridgeQuote = bridgeQuotes.find(candidate => candidate.provider === bridgeProvider) ?? bridgeQuotes[0] ?? null;
+
+  // Only show a quote for what is currently typed
+  const quote = quoteState.quote && amountIn && quoteState.quote.request.amountIn === amountIn ? quoteState.quote : null;
+  const toAmount = bridging
+    ? bridgeQuote && fromToken ? formatUnits(bridgeQuote.outputAmount, fromToken.decimals) : ''
+    : quote && toToken ? formatUnits(quote.amountOut, toToken.decimals) : '';
+  const minReceived = quote ? minAmountOut(quote.amountOut, settings.slippageBps) : null;
+  const impactBlocked = !!quote && exceedsPriceImpact(quote, settings);
+  const impactClass = !quote ? 'text-white'
+    : impactBlocked ? 'text-red-400'
+    : quote.priceImpactBps > 100n ? 'text-amber-500'
+    : 'text-flow-emerald';
+
+  const updateSetting = (key: keyof SwapSettings, value: number) => {
+    setSettingErrors(swap.updateSettings({ [key]: value }));
+  };
+
+  // Unprotected swaps go straight to the XYKStrategy pool that quoted them, Basic ones
+  // through commit-reveal. Whichever contract pulls the input needs the allowance.
+  const direct = mevProtection === 'none';
+  const submits = direct || mevProtection === 'basic';
+
+  const pendingReveals = intents.commitments.filter(c => c.status === 'pending' || c.status === 'committed');
+
+  const handleSwap = async () => {
+    if (!quote || !fromToken || !toToken || impactBlocked || !submits) return;
+    setSubmitting(true);
+    setSubmitError(null);
+    try {
+      // Limits come from a quote taken now, not the one that has been on screen
+      const fresh = await swap.requote();
+      if (!fresh.quote || fresh.quote.request.amountIn !== quote.request.amountIn) {
+        throw new Error(fresh.error ?? 'Quote is no longer available');
+      }
+      if (exceedsPriceImpact(fresh.quote, settings)) {
+        throw new Error(`Price impact moved to ${formatBps(fresh.quote.priceImpactBps)}, above your ${formatBps(settings.maxPriceImpactBps)} limit`);
+      }
+      const params = {
+        tokenIn: fromToken.address,
+        tokenOut: toToken.address,
+        amountIn: fresh.quote.amountIn,
+        minAmountOut: minAmountOut(fresh.quote.amountOut, settings.slippageBps),
+        deadline: swapDeadline(settings.ttlMinutes),
+      };
+      if (direct) {
+        await swap.submitDirect({ quote: fresh.quote, minAmountOut: params.minAmountOut });
+      } else {
+        await intents.submitCommitted({ ...params, maxFee: 0n, allowPartialFill });
+      }
+      setFromAmount('');
+      tokenList.refreshBalances().catch(() => undefined);
+    } catch (error) {
+      setSubmitError(describeError(error));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleBridge = async () => {
+    if (!bridgeQuote || !fromToken || !amountIn) return;
+    setSubmitting(true);
+    setSubmitError(null);
+    try {
+      await bridge.send(bridgeQuote.provider, { dstChain: toChain.id, token: fromToken.address, amount: amountIn });
+      setFromAmount('');
+      tokenList.refreshBalances().catch(() => undefined);
+    } catch (error) {
+      setSubmitError(describeError(error));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const updateWeight = (key: keyof BridgeWeights, value: number) => {
+    setWeightErrors(bridge.updateWeights({ [key]: value }));
+  };
+
+  const canSwap = bridging
+    ? !!bridgeQuote && !submitting && approved
+    : !!quote && !impactBlocked && !submitting && submits && approved;
+  const fromBalance = fromToken ? tokenList.balances[fromToken.address] : undefined;
 
   const handleSwapTokens = () => {
     const tempToken = fromToken;
     setFromToken(toToken);
     setToToken(tempToken);
-    const tempChain = fromChain;
-    setFromChain(toChain);
-    setToChain(tempChain);
   };
 
   return (
     <div className="max-w-lg mx-auto">
+      {showTokenSelect && (
+        <TokenSelect
+          exclude={(showTokenSelect === 'from' ? toToken : fromToken)?.address}
+          onSelect={(token) => (showTokenSelect === 'from' ? setFromToken : setToToken)(token)}
+          onClose={() => setShowTokenSelect(null)}
+        />
+      )}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
@@ -65,7 +289,7 @@ export default function Swap() {
       >
         {/* Header */}
         <div className="flex items-center justify-between mb-6">
-          <h1 className="text-2xl font-bold text-white">Swap</h1>
+          <h1 className="text-2xl font-bold text-white">{bridging ? 'Bridge' : 'Swap'}</h1>
           <button
             onClick={() => setShowSettings(!showSettings)}
             className={`p-2 rounded-xl transition-colors ${showSettings ? 'bg-flow-blue/20 text-flow-blue' : 'hover:bg-white/10 text-gray-400'}`}
@@ -84,6 +308,67 @@ export default function Swap() {
               className="overflow-hidden mb-6"
             >
               <div className="bg-dark-700/50 rounded-2xl p-4 space-y-4">
+                <div>
+                  <label className="text-sm text-gray-400 mb-2 block">Slippage Tolerance</label>
+                  <div className="flex items-center gap-2">
+                    {SLIPPAGE_PRESETS_BPS.map((bps) => (
+                      <button
+                        key={bps}
+                        onClick={() => updateSetting('slippageBps', bps)}
+                        className={`px-3 py-2 rounded-xl text-sm transition-all ${
+                          settings.slippageBps === bps
+                            ? 'bg-flow-blue/20 border border-flow-blue text-white'
+                            : 'bg-dark-600/50 border border-transparent text-gray-300 hover:border-white/10'
+                        }`}
+                      >
+                        {formatBps(bps)}
+                      </button>
+                    ))}
+                    <div className="flex-1 flex items-center gap-1 px-3 py-2 rounded-xl bg-dark-600/50">
+                      <input
+                        type="number"
+                        step="0.01"
+                        defaultValue={settings.slippageBps / 100}
+                        key={settings.slippageBps}
+                        onBlur={(e) => updateSetting('slippageBps', Math.round(parseFloat(e.target.value) * 100))}
+                        className="w-full bg-transparent text-sm text-white outline-none text-right"
+                      />
+                      <span className="text-sm text-gray-400">%</span>
+                    </div>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="text-sm text-gray-400 mb-2 block">Deadline</label>
+                    <div className="flex items-center gap-1 px-3 py-2 rounded-xl bg-dark-600/50">
+                      <input
+                        type="number"
+                        defaultValue={settings.ttlMinutes}
+                        key={settings.ttlMinutes}
+                        onBlur={(e) => updateSetting('ttlMinutes', parseInt(e.target.value, 10))}
+                        className="w-full bg-transparent text-sm text-white outline-none text-right"
+                      />
+                      <span className="text-sm text-gray-400">min</span>
+                    </div>
+                  </div>
+                  <div>
+                    <label className="text-sm text-gray-400 mb-2 block">Max Price Impact</label>
+                    <div className="flex items-center gap-1 px-3 py-2 rounded-xl bg-dark-600/50">
+                      <input
+                        type="number"
+                        step="0.1"
+                        defaultValue={settings.maxPriceImpactBps / 100}
+                        key={settings.maxPriceImpactBps}
+                        onBlur={(e) => updateSetting('maxPriceImpactBps', Math.round(parseFloat(e.target.value) * 100))}
+                        className="w-full bg-transparent text-sm text-white outline-none text-right"
+                      />
+                      <span className="text-sm text-gray-400">%</span>
+                    </div>
+                  </div>
+                </div>
+                {settingErrors.map((error) => (
+                  <p key={error} className="text-xs text-red-400">{error}</p>
+                ))}
                 <div>
                   <label className="text-sm text-gray-400 mb-2 block">MEV Protection</label>
                   <div className="grid grid-cols-2 gap-2">
@@ -132,13 +417,7 @@ export default function Swap() {
         <div className="bg-dark-700/50 rounded-2xl p-4 mb-2">
           <div className="flex items-center justify-between mb-2">
             <span className="text-sm text-gray-400">From</span>
-            <div className="flex items-center gap-2">
-              <button className="flex items-center gap-1 text-sm text-gray-400 hover:text-white transition-colors">
-                <span>{fromChain.icon}</span>
-                <span>{fromChain.name}</span>
-                <ChevronDown className="w-3 h-3" />
-              </button>
-            </div>
+            <ChainPicker chain={fromChain} onSelect={(chain) => wallet.switchChain(chain.id)} />
           </div>
           <div className="flex items-center gap-4">
             <input
@@ -152,17 +431,21 @@ export default function Swap() {
               onClick={() => setShowTokenSelect('from')}
               className="flex items-center gap-2 px-4 py-2 rounded-xl bg-dark-600 hover:bg-dark-500 transition-colors"
             >
-              <span className="text-xl">{fromToken.icon}</span>
-              <span className="font-medium text-white">{fromToken.symbol}</span>
+              {fromToken && <TokenIcon token={fromToken} />}
+              <span className="font-medium text-white">{fromToken?.symbol ?? 'Select'}</span>
               <ChevronDown className="w-4 h-4 text-gray-400" />
             </button>
           </div>
           <div className="flex items-center justify-between mt-2">
             <span className="text-sm text-gray-500">
-              {fromAmount ? `~$${(parseFloat(fromAmount) * 2450).toLocaleString()}` : ''}
+              {fromAmount && !amountIn ? 'Invalid amount'
+                : amountIn && fromBalance !== undefined && amountIn > fromBalance ? 'Exceeds balance' : ''}
             </span>
-            <button className="text-sm text-flow-blue hover:text-flow-purple transition-colors">
-              Balance: {fromToken.balance} {fromToken.symbol}
+            <button
+              onClick={() => fromToken && fromBalance !== undefined && setFromAmount(formatUnits(fromBalance, fromToken.decimals))}
+              className="text-sm text-flow-blue hover:text-flow-purple transition-colors"
+            >
+              Balance: {fromToken ? `${formatBalance(fromBalance, fromToken.decimals)} ${fromToken.symbol}` : '-'}
             </button>
           </div>
         </div>
@@ -183,13 +466,7 @@ export default function Swap() {
         <div className="bg-dark-700/50 rounded-2xl p-4 mt-2">
           <div className="flex items-center justify-between mb-2">
             <span className="text-sm text-gray-400">To</span>
-            <div className="flex items-center gap-2">
-              <button className="flex items-center gap-1 text-sm text-gray-400 hover:text-white transition-colors">
-                <span>{toChain.icon}</span>
-                <span>{toChain.name}</span>
-                <ChevronDown className="w-3 h-3" />
-              </button>
-            </div>
+            <ChainPicker chain={toChain} onSelect={(chain) => setToChainId(chain.id)} />
           </div>
           <div className="flex items-center gap-4">
             <input
@@ -199,27 +476,41 @@ export default function Swap() {
               placeholder="0.0"
               className="flex-1 bg-transparent text-3xl font-bold text-white outline-none placeholder-gray-600"
             />
-            <button
-              onClick={() => setShowTokenSelect('to')}
-              className="flex items-center gap-2 px-4 py-2 rounded-xl bg-dark-600 hover:bg-dark-500 transition-colors"
-            >
-              <span className="text-xl">{toToken.icon}</span>
-              <span className="font-medium text-white">{toToken.symbol}</span>
-              <ChevronDown className="w-4 h-4 text-gray-400" />
-            </button>
+            {bridging ? (
+              <div className="flex items-center gap-2 px-4 py-2 rounded-xl bg-dark-600">
+                {fromToken && <TokenIcon token={fromToken} />}
+                <span className="font-medium text-white">{fromToken?.symbol ?? '-'}</span>
+              </div>
+            ) : (
+              <button
+                onClick={() => setShowTokenSelect('to')}
+                className="flex items-center gap-2 px-4 py-2 rounded-xl bg-dark-600 hover:bg-dark-500 transition-colors"
+              >
+                {toToken && <TokenIcon token={toToken} />}
+                <span className="font-medium text-white">{toToken?.symbol ?? 'Select'}</span>
+                <ChevronDown className="w-4 h-4 text-gray-400" />
+              </button>
+            )}
           </div>
           <div className="flex items-center justify-between mt-2">
             <span className="text-sm text-gray-500">
-              {toAmount ? `~$${parseFloat(toAmount).toLocaleString()}` : ''}
-            </span>
-            <span className="text-sm text-gray-500">
-              Balance: {toToken.balance} {toToken.symbol}
+              {(bridging ? bridge.quotesStatus === 'loading' && !bridgeQuote : quoteState.status === 'loading' && !quote) && (
+                <span className="flex items-center gap-1">
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                  {bridging ? 'Fetching bridge routes' : 'Fetching quote'}
+                </span>
+              )}
             </span>
+            {!bridging && (
+              <span className="text-sm text-gray-500">
+                Balance: {toToken ? `${formatBalance(tokenList.balances[toToken.address], toToken.decimals)} ${toToken.symbol}` : '-'}
+              </span>
+            )}
           </div>
         </div>
 
         {/* Route Info */}
-        {fromAmount && (
+        {!bridging && quote && minReceived !== null && fromToken && toToken && (
           <motion.div
             initial={{ opacity: 0, height: 0 }}
             animate={{ opacity: 1, height: 'auto' }}
@@ -227,41 +518,151 @@ export default function Swap() {
           >
             <div className="flex items-center justify-between text-sm mb-2">
               <span className="text-gray-400">Rate</span>
-              <span className="text-white">1 {fromToken.symbol} = 2,450 {toToken.symbol}</span>
+              <span className="text-white">
+                1 {fromToken.symbol} = {formatAmount(quote.amountOut * 10n ** BigInt(fromToken.decimals) / quote.amountIn, toToken.decimals)} {toToken.symbol}
+              </span>
             </div>
             <div className="flex items-center justify-between text-sm mb-2">
               <span className="text-gray-400">Price Impact</span>
-              <span className="text-flow-emerald">{'<'}0.01%</span>
+              <span className={impactClass}>{quote.priceImpactBps === 0n ? '<0.01%' : formatBps(quote.priceImpactBps)}</span>
+            </div>
+            <div className="flex items-center justify-between text-sm mb-2">
+              <span className="text-gray-400">LP Fee</span>
+              <span className="text-white">{formatAmount(quote.feeAmount, fromToken.decimals)} {fromToken.symbol}</span>
+            </div>
+            <div className="flex items-center justify-between text-sm mb-2">
+              <span className="text-gray-400">Minimum Received</span>
+              <span className="text-white">{formatAmount(minReceived, toToken.decimals)} {toToken.symbol}</span>
             </div>
             <div className="flex items-center justify-between text-sm mb-2">
+              <span className="text-gray-400">Slippage / Deadline</span>
+              <span className="text-white">{formatBps(settings.slippageBps)} / {settings.ttlMinutes} min</span>
+            </div>
+            <div className="flex items-center justify-between text-sm">
               <span className="text-gray-400">Est. Time</span>
               <div className="flex items-center gap-1 text-white">
                 <Clock className="w-3 h-3" />
                 <span>~2 min</span>
               </div>
             </div>
-            {fromChain.id !== toChain.id && (
-              <div className="flex items-center justify-between text-sm">
-                <span className="text-gray-400">Bridge</span>
-                <span className="text-flow-blue">deBridge (recommended)</span>
+          </motion.div>
+        )}
+
+        {/* Bridge routes */}
+        {bridging && bridgeQuotes.length > 0 && fromToken && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            className="mt-4 bg-dark-700/30 rounded-xl p-4 space-y-3"
+          >
+            <div>
+              <p className="text-sm text-gray-400 mb-2">Route priorities</p>
+              <div className="grid grid-cols-4 gap-2">
+                {(Object.keys(WEIGHT_LABELS) as (keyof BridgeWeights)[]).map((key) => (
+                  <label key={key} className="text-xs text-gray-500">
+                    {WEIGHT_LABELS[key]}
+                    <input
+                      type="range"
+                      min={0}
+                      max={5}
+                      step={1}
+                      value={bridge.weights[key]}
+                      onChange={(e) => updateWeight(key, Number(e.target.value))}
+                      className="w-full accent-flow-blue"
+                    />
+                  </label>
+                ))}
               </div>
-            )}
+              {weightErrors.map((error) => (
+                <p key={error} className="text-xs text-red-400">{error}</p>
+              ))}
+            </div>
+            {bridgeQuotes.map((candidate, index) => (
+              <button
+                key={candidate.provider}
+                onClick={() => setBridgeProvider(candidate.provider)}
+                className={`w-full p-3 rounded-xl text-left transition-all ${
+                  candidate.provider === bridgeQuote?.provider
+                    ? 'bg-flow-blue/20 border border-flow-blue'
+                    : 'bg-dark-600/50 border border-transparent hover:border-white/10'
+                }`}
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-sm font-medium text-white">
+                    {BRIDGE_PROVIDER_LABELS[candidate.provider]}
+                    {index === 0 && <span className="ml-2 text-xs text-flow-emerald">Best match</span>}
+                  </span>
+                  <span className="text-sm text-white">{formatAmount(candidate.outputAmount, fromToken.decimals)} {fromToken.symbol}</span>
+                </div>
+                <div className="flex items-center justify-between text-xs text-gray-500">
+                  <span className="flex items-center gap-1">
+                    <Clock className="w-3 h-3" />
+                    {formatDuration(candidate.estimatedTime)}
+                  </span>
+                  <span>Fee {formatAmount(candidate.fee + candidate.protocolFee, fromToken.decimals)} {fromToken.symbol}</span>
+                  <span className="text-amber-500">{'★'.repeat(candidate.securityRating)}<span className="text-gray-600">{'★'.repeat(5 - candidate.securityRating)}</span></span>
+                </div>
+              </button>
+            ))}
           </motion.div>
         )}
 
+        {impactBlocked && quote && (
+          <div className="mt-4 flex items-start gap-2 bg-red-500/10 border border-red-500/20 rounded-xl p-3 text-sm text-red-400">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>
+              Price impact of {formatBps(quote.priceImpactBps)} is above your {formatBps(settings.maxPriceImpactBps)} limit.
+              Reduce the amount or raise the limit in settings.
+            </span>
+          </div>
+        )}
+        {amountIn !== null && (quoteState.status === 'no-route' || quoteState.status === 'error') && (
+          <div className="mt-4 flex items-start gap-2 bg-amber-500/10 border border-amber-500/20 rounded-xl p-3 text-sm text-amber-500">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>{quoteState.status === 'no-route' ? `No liquidity for ${fromToken?.symbol} → ${toToken?.symbol}` : quoteState.error}</span>
+          </div>
+        )}
+
+        {bridging && amountIn !== null && bridge.quotesError && (
+          <div className="mt-4 flex items-start gap-2 bg-amber-500/10 border border-amber-500/20 rounded-xl p-3 text-sm text-amber-500">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>{bridge.quotesError}</span>
+          </div>
+        )}
+
+        {!bridging && submits && quote && !impactBlocked && (
+          <ApprovalStep token={fromToken} target={direct ? 'XYKStrategy' : 'ReferenceSolver'} amount={amountIn} onReadyChange={setApproved} />
+        )}
+        {bridging && bridgeQuote && (
+          <ApprovalStep token={fromToken} target="BridgeRouter" amount={amountIn} onReadyChange={setApproved} />
+        )}
+
         {/* Swap Button */}
         {wallet.isConnected ? (
           <motion.button
             className={`w-full mt-6 py-4 rounded-2xl font-semibold text-lg transition-all ${
-              fromAmount
+              canSwap
                 ? 'bg-flow-gradient text-white btn-glow'
                 : 'bg-dark-600 text-gray-500 cursor-not-allowed'
             }`}
-            whileHover={fromAmount ? { scale: 1.02 } : {}}
-            whileTap={fromAmount ? { scale: 0.98 } : {}}
-            disabled={!fromAmount}
+            whileHover={canSwap ? { scale: 1.02 } : {}}
+            whileTap={canSwap ? { scale: 0.98 } : {}}
+            disabled={!canSwap}
+            onClick={bridging ? handleBridge : handleSwap}
           >
-            {fromAmount ? 'Swap' : 'Enter an amount'}
+            {bridging ? (
+              !amountIn ? 'Enter an amount'
+                : submitting ? 'Bridging...'
+                : !bridgeQuote ? (bridge.quotesStatus === 'loading' ? 'Fetching routes...' : 'No route')
+                : !approved ? `Approve ${fromToken?.symbol} first`
+                : `Bridge to ${toChain.name}`
+            ) : !amountIn ? 'Enter an amount'
+              : submitting ? (direct ? 'Swapping...' : 'Committing...')
+              : impactBlocked ? 'Price impact too high'
+              : !quote ? (quoteState.status === 'loading' ? 'Fetching quote...' : 'No quote')
+              : !submits ? 'Not available with this protection yet'
+              : !approved ? `Approve ${fromToken?.symbol} first`
+              : 'Swap'}
           </motion.button>
         ) : (
           <motion.button
@@ -274,11 +675,59 @@ export default function Swap() {
           </motion.button>
         )}
 
+        {submitError && (
+          <div className="mt-4 flex items-center gap-2 text-sm text-red-400">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            <span>{submitError}</span>
+          </div>
+        )}
+
+        {/* Commit-reveal status */}
+        {intents.revealWarnings.map((warning) => (
+          <div key={warning.intentId} className="mt-4 flex items-start gap-2 bg-amber-500/10 border border-amber-500/20 rounded-xl p-3 text-sm text-amber-500">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span className="flex-1">
+              Reveal for batch #{warning.batchId.toString()} has not landed and the window closes in {warning.secondsLeft}s.
+              Keep this tab open or the swap will be skipped.
+            </span>
+            <button onClick={() => intents.dismissWarning(warning.intentId)} className="text-amber-500/70 hover:text-amber-500">
+              Dismiss
+            </button>
+          </div>
+        ))}
+        {pendingReveals.length > 0 && (
+          <div className="mt-4 flex items-center gap-2 text-sm text-gray-400">
+            <Shield className="w-4 h-4 text-flow-blue" />
+            <span>{pendingReveals.length} committed swap{pendingReveals.length > 1 ? 's' : ''} waiting to reveal when the batch closes</span>
+          </div>
+        )}
+        {intents.commitments.some(c => c.status === 'revealed') && pendingReveals.length === 0 && (
+          <div className="mt-4 flex items-center gap-2 text-sm text-flow-emerald">
+            <Check className="w-4 h-4" />
+            <span>Swap revealed to solvers</span>
+          </div>
+        )}
+
+        {/* Bridge transfers */}
+        {bridging && bridge.transfers.length > 0 && (
+          <div className="mt-4 bg-dark-700/30 rounded-xl p-4 space-y-3">
+            <p className="text-sm text-gray-400">Your bridge transfers</p>
+            {bridge.transfers.slice(0, 5).map((transfer) => (
+              <BridgeTransferRow key={transfer.requestId} transfer={transfer} />
+            ))}
+          </div>
+        )}
+        {bridging && bridge.transfersError && (
+          <p className="mt-2 text-sm text-red-400">{bridge.transfersError}</p>
+        )}
+
         {/* Batch Info */}
-        <div className="mt-4 flex items-center justify-center gap-2 text-sm text-gray-500">
-          <div className="w-2 h-2 rounded-full bg-flow-emerald pulse-live" />
-          <span>Next batch settles in 45s</span>
-        </div>
+        {!bridging && (
+          <div className="mt-4 flex items-center justify-center gap-2 text-sm text-gray-500">
+            <div className="w-2 h-2 rounded-full bg-flow-emerald pulse-live" />
+            <span>Next batch settles in 45s</span>
+          </div>
+        )}
       </motion.div>
     </div>
   );
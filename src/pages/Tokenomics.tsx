@@ -11,6 +11,9 @@ import {
   TrendingUp
 } from 'lucide-react';
 import { useStore } from '../store/useStore';
+import ApprovalStep from '../components/ApprovalStep';
+import IndexerNotice from '../components/IndexerNotice';
+import { parseTokenAmount } from '../lib/tokenList';
 
 const lockDurations = [
   { years: 1, multiplier: 0.25, boost: '1.25x' },
@@ -20,15 +23,22 @@ const lockDurations = [
 ];
 
 export default function Tokenomics() {
-  const { wallet, token } = useStore();
+  const { wallet, token, deployment, tokenList } = useStore();
   const [activeTab, setActiveTab] = useState<'burn' | 'lock' | 'claim'>('burn');
   const [burnAmount, setBurnAmount] = useState('');
   const [lockAmount, setLockAmount] = useState('');
   const [lockDuration, setLockDuration] = useState(4);
+  const [lockApproved, setLockApproved] = useState(false);
 
   const selectedDuration = lockDurations.find(d => d.years === lockDuration)!;
   const expectedVebLF = lockAmount ? parseFloat(lockAmount) * selectedDuration.multiplier : 0;
 
+  // VotingEscrow burns bLF when locking, so the step only shows if that ever changes
+  const blfAddress = deployment.manifest?.contracts.BurnedLF?.address.toLowerCase();
+  const blf = tokenList.tokens.find(entry => entry.address.toLowerCase() === blfAddress) ?? null;
+  const lockRaw = blf ? parseTokenAmount(lockAmount, blf.decimals) : null;
+  const canLock = !!lockAmount && (!blf || lockApproved);
+
   if (!wallet.isConnected) {
     return (
       <div className="min-h-[60vh] flex items-center justify-center">
@@ -64,6 +74,12 @@ export default function Tokenomics() {
           <p className="text-gray-400">Burn, lock, and earn with the Liquid Flow token</p>
         </div>
 
+        {!token.indexed && (
+          <div className="mb-8">
+            <IndexerNotice what="$LF balances and pending fees" />
+          </div>
+        )}
+
         {/* Token Balances */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
           <motion.div
@@ -294,13 +310,17 @@ export default function Tokenomics() {
                 </div>
               </div>
 
+              <div className="-mt-4 mb-6 empty:hidden">
+                <ApprovalStep token={blf} target="VotingEscrow" amount={lockRaw} onReadyChange={setLockApproved} />
+              </div>
+
               <motion.button
                 className={`w-full py-4 rounded-xl font-semibold ${
-                  lockAmount ? 'bg-flow-gradient text-white btn-glow' : 'bg-dark-600 text-gray-500'
+                  canLock ? 'bg-flow-gradient text-white btn-glow' : 'bg-dark-600 text-gray-500'
                 }`}
-                whileHover={lockAmount ? { scale: 1.02 } : {}}
-                whileTap={lockAmount ? { scale: 0.98 } : {}}
-                disabled={!lockAmount}
+                whileHover={canLock ? { scale: 1.02 } : {}}
+                whileTap={canLock ? { scale: 0.98 } : {}}
+                disabled={!canLock}
               >
                 Lock $bLF for {lockDuration} Year{lockDuration > 1 ? 's' : ''}
               </motion.button>
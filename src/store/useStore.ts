@@ -1,14 +1,51 @@
 import { create } from 'zustand';
+import { Contract, JsonRpcProvider, TransactionResponse, formatUnits, getAddress } from 'ethers';
+import { BATCH_PROCESSOR_ABI, BRIDGE_ROUTER_ABI, LIQUID_FLOW_CORE_ABI, LIQUID_FLOW_ROUTER_ABI } from '../lib/abis';
+import { AllowanceCheck, ApprovalMode, ApprovalTarget, PermitSignature, buildApproval, checkAllowance, permitKey, signPermit, spenderAddress } from '../lib/allowance';
+import { XYKStrategyParams, decodeXYKStrategyParams, saltFromLabel } from '../lib/strategy';
+import { ProvisionRequest, ShippedStrategy, buildProvision, fetchPositionReserves, fetchShippedPositions, shippedStrategy } from '../lib/provide';
+import { AllocationExecutor, AllocationPlan, AllocationRun, ChainShare, allocationStepRunner, counterpartTokens, planAllocation } from '../lib/allocation';
+import { CommitRevealClient, CommitmentRecord, IntentParams, RevealWarning } from '../lib/commitReveal';
+import { IndexerClient, PositionView, derivePositions } from '../lib/indexer';
+import { DeploymentManifest, ManifestIssue, contractAddress, fetchManifest, verifyManifest } from '../lib/manifest';
+import { VenueSource, xykVenueSource } from '../lib/solver';
+import { DEFAULT_TOKEN_LISTS, RegistryToken, TokenInfo, TokenList, TokenPreferencesStore, deploymentTokens, fetchTokenBalances, fetchTokenList, fetchTokenMetadata, mergeTokens } from '../lib/tokenList';
+import { DEFAULT_SWAP_SETTINGS, IDLE_QUOTE, QuotePipeline, QuoteRequest, QuoteState, SwapQuote, SwapSettings, bestQuote, swapDeadline, validateSwapSettings } from '../lib/swapQuote';
+import { describeError } from '../lib/errors';
+import { GovernanceBackend, GovernanceClient, LocalGovernance, ProposalView, RecomputedTally, VOTE_SUPPORT, VoteSupport, draftProposal, draftVote, governanceDomain, recomputeTally, signProposal, signVote, votingPower } from '../lib/governance';
+import { ActionDiff, ForkPreview, GovernanceCall, GovernedAddresses, diffActions, encodeAction } from '../lib/governanceActions';
+import { BRIDGE_PROVIDERS, BRIDGE_PROVIDER_LABELS, BridgeProviderName, BridgeWeights, DEFAULT_BRIDGE_WEIGHTS, RankedBridgeQuote, TrackedBridgeTransfer, bridgeRequestId, fetchBridgeQuotes, fetchBridgeTransfers, rankBridgeQuotes, validateBridgeWeights } from '../lib/bridge';
+import { TrackedIntent, fetchAccountIntents } from '../lib/intents';
+import { TrackedTransaction, TransactionTracker } from '../lib/transactions';
+import { PendingWithdrawal, fetchWithdrawalQueue } from '../lib/withdrawals';
+import { PositionValuation, ValuationInput, stablecoinPrice, summarizeValuations, valuePosition } from '../lib/valuation';
+import { EIP6963ProviderDetail, EIP6963ProviderInfo, WalletConnection, discoverWallets, isUserRejection, legacyWallet } from '../lib/wallet';
 
 interface WalletState {
   address: string | null;
   chainId: number | null;
   isConnected: boolean;
+  walletName: string | null;
+  // Wallets to pick from when more than one is installed
+  choices: EIP6963ProviderInfo[];
+  error: string | null;
   connect: () => Promise<void>;
+  connectWith: (uuid: string) => Promise<void>;
   disconnect: () => void;
   switchChain: (chainId: number) => Promise<void>;
 }
 
+type DeploymentStatus = 'idle' | 'loading' | 'ready' | 'missing' | 'stale' | 'error';
+
+interface DeploymentState {
+  chainId: number | null;
+  manifest: DeploymentManifest | null;
+  status: DeploymentStatus;
+  issues: ManifestIssue[];
+  error: string | null;
+  load: (chainId: number) => Promise<boolean>;
+}
+
 interface Position {
   id: string;
   chain: string;
@@ -24,13 +61,37 @@ interface Position {
   valueUSD: number;
 }
 
+// Fields computed by the valuation engine
+type ValuedField = 'earnedFees24h' | 'earnedFeesTotal' | 'impermanentLoss' | 'utilization24h' | 'valueUSD';
+
 interface LPState {
   positions: Position[];
   totalValueUSD: number;
   totalEarned24h: number;
   totalEarnedAll: number;
+  // Percent changes over the last 24h
+  valueChange24h: number;
+  earnedChange24h: number;
   pendingRewards: number;
+  // False without VITE_INDEXER_URL; positions are then left empty
+  indexed: boolean;
   fetchPositions: (address: string) => Promise<void>;
+  // Current reserves of the account's position, in the order of tokenA and tokenB
+  fetchReserves: (position: PositionKey) => Promise<[bigint, bigint]>;
+  // Ships the position through LiquidFlowRouter with the amounts added to it,
+  // wrapping the ETH side from the wallet's ETH when asked, and waits for StrategyShipped
+  provide: (position: PositionKey, added: [bigint, bigint], payWithEth: boolean) => Promise<ShippedStrategy>;
+  // Token LiquidFlowRouter wraps ETH into
+  wrappedNative: () => Promise<string>;
+}
+
+// An XYKStrategy position of the connected account
+interface PositionKey {
+  tokenA: string;
+  tokenB: string;
+  feeBps: bigint;
+  // Tells apart positions on the same pair and fee tier; '' for the default one
+  label: string;
 }
 
 interface TokenState {
@@ -40,104 +101,753 @@ interface TokenState {
   lockEnd: number | null;
   votingPower: number;
   pendingFees: { [token: string]: string };
+  // False without VITE_INDEXER_URL; balances are then left at zero
+  indexed: boolean;
   fetchBalances: (address: string) => Promise<void>;
 }
 
+type TokenListStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+interface TokenListState {
+  chainId: number | null;
+  tokens: RegistryToken[];
+  favorites: string[];
+  // Raw balances of the connected account, by token address
+  balances: Record<string, bigint>;
+  status: TokenListStatus;
+  // Lists that failed to load or validate; tokens from the others are still shown
+  errors: string[];
+  load: (chainId: number) => Promise<void>;
+  refreshBalances: () => Promise<void>;
+  // Registry entry for the address, or its on-chain metadata as an unverified token
+  lookup: (address: string) => Promise<RegistryToken>;
+  importToken: (token: TokenInfo) => void;
+  removeImported: (address: string) => void;
+  toggleFavorite: (address: string) => void;
+}
+
+interface IntentState {
+  commitments: CommitmentRecord[];
+  revealWarnings: RevealWarning[];
+  submitCommitted: (params: IntentParams) => Promise<CommitmentRecord>;
+  resumeCommitments: () => Promise<void>;
+  dismissWarning: (intentId: string) => void;
+  // Batch-auction intents of the connected account, newest first
+  tracked: TrackedIntent[];
+  trackedError: string | null;
+  refreshTracked: () => Promise<void>;
+  // Cancels an intent whose batch is still open and waits for it
+  cancel: (intentId: string) => Promise<void>;
+}
+
+interface DirectSwap {
+  quote: SwapQuote;
+  minAmountOut: bigint;
+}
+
+interface SwapState {
+  settings: SwapSettings;
+  quote: QuoteState;
+  // Invalid values are rejected with the validation messages
+  updateSettings: (update: Partial<SwapSettings>) => string[];
+  requestQuote: (request: QuoteRequest | null) => void;
+  // Fresh quote right before submitting
+  requote: () => Promise<QuoteState>;
+  // Unprotected swap through the venue the quote came from; resolves to the tx hash
+  submitDirect: (params: DirectSwap) => Promise<string>;
+}
+
+interface ApprovalState {
+  mode: ApprovalMode;
+  // Signed permits not spent yet, by permitKey(token, spender)
+  permits: Record<string, PermitSignature>;
+  setMode: (mode: ApprovalMode) => void;
+  // Allowance of the connected account for the target
+  check: (token: string, target: ApprovalTarget, amount: bigint) => Promise<AllowanceCheck>;
+  // Sends the approval in the current mode and waits for it
+  approve: (check: AllowanceCheck) => Promise<void>;
+  signPermit: (check: AllowanceCheck) => Promise<PermitSignature>;
+}
+
+interface TransactionsState {
+  // Transactions of the connected account on the connected chain, newest first
+  records: TrackedTransaction[];
+  track: (response: TransactionResponse, label: string) => void;
+  speedUp: (hash: string) => Promise<void>;
+  cancel: (hash: string) => Promise<void>;
+  // Forgets everything that is no longer pending
+  clear: () => void;
+}
+
+interface BridgeRoute {
+  dstChain: number;
+  token: string;
+  // What the user pays, protocol fee included
+  amount: bigint;
+}
+
+type BridgeQuotesStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+interface BridgeState {
+  weights: BridgeWeights;
+  // For `route`, best first under the current weights
+  route: BridgeRoute | null;
+  quotes: RankedBridgeQuote[];
+  quotesStatus: BridgeQuotesStatus;
+  quotesError: string | null;
+  // Invalid weights are rejected with the validation messages
+  updateWeights: (update: Partial<BridgeWeights>) => string[];
+  requestQuotes: (route: BridgeRoute | null) => Promise<void>;
+  // Sends the transfer to the connected account on the destination chain and
+  // waits for it to be initiated; resolves to the request ID
+  send: (provider: BridgeProviderName, route: BridgeRoute) => Promise<string>;
+  // Transfers of the connected account, newest first
+  transfers: TrackedBridgeTransfer[];
+  transfersError: string | null;
+  refreshTransfers: () => Promise<void>;
+}
+
+interface AllocationState {
+  // The account's allocation across chains, kept until dismissed
+  run: AllocationRun | null;
+  // Spreads the amounts added to the position over the shares, starting from
+  // the connected chain; the pair is matched by symbol on the other chains
+  plan: (position: PositionKey, amounts: [bigint, bigint], shares: ChainShare[]) => Promise<AllocationPlan>;
+  // Each resolves once the run finishes, fails or waits on a bridge transfer;
+  // a waiting run is resumed in the background
+  execute: (plan: AllocationPlan) => Promise<AllocationRun>;
+  resume: () => Promise<AllocationRun>;
+  retry: () => Promise<AllocationRun>;
+  rollback: () => Promise<AllocationRun>;
+  dismiss: () => void;
+}
+
+interface WithdrawalsState {
+  // Dock requests of the connected account that are not executed yet, oldest first
+  pending: PendingWithdrawal[];
+  // Seconds from the local clock to chain time, which the withdrawal delay is measured in
+  clockOffset: number;
+  paused: boolean;
+  // Only the core's owner may emergency dock
+  isOwner: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  // Each waits for its transaction, then reads the queue and positions again
+  requestDock: (strategyHash: string, tokens: string[]) => Promise<void>;
+  executeDock: (requestId: string) => Promise<void>;
+  // Clears the position at once, without the withdrawal delay
+  emergencyDock: (strategyHash: string, tokens: string[]) => Promise<void>;
+}
+
+interface GovernanceState {
+  // Newest first
+  proposals: ProposalView[];
+  // vebLF of the connected account at each proposal's snapshot, by proposal ID
+  votingPower: Record<string, bigint>;
+  // Seconds from the local clock to chain time, which voting periods are measured in
+  clockOffset: number;
+  error: string | null;
+  refresh: () => Promise<void>;
+  // Signs a proposal snapshotted at the latest block; throws the reason a backend rejects it with
+  propose: (title: string, description: string, votingDays: number, calls: GovernanceCall[]) => Promise<void>;
+  vote: (proposalId: string, support: VoteSupport, reason: string) => Promise<void>;
+  // Recounts the proposal from its signatures and the chain, without trusting the backend
+  verify: (proposalId: string) => Promise<RecomputedTally>;
+  // What the proposal's actions would change if executed now
+  diff: (proposalId: string) => Promise<ActionDiff[]>;
+  // Runs a passed proposal's actions on a fork and reads back the state they leave
+  preview: (proposalId: string) => Promise<ForkPreview>;
+}
+
 interface AppState {
   wallet: WalletState;
+  deployment: DeploymentState;
   lp: LPState;
   token: TokenState;
+  tokenList: TokenListState;
+  intents: IntentState;
+  swap: SwapState;
+  approvals: ApprovalState;
+  transactions: TransactionsState;
+  bridge: BridgeState;
+  allocation: AllocationState;
+  withdrawals: WithdrawalsState;
+  governance: GovernanceState;
 }
 
-// Mock data for demonstration
-const mockPositions: Position[] = [
-  {
-    id: '1',
-    chain: 'arbitrum',
-    strategy: 'XYK',
-    strategyHash: '0x1234...5678',
-    token0: { address: '0x...', symbol: 'WETH', amount: '10.5' },
-    token1: { address: '0x...', symbol: 'USDC', amount: '25000' },
-    feeTier: 30,
-    earnedFees24h: 125.50,
-    earnedFeesTotal: 4520.00,
-    impermanentLoss: -2.3,
-    utilization24h: 0.45,
-    valueUSD: 52500,
-  },
-  {
-    id: '2',
-    chain: 'base',
-    strategy: 'XYK',
-    strategyHash: '0x2345...6789',
-    token0: { address: '0x...', symbol: 'WETH', amount: '5.2' },
-    token1: { address: '0x...', symbol: 'USDC', amount: '12500' },
-    feeTier: 30,
-    earnedFees24h: 85.25,
-    earnedFeesTotal: 2150.00,
-    impermanentLoss: -1.1,
-    utilization24h: 0.62,
-    valueUSD: 26000,
-  },
-  {
-    id: '3',
-    chain: 'ethereum',
-    strategy: 'XYK',
-    strategyHash: '0x3456...7890',
-    token0: { address: '0x...', symbol: 'ARB', amount: '15000' },
-    token1: { address: '0x...', symbol: 'USDC', amount: '18000' },
-    feeTier: 100,
-    earnedFees24h: 210.00,
-    earnedFeesTotal: 8900.00,
-    impermanentLoss: -4.5,
-    utilization24h: 0.78,
-    valueUSD: 36000,
-  },
-];
+interface ValuedPosition {
+  position: Position;
+  valuation: PositionValuation;
+}
+
+const withValuation = (position: Omit<Position, ValuedField>, input: ValuationInput): ValuedPosition => {
+  const valuation = valuePosition(input);
+  return {
+    position: {
+      ...position,
+      token0: { ...position.token0, amount: formatUnits(input.reserves[0], input.decimals[0]) },
+      token1: { ...position.token1, amount: formatUnits(input.reserves[1], input.decimals[1]) },
+      earnedFees24h: valuation.earnedFees24h,
+      earnedFeesTotal: valuation.earnedFeesTotal,
+      impermanentLoss: valuation.impermanentLoss,
+      utilization24h: valuation.utilization24h,
+      valueUSD: valuation.valueUSD,
+    },
+    valuation,
+  };
+};
+
+const CHAIN_NAMES: { [chainId: string]: string } = {
+  '1': 'ethereum',
+  '10': 'optimism',
+  '137': 'polygon',
+  '8453': 'base',
+  '42161': 'arbitrum',
+  '31337': 'localhost',
+};
+
+// Positions and balances come from scripts/indexer.ts when it is configured
+const indexer = import.meta.env.VITE_INDEXER_URL ? new IndexerClient(import.meta.env.VITE_INDEXER_URL) : null;
+
+const toValuedPosition = (view: PositionView, chainId: string): ValuedPosition => {
+  let feeBps = 0n;
+  let strategy = 'Custom';
+  try {
+    if (view.strategyData) {
+      feeBps = decodeXYKStrategyParams(view.strategyData).feeBps;
+      strategy = 'XYK';
+    }
+  } catch {
+    // Not XYK parameters; keep the generic label and leave fees at zero
+  }
+  const [meta0, meta1] = view.tokenMetadata;
+  return withValuation({
+    id: view.strategyHash,
+    chain: CHAIN_NAMES[chainId] ?? chainId,
+    strategy,
+    strategyHash: view.strategyHash,
+    token0: { address: view.tokens[0], symbol: meta0.symbol, amount: '' },
+    token1: { address: view.tokens[1], symbol: meta1.symbol, amount: '' },
+    feeTier: Number(feeBps),
+  }, {
+    decimals: [meta0.decimals, meta1.decimals],
+    shipped: [view.shipped[0], view.shipped[1]],
+    reserves: [view.balances[0], view.balances[1]],
+    feeBps,
+    flows: view.flows,
+    pricesUSD: [stablecoinPrice(meta0.symbol), stablecoinPrice(meta1.symbol)],
+  });
+};
+
+// Contracts the app cannot run without on a connected chain
+const REQUIRED_CONTRACTS = ['LiquidFlowCore', 'BatchProcessor'];
+
+type SetState = (update: (state: AppState) => Partial<AppState>) => void;
+type GetState = () => AppState;
+
+// One commit-reveal client per session; it keeps revealing in the background
+let commitRevealClient: Promise<CommitRevealClient> | null = null;
+
+// The connected wallet; its events keep the wallet slice in sync
+let walletConnection: WalletConnection | null = null;
+let discoveredWallets: EIP6963ProviderDetail[] = [];
+
+const WALLET_STORAGE_KEY = 'liquidflow:wallet';
+
+const getCommitRevealClient = (set: SetState, get: GetState) => {
+  if (!commitRevealClient) {
+    commitRevealClient = (async () => {
+      const { manifest, status } = get().deployment;
+      if (!manifest || status !== 'ready') throw new Error('No verified deployment for this network');
+      const batchProcessor = contractAddress(manifest, 'BatchProcessor');
+      if (!walletConnection) throw new Error('Wallet not connected');
+
+      const provider = walletConnection.browserProvider();
+      const { chainId } = await provider.getNetwork();
+      const client = new CommitRevealClient({
+        signer: await provider.getSigner(),
+        batchProcessor,
+        chainId,
+        onChange: (commitments) => set(state => ({ intents: { ...state.intents, commitments } })),
+        onWarning: (warning) => set(state => ({
+          intents: { ...state.intents, revealWarnings: [...state.intents.revealWarnings, warning] }
+        })),
+        onTransaction: (response, label) => get().transactions.track(response, label),
+      });
+      await client.start();
+      return client;
+    })();
+    commitRevealClient.catch(() => {
+      commitRevealClient = null;
+    });
+  }
+  return commitRevealClient;
+};
+
+// The client signs as one account on one chain, so it is rebuilt when either changes
+const resetCommitRevealClient = () => {
+  commitRevealClient?.then(client => client.stop()).catch(() => undefined);
+  commitRevealClient = null;
+};
+
+// Follows the connected account's transactions on the connected chain
+let transactionTracker: TransactionTracker | null = null;
+
+const resetTransactionTracker = (set: SetState, get: GetState) => {
+  void transactionTracker?.stop();
+  transactionTracker = null;
+  const { address, chainId } = get().wallet;
+  if (walletConnection && address && chainId) {
+    transactionTracker = new TransactionTracker({
+      provider: walletConnection.browserProvider(),
+      chainId,
+      account: address,
+      onChange: (records) => set(state => ({ transactions: { ...state.transactions, records } })),
+    });
+    transactionTracker.start();
+  }
+  set(state => ({ transactions: { ...state.transactions, records: transactionTracker?.records() ?? [] } }));
+};
+
+const getTransactionTracker = () => {
+  if (!transactionTracker) throw new Error('Wallet not connected');
+  return transactionTracker;
+};
+
+const tokenSymbol = (get: GetState, address: string) =>
+  get().tokenList.tokens.find(token => token.address.toLowerCase() === address.toLowerCase())?.symbol ?? `${address.slice(0, 8)}...`;
+
+const tokenPreferences = new TokenPreferencesStore();
+
+// Lists are static per URL for the session
+const tokenLists = new Map<string, Promise<TokenList>>();
+
+const loadTokenList = (url: string) => {
+  if (!tokenLists.has(url)) {
+    const list = fetchTokenList(url);
+    list.catch(() => tokenLists.delete(url));
+    tokenLists.set(url, list);
+  }
+  return tokenLists.get(url)!;
+};
+
+const SWAP_SETTINGS_STORAGE_KEY = 'liquidflow:swap-settings';
+
+const loadSwapSettings = (): SwapSettings => {
+  try {
+    const stored = { ...DEFAULT_SWAP_SETTINGS, ...JSON.parse(localStorage.getItem(SWAP_SETTINGS_STORAGE_KEY) ?? '{}') };
+    return validateSwapSettings(stored).length === 0 ? stored : DEFAULT_SWAP_SETTINGS;
+  } catch {
+    return DEFAULT_SWAP_SETTINGS;
+  }
+};
+
+const APPROVAL_MODE_STORAGE_KEY = 'liquidflow:approval-mode';
+
+const loadApprovalMode = (): ApprovalMode =>
+  localStorage.getItem(APPROVAL_MODE_STORAGE_KEY) === 'unlimited' ? 'unlimited' : 'exact';
+
+// Permits are signed by one account on one chain
+const resetPermits = (set: SetState) => set(state => ({ approvals: { ...state.approvals, permits: {} } }));
+
+const BRIDGE_WEIGHTS_STORAGE_KEY = 'liquidflow:bridge-weights';
+
+const loadBridgeWeights = (): BridgeWeights => {
+  try {
+    const stored = { ...DEFAULT_BRIDGE_WEIGHTS, ...JSON.parse(localStorage.getItem(BRIDGE_WEIGHTS_STORAGE_KEY) ?? '{}') };
+    return validateBridgeWeights(stored).length === 0 ? stored : DEFAULT_BRIDGE_WEIGHTS;
+  } catch {
+    return DEFAULT_BRIDGE_WEIGHTS;
+  }
+};
+
+// Only the latest quote request may write the slice
+let bridgeQuoteRequest = 0;
+
+// Quotes and transfers belong to one account on one chain
+const resetBridge = (set: SetState) => {
+  bridgeQuoteRequest++;
+  set(state => ({
+    bridge: { ...state.bridge, route: null, quotes: [], quotesStatus: 'idle', quotesError: null, transfers: [], transfersError: null },
+  }));
+};
+
+// The withdrawal queue belongs to one account on one chain
+const resetWithdrawals = (set: SetState) => {
+  set(state => ({ withdrawals: { ...state.withdrawals, pending: [], paused: false, isOwner: false, error: null } }));
+};
+
+// Sends a LiquidFlowCore call for a dock, then reads back what it changed
+const sendDock = async (
+  get: GetState,
+  call: (core: Contract) => Promise<TransactionResponse>,
+  label: string,
+) => {
+  if (!walletConnection) throw new Error('Wallet not connected');
+  const core = new Contract(contractAddress(readyManifest(get), 'LiquidFlowCore'), LIQUID_FLOW_CORE_ABI, await walletConnection.browserProvider().getSigner());
+  const tx = await call(core);
+  get().transactions.track(tx, label);
+  await tx.wait();
+  const { address } = get().wallet;
+  if (address) get().lp.fetchPositions(address).catch(() => undefined);
+  await get().withdrawals.refresh();
+};
+
+// Positions only carry the strategy's label; the core knows its contract and LP
+const shippedStrategyOf = async (get: GetState, strategyHash: string) => {
+  if (!walletConnection) throw new Error('Wallet not connected');
+  const core = new Contract(contractAddress(readyManifest(get), 'LiquidFlowCore'), LIQUID_FLOW_CORE_ABI, walletConnection.browserProvider());
+  const { strategyContract, lp } = await core.getStrategy(strategyHash);
+  return { strategy: strategyContract as string, lp: lp as string };
+};
+
+const pairLabel = (get: GetState, tokens: string[]) => tokens.map(token => tokenSymbol(get, token)).join('/');
+
+const governanceService = import.meta.env.VITE_GOVERNANCE_URL ? new GovernanceClient(import.meta.env.VITE_GOVERNANCE_URL) : null;
+
+// Previews of proposals kept in this browser run on this node, e.g. `yarn node:fork`, as it was forked
+const governanceFork = import.meta.env.VITE_GOVERNANCE_FORK_URL ? new JsonRpcProvider(import.meta.env.VITE_GOVERNANCE_FORK_URL) : null;
+
+const GOVERNED_CONTRACTS = ['LiquidFlowCore', 'BatchProcessor', 'FeeDistributor', 'RewardsController'] as const;
+
+const governedAddresses = (manifest: DeploymentManifest): GovernedAddresses =>
+  Object.fromEntries(GOVERNED_CONTRACTS.filter(name => manifest.contracts[name]).map(name => [name, contractAddress(manifest, name)]));
+
+// Voting power is read at each proposal's snapshot, so it belongs to one account on one chain
+const resetGovernance = (set: SetState) => {
+  set(state => ({ governance: { ...state.governance, proposals: [], votingPower: {}, error: null } }));
+};
+
+// Proposals are signed for the chain and VotingEscrow of the deployment; without
+// VITE_GOVERNANCE_URL they are kept in this browser
+const governanceContext = (get: GetState) => {
+  const manifest = readyManifest(get);
+  if (!walletConnection) throw new Error('Wallet not connected');
+  const provider = walletConnection.browserProvider();
+  const votingEscrow = contractAddress(manifest, 'VotingEscrow');
+  const contracts = governedAddresses(manifest);
+  const backend: GovernanceBackend = governanceService ?? new LocalGovernance({
+    provider,
+    chainId: manifest.chainId,
+    votingEscrow,
+    contracts,
+    fork: governanceFork ? { provider: governanceFork } : undefined,
+  });
+  return { provider, votingEscrow, contracts, backend, domain: governanceDomain(manifest.chainId, votingEscrow) };
+};
+
+const ALLOCATION_STORAGE_KEY = 'liquidflow:allocation';
+
+// Runs the account's allocation, switching the wallet between chains as it goes
+let allocationExecutor: AllocationExecutor | null = null;
+
+// Switches the wallet to the chain and waits for its verified deployment
+const connectChain = async (get: GetState, chainId: number) => {
+  if (get().wallet.chainId !== chainId) {
+    await get().wallet.switchChain(chainId);
+    if (get().wallet.chainId !== chainId) throw new Error(get().wallet.error ?? `Switch the wallet to chain ${chainId}`);
+  }
+  const { deployment } = get();
+  if (deployment.chainId !== chainId || deployment.status !== 'ready') await deployment.load(chainId);
+  const manifest = readyManifest(get);
+  if (!walletConnection) throw new Error('Wallet not connected');
+  return {
+    signer: await walletConnection.browserProvider().getSigner(),
+    contracts: {
+      liquidFlowCore: contractAddress(manifest, 'LiquidFlowCore'),
+      liquidFlowRouter: contractAddress(manifest, 'LiquidFlowRouter'),
+      xykStrategy: contractAddress(manifest, 'XYKStrategy'),
+      bridgeRouter: contractAddress(manifest, 'BridgeRouter'),
+    },
+  };
+};
+
+const getAllocationExecutor = (set: SetState, get: GetState) => {
+  const { address } = get().wallet;
+  if (!address) throw new Error('Wallet not connected');
+  if (!allocationExecutor) {
+    allocationExecutor = new AllocationExecutor({
+      key: `${ALLOCATION_STORAGE_KEY}:${getAddress(address)}`,
+      // Bridge providers are picked under the weights at the time of each transfer
+      runStep: (step, context) => allocationStepRunner({
+        connect: (chainId) => connectChain(get, chainId),
+        bridgeWeights: get().bridge.weights,
+        onTransaction: (response, label) => get().transactions.track(response, label),
+      })(step, context),
+      onChange: (run) => set(state => ({ allocation: { ...state.allocation, run } })),
+    });
+  }
+  return allocationExecutor;
+};
+
+// The run belongs to one account; unlike the other clients it outlives chain
+// switches, since it makes them itself
+const resetAllocation = (set: SetState, get: GetState) => {
+  allocationExecutor?.stop();
+  allocationExecutor = null;
+  const run = get().wallet.address ? getAllocationExecutor(set, get).current() : null;
+  set(state => ({ allocation: { ...state.allocation, run } }));
+};
+
+// Runs an executor call, then refreshes what the run may have changed
+const runAllocation = async (set: SetState, get: GetState, call: (executor: AllocationExecutor) => Promise<AllocationRun>) => {
+  const executor = getAllocationExecutor(set, get);
+  executor.start();
+  const run = await call(executor);
+  const { address } = get().wallet;
+  if (address) get().lp.fetchPositions(address).catch(() => undefined);
+  get().tokenList.refreshBalances().catch(() => undefined);
+  return run;
+};
+
+const readyManifest = (get: GetState) => {
+  const { manifest, status } = get().deployment;
+  if (!manifest || status !== 'ready') throw new Error('No verified deployment for this network');
+  return manifest;
+};
+
+const provisionRequest = (get: GetState, { tokenA, tokenB, feeBps, label }: PositionKey) => {
+  const { address } = get().wallet;
+  if (!walletConnection || !address) throw new Error('Wallet not connected');
+  const manifest = readyManifest(get);
+  const request: ProvisionRequest = { lp: address, strategy: contractAddress(manifest, 'XYKStrategy'), tokenA, tokenB, feeBps, salt: saltFromLabel(label) };
+  return { request, manifest, provider: walletConnection.browserProvider() };
+};
+
+// XYKStrategy positions shipped on the connected chain, as seen by the indexer,
+// or read from the core's logs when there is none
+const swapVenueSource = (get: GetState): VenueSource => async (pairs) => {
+  const { manifest, status } = get().deployment;
+  if (!manifest || status !== 'ready') throw new Error('No verified deployment for this network');
+  if (!walletConnection) throw new Error('Wallet not connected');
+
+  const provider = walletConnection.browserProvider();
+  const strategy = contractAddress(manifest, 'XYKStrategy');
+  const liquidFlowCore = contractAddress(manifest, 'LiquidFlowCore');
+  let positions: XYKStrategyParams[];
+  if (indexer) {
+    const indexerStatus = await indexer.status();
+    if (Number(indexerStatus.chainId) !== manifest.chainId) throw new Error(`Indexer follows chain ${indexerStatus.chainId}`);
+    const events = await indexer.events({ names: ['StrategyShipped', 'StrategyDocked'] });
+    positions = derivePositions(events)
+      .filter(position => position.active && position.strategyData && getAddress(position.strategy) === strategy)
+      .map(position => decodeXYKStrategyParams(position.strategyData!));
+  } else {
+    positions = await fetchShippedPositions(provider, liquidFlowCore, strategy, manifest.contracts.LiquidFlowCore.blockNumber);
+  }
+  const core = new Contract(liquidFlowCore, LIQUID_FLOW_CORE_ABI, provider);
+  const protocolFeeBps: bigint = await core.protocolFeeBps();
+  return xykVenueSource(provider, strategy, positions, protocolFeeBps, manifest.contracts.LiquidFlowRouter?.address)(pairs);
+};
+
+// One quote pipeline per chain; its timers keep the quote on screen fresh
+let quotePipeline: QuotePipeline | null = null;
+
+const getQuotePipeline = (set: SetState, get: GetState) => {
+  if (!quotePipeline) {
+    quotePipeline = new QuotePipeline({
+      fetchQuote: (request) => bestQuote(swapVenueSource(get), request),
+      onChange: (quote) => set(state => ({ swap: { ...state.swap, quote } })),
+    });
+  }
+  return quotePipeline;
+};
+
+const resetQuotePipeline = (set: SetState) => {
+  quotePipeline?.stop();
+  quotePipeline = null;
+  set(state => ({ swap: { ...state.swap, quote: IDLE_QUOTE } }));
+};
 
 export const useStore = create<AppState>((set, get) => ({
   wallet: {
     address: null,
     chainId: null,
     isConnected: false,
+    walletName: null,
+    choices: [],
+    error: null,
     connect: async () => {
-      // Mock wallet connection
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      set(state => ({ wallet: { ...state.wallet, error: null } }));
+      const announced = await discoverWallets(window);
+      const legacy = legacyWallet(window.ethereum);
+      discoveredWallets = announced.length > 0 ? announced : legacy ? [legacy] : [];
+
+      // Reconnect to the wallet used last time, or the only one installed
+      const preferred = localStorage.getItem(WALLET_STORAGE_KEY);
+      const wallet = discoveredWallets.find(candidate => candidate.info.rdns === preferred)
+        ?? (discoveredWallets.length === 1 ? discoveredWallets[0] : null);
+      if (wallet) return get().wallet.connectWith(wallet.info.uuid);
+
       set(state => ({
         wallet: {
           ...state.wallet,
-          address: '0x742d35Cc6634C0532925a3b844Bc9e7595f8fE21',
-          chainId: 42161,
-          isConnected: true,
+          choices: discoveredWallets.map(candidate => candidate.info),
+          error: discoveredWallets.length === 0 ? 'No wallet found. Install a browser wallet to continue.' : null,
         }
       }));
-      // Fetch data after connection
-      get().lp.fetchPositions('0x742d35Cc6634C0532925a3b844Bc9e7595f8fE21');
-      get().token.fetchBalances('0x742d35Cc6634C0532925a3b844Bc9e7595f8fE21');
+    },
+    connectWith: async (uuid: string) => {
+      const wallet = discoveredWallets.find(candidate => candidate.info.uuid === uuid);
+      if (!wallet) throw new Error('Unknown wallet');
+
+      const loadAccount = (address: string) => {
+        const { chainId } = get().wallet;
+        if (chainId) get().tokenList.load(chainId);
+        get().lp.fetchPositions(address);
+        get().token.fetchBalances(address);
+        // Commitments from an earlier session still need their reveal
+        get().intents.resumeCommitments().catch(() => undefined);
+      };
+      const connection = new WalletConnection(wallet, {
+        onAccountsChanged: (accounts) => {
+          if (accounts.length === 0) return get().wallet.disconnect();
+          resetCommitRevealClient();
+          resetPermits(set);
+          resetBridge(set);
+          resetWithdrawals(set);
+          resetGovernance(set);
+          set(state => ({
+            wallet: { ...state.wallet, address: accounts[0] },
+            intents: { ...state.intents, tracked: [], trackedError: null },
+          }));
+          resetTransactionTracker(set, get);
+          resetAllocation(set, get);
+          loadAccount(accounts[0]);
+        },
+        onChainChanged: async (chainId) => {
+          resetCommitRevealClient();
+          resetQuotePipeline(set);
+          resetPermits(set);
+          resetBridge(set);
+          resetWithdrawals(set);
+          resetGovernance(set);
+          set(state => ({
+            wallet: { ...state.wallet, chainId },
+            intents: { ...state.intents, tracked: [], trackedError: null },
+          }));
+          resetTransactionTracker(set, get);
+          const { address } = get().wallet;
+          if (await get().deployment.load(chainId) && address) loadAccount(address);
+        },
+        onDisconnect: () => get().wallet.disconnect(),
+      });
+
+      try {
+        const session = await connection.connect();
+        walletConnection?.disconnect();
+        walletConnection = connection;
+        resetCommitRevealClient();
+        resetQuotePipeline(set);
+        resetPermits(set);
+        resetBridge(set);
+        resetWithdrawals(set);
+        resetGovernance(set);
+        localStorage.setItem(WALLET_STORAGE_KEY, wallet.info.rdns);
+        set(state => ({
+          wallet: {
+            ...state.wallet,
+            address: session.address,
+            chainId: session.chainId,
+            isConnected: true,
+            walletName: wallet.info.name,
+            choices: [],
+            error: null,
+          }
+        }));
+        resetTransactionTracker(set, get);
+        resetAllocation(set, get);
+        if (await get().deployment.load(session.chainId)) loadAccount(session.address);
+      } catch (error) {
+        set(state => ({
+          wallet: {
+            ...state.wallet,
+            choices: [],
+            error: isUserRejection(error) ? 'Connection request rejected' : (error as Error).message,
+          }
+        }));
+      }
     },
     disconnect: () => {
+      walletConnection?.disconnect();
+      walletConnection = null;
+      void transactionTracker?.stop();
+      transactionTracker = null;
+      allocationExecutor?.stop();
+      allocationExecutor = null;
+      resetCommitRevealClient();
+      resetQuotePipeline(set);
+      resetPermits(set);
+      resetBridge(set);
+      resetWithdrawals(set);
+      resetGovernance(set);
+      localStorage.removeItem(WALLET_STORAGE_KEY);
       set(state => ({
         wallet: {
           ...state.wallet,
           address: null,
           chainId: null,
           isConnected: false,
+          walletName: null,
+          choices: [],
         },
+        transactions: { ...state.transactions, records: [] },
+        intents: { ...state.intents, tracked: [], trackedError: null },
+        allocation: { ...state.allocation, run: null },
+        deployment: { ...state.deployment, chainId: null, manifest: null, status: 'idle', issues: [], error: null },
+        tokenList: { ...state.tokenList, chainId: null, tokens: [], favorites: [], balances: {}, status: 'idle', errors: [] },
         lp: {
           ...state.lp,
           positions: [],
           totalValueUSD: 0,
           totalEarned24h: 0,
           totalEarnedAll: 0,
+          valueChange24h: 0,
+          earnedChange24h: 0,
           pendingRewards: 0,
         }
       }));
     },
     switchChain: async (chainId: number) => {
-      await new Promise(resolve => setTimeout(resolve, 500));
-      set(state => ({
-        wallet: { ...state.wallet, chainId }
-      }));
+      if (!walletConnection) return;
+      try {
+        await walletConnection.switchChain(chainId);
+        // chainChanged follows as well; not every wallet emits it for an unchanged chain
+        set(state => ({ wallet: { ...state.wallet, chainId, error: null } }));
+      } catch (error) {
+        set(state => ({
+          wallet: {
+            ...state.wallet,
+            error: isUserRejection(error) ? 'Network switch rejected' : (error as Error).message,
+          }
+        }));
+      }
+    },
+  },
+  deployment: {
+    chainId: null,
+    manifest: null,
+    status: 'idle',
+    issues: [],
+    error: null,
+    // Resolves to whether the app may use the chain
+    load: async (chainId: number) => {
+      set(state => ({ deployment: { ...state.deployment, chainId, manifest: null, status: 'loading', issues: [], error: null } }));
+      // A newer load (the chain changed again) owns the slice
+      const settle = (update: Partial<DeploymentState>) => {
+        if (get().deployment.chainId !== chainId) return false;
+        set(state => ({ deployment: { ...state.deployment, ...update } }));
+        return update.status === 'ready';
+      };
+      try {
+        const manifest = await fetchManifest(chainId, import.meta.env.BASE_URL);
+        if (!manifest) return settle({ status: 'missing' });
+        if (!walletConnection) throw new Error('Wallet not connected');
+        const issues = await verifyManifest(manifest, walletConnection.browserProvider(), { chainId, required: REQUIRED_CONTRACTS });
+        return settle({ manifest, issues, status: issues.length === 0 ? 'ready' : 'stale' });
+      } catch (error) {
+        return settle({ status: 'error', error: (error as Error).message });
+      }
     },
   },
   lp: {
@@ -145,23 +855,67 @@ export const useStore = create<AppState>((set, get) => ({
     totalValueUSD: 0,
     totalEarned24h: 0,
     totalEarnedAll: 0,
+    valueChange24h: 0,
+    earnedChange24h: 0,
     pendingRewards: 0,
+    indexed: indexer !== null,
     fetchPositions: async (address: string) => {
-      await new Promise(resolve => setTimeout(resolve, 800));
-      const totalValue = mockPositions.reduce((sum, p) => sum + p.valueUSD, 0);
-      const earned24h = mockPositions.reduce((sum, p) => sum + p.earnedFees24h, 0);
-      const earnedAll = mockPositions.reduce((sum, p) => sum + p.earnedFeesTotal, 0);
+      if (!indexer) return;
+      const [status, views, account] = await Promise.all([indexer.status(), indexer.positions(address), indexer.account(address)]);
+      const valued = views
+        .filter(view => view.active && view.tokens.length === 2)
+        .map(view => toValuedPosition(view, status.chainId));
+      const pendingRewards = Number(formatUnits(account.pendingRewards, 18));
+      const summary = summarizeValuations(valued.map(({ valuation }) => valuation));
       set(state => ({
         lp: {
           ...state.lp,
-          positions: mockPositions,
-          totalValueUSD: totalValue,
-          totalEarned24h: earned24h,
-          totalEarnedAll: earnedAll,
-          pendingRewards: 1250.5,
+          positions: valued.map(({ position }) => position),
+          totalValueUSD: summary.totalValueUSD,
+          totalEarned24h: summary.totalEarned24h,
+          totalEarnedAll: summary.totalEarnedAll,
+          valueChange24h: summary.valueChange24h,
+          earnedChange24h: summary.earnedChange24h,
+          pendingRewards,
         }
       }));
     },
+    fetchReserves: async (position: PositionKey) => {
+      const { request, manifest, provider } = provisionRequest(get, position);
+      return fetchPositionReserves(provider, contractAddress(manifest, 'LiquidFlowCore'), request);
+    },
+    provide: async (position: PositionKey, added: [bigint, bigint], payWithEth: boolean) => {
+      const { request, manifest, provider } = provisionRequest(get, position);
+      // Read again right before shipping, since the ship replaces the position's balances
+      const reserves = await fetchPositionReserves(provider, contractAddress(manifest, 'LiquidFlowCore'), request);
+      const provision = buildProvision(request, reserves, added);
+      const router = new Contract(contractAddress(manifest, 'LiquidFlowRouter'), LIQUID_FLOW_ROUTER_ABI, await provider.getSigner());
+
+      const args = [request.strategy, provision.strategyData, provision.tokens, provision.amounts];
+      let tx: TransactionResponse;
+      if (payWithEth) {
+        const weth = getAddress(await router.WETH());
+        const side = [request.tokenA, request.tokenB].map(token => getAddress(token)).indexOf(weth);
+        if (side < 0) throw new Error('Neither token is wrapped ETH');
+        tx = await router.provideLiquidityETH(...args, { value: added[side] });
+      } else {
+        tx = await router.provideLiquidity(...args);
+      }
+      get().transactions.track(tx, `Provide ${tokenSymbol(get, request.tokenA)}/${tokenSymbol(get, request.tokenB)}`);
+      const receipt = await tx.wait();
+
+      const shipped = shippedStrategy(receipt!.logs);
+      if (shipped.strategyHash !== provision.strategyHash || shipped.lp !== provision.params.lp) {
+        throw new Error('The shipped strategy is not the requested position');
+      }
+      get().lp.fetchPositions(request.lp).catch(() => undefined);
+      return shipped;
+    },
+    wrappedNative: async () => {
+      if (!walletConnection) throw new Error('Wallet not connected');
+      const router = new Contract(contractAddress(readyManifest(get), 'LiquidFlowRouter'), LIQUID_FLOW_ROUTER_ABI, walletConnection.browserProvider());
+      return getAddress(await router.WETH());
+    },
   },
   token: {
     lfBalance: '0',
@@ -170,23 +924,461 @@ export const useStore = create<AppState>((set, get) => ({
     lockEnd: null,
     votingPower: 0,
     pendingFees: {},
+    indexed: indexer !== null,
     fetchBalances: async (address: string) => {
-      await new Promise(resolve => setTimeout(resolve, 600));
+      if (!indexer) return;
+      const { balances, pendingFees } = await indexer.account(address);
       set(state => ({
         token: {
           ...state.token,
-          lfBalance: '5420.50',
-          blfBalance: '2500.00',
-          veblfBalance: '1875.00',
-          lockEnd: Date.now() + 365 * 24 * 60 * 60 * 1000 * 2, // 2 years from now
-          votingPower: 1875,
-          pendingFees: {
-            USDC: '125.50',
-            WETH: '0.05',
-            ARB: '45.00',
-          }
+          lfBalance: formatUnits(balances?.lf ?? 0n, 18),
+          blfBalance: formatUnits(balances?.blf ?? 0n, 18),
+          veblfBalance: formatUnits(balances?.veblf ?? 0n, 18),
+          lockEnd: balances?.lockEnd ? Number(balances.lockEnd) * 1000 : null,
+          votingPower: Number(formatUnits(balances?.veblf ?? 0n, 18)),
+          pendingFees: Object.fromEntries(pendingFees.map(({ token, amount }) => [token.symbol, formatUnits(amount, token.decimals)])),
+        }
+      }));
+    },
+  },
+  tokenList: {
+    chainId: null,
+    tokens: [],
+    favorites: [],
+    balances: {},
+    status: 'idle',
+    errors: [],
+    load: async (chainId: number) => {
+      set(state => ({ tokenList: { ...state.tokenList, chainId, status: 'loading', errors: [] } }));
+      const errors: string[] = [];
+      const lists = (await Promise.allSettled(DEFAULT_TOKEN_LISTS.map(path => loadTokenList(`${import.meta.env.BASE_URL}${path}`))))
+        .flatMap(result => {
+          if (result.status === 'fulfilled') return [result.value];
+          errors.push((result.reason as Error).message);
+          return [];
+        });
+
+      let deployed: TokenInfo[] = [];
+      const { manifest } = get().deployment;
+      if (manifest?.chainId === chainId && walletConnection) {
+        try {
+          deployed = await deploymentTokens(walletConnection.browserProvider(), manifest);
+        } catch (error) {
+          errors.push(`Protocol tokens: ${(error as Error).message}`);
+        }
+      }
+
+      // A newer load (the chain changed again) owns the slice
+      if (get().tokenList.chainId !== chainId) return;
+      const { imported, favorites } = tokenPreferences.load(chainId);
+      const tokens = mergeTokens(lists, deployed, imported, chainId);
+      set(state => ({
+        tokenList: {
+          ...state.tokenList,
+          tokens,
+          favorites,
+          balances: {},
+          status: tokens.length === 0 && errors.length > 0 ? 'error' : 'ready',
+          errors,
+        }
+      }));
+      await get().tokenList.refreshBalances();
+    },
+    refreshBalances: async () => {
+      const { address } = get().wallet;
+      const { chainId, tokens } = get().tokenList;
+      if (!address || !chainId || !walletConnection) return;
+      const balances = await fetchTokenBalances(walletConnection.browserProvider(), address, tokens);
+      if (get().tokenList.chainId !== chainId) return;
+      set(state => ({ tokenList: { ...state.tokenList, balances } }));
+    },
+    lookup: async (address: string) => {
+      const { chainId, tokens } = get().tokenList;
+      const known = tokens.find(token => token.address.toLowerCase() === address.toLowerCase());
+      if (known) return known;
+      if (!chainId || !walletConnection) throw new Error('Wallet not connected');
+      const metadata = await fetchTokenMetadata(walletConnection.browserProvider(), address, chainId);
+      return { ...metadata, source: 'imported', verified: false };
+    },
+    importToken: (token: TokenInfo) => {
+      const { favorites } = tokenPreferences.addImported(token);
+      set(state => ({
+        tokenList: {
+          ...state.tokenList,
+          tokens: [
+            ...state.tokenList.tokens.filter(entry => entry.address.toLowerCase() !== token.address.toLowerCase()),
+            { ...token, source: 'imported', verified: false },
+          ],
+          favorites,
+        }
+      }));
+      get().tokenList.refreshBalances().catch(() => undefined);
+    },
+    removeImported: (address: string) => {
+      const { chainId } = get().tokenList;
+      if (!chainId) return;
+      const { favorites } = tokenPreferences.removeImported(chainId, address);
+      set(state => ({
+        tokenList: {
+          ...state.tokenList,
+          tokens: state.tokenList.tokens.filter(token => token.source !== 'imported' || token.address.toLowerCase() !== address.toLowerCase()),
+          favorites,
         }
       }));
     },
+    toggleFavorite: (address: string) => {
+      const { chainId } = get().tokenList;
+      if (!chainId) return;
+      const { favorites } = tokenPreferences.toggleFavorite(chainId, address);
+      set(state => ({ tokenList: { ...state.tokenList, favorites } }));
+    },
+  },
+  intents: {
+    commitments: [],
+    revealWarnings: [],
+    submitCommitted: async (params: IntentParams) => {
+      const client = await getCommitRevealClient(set, get);
+      return client.commit(params);
+    },
+    resumeCommitments: async () => {
+      const client = await getCommitRevealClient(set, get);
+      const commitments = await client.records();
+      set(state => ({ intents: { ...state.intents, commitments } }));
+    },
+    dismissWarning: (intentId: string) => {
+      set(state => ({
+        intents: {
+          ...state.intents,
+          revealWarnings: state.intents.revealWarnings.filter(warning => warning.intentId !== intentId),
+        }
+      }));
+    },
+    tracked: [],
+    trackedError: null,
+    refreshTracked: async () => {
+      const manifest = readyManifest(get);
+      const { address } = get().wallet;
+      if (!walletConnection || !address) throw new Error('Wallet not connected');
+      try {
+        const tracked = await fetchAccountIntents(
+          walletConnection.browserProvider(),
+          {
+            batchProcessor: contractAddress(manifest, 'BatchProcessor'),
+            router: manifest.contracts.LiquidFlowRouter?.address,
+          },
+          address,
+          manifest.contracts.BatchProcessor.blockNumber,
+        );
+        // The account may have changed while reading
+        if (get().wallet.address !== address) return;
+        set(state => ({ intents: { ...state.intents, tracked, trackedError: null } }));
+      } catch (error) {
+        set(state => ({ intents: { ...state.intents, trackedError: describeError(error) } }));
+      }
+    },
+    cancel: async (intentId: string) => {
+      const intent = get().intents.tracked.find(candidate => candidate.intentId === intentId);
+      if (!intent) throw new Error('Unknown intent');
+      if (get().intents.commitments.some(record => record.intentId === intentId)) {
+        // The client also stops revealing it
+        const client = await getCommitRevealClient(set, get);
+        await client.cancel(intentId);
+      } else {
+        const manifest = readyManifest(get);
+        if (!walletConnection) throw new Error('Wallet not connected');
+        const signer = await walletConnection.browserProvider().getSigner();
+        // Router swaps are owned by the router on chain, which refunds the input
+        const contract = intent.via === 'router'
+          ? new Contract(contractAddress(manifest, 'LiquidFlowRouter'), LIQUID_FLOW_ROUTER_ABI, signer)
+          : new Contract(contractAddress(manifest, 'BatchProcessor'), BATCH_PROCESSOR_ABI, signer);
+        const tx = await contract.cancelIntent(intentId);
+        get().transactions.track(tx, `Cancel swap of ${tokenSymbol(get, intent.tokenIn)}`);
+        await tx.wait();
+      }
+      await get().intents.refreshTracked();
+    },
+  },
+  swap: {
+    settings: loadSwapSettings(),
+    quote: IDLE_QUOTE,
+    updateSettings: (update: Partial<SwapSettings>) => {
+      const settings = { ...get().swap.settings, ...update };
+      const errors = validateSwapSettings(settings);
+      if (errors.length > 0) return errors;
+      localStorage.setItem(SWAP_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+      set(state => ({ swap: { ...state.swap, settings } }));
+      return [];
+    },
+    requestQuote: (request: QuoteRequest | null) => {
+      getQuotePipeline(set, get).update(request);
+    },
+    requote: () => getQuotePipeline(set, get).requote(),
+    submitDirect: async ({ quote, minAmountOut }: DirectSwap) => {
+      const { address } = get().wallet;
+      if (!walletConnection || !address) throw new Error('Wallet not connected');
+      const signer = await walletConnection.browserProvider().getSigner();
+      const { tokenIn, tokenOut, amountIn } = quote.request;
+      const tx = await signer.sendTransaction({
+        to: quote.venue.target,
+        data: quote.venue.encodeSwap(quote.zeroForOne, amountIn, minAmountOut, address),
+      });
+      get().transactions.track(tx, `Swap ${tokenSymbol(get, tokenIn)} for ${tokenSymbol(get, tokenOut)}`);
+      await tx.wait();
+      return tx.hash as string;
+    },
+  },
+  approvals: {
+    mode: loadApprovalMode(),
+    permits: {},
+    setMode: (mode: ApprovalMode) => {
+      localStorage.setItem(APPROVAL_MODE_STORAGE_KEY, mode);
+      set(state => ({ approvals: { ...state.approvals, mode } }));
+    },
+    check: async (token: string, target: ApprovalTarget, amount: bigint) => {
+      const spender = spenderAddress(readyManifest(get), target);
+      const { address } = get().wallet;
+      if (!walletConnection || !address) throw new Error('Wallet not connected');
+      return checkAllowance(walletConnection.browserProvider(), { token, owner: address, target, spender, amount });
+    },
+    approve: async (check: AllowanceCheck) => {
+      if (!walletConnection) throw new Error('Wallet not connected');
+      const signer = await walletConnection.browserProvider().getSigner();
+      const tx = await signer.sendTransaction(buildApproval(check, get().approvals.mode));
+      get().transactions.track(tx, `Approve ${tokenSymbol(get, check.token)}`);
+      await tx.wait();
+    },
+    signPermit: async (check: AllowanceCheck) => {
+      if (!check.permitDomain) throw new Error('Token does not support permits');
+      if (!walletConnection) throw new Error('Wallet not connected');
+      const signer = await walletConnection.browserProvider().getSigner();
+      // Valid as long as a swap submitted now would be
+      const permit = await signPermit(signer, check.permitDomain, check, swapDeadline(get().swap.settings.ttlMinutes));
+      set(state => ({
+        approvals: { ...state.approvals, permits: { ...state.approvals.permits, [permitKey(permit.token, permit.spender)]: permit } },
+      }));
+      return permit;
+    },
+  },
+  transactions: {
+    records: [],
+    track: (response: TransactionResponse, label: string) => {
+      getTransactionTracker().track(response, label).catch(() => undefined);
+    },
+    speedUp: async (hash: string) => {
+      if (!walletConnection) throw new Error('Wallet not connected');
+      await getTransactionTracker().speedUp(hash, await walletConnection.browserProvider().getSigner());
+    },
+    cancel: async (hash: string) => {
+      if (!walletConnection) throw new Error('Wallet not connected');
+      await getTransactionTracker().cancel(hash, await walletConnection.browserProvider().getSigner());
+    },
+    clear: () => getTransactionTracker().clear(),
+  },
+  bridge: {
+    weights: loadBridgeWeights(),
+    route: null,
+    quotes: [],
+    quotesStatus: 'idle',
+    quotesError: null,
+    updateWeights: (update: Partial<BridgeWeights>) => {
+      const weights = { ...get().bridge.weights, ...update };
+      const errors = validateBridgeWeights(weights);
+      if (errors.length > 0) return errors;
+      localStorage.setItem(BRIDGE_WEIGHTS_STORAGE_KEY, JSON.stringify(weights));
+      // Ranking is local, so the quotes on screen are re-ranked without fetching
+      set(state => ({ bridge: { ...state.bridge, weights, quotes: rankBridgeQuotes(state.bridge.quotes, weights) } }));
+      return [];
+    },
+    requestQuotes: async (route: BridgeRoute | null) => {
+      const request = ++bridgeQuoteRequest;
+      if (!route) {
+        set(state => ({ bridge: { ...state.bridge, route: null, quotes: [], quotesStatus: 'idle', quotesError: null } }));
+        return;
+      }
+      set(state => ({ bridge: { ...state.bridge, route, quotesStatus: 'loading', quotesError: null } }));
+      try {
+        const manifest = readyManifest(get);
+        if (!walletConnection) throw new Error('Wallet not connected');
+        const quotes = await fetchBridgeQuotes(walletConnection.browserProvider(), contractAddress(manifest, 'BridgeRouter'), {
+          srcChain: manifest.chainId,
+          ...route,
+        });
+        if (request !== bridgeQuoteRequest) return;
+        set(state => ({
+          bridge: {
+            ...state.bridge,
+            quotes: rankBridgeQuotes(quotes, state.bridge.weights),
+            quotesStatus: 'ready',
+            quotesError: quotes.length === 0 ? 'No bridge provider is active for this route' : null,
+          },
+        }));
+      } catch (error) {
+        if (request !== bridgeQuoteRequest) return;
+        set(state => ({ bridge: { ...state.bridge, quotes: [], quotesStatus: 'error', quotesError: describeError(error) } }));
+      }
+    },
+    send: async (provider: BridgeProviderName, { dstChain, token, amount }: BridgeRoute) => {
+      const manifest = readyManifest(get);
+      const { address } = get().wallet;
+      if (!walletConnection || !address) throw new Error('Wallet not connected');
+      const router = new Contract(contractAddress(manifest, 'BridgeRouter'), BRIDGE_ROUTER_ABI, await walletConnection.browserProvider().getSigner());
+      const tx = await router.bridge(BRIDGE_PROVIDERS.indexOf(provider), dstChain, token, amount, address);
+      get().transactions.track(tx, `Bridge ${tokenSymbol(get, token)} via ${BRIDGE_PROVIDER_LABELS[provider]}`);
+      const receipt = await tx.wait();
+      await get().bridge.refreshTransfers();
+      return bridgeRequestId(receipt.logs);
+    },
+    transfers: [],
+    transfersError: null,
+    refreshTransfers: async () => {
+      const manifest = readyManifest(get);
+      const { address } = get().wallet;
+      if (!walletConnection || !address) throw new Error('Wallet not connected');
+      try {
+        const transfers = await fetchBridgeTransfers(
+          walletConnection.browserProvider(),
+          contractAddress(manifest, 'BridgeRouter'),
+          address,
+          manifest.contracts.BridgeRouter.blockNumber,
+        );
+        // The account may have changed while reading
+        if (get().wallet.address !== address) return;
+        set(state => ({ bridge: { ...state.bridge, transfers, transfersError: null } }));
+      } catch (error) {
+        set(state => ({ bridge: { ...state.bridge, transfersError: describeError(error) } }));
+      }
+    },
+  },
+  allocation: {
+    run: null,
+    plan: async ({ tokenA, tokenB, feeBps, label }: PositionKey, amounts: [bigint, bigint], shares: ChainShare[]) => {
+      const { chainId } = get().wallet;
+      if (!chainId) throw new Error('Wallet not connected');
+      const find = (address: string) => get().tokenList.tokens.find(token => token.address === address);
+      const pair = [find(tokenA), find(tokenB)];
+      if (!pair[0] || !pair[1]) throw new Error('Select both tokens');
+      const lists = await Promise.all(DEFAULT_TOKEN_LISTS.map(path => loadTokenList(`${import.meta.env.BASE_URL}${path}`)));
+      const chainIds = [chainId, ...shares.filter(share => share.percent > 0).map(share => share.chainId)];
+      return planAllocation({
+        sourceChain: chainId,
+        tokens: counterpartTokens(lists, [pair[0], pair[1]], chainIds),
+        feeBps,
+        label,
+        amounts,
+        shares,
+        symbols: [pair[0].symbol, pair[1].symbol],
+        decimals: [pair[0].decimals, pair[1].decimals],
+      });
+    },
+    execute: (plan: AllocationPlan) => runAllocation(set, get, executor => executor.begin(plan)),
+    resume: () => runAllocation(set, get, executor => executor.resume()),
+    retry: () => runAllocation(set, get, executor => executor.retry()),
+    rollback: () => runAllocation(set, get, executor => executor.rollback()),
+    dismiss: () => getAllocationExecutor(set, get).dismiss(),
+  },
+  withdrawals: {
+    pending: [],
+    clockOffset: 0,
+    paused: false,
+    isOwner: false,
+    error: null,
+    refresh: async () => {
+      const manifest = readyManifest(get);
+      const { address } = get().wallet;
+      if (!walletConnection || !address) throw new Error('Wallet not connected');
+      try {
+        const queue = await fetchWithdrawalQueue(
+          walletConnection.browserProvider(),
+          contractAddress(manifest, 'LiquidFlowCore'),
+          address,
+          manifest.contracts.LiquidFlowCore.blockNumber,
+        );
+        // The account may have changed while reading
+        if (get().wallet.address !== address) return;
+        set(state => ({
+          withdrawals: {
+            ...state.withdrawals,
+            pending: queue.pending,
+            clockOffset: queue.chainTime - Math.floor(Date.now() / 1000),
+            paused: queue.paused,
+            isOwner: queue.owner === getAddress(address),
+            error: null,
+          },
+        }));
+      } catch (error) {
+        set(state => ({ withdrawals: { ...state.withdrawals, error: describeError(error) } }));
+      }
+    },
+    requestDock: async (strategyHash: string, tokens: string[]) => {
+      const { strategy } = await shippedStrategyOf(get, strategyHash);
+      await sendDock(get, core => core.requestDock(strategy, strategyHash, tokens), `Request dock of ${pairLabel(get, tokens)}`);
+    },
+    executeDock: async (requestId: string) => {
+      const withdrawal = get().withdrawals.pending.find(candidate => candidate.requestId === requestId);
+      if (!withdrawal) throw new Error('Unknown withdrawal request');
+      await sendDock(get, core => core.executeDock(requestId), `Dock ${pairLabel(get, withdrawal.tokens)}`);
+    },
+    emergencyDock: async (strategyHash: string, tokens: string[]) => {
+      const { strategy, lp } = await shippedStrategyOf(get, strategyHash);
+      await sendDock(get, core => core.emergencyDock(lp, strategy, strategyHash, tokens), `Emergency dock of ${pairLabel(get, tokens)}`);
+    },
+  },
+  governance: {
+    proposals: [],
+    votingPower: {},
+    clockOffset: 0,
+    error: null,
+    refresh: async () => {
+      const { address } = get().wallet;
+      if (!address) throw new Error('Wallet not connected');
+      try {
+        const { provider, votingEscrow, backend } = governanceContext(get);
+        const [proposals, latest] = await Promise.all([backend.proposals(), provider.getBlock('latest')]);
+        const powers = await Promise.all(proposals.map(({ record }) => votingPower(provider, votingEscrow, address, record.proposal)));
+        // The account may have changed while reading
+        if (get().wallet.address !== address) return;
+        set(state => ({
+          governance: {
+            ...state.governance,
+            proposals,
+            votingPower: Object.fromEntries(proposals.map(({ record }, index) => [record.id, powers[index]])),
+            clockOffset: latest ? latest.timestamp - Math.floor(Date.now() / 1000) : state.governance.clockOffset,
+            error: null,
+          },
+        }));
+      } catch (error) {
+        set(state => ({ governance: { ...state.governance, error: describeError(error) } }));
+      }
+    },
+    propose: async (title: string, description: string, votingDays: number, calls: GovernanceCall[]) => {
+      const { address } = get().wallet;
+      if (!walletConnection || !address) throw new Error('Wallet not connected');
+      const { provider, contracts, backend, domain } = governanceContext(get);
+      const actions = calls.map(call => encodeAction(contracts, call));
+      const proposal = await draftProposal(provider, address, title, description, Math.round(votingDays * 24 * 3600), actions);
+      await backend.propose(await signProposal(await provider.getSigner(), domain, proposal));
+      await get().governance.refresh();
+    },
+    vote: async (id: string, support: VoteSupport, reason: string) => {
+      const { address } = get().wallet;
+      if (!walletConnection || !address) throw new Error('Wallet not connected');
+      const { provider, backend, domain } = governanceContext(get);
+      const vote = await draftVote(provider, id, address, VOTE_SUPPORT.indexOf(support), reason);
+      await backend.vote(await signVote(await provider.getSigner(), domain, vote));
+      await get().governance.refresh();
+    },
+    verify: async (id: string) => {
+      const { provider, domain } = governanceContext(get);
+      const view = get().governance.proposals.find(candidate => candidate.record.id === id);
+      if (!view) throw new Error('Unknown proposal');
+      return recomputeTally(provider, domain, view.record, view.votes);
+    },
+    diff: async (id: string) => {
+      const { provider, contracts } = governanceContext(get);
+      const view = get().governance.proposals.find(candidate => candidate.record.id === id);
+      if (!view) throw new Error('Unknown proposal');
+      return diffActions(provider, view.record.proposal.actions, contracts);
+    },
+    preview: (id: string) => governanceContext(get).backend.preview(id),
   },
 }));
@@ -0,0 +1,15 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_INDEXER_URL?: string;
+  readonly VITE_GOVERNANCE_URL?: string;
+  readonly VITE_GOVERNANCE_FORK_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
+
+interface Window {
+  ethereum?: import('./lib/wallet').EIP1193Provider;
+}
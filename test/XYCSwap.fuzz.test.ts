@@ -0,0 +1,280 @@
+// SPDX-License-Identifier: LicenseRef-Degensoft-Aqua-Source-1.1
+
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from 'hardhat';
+import { expect, ether } from '@1inch/solidity-utils';
+import "@nomicfoundation/hardhat-chai-matchers";
+
+import { deployFixture } from "./utils";
+import { Failure, Property, Random, describeCounterexample, fuzz } from "./fuzz";
+import { XYCStrategy, encodeXYCStrategy, hashXYCStrategy, saltFromLabel } from "../src/lib/strategy";
+import { BPS_BASE, amountInForExactOut, xycAmountOut } from "../src/lib/quote";
+
+// Random ship / swapExactIn / swapExactOut / dock sequences against XYCSwap.
+//   XYC_FUZZ_SEED=42 XYC_FUZZ_RUNS=100 XYC_FUZZ_LENGTH=40 yarn test test/XYCSwap.fuzz.test.ts
+//   XYC_FUZZ_REPLAY='[...]' yarn test test/XYCSwap.fuzz.test.ts
+const SEED = Number(process.env.XYC_FUZZ_SEED ?? 20240601);
+const RUNS = Number(process.env.XYC_FUZZ_RUNS ?? 20);
+const LENGTH = Number(process.env.XYC_FUZZ_LENGTH ?? 25);
+const FEE_TIERS = [0, 5, 30, 100, 1000];
+
+// Amounts are relative to the reserves at the time of the step, so a sequence
+// stays meaningful when shrinking removes the steps before it
+type FuzzAction =
+  | { kind: 'ship'; feeBps: number; amount0: number; amount1: number }
+  | {
+      kind: 'swapExactIn' | 'swapExactOut';
+      pool: number;
+      zeroForOne: boolean;
+      push: boolean;
+      // Share of the input reserve (exact in) or output reserve (exact out)
+      sizeBps: number;
+      // 'violated' sets amountOutMin / amountInMax one wei past the quote
+      limit: 'exact' | 'violated';
+    }
+  | { kind: 'dock'; pool: number };
+
+interface Pool {
+  strategy: XYCStrategy;
+  strategyHash: string;
+  docked: boolean;
+}
+
+describe("XYCSwap invariants", function () {
+  async function fuzzFixture() {
+    const fixture = await deployFixture();
+    const { contracts: { xycSwap, token0, token1, swapExecutor }, addrs: { maker, taker } } = fixture;
+
+    // Enough for any sequence: strategies are virtual, but pulls come out of the maker's wallet
+    for (const token of [token0, token1]) {
+      await token.mint(await maker.getAddress(), ether('1000000'));
+      await token.mint(await taker.getAddress(), ether('1000000'));
+      await token.mint(await swapExecutor.getAddress(), ether('1000000'));
+      await token.connect(taker).approve(await xycSwap.getAddress(), ethers.MaxUint256);
+    }
+    return fixture;
+  }
+
+  const generate = (rand: Random, length: number): FuzzAction[] => Array.from({ length }, (): FuzzAction => {
+    const roll = rand.next();
+    if (roll < 0.15) {
+      return {
+        kind: 'ship',
+        feeBps: rand.pick(FEE_TIERS),
+        amount0: Number(rand.bigint(1n, 1000n)),
+        amount1: Number(rand.bigint(1n, 1000n)),
+      };
+    }
+    if (roll < 0.9) {
+      return {
+        kind: rand.bool() ? 'swapExactIn' : 'swapExactOut',
+        pool: Number(rand.bigint(0n, 7n)),
+        zeroForOne: rand.bool(),
+        push: rand.bool(),
+        sizeBps: Number(rand.bigint(1n, 5000n)),
+        limit: rand.next() < 0.2 ? 'violated' : 'exact',
+      };
+    }
+    return { kind: 'dock', pool: Number(rand.bigint(0n, 7n)) };
+  });
+
+  const simplify = (action: FuzzAction): FuzzAction[] => {
+    switch (action.kind) {
+      case 'ship':
+        return [
+          { ...action, feeBps: 0, amount0: 100, amount1: 100 },
+          { ...action, amount0: 100, amount1: 100 },
+          { ...action, feeBps: 0 },
+        ];
+      case 'dock':
+        return [{ ...action, pool: 0 }];
+      default:
+        return [
+          { ...action, pool: 0, zeroForOne: true, push: false, sizeBps: 100, limit: 'exact' },
+          { ...action, pool: 0 },
+          { ...action, push: false },
+          { ...action, limit: 'exact' },
+          { ...action, sizeBps: 100 },
+        ];
+    }
+  };
+
+  const run = async (actions: FuzzAction[]): Promise<Failure | null> => {
+    const { contracts: { xycSwap, aqua, token0, token1, swapExecutor }, addrs: { maker, taker } } = await loadFixture(fuzzFixture);
+    const app = await xycSwap.getAddress();
+    const makerAddress = await maker.getAddress();
+    const tokens = [await token0.getAddress(), await token1.getAddress()];
+    const emptyTakerData = ethers.AbiCoder.defaultAbiCoder().encode(["bool"], [true]);
+    const pools: Pool[] = [];
+
+    const reservesOf = async (pool: Pool): Promise<[bigint, bigint]> => {
+      const [balance0, ] = await aqua.rawBalances(makerAddress, app, pool.strategyHash, tokens[0]);
+      const [balance1, ] = await aqua.rawBalances(makerAddress, app, pool.strategyHash, tokens[1]);
+      return [BigInt(balance0.toString()), BigInt(balance1.toString())];
+    };
+    const walletOf = async (account: string): Promise<[bigint, bigint]> => [
+      await token0.balanceOf(account),
+      await token1.balanceOf(account),
+    ];
+
+    for (let step = 0; step < actions.length; step++) {
+      const action = actions[step];
+      const fail = (invariant: string, message: string): Failure => ({ step, invariant, message });
+      const live = pools.filter((pool) => !pool.docked);
+      const before = await Promise.all(live.map(reservesOf));
+      const makerBefore = await walletOf(makerAddress);
+
+      if (action.kind === 'ship') {
+        const strategy: XYCStrategy = {
+          maker: makerAddress,
+          token0: tokens[0],
+          token1: tokens[1],
+          feeBps: BigInt(action.feeBps),
+          salt: saltFromLabel(`fuzz-${pools.length}`),
+        };
+        const amounts = [ether(String(action.amount0)), ether(String(action.amount1))];
+        await aqua.connect(maker).ship(app, encodeXYCStrategy(strategy), tokens, amounts);
+        const pool = { strategy, strategyHash: hashXYCStrategy(strategy), docked: false };
+        pools.push(pool);
+        const [reserve0, reserve1] = await reservesOf(pool);
+        if (reserve0 !== amounts[0] || reserve1 !== amounts[1]) {
+          return fail('ship', `shipped ${amounts} but rawBalances are ${reserve0},${reserve1}`);
+        }
+      } else if (action.kind === 'dock') {
+        if (live.length === 0) continue;
+        const pool = live[action.pool % live.length];
+        await aqua.connect(maker).dock(app, pool.strategyHash, tokens);
+        pool.docked = true;
+      } else {
+        if (live.length === 0) continue;
+        const index = action.pool % live.length;
+        const pool = live[index];
+        const [reserve0, reserve1] = before[index];
+        const [reserveIn, reserveOut] = action.zeroForOne ? [reserve0, reserve1] : [reserve1, reserve0];
+        const exactIn = action.kind === 'swapExactIn';
+        const violated = action.limit === 'violated';
+
+        // Quote from the library, then ask for exactly that (or one wei more)
+        let amount: bigint;
+        let limit: bigint;
+        try {
+          if (exactIn) {
+            amount = reserveIn * BigInt(action.sizeBps) / BPS_BASE + 1n;
+            limit = xycAmountOut(amount, reserveIn, reserveOut, pool.strategy.feeBps) + (violated ? 1n : 0n);
+          } else {
+            amount = reserveOut * BigInt(action.sizeBps) / BPS_BASE + 1n;
+            if (amount >= reserveOut) continue;
+            limit = amountInForExactOut(amount, reserveIn, reserveOut, pool.strategy.feeBps) - (violated ? 1n : 0n);
+          }
+        } catch {
+          // Drained reserves cannot be quoted
+          continue;
+        }
+
+        const recipient = action.push ? await swapExecutor.getAddress() : await taker.getAddress();
+        const args = [pool.strategy, action.zeroForOne, action.push, amount, limit, recipient, emptyTakerData] as const;
+        const takerBefore = await walletOf(recipient);
+        let reverted: unknown = null;
+        try {
+          if (action.push) {
+            const data = xycSwap.interface.encodeFunctionData(exactIn ? 'swapExactIn' : 'swapExactOut', [...args]);
+            await swapExecutor.arbitraryCall(app, data);
+          } else if (exactIn) {
+            await xycSwap.connect(taker).swapExactIn(...args);
+          } else {
+            await xycSwap.connect(taker).swapExactOut(...args);
+          }
+        } catch (error) {
+          reverted = error;
+        }
+
+        if (violated) {
+          if (!reverted) return fail('limits', `${action.kind} accepted a limit one wei past its quote`);
+          // The executor only surfaces "Call failed"; direct calls must name the limit
+          const data = (reverted as { data?: string }).data;
+          const expected = exactIn ? 'InsufficientOutputAmount' : 'InsufficientInputAmount';
+          if (!action.push && (!data || xycSwap.interface.parseError(data)?.name !== expected)) {
+            return fail('limits', `${action.kind} reverted without ${expected}`);
+          }
+        } else if (reverted) {
+          return fail('limits', `${action.kind} at its own quote reverted: ${(reverted as Error).message}`);
+        } else {
+          // The taker received at least amountOutMin and paid at most amountInMax
+          const takerAfter = await walletOf(recipient);
+          const [inIndex, outIndex] = action.zeroForOne ? [0, 1] : [1, 0];
+          const received = takerAfter[outIndex] - takerBefore[outIndex];
+          const paid = takerBefore[inIndex] - takerAfter[inIndex];
+          if (exactIn && (paid !== amount || received < limit)) {
+            return fail('limits', `exact in paid ${paid} of ${amount} and received ${received} < min ${limit}`);
+          }
+          if (!exactIn && (received !== amount || paid > limit)) {
+            return fail('limits', `exact out received ${received} of ${amount} and paid ${paid} > max ${limit}`);
+          }
+        }
+      }
+
+      // Invariants over every strategy that was live before and after the step
+      const makerAfter = await walletOf(makerAddress);
+      const rawDelta: [bigint, bigint] = [0n, 0n];
+      for (const [index, pool] of live.entries()) {
+        if (pool.docked) continue;
+        const [reserve0, reserve1] = await reservesOf(pool);
+        const [previous0, previous1] = before[index];
+        if (reserve0 * reserve1 < previous0 * previous1) {
+          return fail('k', `k of strategy ${pools.indexOf(pool)} fell from ${previous0 * previous1} to ${reserve0 * reserve1}`);
+        }
+        rawDelta[0] += reserve0 - previous0;
+        rawDelta[1] += reserve1 - previous1;
+      }
+      for (const i of [0, 1]) {
+        const walletDelta = makerAfter[i] - makerBefore[i];
+        if (walletDelta !== rawDelta[i]) {
+          return fail('balances', `maker token${i} moved ${walletDelta} but rawBalances moved ${rawDelta[i]}`);
+        }
+      }
+    }
+    return null;
+  };
+
+  const property: Property<FuzzAction> = { generate, run, simplify };
+
+  it("should keep k, maker balances and swap limits intact over random sequences", async function () {
+    this.timeout(0);
+    const replay = process.env.XYC_FUZZ_REPLAY;
+    if (replay) {
+      const failure = await run(JSON.parse(replay));
+      expect(failure, failure ? `${failure.invariant} at step ${failure.step}: ${failure.message}` : '').to.be.null;
+      return;
+    }
+
+    const counterexample = await fuzz(property, { seed: SEED, runs: RUNS, length: LENGTH });
+    expect(counterexample, counterexample ? describeCounterexample(counterexample, 'XYC_FUZZ_REPLAY') : '').to.be.null;
+  });
+
+  it("should reproduce a failing seed and shrink it to the actions that matter", async function () {
+    // A synthetic property that breaks once a large strategy is docked, no chain involved
+    const synthetic: Property<FuzzAction> = {
+      generate,
+      simplify,
+      run: async (actions) => {
+        let shippedLarge = false;
+        for (const [step, action] of actions.entries()) {
+          if (action.kind === 'ship' && action.amount0 > 500) shippedLarge = true;
+          if (action.kind === 'dock' && shippedLarge) return { step, invariant: 'synthetic', message: 'docked a large strategy' };
+        }
+        return null;
+      },
+    };
+
+    const first = await fuzz(synthetic, { seed: SEED, runs: 10, length: LENGTH });
+    const second = await fuzz(synthetic, { seed: SEED, runs: 10, length: LENGTH });
+    expect(first).to.not.be.null;
+    expect(second).to.deep.equal(first);
+
+    const [ship, dock] = first!.actions;
+    expect(first!.actions).to.have.length(2);
+    expect(ship).to.include({ kind: 'ship', feeBps: 0 });
+    expect(dock).to.deep.equal({ kind: 'dock', pool: 0 });
+    expect(describeCounterexample(first!, 'XYC_FUZZ_REPLAY')).to.include(`XYC_FUZZ_REPLAY='${JSON.stringify(first!.actions)}'`);
+  });
+});
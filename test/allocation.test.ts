@@ -0,0 +1,216 @@
+// SPDX-License-Identifier: LicenseRef-Degensoft-Aqua-Source-1.1
+
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from 'hardhat';
+import { expect, ether, deployContract } from '@1inch/solidity-utils';
+import "@nomicfoundation/hardhat-chai-matchers";
+
+import { TokenMock } from '../typechain-types/@1inch/solidity-utils/contracts/mocks/TokenMock';
+import { WETHMock } from '../typechain-types/contracts/mocks/WETHMock';
+import { LiquidFlowCore } from '../typechain-types/contracts/core/LiquidFlowCore';
+import { XYKStrategy } from '../typechain-types/contracts/strategies/XYKStrategy';
+import { BridgeRouter } from '../typechain-types/contracts/bridge/BridgeRouter';
+import { BridgeAdapterMock } from '../typechain-types/contracts/mocks/BridgeAdapterMock';
+import { BRIDGE_PROVIDERS } from "../src/lib/bridge";
+import { BridgeRelayer, BridgeRelayerConfig } from "../src/lib/relayer";
+import { fetchPositionReserves } from "../src/lib/provide";
+import { saltFromLabel } from "../src/lib/strategy";
+import { memoryStorage } from "../src/lib/storage";
+import {
+  AllocationContracts,
+  AllocationExecutor,
+  AllocationRequest,
+  allocationStatus,
+  allocationStepRunner,
+  planAllocation,
+  stepProgress,
+} from "../src/lib/allocation";
+
+// Both chains live on the test network, each with its own protocol and tokens
+const CHAIN_A = 31337;
+const CHAIN_B = 31338;
+const DEBRIDGE = BRIDGE_PROVIDERS.indexOf('DEBRIDGE');
+
+// deBridge's quote on what reaches it of `amount`, after the 0.5% protocol fee
+const delivered = (amount: bigint) => {
+  const bridged = amount - amount * 50n / 10000n;
+  return bridged - bridged * 45n / 10000n;
+};
+
+describe("Multi-chain allocation", function () {
+  async function allocationFixture() {
+    const [owner, lp, feeCollector] = await ethers.getSigners();
+    const deployChain = async (otherChainId: number) => {
+      const core = await deployContract('LiquidFlowCore', [await feeCollector.getAddress()]) as unknown as LiquidFlowCore;
+      const strategy = await deployContract('XYKStrategy', [await core.getAddress()]) as unknown as XYKStrategy;
+      const weth = await deployContract('WETHMock') as unknown as WETHMock;
+      const usdc = await deployContract('TokenMock', ['USD Coin', 'USDC']) as unknown as TokenMock;
+      const router = await deployContract('LiquidFlowRouter', [
+        await core.getAddress(), ethers.ZeroAddress, await weth.getAddress(),
+      ]);
+      const bridgeRouter = await deployContract('BridgeRouter', [await owner.getAddress()]) as unknown as BridgeRouter;
+      const adapter = await deployContract('BridgeAdapterMock', [await bridgeRouter.getAddress()]) as unknown as BridgeAdapterMock;
+      await core.setRouter(await router.getAddress());
+      await bridgeRouter.setAdapter(DEBRIDGE, await adapter.getAddress(), true);
+      await bridgeRouter.setSupportedChain(otherChainId, true);
+      for (const token of [weth, usdc]) {
+        await bridgeRouter.setSupportedToken(otherChainId, await token.getAddress(), true);
+      }
+      // What the adapter releases from
+      await weth.deposit({ value: ether('10') });
+      await weth.transfer(await adapter.getAddress(), ether('10'));
+      await usdc.mint(await adapter.getAddress(), ether('50000'));
+
+      const contracts: AllocationContracts = {
+        liquidFlowCore: await core.getAddress(),
+        liquidFlowRouter: await router.getAddress(),
+        xykStrategy: await strategy.getAddress(),
+        bridgeRouter: await bridgeRouter.getAddress(),
+      };
+      const relayed = { signer: owner, bridgeRouter: contracts.bridgeRouter, adapter: await adapter.getAddress() };
+      return { core, strategy, weth, usdc, bridgeRouter, contracts, relayed };
+    };
+    const a = await deployChain(CHAIN_B);
+    const b = await deployChain(CHAIN_A);
+    for (const chain of [a, b]) {
+      await chain.core.setStrategyApproval(await chain.strategy.getAddress(), true);
+    }
+    await a.weth.connect(lp).deposit({ value: ether('20') });
+    await a.usdc.mint(await lp.getAddress(), ether('100000'));
+
+    const chains: Record<number, typeof a> = { [CHAIN_A]: a, [CHAIN_B]: b };
+    const request: AllocationRequest = {
+      sourceChain: CHAIN_A,
+      tokens: {
+        [CHAIN_A]: [await a.weth.getAddress(), await a.usdc.getAddress()],
+        [CHAIN_B]: [await b.weth.getAddress(), await b.usdc.getAddress()],
+      },
+      feeBps: 30n,
+      label: 'spread',
+      amounts: [ether('2'), ether('4900')],
+      shares: [{ chainId: CHAIN_A, percent: 60 }, { chainId: CHAIN_B, percent: 40 }],
+      symbols: ['WETH', 'USDC'],
+      decimals: [18, 18],
+    };
+    const relayerConfig: BridgeRelayerConfig = {
+      provider: 'DEBRIDGE',
+      chains: [{ chainId: CHAIN_A, ...a.relayed }, { chainId: CHAIN_B, ...b.relayed }],
+      tokens: [0, 1].map(side => ({ [CHAIN_A]: request.tokens[CHAIN_A][side], [CHAIN_B]: request.tokens[CHAIN_B][side] })),
+    };
+    const relay = async () => {
+      const relayer = new BridgeRelayer(relayerConfig);
+      for (let tick = 0; tick < 10; tick++) {
+        await relayer.tick();
+        if (relayer.queued() === 0) break;
+      }
+    };
+
+    // One browser: each call is a page load, with an executor over whatever the storage holds
+    const browser = () => {
+      const storage = memoryStorage();
+      return () => new AllocationExecutor({
+        storage,
+        key: 'allocation',
+        runStep: allocationStepRunner({ connect: async (chainId) => ({ signer: lp, contracts: chains[chainId].contracts }) }),
+      });
+    };
+    const reserves = async (chainId: number) => fetchPositionReserves(ethers.provider, chains[chainId].contracts.liquidFlowCore, {
+      lp: await lp.getAddress(),
+      strategy: chains[chainId].contracts.xykStrategy,
+      tokenA: request.tokens[chainId][0],
+      tokenB: request.tokens[chainId][1],
+      feeBps: request.feeBps,
+      salt: saltFromLabel(request.label),
+    });
+    return { lp, a, b, request, relay, browser, reserves };
+  }
+
+  it("should plan bridges, approvals and ships for every share", async function () {
+    const { a, request } = await loadFixture(allocationFixture);
+    const plan = planAllocation({ ...request, amounts: [ether('2') + 1n, ether('4900')] });
+    expect(plan.steps.map(step => step.id)).to.deep.equal([
+      `approve:${CHAIN_A}:BridgeRouter:${request.tokens[CHAIN_A][0]}`,
+      `approve:${CHAIN_A}:BridgeRouter:${request.tokens[CHAIN_A][1]}`,
+      `bridge:${CHAIN_B}:0`,
+      `bridge:${CHAIN_B}:1`,
+      `approve:${CHAIN_A}:LiquidFlowCore:${request.tokens[CHAIN_A][0]}`,
+      `approve:${CHAIN_A}:LiquidFlowCore:${request.tokens[CHAIN_A][1]}`,
+      `ship:${CHAIN_A}`,
+      `approve:${CHAIN_B}:LiquidFlowCore:${request.tokens[CHAIN_B][0]}`,
+      `approve:${CHAIN_B}:LiquidFlowCore:${request.tokens[CHAIN_B][1]}`,
+      `ship:${CHAIN_B}`,
+    ]);
+    expect(plan.steps[2]).to.deep.include({ kind: 'bridge', chainId: CHAIN_A, dstChain: CHAIN_B, token: await a.weth.getAddress(), amount: ether('0.8') });
+    // The wei that does not split evenly stays on the source chain
+    expect(plan.steps[6]).to.deep.include({ amounts: [ether('1.2') + 1n, ether('2940')] });
+    expect(plan.steps[9]).to.deep.include({ amounts: null });
+
+    expect(() => planAllocation({ ...request, shares: [{ chainId: CHAIN_A, percent: 60 }, { chainId: CHAIN_B, percent: 30 }] }))
+      .to.throw('Shares add up to 90%, not 100%');
+    expect(() => planAllocation({ ...request, shares: [{ chainId: CHAIN_A, percent: 50 }, { chainId: 10, percent: 50 }] }))
+      .to.throw('No token pair for chain 10');
+  });
+
+  it("should resume after a reload and ship what the bridges delivered", async function () {
+    const { lp, b, request, relay, browser, reserves } = await loadFixture(allocationFixture);
+    const executor = browser();
+    const plan = planAllocation(request);
+
+    // Both transfers go out together, and the source chain does not wait for them
+    const waiting = await executor().begin(plan);
+    expect(allocationStatus(waiting)).to.equal('waiting');
+    expect(stepProgress(waiting, `bridge:${CHAIN_B}:0`).status).to.equal('waiting');
+    expect(stepProgress(waiting, `bridge:${CHAIN_B}:1`).status).to.equal('waiting');
+    expect(stepProgress(waiting, `ship:${CHAIN_B}`).status).to.equal('pending');
+    expect(await reserves(CHAIN_A)).to.deep.equal([ether('1.2'), ether('2940')]);
+    expect(await reserves(CHAIN_B)).to.deep.equal([0n, 0n]);
+    await expect(executor().begin(plan)).to.be.rejectedWith('Finish or roll back the allocation in progress first');
+
+    await relay();
+    const run = await executor().resume();
+    expect(allocationStatus(run)).to.equal('done');
+    expect(await reserves(CHAIN_B)).to.deep.equal([delivered(ether('0.8')), delivered(ether('1960'))]);
+    expect(stepProgress(run, `ship:${CHAIN_B}`).data.added).to.deep.equal([delivered(ether('0.8')), delivered(ether('1960'))]);
+    expect(await b.usdc.allowance(await lp.getAddress(), await b.core.getAddress())).to.equal(delivered(ether('1960')));
+  });
+
+  it("should retry a failed step and roll back what was done", async function () {
+    const { lp, a, b, request, relay, browser, reserves } = await loadFixture(allocationFixture);
+    const executor = browser();
+    await b.core.setStrategyApproval(await b.strategy.getAddress(), false);
+    await executor().begin(planAllocation(request));
+    await relay();
+
+    const failed = await executor().resume();
+    expect(allocationStatus(failed)).to.equal('failed');
+    expect(stepProgress(failed, `ship:${CHAIN_B}`).error).to.equal('The strategy is not approved by the protocol');
+    await b.core.setStrategyApproval(await b.strategy.getAddress(), true);
+    expect(allocationStatus(await executor().retry())).to.equal('done');
+
+    const rollingBack = await executor().rollback();
+    expect(rollingBack.rollback.map(step => step.kind)).to.deep.equal([
+      'dock', 'approve', 'approve', 'dock', 'approve', 'approve',
+      'approve', 'bridge', 'approve', 'bridge', 'approve', 'approve',
+    ]);
+    expect(allocationStatus(rollingBack)).to.equal('waiting');
+    await relay();
+    expect(allocationStatus(await executor().resume())).to.equal('rolled-back');
+
+    const address = await lp.getAddress();
+    for (const chain of [a, b]) {
+      for (const token of [chain.weth, chain.usdc]) {
+        expect(await token.allowance(address, chain.contracts.liquidFlowCore)).to.equal(0n);
+        expect(await token.allowance(address, chain.contracts.bridgeRouter)).to.equal(0n);
+      }
+      // Both positions are queued for docking; their reserves clear once it executes
+      expect(await chain.core.queryFilter(chain.core.filters.WithdrawalRequested(null, address))).to.have.length(1);
+    }
+    expect(await reserves(CHAIN_A)).to.deep.equal([ether('1.2'), ether('2940')]);
+    // What went to chain B came back, less two rounds of fees
+    expect(await b.weth.balanceOf(address)).to.equal(0n);
+    expect(await a.weth.balanceOf(address)).to.equal(ether('19.2') + delivered(delivered(ether('0.8'))));
+    expect(await a.usdc.balanceOf(address)).to.equal(ether('98040') + delivered(delivered(ether('1960'))));
+    expect(() => executor().dismiss()).to.not.throw();
+    expect(executor().current()).to.be.null;
+  });
+});
@@ -0,0 +1,95 @@
+// SPDX-License-Identifier: LicenseRef-Degensoft-Aqua-Source-1.1
+
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from 'hardhat';
+import { expect, ether, deployContract } from '@1inch/solidity-utils';
+import "@nomicfoundation/hardhat-chai-matchers";
+
+import { LFToken } from '../typechain-types/contracts/token/LFToken';
+import { WETHMock } from '../typechain-types/contracts/mocks/WETHMock';
+import { BatchProcessor } from '../typechain-types/contracts/core/BatchProcessor';
+import { LiquidFlowRouter } from '../typechain-types/contracts/periphery/LiquidFlowRouter';
+import { buildApproval, checkAllowance, permitCovers, signPermit } from "../src/lib/allowance";
+
+describe("Allowances", function () {
+  async function tokensFixture() {
+    const [owner, user, core] = await ethers.getSigners();
+    const lf = await deployContract('LFToken') as unknown as LFToken;
+    const weth = await deployContract('WETHMock') as unknown as WETHMock;
+    // The router only submits intents here, nothing is settled
+    const batchProcessor = await deployContract('BatchProcessor', [await owner.getAddress(), await core.getAddress()]) as unknown as BatchProcessor;
+    const router = await deployContract('LiquidFlowRouter', [
+      await core.getAddress(), await batchProcessor.getAddress(), await weth.getAddress(),
+    ]) as unknown as LiquidFlowRouter;
+
+    await lf.mint(await user.getAddress(), ether('100'));
+    await weth.connect(user).deposit({ value: ether('10') });
+    return { user, core, lf, weth, batchProcessor, router };
+  }
+
+  it("should ask for an approval only while the allowance is short", async function () {
+    const { user, core, weth, router } = await loadFixture(tokensFixture);
+    const request = {
+      token: await weth.getAddress(),
+      owner: await user.getAddress(),
+      target: 'LiquidFlowCore' as const,
+      spender: await core.getAddress(),
+      amount: ether('2'),
+    };
+
+    expect(await checkAllowance(ethers.provider, request)).to.deep.include({ allowance: 0n, status: 'approve' });
+
+    await user.sendTransaction(buildApproval(request, 'exact'));
+    expect(await checkAllowance(ethers.provider, request)).to.deep.include({ allowance: ether('2'), status: 'sufficient' });
+    expect(await checkAllowance(ethers.provider, { ...request, amount: ether('3') })).to.deep.include({ status: 'approve' });
+
+    await user.sendTransaction(buildApproval(request, 'unlimited'));
+    expect(await checkAllowance(ethers.provider, { ...request, amount: ether('10') })).to.deep.include({ allowance: ethers.MaxUint256, status: 'sufficient' });
+
+    // WETH has no permit, so the router needs an approval too
+    const routerRequest = { ...request, target: 'LiquidFlowRouter' as const, spender: await router.getAddress() };
+    expect(await checkAllowance(ethers.provider, routerRequest)).to.deep.include({ status: 'approve' });
+
+    // Locking burns soulbound bLF, nothing to approve
+    expect(await checkAllowance(ethers.provider, { ...request, target: 'VotingEscrow' })).to.deep.include({ status: 'not-required' });
+  });
+
+  it("should sign a permit the router spends in place of an approval", async function () {
+    const { user, core, lf, batchProcessor, router } = await loadFixture(tokensFixture);
+    const request = {
+      token: await lf.getAddress(),
+      owner: await user.getAddress(),
+      target: 'LiquidFlowRouter' as const,
+      spender: await router.getAddress(),
+      amount: ether('5'),
+    };
+
+    const check = await checkAllowance(ethers.provider, request);
+    expect(check.status).to.equal('permit');
+    expect(check.permitDomain).to.deep.include({ name: 'Liquid Flow', version: '1', verifyingContract: await lf.getAddress() });
+    // Core has no permit entry point, so LF still needs an approval there
+    expect(await checkAllowance(ethers.provider, { ...request, target: 'LiquidFlowCore', spender: await core.getAddress() }))
+      .to.deep.include({ status: 'approve' });
+
+    const now = BigInt((await ethers.provider.getBlock('latest'))!.timestamp);
+    const permit = await signPermit(user, check.permitDomain!, request, now + 600n);
+    expect(permit).to.deep.include({ owner: request.owner, spender: request.spender, value: ether('5'), nonce: 0n });
+    expect(permitCovers(permit, request, now)).to.be.true;
+    expect(permitCovers(permit, { ...request, amount: ether('4') }, now)).to.be.false;
+    expect(permitCovers(permit, request, now + 600n)).to.be.false;
+
+    const tokenOut = await core.getAddress();
+    const swap = (signature: typeof permit) => router.connect(user).swapWithPermit(
+      request.token, tokenOut, request.amount, 0n, now + 600n, signature.deadline, signature.v, signature.r, signature.s,
+    );
+    await expect(swap(permit)).to.emit(batchProcessor, 'IntentSubmitted');
+    expect(await lf.balanceOf(request.owner)).to.equal(ether('95'));
+    expect(await lf.nonces(request.owner)).to.equal(1n);
+    expect(await lf.allowance(request.owner, request.spender)).to.equal(0n);
+
+    // A spent permit does not block a swap the allowance covers
+    await user.sendTransaction(buildApproval(request, 'exact'));
+    await expect(swap(permit)).to.emit(batchProcessor, 'IntentSubmitted');
+    expect(await lf.balanceOf(request.owner)).to.equal(ether('90'));
+  });
+});
@@ -0,0 +1,109 @@
+// SPDX-License-Identifier: LicenseRef-Degensoft-Aqua-Source-1.1
+
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, artifacts, run, tasks } from 'hardhat';
+import { expect } from '@1inch/solidity-utils';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { emptyManifest } from "../src/lib/manifest";
+import { auditProtocol } from "../scripts/audit";
+import { deployProtocol } from "../scripts/protocol";
+
+describe("Configuration audit", function () {
+  async function deployedFixture() {
+    const [deployer, eoa, adapter] = await ethers.getSigners();
+    const chainId = Number((await ethers.provider.getNetwork()).chainId);
+    const { manifest } = await deployProtocol({
+      deployer,
+      provider: ethers.provider,
+      chainId,
+      artifacts,
+      save: () => undefined,
+    }, {}, emptyManifest(chainId, 'hardhat'));
+    const at = (name: string) => ethers.getContractAt(name, manifest.contracts[name].address);
+    return { manifest, at, eoa, adapter };
+  }
+
+  it("should pass a freshly deployed protocol", async function () {
+    const { manifest } = await loadFixture(deployedFixture);
+    const report = await auditProtocol(manifest, { provider: ethers.provider, artifacts });
+
+    expect(report.ok).to.be.true;
+    expect(report.findings).to.deep.equal([]);
+    expect(report.passed).to.include.members(['manifest', 'LFToken.burnedLF', 'BurnedLF.lfToken', 'LiquidFlowCore.batchProcessor']);
+  });
+
+  it("should report broken references and dangerous settings", async function () {
+    const { manifest, at, eoa, adapter } = await loadFixture(deployedFixture);
+    const core = await at('LiquidFlowCore');
+    await (await at('SolverRegistry')).setBatchProcessor(eoa.address);
+    await core.pause();
+    await core.setProtocolFee(1500);
+    await core.setStrategyApproval(eoa.address, true);
+    await (await at('BridgeRouter')).setAdapter(3, eoa.address, true);
+
+    const report = await auditProtocol(manifest, {
+      provider: ethers.provider,
+      config: { bridge: { chains: [8453], adapters: { STARGATE: adapter.address } } },
+    });
+    expect(report.ok).to.be.false;
+    expect(report.findings.map(({ check, severity }) => [check, severity])).to.deep.equal([
+      ['SolverRegistry.batchProcessor', 'error'],
+      ['LiquidFlowCore.paused', 'error'],
+      ['LiquidFlowCore.protocolFeeBps', 'error'],
+      [`LiquidFlowCore.approvedStrategies(${eoa.address})`, 'error'],
+      ['BridgeRouter.adapters(STARGATE)', 'error'],
+      ['BridgeRouter.adapters(NATIVE)', 'error'],
+      ['BridgeRouter.supportedChains(8453)', 'error'],
+    ]);
+    expect(report.findings[0]).to.include({ expected: manifest.contracts.BatchProcessor.address, actual: eoa.address });
+
+    // A higher limit accepts the fee
+    const relaxed = await auditProtocol(manifest, { provider: ethers.provider, policy: { maxProtocolFeeBps: 2000 } });
+    expect(relaxed.findings.map(({ check }) => check)).to.not.include('LiquidFlowCore.protocolFeeBps');
+  });
+
+  it("should fail on warnings only in strict mode", async function () {
+    const { manifest, at } = await loadFixture(deployedFixture);
+    // A contract with code that is not a known strategy
+    await (await at('LiquidFlowCore')).setStrategyApproval(manifest.contracts.BatchProcessor.address, true);
+
+    const report = await auditProtocol(manifest, { provider: ethers.provider });
+    expect(report.ok).to.be.true;
+    expect(report.warnings).to.equal(1);
+    expect((await auditProtocol(manifest, { provider: ethers.provider, strict: true })).ok).to.be.false;
+  });
+
+  it("should stop at the manifest when it does not match the chain", async function () {
+    const chainId = Number((await ethers.provider.getNetwork()).chainId);
+    const report = await auditProtocol(emptyManifest(chainId, 'hardhat'), { provider: ethers.provider });
+
+    expect(report.ok).to.be.false;
+    expect(report.errors).to.equal(12);
+    expect(report.passed).to.deep.equal([]);
+  });
+
+  it("should run as the audit-config task with a deploy config", async function () {
+    expect(Object.keys(tasks['audit-config'].paramDefinitions)).to.include.members(['deployConfig', 'maxProtocolFeeBps', 'maxBridgeFeeBps', 'strict']);
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-'));
+    const deployConfig = path.join(dir, 'deploy.json');
+    fs.writeFileSync(deployConfig, JSON.stringify({ bridge: { chains: [8453] } }));
+
+    const printed: string[] = [];
+    const log = console.log;
+    console.log = (line: string) => void printed.push(line);
+    try {
+      await run('audit-config', { deployConfig, strict: true });
+    } finally {
+      console.log = log;
+    }
+    // Nothing is deployed on the test chain, so the audit stops at the manifest
+    expect(JSON.parse(printed[0]).ok).to.be.false;
+    expect(process.exitCode).to.equal(1);
+    process.exitCode = undefined;
+
+    await expect(run('audit-config', { deployConfig: path.join(dir, 'missing.json') })).to.be.rejectedWith('ENOENT');
+  });
+});
@@ -0,0 +1,131 @@
+// SPDX-License-Identifier: LicenseRef-Degensoft-Aqua-Source-1.1
+
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from 'hardhat';
+import { expect, ether, deployContract } from '@1inch/solidity-utils';
+import "@nomicfoundation/hardhat-chai-matchers";
+
+import { WETHMock } from '../typechain-types/contracts/mocks/WETHMock';
+import { BridgeRouter } from '../typechain-types/contracts/bridge/BridgeRouter';
+import { BridgeAdapterMock } from '../typechain-types/contracts/mocks/BridgeAdapterMock';
+import { BRIDGE_PROVIDERS, BridgeProviderName, BridgeQuote, bridgeRequestId, fetchBridgeQuotes, fetchBridgeTransfers, rankBridgeQuotes } from "../src/lib/bridge";
+
+const DST_CHAIN = 8453;
+
+describe("Bridge", function () {
+  async function bridgeFixture() {
+    const [owner, user, feeCollector] = await ethers.getSigners();
+    const weth = await deployContract('WETHMock') as unknown as WETHMock;
+    const router = await deployContract('BridgeRouter', [await feeCollector.getAddress()]) as unknown as BridgeRouter;
+    await router.setSupportedChain(DST_CHAIN, true);
+    await router.setSupportedToken(DST_CHAIN, await weth.getAddress(), true);
+
+    // Stargate stays inactive
+    const adapters: Partial<Record<BridgeProviderName, BridgeAdapterMock>> = {};
+    for (const name of ['DEBRIDGE', 'ACROSS', 'NATIVE'] as BridgeProviderName[]) {
+      adapters[name] = await deployContract('BridgeAdapterMock', [await router.getAddress()]) as unknown as BridgeAdapterMock;
+      await router.setAdapter(BRIDGE_PROVIDERS.indexOf(name), await adapters[name]!.getAddress(), true);
+    }
+
+    await weth.connect(user).deposit({ value: ether('10') });
+    await weth.connect(user).approve(await router.getAddress(), ethers.MaxUint256);
+
+    const route = { srcChain: Number((await ethers.provider.getNetwork()).chainId), dstChain: DST_CHAIN, token: await weth.getAddress(), amount: ether('10') };
+    const quote = async (overrides: Partial<typeof route> = {}) => fetchBridgeQuotes(ethers.provider, await router.getAddress(), { ...route, ...overrides });
+    const track = async () => fetchBridgeTransfers(ethers.provider, await router.getAddress(), await user.getAddress());
+    const send = async (provider: number) => {
+      const tx = await router.connect(user).bridge(provider, DST_CHAIN, await weth.getAddress(), ether('10'), await user.getAddress());
+      return bridgeRequestId((await tx.wait())!.logs);
+    };
+    return { owner, user, feeCollector, weth, router, adapters, quote, track, send };
+  }
+
+  it("should quote every active provider on what reaches it after the protocol fee", async function () {
+    const { quote } = await loadFixture(bridgeFixture);
+    const quotes = await quote();
+
+    expect(quotes.map(({ provider }) => provider)).to.deep.equal(['DEBRIDGE', 'ACROSS', 'NATIVE']);
+    // 0.5% protocol fee, then deBridge's 0.45% of the rest
+    expect(quotes[0]).to.deep.equal({
+      provider: 'DEBRIDGE',
+      estimatedTime: 120,
+      fee: ether('9.95') * 45n / 10000n,
+      protocolFee: ether('0.05'),
+      outputAmount: ether('9.95') - ether('9.95') * 45n / 10000n,
+      securityRating: 4,
+    });
+
+    await expect(quote({ dstChain: 10 })).to.be.rejectedWith('Bridging to chain 10 is not supported');
+    await expect(quote({ token: ethers.ZeroAddress })).to.be.rejectedWith(`This token cannot be bridged to chain ${DST_CHAIN}`);
+  });
+
+  it("should rank quotes by the user's weights", async function () {
+    const { quote } = await loadFixture(bridgeFixture);
+    const quotes = await quote();
+    const order = (weights: { time: number; fee: number; output: number; security: number }) =>
+      rankBridgeQuotes(quotes, weights).map(({ provider }) => provider);
+
+    expect(order({ time: 1, fee: 0, output: 0, security: 0 })).to.deep.equal(['ACROSS', 'DEBRIDGE', 'NATIVE']);
+    expect(order({ time: 0, fee: 1, output: 0, security: 0 })).to.deep.equal(['NATIVE', 'DEBRIDGE', 'ACROSS']);
+    expect(order({ time: 0, fee: 0, output: 0, security: 1 })).to.deep.equal(['NATIVE', 'DEBRIDGE', 'ACROSS']);
+    // A week-long wait outweighs the cheapest fee once speed counts for more
+    expect(order({ time: 2, fee: 1, output: 0, security: 0 })).to.deep.equal(['DEBRIDGE', 'ACROSS', 'NATIVE']);
+    expect(() => order({ time: 0, fee: 0, output: 0, security: 0 })).to.throw('Invalid bridge weights');
+
+    // Equal scores go to the larger output, then the faster provider
+    const tied: BridgeQuote[] = [
+      { provider: 'DEBRIDGE', estimatedTime: 300, fee: 5n, protocolFee: 0n, outputAmount: 95n, securityRating: 4 },
+      { provider: 'ACROSS', estimatedTime: 60, fee: 5n, protocolFee: 0n, outputAmount: 95n, securityRating: 4 },
+      { provider: 'STARGATE', estimatedTime: 300, fee: 4n, protocolFee: 0n, outputAmount: 96n, securityRating: 4 },
+    ];
+    expect(rankBridgeQuotes(tied, { time: 0, fee: 0, output: 0, security: 1 }).map(({ provider }) => provider))
+      .to.deep.equal(['STARGATE', 'ACROSS', 'DEBRIDGE']);
+  });
+
+  it("should follow a transfer until the provider delivers it", async function () {
+    const { user, feeCollector, weth, router, adapters, track, send } = await loadFixture(bridgeFixture);
+    const requestId = await send(BRIDGE_PROVIDERS.indexOf('DEBRIDGE'));
+    expect(await weth.balanceOf(await feeCollector.getAddress())).to.equal(ether('0.05'));
+
+    let [transfer] = await track();
+    expect(transfer).to.deep.include({
+      requestId,
+      provider: 'DEBRIDGE',
+      dstChain: DST_CHAIN,
+      amount: ether('9.95'),
+      recipient: await user.getAddress(),
+      status: 'pending',
+      outputAmount: null,
+    });
+
+    await adapters.DEBRIDGE!.deliver(requestId, ether('9.9'));
+    [transfer] = await track();
+    expect(transfer).to.deep.include({ status: 'completed', outputAmount: ether('9.9'), reason: null });
+    expect(await weth.balanceOf(await user.getAddress())).to.equal(ether('9.9'));
+    await expect(router.failBridge(requestId, 'Too late')).to.be.revertedWith('Already completed');
+  });
+
+  it("should report a failed transfer and refund the user", async function () {
+    const { user, weth, router, adapters, track, send } = await loadFixture(bridgeFixture);
+    const requestId = await send(BRIDGE_PROVIDERS.indexOf('ACROSS'));
+
+    await expect(router.connect(user).failBridge(requestId, 'Nope')).to.be.revertedWith('Unauthorized');
+    await expect(adapters.ACROSS!.fail(requestId, 'Destination liquidity unavailable'))
+      .to.emit(router, 'BridgeFailed').withArgs(requestId, await user.getAddress(), 'Destination liquidity unavailable');
+
+    const [transfer] = await track();
+    expect(transfer).to.deep.include({ status: 'failed', outputAmount: null, reason: 'Destination liquidity unavailable' });
+    expect(await weth.balanceOf(await user.getAddress())).to.equal(ether('9.95'));
+    expect((await router.getAdapter(BRIDGE_PROVIDERS.indexOf('ACROSS'))).failCount).to.equal(1n);
+  });
+
+  it("should refuse transfers the provider cannot take", async function () {
+    const { user, weth, router, adapters, track, send } = await loadFixture(bridgeFixture);
+    await adapters.NATIVE!.setRejecting(true);
+
+    await expect(send(BRIDGE_PROVIDERS.indexOf('NATIVE'))).to.be.revertedWithCustomError(router, 'BridgeCallFailed');
+    await expect(send(BRIDGE_PROVIDERS.indexOf('STARGATE'))).to.be.revertedWithCustomError(router, 'AdapterNotActive');
+    expect(await weth.balanceOf(await user.getAddress())).to.equal(ether('10'));
+    expect(await track()).to.deep.equal([]);
+  });
+});
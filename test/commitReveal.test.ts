@@ -0,0 +1,141 @@
+// SPDX-License-Identifier: LicenseRef-Degensoft-Aqua-Source-1.1
+
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from 'hardhat';
+import { expect, ether, deployContract } from '@1inch/solidity-utils';
+import "@nomicfoundation/hardhat-chai-matchers";
+
+import { LFToken } from '../typechain-types/contracts/token/LFToken';
+import { SolverRegistry } from '../typechain-types/contracts/core/SolverRegistry';
+import { BatchProcessor } from '../typechain-types/contracts/core/BatchProcessor';
+import {
+  CommitRevealClient,
+  CommitRevealOptions,
+  IntentParams,
+  RevealWarning,
+  computeCommitHash,
+  deserializeCommitments,
+  serializeCommitments,
+} from "../src/lib/commitReveal";
+import { memoryStorage } from "../src/lib/storage";
+
+describe("Commit-reveal client", function () {
+  async function batchFixture() {
+    const [, user, tokenIn, tokenOut] = await ethers.getSigners();
+    const lfToken = await deployContract('LFToken') as unknown as LFToken;
+    const solverRegistry = await deployContract('SolverRegistry', [await lfToken.getAddress()]) as unknown as SolverRegistry;
+    const batchProcessor = await deployContract('BatchProcessor', [await solverRegistry.getAddress(), ethers.ZeroAddress]) as unknown as BatchProcessor;
+
+    const params: IntentParams = {
+      tokenIn: await tokenIn.getAddress(),
+      tokenOut: await tokenOut.getAddress(),
+      amountIn: ether('1'),
+      minAmountOut: ether('1800'),
+      maxFee: 0n,
+      allowPartialFill: true,
+      deadline: BigInt(await time.latest() + 3600),
+    };
+    const batchProcessorAddress = await batchProcessor.getAddress();
+    const storage = memoryStorage();
+    const storageKey = `liquidflow:commitments:31337:${batchProcessorAddress.toLowerCase()}:${(await user.getAddress()).toLowerCase()}`;
+    const warnings: RevealWarning[] = [];
+    const newClient = (overrides: Partial<CommitRevealOptions> = {}) => new CommitRevealClient({
+      signer: user,
+      batchProcessor: batchProcessorAddress,
+      chainId: 31337,
+      storage,
+      onWarning: (warning) => warnings.push(warning),
+      ...overrides,
+    });
+
+    return { user, batchProcessor, params, storage, storageKey, warnings, newClient };
+  }
+
+  it("should commit a hash BatchProcessor accepts and reveal once the batch closes", async function () {
+    const { batchProcessor, params, newClient } = await loadFixture(batchFixture);
+    const client = newClient();
+
+    const record = await client.commit(params);
+    expect(record.status).to.equal('committed');
+    expect(record.commitHash).to.equal(computeCommitHash(params, record.salt));
+    const committed = await batchProcessor.getIntent(record.intentId!);
+    expect(committed.commitHash).to.equal(record.commitHash);
+    expect(committed.revealed).to.equal(false);
+
+    // Still hidden while the batch is open
+    await client.tick();
+    expect((await client.records())[0].status).to.equal('committed');
+
+    await batchProcessor.closeBatch();
+    await client.tick();
+
+    const [revealed] = await client.records();
+    expect(revealed.status).to.equal('revealed');
+    const intent = await batchProcessor.getIntent(record.intentId!);
+    expect(intent.revealed).to.equal(true);
+    expect(intent.amountIn).to.equal(params.amountIn);
+    expect(intent.minAmountOut).to.equal(params.minAmountOut);
+    expect(intent.allowPartialFill).to.equal(true);
+  });
+
+  it("should survive a reload between sending the commit and its confirmation", async function () {
+    const { batchProcessor, user, params, storage, storageKey, newClient } = await loadFixture(batchFixture);
+
+    // Simulate a page that stored the secret and sent the commit, then reloaded
+    const salt = ethers.hexlify(ethers.randomBytes(32));
+    const commitHash = computeCommitHash(params, salt);
+    const tx = await batchProcessor.connect(user).submitCommittedIntent(commitHash);
+    storage.setItem(storageKey, serializeCommitments([{ ...params, salt, commitHash, status: 'pending', createdAt: Date.now(), commitTxHash: tx.hash }]));
+
+    await batchProcessor.closeBatch();
+    const client = newClient();
+    await client.tick();
+
+    const [record] = deserializeCommitments(storage.getItem(storageKey)!);
+    expect(record.status).to.equal('revealed');
+    expect(record.amountIn).to.equal(params.amountIn);
+    expect((await batchProcessor.getIntent(record.intentId!)).revealed).to.equal(true);
+  });
+
+  it("should keep a sent commit pending when its confirmation fails and recover it from the receipt", async function () {
+    const { batchProcessor, params, newClient } = await loadFixture(batchFixture);
+    const client = newClient({ onTransaction: () => { throw new Error('Connection lost'); } });
+
+    const sent = await client.commit(params);
+    expect(sent.status).to.equal('pending');
+    expect(sent.commitTxHash).to.not.equal(undefined);
+    expect(sent.error).to.equal('Connection lost');
+
+    await batchProcessor.closeBatch();
+    await newClient().tick();
+    const record = (await client.records()).find((candidate) => candidate.commitHash === sent.commitHash)!;
+    expect(record.status).to.equal('revealed');
+    expect(record.error).to.equal(undefined);
+    expect((await batchProcessor.getIntent(record.intentId!)).revealed).to.equal(true);
+  });
+
+  it("should warn before the reveal window closes whatever the reveal does and give up after it", async function () {
+    const { batchProcessor, params, storage, storageKey, warnings, newClient } = await loadFixture(batchFixture);
+    const client = newClient();
+    const pending = await client.commit(params);
+    const stuck = await client.commit({ ...params, amountIn: ether('2') });
+
+    // A corrupted secret cannot be revealed, so that reveal keeps failing
+    storage.setItem(storageKey, serializeCommitments([pending, { ...stuck, salt: ethers.ZeroHash }]));
+
+    await batchProcessor.closeBatch();
+    const { solveDeadline } = await batchProcessor.getCurrentBatch();
+    await time.increaseTo(solveDeadline - 3n);
+    await client.tick();
+
+    // Both are warned about, including the one whose reveal then lands
+    expect(warnings.map(({ intentId }) => intentId)).to.deep.equal([pending.intentId, stuck.intentId]);
+    expect(warnings[0].secondsLeft).to.be.at.most(3);
+    expect((await client.records()).map(({ status }) => status)).to.deep.equal(['revealed', 'committed']);
+
+    await time.increaseTo(solveDeadline + 1n);
+    await client.tick();
+    expect((await client.records())[1].status).to.equal('missed');
+    expect(warnings).to.have.length(2);
+  });
+});
@@ -0,0 +1,98 @@
+// SPDX-License-Identifier: LicenseRef-Degensoft-Aqua-Source-1.1
+
+import { expect, ether } from '@1inch/solidity-utils';
+
+import { MatchableIntent, matchIntents } from "../src/lib/cow";
+import { PoolState, WAD, quoteExactIn } from "../src/lib/quote";
+
+const TOKEN_A = '0x1000000000000000000000000000000000000001';
+const TOKEN_B = '0x2000000000000000000000000000000000000002';
+
+describe("CoW matching", function () {
+  // 100 A / 200 B at 0.3%, oriented for either direction
+  const reserves = { [TOKEN_A]: ether('100'), [TOKEN_B]: ether('200') };
+  const liquidity = (tokenIn: string, tokenOut: string): { state: PoolState }[] => [{
+    state: { kind: 'xyc', reserveIn: reserves[tokenIn], reserveOut: reserves[tokenOut], feeBps: 30n },
+  }];
+  const alone = (tokenIn: string, amountIn: bigint) => quoteExactIn(liquidity(tokenIn, tokenIn === TOKEN_A ? TOKEN_B : TOKEN_A)[0].state, amountIn).amountOut;
+
+  let nextId = 0;
+  const intent = (tokenIn: string, amountIn: bigint, overrides: Partial<MatchableIntent> = {}): MatchableIntent => ({
+    intentId: `intent-${nextId++}`,
+    tokenIn,
+    tokenOut: tokenIn === TOKEN_A ? TOKEN_B : TOKEN_A,
+    amountIn,
+    minAmountOut: 0n,
+    allowPartialFill: false,
+    ...overrides,
+  });
+
+  it("should net balanced flow peer to peer without touching the AMM", function () {
+    const result = matchIntents([intent(TOKEN_A, ether('10')), intent(TOKEN_B, ether('20'))], liquidity);
+
+    const [clearing] = result.clearings;
+    expect(clearing.amm).to.equal(null);
+    expect(clearing.priceAB).to.equal(ether('2'));
+    expect(clearing.priceBA).to.equal(ether('0.5'));
+    expect(result.fills.map((fill) => fill.amountOut)).to.deep.equal([ether('20'), ether('10')]);
+
+    // Both sides do better than the AMM would give them alone
+    expect(ether('20')).to.be.greaterThan(alone(TOKEN_A, ether('10')));
+    expect(ether('10')).to.be.greaterThan(alone(TOKEN_B, ether('20')));
+  });
+
+  it("should route only the imbalance and keep the price uniform", function () {
+    const sellers = [intent(TOKEN_A, ether('6')), intent(TOKEN_A, ether('4')), intent(TOKEN_B, ether('5'))];
+    const result = matchIntents(sellers, liquidity);
+    const [clearing] = result.clearings;
+    const amm = clearing.amm!;
+
+    expect(amm.tokenIn).to.equal(TOKEN_A);
+    expect(amm.amountIn).to.be.lessThan(ether('10') - ether('2.5'));
+    // priceAB * priceBA == 1 up to rounding
+    expect(clearing.priceAB * clearing.priceBA / WAD).to.be.within(WAD - 2n, WAD);
+
+    // Every A seller gets the same rate, and the A side beats sending its whole flow to the AMM
+    const [six, four, b] = result.fills;
+    expect(six.amountOut * 4n / 6n).to.be.within(four.amountOut - 1n, four.amountOut + 1n);
+    expect(six.amountOut + four.amountOut).to.be.greaterThan(alone(TOKEN_A, ether('10')));
+    expect(b.amountOut).to.be.greaterThan(alone(TOKEN_B, ether('5')));
+
+    // Payouts never exceed netted input plus AMM output
+    const paidB = six.amountOut + four.amountOut;
+    expect(paidB).to.be.at.most(ether('5') + amm.amountOut);
+    expect(b.amountOut).to.be.at.most(ether('10') - amm.amountIn);
+    // Surplus is kept apart per output token
+    expect([...result.surplusByToken]).to.deep.equal([[TOKEN_B, paidB], [TOKEN_A, b.amountOut]]);
+  });
+
+  it("should drop intents whose limit fails and shrink partial fills", function () {
+    const strict = intent(TOKEN_A, ether('10'), { minAmountOut: ether('100') });
+    const partial = intent(TOKEN_A, ether('40'), { minAmountOut: ether('40') * 17n / 10n, allowPartialFill: true });
+    const result = matchIntents([strict, partial, intent(TOKEN_B, ether('2'))], liquidity);
+
+    expect(result.unfilled).to.deep.equal([strict]);
+    const fill = result.fills.find((candidate) => candidate.intent === partial)!;
+    expect(fill.partial).to.equal(true);
+    expect(fill.amountIn).to.be.lessThan(partial.amountIn);
+    expect(fill.minAmountOut).to.equal((partial.minAmountOut * fill.amountIn + partial.amountIn - 1n) / partial.amountIn);
+    expect(fill.amountOut).to.be.at.least(fill.minAmountOut);
+  });
+
+  it("should leave one-sided flow unfilled without liquidity", function () {
+    const lonely = intent(TOKEN_A, ether('1'));
+    const result = matchIntents([lonely], () => []);
+
+    expect(result.fills).to.have.length(0);
+    expect(result.clearings).to.have.length(0);
+    expect(result.unfilled).to.deep.equal([lonely]);
+  });
+
+  it("should leave intents swapping a token for itself unfilled and match the rest", function () {
+    const loop = intent(TOKEN_A, ether('1'), { tokenOut: TOKEN_A });
+    const result = matchIntents([loop, intent(TOKEN_A, ether('10')), intent(TOKEN_B, ether('20'))], liquidity);
+
+    expect(result.unfilled).to.deep.equal([loop]);
+    expect(result.fills.map((fill) => fill.amountOut)).to.deep.equal([ether('20'), ether('10')]);
+  });
+});
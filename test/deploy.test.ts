@@ -0,0 +1,116 @@
+// SPDX-License-Identifier: LicenseRef-Degensoft-Aqua-Source-1.1
+
+import { ethers, artifacts } from 'hardhat';
+import { expect } from '@1inch/solidity-utils';
+import { SnapshotRestorer, takeSnapshot } from "@nomicfoundation/hardhat-network-helpers";
+
+import { DeploymentManifest, emptyManifest } from "../src/lib/manifest";
+import { DeployContext, ProtocolConfig, deployProtocol } from "../scripts/protocol";
+
+describe("Protocol deployment", function () {
+  const CONTRACTS = [
+    'LFToken', 'BurnedLF', 'VotingEscrow', 'FeeDistributor', 'RewardsController', 'LiquidFlowCore',
+    'SolverRegistry', 'BatchProcessor', 'WETHMock', 'LiquidFlowRouter', 'XYKStrategy', 'StrategyFactory', 'BridgeRouter',
+    'ReferenceSolver',
+  ];
+
+  async function context(saved: DeploymentManifest[] = []): Promise<DeployContext> {
+    const [deployer] = await ethers.getSigners();
+    return {
+      deployer,
+      provider: ethers.provider,
+      chainId: Number((await ethers.provider.getNetwork()).chainId),
+      artifacts,
+      save: (manifest) => saved.push(manifest),
+    };
+  }
+
+  let snapshot: SnapshotRestorer;
+  beforeEach(async function () {
+    snapshot = await takeSnapshot();
+  });
+  afterEach(async function () {
+    await snapshot.restore();
+  });
+
+  it("should deploy and wire every contract, then skip everything on a second run", async function () {
+    const ctx = await context();
+    const [, adapter] = await ethers.getSigners();
+    const config: ProtocolConfig = {
+      protocolFeeBps: 500,
+      minters: [await adapter.getAddress()],
+      bridge: { chains: [8453], adapters: { STARGATE: await adapter.getAddress() } },
+    };
+
+    const first = await deployProtocol(ctx, config, emptyManifest(ctx.chainId, 'hardhat'));
+    expect(first.deployed).to.deep.equal(CONTRACTS);
+    // Constructors already set these
+    expect(first.skipped).to.deep.equal([
+      'RewardsController.setVotingEscrow(VotingEscrow)',
+      'StrategyFactory.setLiquidFlowCore(LiquidFlowCore)',
+    ]);
+    expect(first.wired).to.include.members([
+      'LFToken.setBurnedLF(BurnedLF)',
+      'LiquidFlowCore.setBatchProcessor(BatchProcessor)',
+      'LiquidFlowCore.setRouter(LiquidFlowRouter)',
+      'LiquidFlowCore.setStrategyApproval(XYKStrategy, true)',
+      'LiquidFlowCore.setProtocolFee(500)',
+      `BridgeRouter.setAdapter(STARGATE, ${await adapter.getAddress()}, true)`,
+    ]);
+
+    const { contracts } = first.manifest;
+    const lfToken = await ethers.getContractAt('LFToken', contracts.LFToken.address);
+    const burnedLF = await ethers.getContractAt('BurnedLF', contracts.BurnedLF.address);
+    const core = await ethers.getContractAt('LiquidFlowCore', contracts.LiquidFlowCore.address);
+    expect(await lfToken.burnedLF()).to.equal(contracts.BurnedLF.address);
+    expect(await burnedLF.lfToken()).to.equal(contracts.LFToken.address);
+    expect(await core.batchProcessor()).to.equal(contracts.BatchProcessor.address);
+    expect(await core.approvedStrategies(contracts.XYKStrategy.address)).to.be.true;
+    expect(await lfToken.minters(await adapter.getAddress())).to.be.true;
+
+    const blockBefore = await ethers.provider.getBlockNumber();
+    const second = await deployProtocol(ctx, config, first.manifest);
+    expect(second.deployed).to.deep.equal([]);
+    expect(second.reused).to.deep.equal(CONTRACTS);
+    expect(second.wired).to.deep.equal([]);
+    expect(second.skipped).to.have.members([...first.wired, ...first.skipped]);
+    expect(await ethers.provider.getBlockNumber()).to.equal(blockBefore);
+  });
+
+  it("should resume an interrupted deployment from the last saved manifest", async function () {
+    const saved: DeploymentManifest[] = [];
+    const ctx = await context(saved);
+    const interrupted: DeployContext = {
+      ...ctx,
+      save: (manifest) => {
+        ctx.save(manifest);
+        if (saved.length === 3) throw new Error('interrupted');
+      },
+    };
+    await expect(deployProtocol(interrupted, {}, emptyManifest(ctx.chainId, 'hardhat'))).to.be.rejectedWith('interrupted');
+
+    const resumed = await deployProtocol(ctx, {}, saved[saved.length - 1]);
+    expect(resumed.reused).to.deep.equal(['LFToken', 'BurnedLF', 'VotingEscrow']);
+    expect(resumed.deployed).to.deep.equal(CONTRACTS.slice(3));
+  });
+
+  it("should redo only the wiring that changed and redeploy dependents of replaced contracts", async function () {
+    const ctx = await context();
+    const first = await deployProtocol(ctx, {}, emptyManifest(ctx.chainId, 'hardhat'));
+    const core = await ethers.getContractAt('LiquidFlowCore', first.manifest.contracts.LiquidFlowCore.address);
+    await core.setBatchProcessor(ethers.Wallet.createRandom().address);
+
+    const rewired = await deployProtocol(ctx, {}, first.manifest);
+    expect(rewired.deployed).to.deep.equal([]);
+    expect(rewired.wired).to.deep.equal(['LiquidFlowCore.setBatchProcessor(BatchProcessor)']);
+
+    // A new SolverRegistry changes BatchProcessor's constructor arguments, and with it the router's and the solver's
+    const redeployed = await deployProtocol(ctx, { redeploy: ['SolverRegistry'] }, rewired.manifest);
+    expect(redeployed.deployed).to.deep.equal(['SolverRegistry', 'BatchProcessor', 'LiquidFlowRouter', 'ReferenceSolver']);
+    expect(redeployed.wired).to.deep.equal([
+      'LiquidFlowCore.setBatchProcessor(BatchProcessor)',
+      'LiquidFlowCore.setRouter(LiquidFlowRouter)',
+      'SolverRegistry.setBatchProcessor(BatchProcessor)',
+    ]);
+  });
+});
@@ -0,0 +1,110 @@
+// SPDX-License-Identifier: LicenseRef-Degensoft-Aqua-Source-1.1
+
+import { seededRandom } from "./utils";
+
+// Minimal property-based testing over action sequences. A property generates
+// a random sequence from a seed and runs it, reporting the first broken
+// invariant. Failing sequences are shrunk by dropping chunks of actions and
+// then simplifying single actions, keeping every candidate that still breaks
+// the same invariant, so the counterexample is small enough to read.
+
+export type Random = ReturnType<typeof seededRandom>;
+
+export interface Failure {
+  step: number;
+  invariant: string;
+  message: string;
+}
+
+export interface Property<A> {
+  generate: (rand: Random, length: number) => A[];
+  run: (actions: A[]) => Promise<Failure | null>;
+  // Simpler variants of one action, simplest first
+  simplify?: (action: A) => A[];
+}
+
+export interface FuzzOptions {
+  seed: number;
+  runs: number;
+  length: number;
+  // Upper bound on sequence executions spent shrinking one failure
+  shrinkBudget?: number;
+}
+
+export interface Counterexample<A> {
+  seed: number;
+  failure: Failure;
+  actions: A[];
+  originalLength: number;
+  shrinkRuns: number;
+}
+
+export async function shrink<A>(
+  property: Property<A>,
+  actions: A[],
+  failure: Failure,
+  budget = 200,
+): Promise<{ actions: A[]; failure: Failure; runs: number }> {
+  let runs = 0;
+  let best = { actions: actions.slice(0, failure.step + 1), failure };
+
+  const attempt = async (candidate: A[]) => {
+    if (runs >= budget) return false;
+    runs++;
+    const result = await property.run(candidate);
+    if (!result || result.invariant !== best.failure.invariant) return false;
+    best = { actions: candidate.slice(0, result.step + 1), failure: result };
+    return true;
+  };
+
+  // Drop chunks, halving the chunk size whenever no chunk of the current size can go
+  for (let size = Math.max(1, Math.floor(best.actions.length / 2)); size >= 1 && runs < budget;) {
+    let removed = false;
+    for (let start = 0; start + size <= best.actions.length && runs < budget; start += size) {
+      if (await attempt([...best.actions.slice(0, start), ...best.actions.slice(start + size)])) {
+        removed = true;
+        break;
+      }
+    }
+    if (!removed) size = Math.floor(size / 2);
+    else size = Math.min(size, Math.max(1, Math.floor(best.actions.length / 2)));
+  }
+
+  // Simplify what is left, one action at a time
+  if (property.simplify) {
+    for (let index = 0; index < best.actions.length && runs < budget; index++) {
+      for (const simpler of property.simplify(best.actions[index])) {
+        if (index >= best.actions.length) break;
+        const candidate = [...best.actions];
+        candidate[index] = simpler;
+        if (await attempt(candidate)) break;
+      }
+    }
+  }
+
+  return { ...best, runs };
+}
+
+// Runs `runs` sequences seeded seed, seed + 1, ...; resolves to the shrunk first failure
+export async function fuzz<A>(property: Property<A>, options: FuzzOptions): Promise<Counterexample<A> | null> {
+  for (let run = 0; run < options.runs; run++) {
+    const seed = options.seed + run;
+    const actions = property.generate(seededRandom(seed), options.length);
+    const failure = await property.run(actions);
+    if (!failure) continue;
+
+    const shrunk = await shrink(property, actions, failure, options.shrinkBudget);
+    return { seed, failure: shrunk.failure, actions: shrunk.actions, originalLength: actions.length, shrinkRuns: shrunk.runs };
+  }
+  return null;
+}
+
+export function describeCounterexample<A>(counterexample: Counterexample<A>, replayVariable: string): string {
+  const { seed, failure, actions, originalLength } = counterexample;
+  return [
+    `Invariant "${failure.invariant}" broken at step ${failure.step}: ${failure.message}`,
+    `Seed ${seed}, shrunk from ${originalLength} to ${actions.length} actions:`,
+    ...actions.map((action, step) => `  ${step}: ${JSON.stringify(action)}`),
+    `Replay with ${replayVariable}='${JSON.stringify(actions)}'`,
+  ].join('\n');
+}
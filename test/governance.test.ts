@@ -0,0 +1,208 @@
+// SPDX-License-Identifier: LicenseRef-Degensoft-Aqua-Source-1.1
+
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from 'hardhat';
+import { expect, ether, deployContract } from '@1inch/solidity-utils';
+import "@nomicfoundation/hardhat-chai-matchers";
+
+import { LFToken } from '../typechain-types/contracts/token/LFToken';
+import { BurnedLF } from '../typechain-types/contracts/token/BurnedLF';
+import { VotingEscrow } from '../typechain-types/contracts/token/VotingEscrow';
+import { LiquidFlowCore } from '../typechain-types/contracts/core/LiquidFlowCore';
+import { memoryStorage } from "../src/lib/storage";
+import {
+  LocalGovernance, Proposal, SignedVote, draftProposal, draftVote, proposalStatus, recomputeTally, sameTally, signProposal, signVote, votingPower,
+} from "../src/lib/governance";
+import { encodeAction } from "../src/lib/governanceActions";
+
+const DAY = 24 * 3600;
+const YEAR = 365 * DAY;
+
+describe("Governance", function () {
+  async function governanceFixture() {
+    const [owner, alice, bob, carol, mallory, feeCollector] = await ethers.getSigners();
+    const lf = await deployContract('LFToken') as unknown as LFToken;
+    const blf = await deployContract('BurnedLF') as unknown as BurnedLF;
+    const escrow = await deployContract('VotingEscrow', [await blf.getAddress()]) as unknown as VotingEscrow;
+    await lf.setBurnedLF(blf.getAddress());
+    await blf.setLFToken(lf.getAddress());
+    await blf.setVotingEscrow(escrow.getAddress());
+
+    // 60k and 50k for four years count in full; 10k for one year counts 4.375k
+    const locks: [typeof alice, string, number][] = [[alice, '60000', 4 * YEAR], [bob, '50000', 4 * YEAR], [carol, '10000', YEAR]];
+    for (const [account, amount, duration] of locks) {
+      await lf.mint(account.getAddress(), ether(amount));
+      await lf.connect(account).burnForBLF(ether(amount));
+      await escrow.connect(account).createLock(ether(amount), duration);
+    }
+
+    // For proposals that carry actions
+    const core = await deployContract('LiquidFlowCore', [await feeCollector.getAddress()]) as unknown as LiquidFlowCore;
+
+    return { owner, alice, bob, carol, mallory, lf, escrow, core, votingEscrow: await escrow.getAddress() };
+  }
+
+  // Storage lives outside the chain, so every test starts its own
+  async function governanceSetup() {
+    const fixture = await loadFixture(governanceFixture);
+    const { alice, core, votingEscrow } = fixture;
+    const contracts = { LiquidFlowCore: await core.getAddress() };
+    const storage = memoryStorage();
+    const governance = new LocalGovernance({
+      provider: ethers.provider,
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      votingEscrow,
+      storage,
+      quorum: ether('100000'),
+      contracts,
+      // Previews run on the test chain itself and are rolled back
+      fork: { provider: ethers.provider },
+    });
+    const { domain } = governance;
+
+    const propose = async (proposer = alice, votingPeriod = 3 * DAY, actions: Proposal['actions'] = []) => {
+      const proposal = await draftProposal(ethers.provider, await proposer.getAddress(), 'LFP-1: Raise the protocol fee', 'From 10% to 12%', votingPeriod, actions);
+      return governance.propose(await signProposal(proposer, domain, proposal));
+    };
+    const ballot = async (voter: typeof alice, proposalId: string, support: number, reason = '') =>
+      signVote(voter, domain, await draftVote(ethers.provider, proposalId, await voter.getAddress(), support, reason));
+
+    return { ...fixture, contracts, storage, governance, domain, propose, ballot };
+  }
+
+  it("should weigh signed votes by vebLF at the snapshot and pass once quorum is reached", async function () {
+    const { alice, bob, carol, votingEscrow, storage, governance, propose, ballot } = await governanceSetup();
+    const { record } = await propose();
+    const { proposal } = record;
+    const power = async (account: typeof alice) => votingPower(ethers.provider, votingEscrow, await account.getAddress(), proposal);
+
+    let view = await governance.vote(await ballot(alice, record.id, 1, 'Audits need funding'));
+    expect(view.tally.for).to.equal(await power(alice));
+    expect(view.tally.quorumReached).to.equal(false);
+
+    await governance.vote(await ballot(carol, record.id, 0));
+    view = await governance.vote(await ballot(bob, record.id, 2));
+    expect(view.tally).to.deep.include({ against: await power(carol), abstain: await power(bob), quorumReached: true, passed: true });
+    expect(view.votes.map(({ weight }) => weight)).to.deep.equal([await power(alice), await power(carol), await power(bob)]);
+
+    // The file backend and other browsers read the same records back
+    const reopened = new LocalGovernance({ provider: ethers.provider, chainId: (await ethers.provider.getNetwork()).chainId, votingEscrow, storage, quorum: ether('1') });
+    const [stored] = await reopened.proposals();
+    expect(stored.record.quorum).to.equal(ether('100000'));
+    expect(stored.tally).to.deep.equal(view.tally);
+
+    expect(proposalStatus(view, proposal.end - 1)).to.equal('active');
+    await time.increaseTo(proposal.end);
+    await expect(governance.vote(await ballot(carol, record.id, 1))).to.be.rejectedWith('Voting has ended');
+    expect(proposalStatus(view, proposal.end)).to.equal('passed');
+  });
+
+  it("should count only the vebLF held at the snapshot", async function () {
+    const { alice, bob, mallory, lf, escrow, votingEscrow, governance, propose, ballot } = await governanceSetup();
+    await lf.mint(bob.getAddress(), ether('40000'));
+    await lf.connect(bob).burnForBLF(ether('40000'));
+    await lf.mint(mallory.getAddress(), ether('500000'));
+    await lf.connect(mallory).burnForBLF(ether('500000'));
+
+    const { record } = await propose();
+    const snapshotPower = await votingPower(ethers.provider, votingEscrow, await bob.getAddress(), record.proposal);
+
+    // Growing a lock or locking after the snapshot does not buy votes
+    await escrow.connect(bob).increaseAmount(ether('40000'));
+    await escrow.connect(mallory).createLock(ether('500000'), 4 * YEAR);
+    expect(await escrow.balanceOfAt(bob.getAddress(), record.proposal.snapshot)).to.be.gt(snapshotPower);
+
+    const view = await governance.vote(await ballot(bob, record.id, 0));
+    expect(view.tally.against).to.equal(snapshotPower);
+    await expect(governance.vote(await ballot(mallory, record.id, 0))).to.be.rejectedWith('The voter has no vebLF at the snapshot');
+    // At its grown weight the against vote would outweigh this one
+    const { tally } = await governance.vote(await ballot(alice, record.id, 1));
+    expect(tally.passed).to.equal(true);
+  });
+
+  it("should reject forged, repeated and weightless submissions", async function () {
+    const { alice, bob, mallory, governance, domain, propose, ballot } = await governanceSetup();
+    const draft = await draftProposal(ethers.provider, await bob.getAddress(), 'LFP-2: Add a fee token', '', 3 * DAY);
+    await expect(governance.propose(await signProposal(alice, domain, draft))).to.be.rejectedWith('The proposal is not signed by its proposer');
+    await expect(propose(mallory)).to.be.rejectedWith('The proposer has no vebLF at the snapshot');
+    await expect(propose(alice, 3600)).to.be.rejectedWith('The voting period must be between 24 and 720 hours');
+
+    const stale: Proposal = { ...draft, proposer: await alice.getAddress(), snapshot: draft.snapshot - 1 };
+    await expect(governance.propose(await signProposal(alice, domain, stale))).to.be.rejectedWith(`The snapshot does not match block ${draft.snapshotBlock}`);
+
+    const { record } = await propose();
+    await expect(propose()).to.be.rejectedWith('The proposal already exists');
+
+    const forged = await signVote(mallory, domain, await draftVote(ethers.provider, record.id, await alice.getAddress(), 0, ''));
+    await expect(governance.vote(forged)).to.be.rejectedWith('The vote is not signed by the voter');
+    const { end } = record.proposal;
+    const postdated = await signVote(alice, domain, { ...await draftVote(ethers.provider, record.id, await alice.getAddress(), 1, ''), timestamp: end });
+    await expect(governance.vote(postdated)).to.be.rejectedWith('The vote is dated after voting ended');
+    await expect(governance.vote(await ballot(alice, record.id, 3))).to.be.rejectedWith('Unknown vote choice');
+    await expect(governance.vote(await ballot(alice, ethers.ZeroHash, 1))).to.be.rejectedWith('Unknown proposal');
+
+    await governance.vote(await ballot(alice, record.id, 1));
+    await expect(governance.vote(await ballot(alice, record.id, 0))).to.be.rejectedWith('This account already voted');
+  });
+
+  it("should recompute the tally from the signatures alone and flag tampering", async function () {
+    const { alice, bob, carol, mallory, votingEscrow, storage, governance, domain, propose, ballot } = await governanceSetup();
+    const { record } = await propose();
+    await governance.vote(await ballot(alice, record.id, 1, '100n'));
+    const { votes, tally } = await governance.vote(await ballot(bob, record.id, 0));
+
+    const recomputed = await recomputeTally(ethers.provider, domain, record, votes);
+    expect(sameTally(recomputed.tally, tally)).to.equal(true);
+    expect(recomputed.rejected).to.be.empty;
+    expect(recomputed.weights[await alice.getAddress()]).to.equal(votes[0].weight);
+
+    // Read back from storage, text that looks like a bigint is still what was signed
+    const reopened = new LocalGovernance({ provider: ethers.provider, chainId: (await ethers.provider.getNetwork()).chainId, votingEscrow, storage });
+    const [stored] = await reopened.proposals();
+    expect(stored.votes[0].vote.reason).to.equal('100n');
+    expect((await recomputeTally(ethers.provider, domain, stored.record, stored.votes)).rejected).to.be.empty;
+
+    // A backend flipping a vote, replaying one or slipping in an unsigned, weightless or late one
+    const late = await signVote(carol, domain, { ...await draftVote(ethers.provider, record.id, await carol.getAddress(), 1, ''), timestamp: record.proposal.end });
+    const backdated = { ...await ballot(carol, record.id, 1), submittedAt: record.proposal.end };
+    const flipped: SignedVote = { ...votes[1], vote: { ...votes[1].vote, support: 1 } };
+    const unsigned: SignedVote = { ...votes[0], vote: { ...votes[0].vote, voter: await carol.getAddress() } };
+    const tampered = await recomputeTally(ethers.provider, domain, record, [
+      votes[0], flipped, votes[0], unsigned, await ballot(mallory, record.id, 1), await ballot(carol, ethers.ZeroHash, 1), late, backdated,
+    ]);
+    expect(tampered.rejected).to.deep.equal([
+      { voter: await bob.getAddress(), reason: 'Not signed by the voter' },
+      { voter: await alice.getAddress(), reason: 'Voted more than once' },
+      { voter: await carol.getAddress(), reason: 'Not signed by the voter' },
+      { voter: await mallory.getAddress(), reason: 'No vebLF at the snapshot' },
+      { voter: await carol.getAddress(), reason: 'Signed for another proposal' },
+      { voter: await carol.getAddress(), reason: 'Signed after voting ended' },
+      { voter: await carol.getAddress(), reason: 'Received after voting ended' },
+    ]);
+    expect(sameTally(tampered.tally, tally)).to.equal(false);
+    expect(tampered.tally.for).to.equal(votes[0].weight);
+
+    await expect(recomputeTally(ethers.provider, domain, { ...record, proposal: { ...record.proposal, title: 'LFP-1: Lower the protocol fee' } }, votes))
+      .to.be.rejectedWith('The proposal ID does not match its content');
+  });
+
+  it("should check a proposal's actions and preview them on a fork once it passes", async function () {
+    const { owner, alice, bob, core, contracts, governance, propose, ballot } = await governanceSetup();
+    const raiseFee = encodeAction(contracts, { contract: 'LiquidFlowCore', method: 'setProtocolFee', feeBps: 1200n });
+
+    await expect(propose(alice, 3 * DAY, [{ ...raiseFee, target: await owner.getAddress() }]))
+      .to.be.rejectedWith(`Action 1: setProtocolFee is called on ${await owner.getAddress()}, which is not LiquidFlowCore`);
+    const { record } = await propose(alice, 3 * DAY, [raiseFee]);
+    expect(record.proposal.actions).to.deep.equal([raiseFee]);
+
+    await governance.vote(await ballot(alice, record.id, 1));
+    await governance.vote(await ballot(bob, record.id, 1));
+    await expect(governance.preview(record.id)).to.be.rejectedWith('Only passed proposals can be previewed');
+
+    await time.increaseTo(record.proposal.end);
+    const preview = await governance.preview(record.id);
+    expect(preview.succeeded).to.equal(true);
+    expect(preview.actions[0].changes).to.deep.equal([{ label: 'Protocol fee (share of LP fees)', before: '10%', proposed: '12%', after: '12%' }]);
+    expect(await core.protocolFeeBps()).to.equal(1000n);
+  });
+});
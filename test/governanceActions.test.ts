@@ -0,0 +1,101 @@
+// SPDX-License-Identifier: LicenseRef-Degensoft-Aqua-Source-1.1
+
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from 'hardhat';
+import { expect, deployContract } from '@1inch/solidity-utils';
+import "@nomicfoundation/hardhat-chai-matchers";
+
+import { LFToken } from '../typechain-types/contracts/token/LFToken';
+import { BurnedLF } from '../typechain-types/contracts/token/BurnedLF';
+import { VotingEscrow } from '../typechain-types/contracts/token/VotingEscrow';
+import { LiquidFlowCore } from '../typechain-types/contracts/core/LiquidFlowCore';
+import { BatchProcessor } from '../typechain-types/contracts/core/BatchProcessor';
+import { FeeDistributor } from '../typechain-types/contracts/token/FeeDistributor';
+import { RewardsController } from '../typechain-types/contracts/token/RewardsController';
+import { GovernanceCall, GovernedAddresses, decodeAction, diffActions, encodeAction, previewOnFork } from "../src/lib/governanceActions";
+
+describe("Governance actions", function () {
+  async function governedFixture() {
+    const [owner, feeCollector, solverRegistry] = await ethers.getSigners();
+    const lf = await deployContract('LFToken') as unknown as LFToken;
+    const blf = await deployContract('BurnedLF') as unknown as BurnedLF;
+    const votingEscrow = await deployContract('VotingEscrow', [await blf.getAddress()]) as unknown as VotingEscrow;
+    const core = await deployContract('LiquidFlowCore', [await feeCollector.getAddress()]) as unknown as LiquidFlowCore;
+    const batchProcessor = await deployContract('BatchProcessor', [await solverRegistry.getAddress(), await core.getAddress()]) as unknown as BatchProcessor;
+    const feeDistributor = await deployContract('FeeDistributor', [await votingEscrow.getAddress()]) as unknown as FeeDistributor;
+    const rewardsController = await deployContract('RewardsController', [await lf.getAddress(), await votingEscrow.getAddress()]) as unknown as RewardsController;
+
+    const addresses: GovernedAddresses = {
+      LiquidFlowCore: await core.getAddress(),
+      BatchProcessor: await batchProcessor.getAddress(),
+      FeeDistributor: await feeDistributor.getAddress(),
+      RewardsController: await rewardsController.getAddress(),
+    };
+    const calls: GovernanceCall[] = [
+      { contract: 'LiquidFlowCore', method: 'setProtocolFee', feeBps: 1200n },
+      { contract: 'BatchProcessor', method: 'setBatchDuration', duration: 90n },
+      { contract: 'FeeDistributor', method: 'addFeeToken', token: await lf.getAddress() },
+      {
+        contract: 'RewardsController',
+        method: 'setRewardConfig',
+        baseEmissionRate: ethers.parseEther('0.002'),
+        ilCompensationRate: 150n,
+        loyaltyMultiplier: 50n,
+        maxBoost: 300n,
+      },
+    ];
+    return { owner, lf, core, batchProcessor, feeDistributor, rewardsController, addresses, calls };
+  }
+
+  it("should encode typed calls and show current against proposed values", async function () {
+    const { lf, addresses, calls } = await loadFixture(governedFixture);
+    const actions = calls.map(call => encodeAction(addresses, call));
+    expect(actions.map(action => decodeAction(action, addresses))).to.deep.equal(calls);
+
+    const diffs = await diffActions(ethers.provider, actions, addresses);
+    expect(diffs.map(({ changes }) => changes)).to.deep.equal([
+      [{ label: 'Protocol fee (share of LP fees)', current: '10%', proposed: '12%' }],
+      [{ label: 'Batch duration', current: '60s', proposed: '90s' }],
+      [{ label: `Fee token LF (${await lf.getAddress()})`, current: 'not distributed', proposed: 'distributed' }],
+      [
+        { label: 'Base emission', current: '0.001 LF/s per $1000 TVL', proposed: '0.002 LF/s per $1000 TVL' },
+        { label: 'IL compensation', current: '1.5x', proposed: '1.5x' },
+        { label: 'Loyalty bonus', current: '1% per day', proposed: '0.5% per day' },
+        { label: 'Max vebLF boost', current: '2.5x', proposed: '3x' },
+      ],
+    ]);
+
+    // A setter aimed at another contract, or any other call, is refused
+    const misdirected = { ...actions[0], target: addresses.BatchProcessor! };
+    expect(() => decodeAction(misdirected, addresses)).to.throw(`setProtocolFee is called on ${addresses.BatchProcessor}, which is not LiquidFlowCore`);
+    const transfer = { target: await lf.getAddress(), data: lf.interface.encodeFunctionData('transfer', [addresses.LiquidFlowCore!, 1n]) };
+    expect(() => decodeAction(transfer)).to.throw('is called with something other than a governed setter');
+    expect(() => encodeAction({}, calls[0])).to.throw('LiquidFlowCore is not deployed on this network');
+  });
+
+  it("should run the actions on a fork as each owner and roll the fork back", async function () {
+    const { core, batchProcessor, feeDistributor, rewardsController, addresses, calls } = await loadFixture(governedFixture);
+    const actions = calls.map(call => encodeAction(addresses, call));
+
+    const preview = await previewOnFork(ethers.provider, actions);
+    expect(preview.succeeded).to.equal(true);
+    expect(preview.actions.map(({ status }) => status)).to.deep.equal(['executed', 'executed', 'executed', 'executed']);
+    expect(preview.actions[0].changes).to.deep.equal([{ label: 'Protocol fee (share of LP fees)', before: '10%', proposed: '12%', after: '12%' }]);
+    expect(preview.actions[3].changes[3]).to.deep.include({ before: '2.5x', after: '3x' });
+
+    // Nothing sticks once the preview is done
+    expect(await core.protocolFeeBps()).to.equal(1000n);
+    expect(await batchProcessor.batchDuration()).to.equal(60n);
+    expect(await feeDistributor.isFeeToken(calls[2].contract === 'FeeDistributor' ? calls[2].token : '')).to.equal(false);
+    expect((await rewardsController.config()).maxBoost).to.equal(250n);
+
+    // Past the contract's limit the call reverts, and the actions after it never run
+    const tooLong = encodeAction(addresses, { contract: 'BatchProcessor', method: 'setBatchDuration', duration: 600n });
+    const failing = await previewOnFork(ethers.provider, [actions[0], tooLong, actions[2]]);
+    expect(failing.succeeded).to.equal(false);
+    expect(failing.actions.map(({ status }) => status)).to.deep.equal(['executed', 'reverted', 'skipped']);
+    expect(failing.actions[1].error).to.contain('Max 3 minutes');
+    expect(failing.actions[2].changes[0].after).to.equal(null);
+    expect(await core.protocolFeeBps()).to.equal(1000n);
+  });
+});
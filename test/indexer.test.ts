@@ -0,0 +1,152 @@
+// SPDX-License-Identifier: LicenseRef-Degensoft-Aqua-Source-1.1
+
+import { loadFixture, time, mine } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from 'hardhat';
+import { expect, ether, deployContract } from '@1inch/solidity-utils';
+import "@nomicfoundation/hardhat-chai-matchers";
+
+import { TokenMock } from '../typechain-types/@1inch/solidity-utils/contracts/mocks/TokenMock';
+import { LiquidFlowCore } from '../typechain-types/contracts/core/LiquidFlowCore';
+import { LiquidFlowRouter } from '../typechain-types/contracts/periphery/LiquidFlowRouter';
+import { memoryStorage } from "../src/lib/storage";
+import { EventIndexer } from "../src/lib/indexer";
+import { encodeXYKStrategyParams, hashCoreStrategy } from "../src/lib/strategy";
+
+describe("Event indexer", function () {
+  async function coreFixture() {
+    const [, lp, strategy, taker, feeCollector] = await ethers.getSigners();
+    const core = await deployContract('LiquidFlowCore', [await feeCollector.getAddress()]) as unknown as LiquidFlowCore;
+    const token0 = await deployContract('TokenMock', ['Token0', 'TK0']) as unknown as TokenMock;
+    const token1 = await deployContract('TokenMock', ['Token1', 'TK1']) as unknown as TokenMock;
+    const coreAddress = await core.getAddress();
+
+    // An EOA stands in for the strategy contract so pulls and pushes can be driven directly
+    await core.setStrategyApproval(await strategy.getAddress(), true);
+    for (const token of [token0, token1]) {
+      await token.mint(await lp.getAddress(), ether('1000'));
+      await token.mint(await taker.getAddress(), ether('1000'));
+      await token.connect(lp).approve(coreAddress, ethers.MaxUint256);
+      await token.connect(taker).approve(coreAddress, ethers.MaxUint256);
+    }
+
+    const tokens = [await token0.getAddress(), await token1.getAddress()];
+    const strategyData = encodeXYKStrategyParams({
+      lp: await lp.getAddress(),
+      token0: tokens[0],
+      token1: tokens[1],
+      feeBps: 30n,
+      salt: ethers.ZeroHash,
+    });
+    const strategyHash = hashCoreStrategy(await lp.getAddress(), await strategy.getAddress(), strategyData);
+    const ship = () => core.connect(lp).ship(strategy.getAddress(), strategyData, tokens, [ether('100'), ether('200')]);
+
+    const storage = memoryStorage();
+    const newIndexer = () => new EventIndexer({
+      provider: ethers.provider,
+      contracts: { liquidFlowCore: coreAddress },
+      storage,
+    });
+
+    return { core, lp, strategy, taker, tokens, strategyData, strategyHash, ship, storage, newIndexer };
+  }
+
+  it("should derive positions from shipped, pulled, pushed and docked events", async function () {
+    const { core, lp, strategy, taker, tokens, strategyData, strategyHash, ship, newIndexer } = await loadFixture(coreFixture);
+    const indexer = newIndexer();
+
+    await ship();
+    await core.connect(strategy).pull(lp.getAddress(), strategyHash, tokens[0], ether('10'), taker.getAddress());
+    await core.connect(strategy).push(lp.getAddress(), strategyHash, tokens[1], ether('20'), taker.getAddress());
+    await indexer.tick();
+
+    const [position] = await indexer.positions(await lp.getAddress());
+    expect(position.strategyHash).to.equal(strategyHash);
+    expect(position.strategyData).to.equal(strategyData);
+    expect(position.active).to.equal(true);
+    // 10% protocol fee on the pushed side
+    expect(position.balances).to.deep.equal([ether('90'), ether('218')]);
+    expect(position.volume).to.deep.equal([ether('10'), ether('20')]);
+    expect(position.protocolFees).to.deep.equal([0n, ether('2')]);
+    for (let i = 0; i < tokens.length; i++) {
+      expect(position.balances[i]).to.equal(await core.balanceOf(lp.getAddress(), strategy.getAddress(), strategyHash, tokens[i]));
+    }
+
+    const history = (await indexer.account(await taker.getAddress())).history.map((event) => event.name);
+    expect(history).to.deep.equal(['LiquidityPulled', 'LiquidityPushed']);
+
+    await core.connect(lp).requestDock(strategy.getAddress(), strategyHash, tokens);
+    await indexer.tick();
+    const [requested] = await indexer.positions(await lp.getAddress());
+    expect(requested.withdrawal?.executed).to.equal(false);
+
+    await time.increase(180);
+    await core.connect(lp).executeDock(requested.withdrawal!.requestId);
+    await indexer.tick();
+    const [docked] = await indexer.positions(await lp.getAddress());
+    expect(docked.active).to.equal(false);
+    expect(docked.withdrawal?.executed).to.equal(true);
+    expect(docked.balances).to.deep.equal([0n, 0n]);
+  });
+
+  it("should recover the parameters of positions shipped through the router", async function () {
+    const { core, lp, strategy, tokens, newIndexer } = await loadFixture(coreFixture);
+    const router = await deployContract('LiquidFlowRouter', [
+      await core.getAddress(), ethers.ZeroAddress, ethers.ZeroAddress,
+    ]) as unknown as LiquidFlowRouter;
+    await core.setRouter(await router.getAddress());
+
+    const params = { lp: await lp.getAddress(), token0: tokens[0], token1: tokens[1], feeBps: 100n, salt: ethers.zeroPadValue('0x01', 32) };
+    const strategyData = encodeXYKStrategyParams(params);
+    await router.connect(lp).provideLiquidity(strategy.getAddress(), strategyData, tokens, [ether('10'), ether('20')]);
+    const indexer = newIndexer();
+    await indexer.tick();
+
+    const [position] = await indexer.positions(await lp.getAddress());
+    expect(position.strategyHash).to.equal(hashCoreStrategy(params.lp, await strategy.getAddress(), strategyData));
+    expect(position.strategyData).to.equal(strategyData);
+    expect(position.shipped).to.deep.equal([ether('10'), ether('20')]);
+  });
+
+  it("should resume from its checkpoint without duplicating events", async function () {
+    const { core, lp, strategy, taker, tokens, strategyHash, ship, newIndexer } = await loadFixture(coreFixture);
+
+    await ship();
+    const first = newIndexer();
+    const synced = await first.tick();
+    expect(synced.added).to.equal(1);
+
+    // A restarted process picks up where the stored checkpoint left off
+    await core.connect(strategy).pull(lp.getAddress(), strategyHash, tokens[0], ether('5'), taker.getAddress());
+    const restarted = newIndexer();
+    const resumed = await restarted.tick();
+    expect(resumed.fromBlock).to.equal(synced.toBlock + 1);
+    expect(resumed.added).to.equal(1);
+    expect((await restarted.status()).checkpoint?.blockNumber).to.equal(await ethers.provider.getBlockNumber());
+    expect(await restarted.events()).to.have.length(2);
+  });
+
+  it("should roll back events from blocks that were reorged away", async function () {
+    const { core, lp, strategy, taker, tokens, strategyHash, ship, newIndexer } = await loadFixture(coreFixture);
+    const indexer = newIndexer();
+
+    await ship();
+    const { toBlock: shippedAt } = await indexer.tick();
+    const snapshot = await ethers.provider.send('evm_snapshot', []);
+
+    await core.connect(strategy).pull(lp.getAddress(), strategyHash, tokens[0], ether('10'), taker.getAddress());
+    await indexer.tick();
+    expect((await indexer.positions())[0].balances[0]).to.equal(ether('90'));
+
+    // Replace the pull with a different one on a competing branch
+    await ethers.provider.send('evm_revert', [snapshot]);
+    await core.connect(strategy).pull(lp.getAddress(), strategyHash, tokens[0], ether('30'), taker.getAddress());
+    await mine(2);
+
+    const result = await indexer.tick();
+    expect(result.rolledBackTo).to.equal(shippedAt);
+    const pulls = await indexer.events({ names: ['LiquidityPulled'] });
+    expect(pulls).to.have.length(1);
+    expect(pulls[0].args.amount).to.equal(ether('30'));
+    expect((await indexer.positions())[0].balances[0]).to.equal(ether('70'));
+  });
+});
@@ -0,0 +1,162 @@
+// SPDX-License-Identifier: LicenseRef-Degensoft-Aqua-Source-1.1
+
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from 'hardhat';
+import { expect, ether, deployContract } from '@1inch/solidity-utils';
+import "@nomicfoundation/hardhat-chai-matchers";
+
+import { LFToken } from '../typechain-types/contracts/token/LFToken';
+import { WETHMock } from '../typechain-types/contracts/mocks/WETHMock';
+import { SolverRegistry } from '../typechain-types/contracts/core/SolverRegistry';
+import { BatchProcessor } from '../typechain-types/contracts/core/BatchProcessor';
+import { LiquidFlowRouter } from '../typechain-types/contracts/periphery/LiquidFlowRouter';
+import { ReferenceSolver } from '../typechain-types/contracts/periphery/ReferenceSolver';
+import { fetchAccountIntents } from "../src/lib/intents";
+import { MEVPreference, encodeSolverCalls } from "../src/lib/solver";
+
+describe("Intent tracking", function () {
+  async function intentsFixture() {
+    const [owner, user, other] = await ethers.getSigners();
+    const lf = await deployContract('LFToken') as unknown as LFToken;
+    const weth = await deployContract('WETHMock') as unknown as WETHMock;
+    const solverRegistry = await deployContract('SolverRegistry', [await lf.getAddress()]) as unknown as SolverRegistry;
+    const batchProcessor = await deployContract('BatchProcessor', [await solverRegistry.getAddress(), ethers.ZeroAddress]) as unknown as BatchProcessor;
+    const router = await deployContract('LiquidFlowRouter', [
+      ethers.ZeroAddress, await batchProcessor.getAddress(), await weth.getAddress(),
+    ]) as unknown as LiquidFlowRouter;
+    const solver = await deployContract('ReferenceSolver', [
+      await batchProcessor.getAddress(), await solverRegistry.getAddress(), await lf.getAddress(),
+    ]) as unknown as ReferenceSolver;
+    await lf.mint(await owner.getAddress(), ether('10000'));
+    await lf.approve(await solver.getAddress(), ether('10000'));
+    await solver.register(ether('10000'));
+
+    for (const account of [user, other]) {
+      await weth.connect(account).deposit({ value: ether('10') });
+      await weth.connect(account).approve(await solver.getAddress(), ethers.MaxUint256);
+      await weth.connect(account).approve(await router.getAddress(), ethers.MaxUint256);
+    }
+    // Output the solver pays from its own inventory
+    await lf.mint(await solver.getAddress(), ether('100'));
+
+    const contracts = { batchProcessor: await batchProcessor.getAddress(), router: await router.getAddress() };
+    const track = async (account = user) => fetchAccountIntents(ethers.provider, contracts, await account.getAddress());
+    return { owner, user, other, lf, weth, batchProcessor, router, solver, track };
+  }
+
+  it("should follow an intent through the auction to its fill", async function () {
+    const { user, lf, weth, batchProcessor, solver, track } = await loadFixture(intentsFixture);
+    const account = await user.getAddress();
+    const deadline = (await time.latest()) + 3600;
+    await batchProcessor.connect(user).submitIntent(
+      await weth.getAddress(), await lf.getAddress(), ether('2'), ether('5'), 0, MEVPreference.None, false, deadline
+    );
+
+    let [intent] = await track();
+    expect(intent).to.deep.include({ stage: 'open', via: 'direct', amountIn: ether('2'), minAmountOut: ether('5'), cancellable: true });
+
+    await batchProcessor.closeBatch();
+    [intent] = await track();
+    expect(intent).to.deep.include({ stage: 'solving', cancellable: false });
+
+    const executionData = encodeSolverCalls([
+      { target: await weth.getAddress(), data: weth.interface.encodeFunctionData('transferFrom', [account, await solver.getAddress(), ether('2')]) },
+      { target: await lf.getAddress(), data: lf.interface.encodeFunctionData('transfer', [account, ether('6')]) },
+    ]);
+    await solver.submitSolution(intent.batchId, executionData, ether('1'), 0);
+    await time.increaseTo((await batchProcessor.getCurrentBatch()).solveDeadline + 1n);
+    const solutionHash = ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(
+      ['address', 'uint256', 'bytes', 'uint256', 'uint256'],
+      [await solver.getAddress(), intent.batchId, executionData, ether('1'), 0],
+    ));
+    await batchProcessor.executeBatch(solutionHash);
+
+    [intent] = await track();
+    expect(intent).to.deep.include({ stage: 'settled', solver: await solver.getAddress() });
+    expect(intent.fill).to.deep.equal({ amountIn: ether('2'), amountOut: ether('6'), surplus: ether('1'), partial: false });
+    expect(intent.events.map(event => event.name)).to.deep.equal(['IntentSubmitted', 'BatchClosed', 'SolverSelected', 'BatchSettled']);
+    expect(await lf.balanceOf(account)).to.equal(ether('6'));
+  });
+
+  it("should cancel open intents, refunding router swaps", async function () {
+    const { user, other, lf, weth, batchProcessor, router, track } = await loadFixture(intentsFixture);
+    const deadline = (await time.latest()) + 3600;
+    await batchProcessor.connect(user).submitIntent(
+      await weth.getAddress(), await lf.getAddress(), ether('1'), ether('1'), 0, MEVPreference.None, false, deadline
+    );
+    await router.connect(user).swap(await weth.getAddress(), await lf.getAddress(), ether('3'), ether('4'), deadline);
+
+    const [routed, direct] = await track();
+    expect(routed).to.deep.include({ via: 'router', stage: 'open', amountIn: ether('3'), cancellable: true });
+    expect(direct).to.deep.include({ via: 'direct', stage: 'open', cancellable: true });
+    expect(await track(other)).to.deep.equal([]);
+
+    await batchProcessor.connect(user).cancelIntent(direct.intentId);
+    // On chain the router owns the routed intent, so only the router can cancel it
+    await expect(batchProcessor.connect(user).cancelIntent(routed.intentId)).to.be.revertedWithCustomError(batchProcessor, 'NotIntentOwner');
+    await expect(router.connect(other).cancelIntent(routed.intentId)).to.be.revertedWithCustomError(router, 'NotIntentOwner');
+    await expect(router.connect(user).cancelIntent(routed.intentId))
+      .to.emit(router, 'IntentRefunded').withArgs(routed.intentId, await user.getAddress(), ether('3'));
+    expect(await weth.balanceOf(await user.getAddress())).to.equal(ether('10'));
+
+    const tracked = await track();
+    expect(tracked.map(intent => intent.stage)).to.deep.equal(['cancelled', 'cancelled']);
+    expect(tracked[0]).to.deep.include({ tokenIn: await weth.getAddress(), amountIn: ether('3'), cancellable: false });
+  });
+
+  it("should refund router swaps once their batch ends without filling them", async function () {
+    const { user, lf, weth, batchProcessor, router, solver, track } = await loadFixture(intentsFixture);
+    const deadline = (await time.latest()) + 3600;
+    await router.connect(user).swap(await weth.getAddress(), await lf.getAddress(), ether('3'), ether('4'), deadline);
+    const [{ intentId, batchId }] = await track();
+    expect((await router.routedIntents(intentId)).batchId).to.equal(batchId);
+
+    // While its batch is being solved the intent is refused
+    await batchProcessor.closeBatch();
+    expect((await track())[0]).to.deep.include({ stage: 'solving', cancellable: false });
+    await expect(router.connect(user).cancelIntent(intentId)).to.be.revertedWithCustomError(router, 'IntentBeingSolved');
+    const executionData = encodeSolverCalls([]);
+    await solver.submitSolution(batchId, executionData, 0, 0);
+    await time.increaseTo((await batchProcessor.getCurrentBatch()).solveDeadline + 1n);
+    await batchProcessor.executeBatch(ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(
+      ['address', 'uint256', 'bytes', 'uint256', 'uint256'],
+      [await solver.getAddress(), batchId, executionData, 0, 0],
+    )));
+
+    // No solver can pull the router's input, so the batch settles without the intent
+    expect((await track())[0]).to.deep.include({ stage: 'unfilled', cancellable: true });
+    await expect(router.connect(user).cancelIntent(intentId))
+      .to.emit(router, 'IntentRefunded').withArgs(intentId, await user.getAddress(), ether('3'));
+    expect(await weth.balanceOf(await user.getAddress())).to.equal(ether('10'));
+    expect((await track())[0]).to.deep.include({ stage: 'cancelled', cancellable: false });
+    await expect(router.connect(user).cancelIntent(intentId)).to.be.revertedWithCustomError(router, 'NotIntentOwner');
+  });
+
+  it("should refund expired router swaps while their batch is being solved", async function () {
+    const { user, lf, weth, batchProcessor, router, track } = await loadFixture(intentsFixture);
+    const deadline = (await time.latest()) + 60;
+    await router.connect(user).swap(await weth.getAddress(), await lf.getAddress(), ether('3'), ether('4'), deadline);
+    const [{ intentId }] = await track();
+
+    await batchProcessor.closeBatch();
+    await time.increaseTo(deadline + 1);
+    expect((await track())[0]).to.deep.include({ stage: 'solving', cancellable: true });
+    await router.connect(user).cancelIntent(intentId);
+    expect(await weth.balanceOf(await user.getAddress())).to.equal(ether('10'));
+  });
+
+  it("should report batches cancelled without a solution", async function () {
+    const { user, lf, weth, batchProcessor, track } = await loadFixture(intentsFixture);
+    const deadline = (await time.latest()) + 3600;
+    await batchProcessor.connect(user).submitIntent(
+      await weth.getAddress(), await lf.getAddress(), ether('1'), ether('1'), 0, MEVPreference.None, false, deadline
+    );
+    await batchProcessor.closeBatch();
+    await time.increaseTo((await batchProcessor.getCurrentBatch()).solveDeadline + 61n);
+    await batchProcessor.cancelBatch();
+
+    const [intent] = await track();
+    expect(intent).to.deep.include({ stage: 'batch-cancelled', solver: null, fill: null, cancellable: false });
+    expect(intent.events.map(event => event.name)).to.deep.equal(['IntentSubmitted', 'BatchClosed', 'BatchCancelled']);
+  });
+});
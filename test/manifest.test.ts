@@ -0,0 +1,103 @@
+// SPDX-License-Identifier: LicenseRef-Degensoft-Aqua-Source-1.1
+
+import { loadFixture, mine } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from 'hardhat';
+import { expect, deployContract } from '@1inch/solidity-utils';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {
+  MANIFEST_VERSION,
+  abiHash,
+  emptyManifest,
+  parseManifest,
+  recordContract,
+  serializeManifest,
+  verifyManifest,
+} from "../src/lib/manifest";
+import { manifestEntry, readManifest, writeManifest } from "../scripts/manifest";
+
+describe("Deployment manifest", function () {
+  async function deployedFixture() {
+    const token = await deployContract('TokenMock', ['Token0', 'TK0']);
+    const artifact = await ethers.getContractFactory('TokenMock');
+    const entry = await manifestEntry(ethers.provider, {
+      address: await token.getAddress(),
+      transactionHash: token.deploymentTransaction()!.hash,
+      abi: artifact.interface.formatJson(),
+      args: ['Token0', 'TK0'],
+    });
+    const { chainId } = await ethers.provider.getNetwork();
+    const manifest = recordContract(emptyManifest(Number(chainId), 'hardhat'), 'TokenMock', entry);
+    return { token, entry, manifest, chainId: Number(chainId) };
+  }
+
+  it("should hash ABIs independently of fragment order and formatting", function () {
+    const abi = ['function transfer(address to, uint256 amount) returns (bool)', 'event Transfer(address indexed from, address indexed to, uint256 value)'];
+    const reordered = [...abi].reverse();
+    expect(abiHash(abi)).to.equal(abiHash(reordered));
+    expect(abiHash(abi)).to.equal(abiHash(new ethers.Interface(abi).formatJson()));
+    expect(abiHash(abi)).to.not.equal(abiHash([abi[0]]));
+  });
+
+  it("should record deployments and round-trip through the manifest file", async function () {
+    const { entry, manifest, chainId } = await loadFixture(deployedFixture);
+    const receipt = await ethers.provider.getTransactionReceipt(entry.transactionHash);
+    expect(entry.blockNumber).to.equal(receipt!.blockNumber);
+    expect(entry.blockHash).to.equal(receipt!.blockHash);
+    expect(entry.constructorArgs).to.deep.equal(['Token0', 'TK0']);
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'manifest-'));
+    process.env.MANIFEST_DIR = dir;
+    try {
+      expect(readManifest(chainId, 'hardhat').contracts).to.deep.equal({});
+      const file = writeManifest(manifest);
+      expect(file).to.equal(path.join(dir, `${chainId}.json`));
+      expect(readManifest(chainId, 'hardhat')).to.deep.equal(manifest);
+    } finally {
+      delete process.env.MANIFEST_DIR;
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+
+    expect(() => parseManifest('{"version":1,"chainId":1}')).to.throw('Manifest has no contracts');
+    const broken = JSON.parse(serializeManifest(manifest));
+    broken.contracts.TokenMock.blockHash = '0x';
+    expect(() => parseManifest(JSON.stringify(broken))).to.throw('Manifest entry TokenMock has no deployment block or transaction');
+  });
+
+  it("should verify a manifest against the chain", async function () {
+    const { manifest, chainId } = await loadFixture(deployedFixture);
+
+    expect(await verifyManifest(manifest, ethers.provider, { chainId, required: ['TokenMock'] })).to.deep.equal([]);
+    expect(await verifyManifest(manifest, ethers.provider, { chainId: 1 })).to.deep.equal([
+      { kind: 'chain', message: `Manifest is for chain ${chainId}, connected to 1` },
+    ]);
+    expect(await verifyManifest({ ...manifest, version: MANIFEST_VERSION + 1 }, ethers.provider, { chainId })).to.have.length(1);
+
+    const issues = await verifyManifest(manifest, ethers.provider, {
+      chainId,
+      required: ['TokenMock', 'BatchProcessor'],
+      abiHashes: { TokenMock: ethers.ZeroHash },
+    });
+    expect(issues.map(({ kind, contract }) => [kind, contract])).to.deep.equal([
+      ['missing-contract', 'BatchProcessor'],
+      ['abi', 'TokenMock'],
+    ]);
+
+    // An address without code is stale even if the block is still canonical
+    const empty = recordContract(manifest, 'Empty', { ...manifest.contracts.TokenMock, address: ethers.Wallet.createRandom().address });
+    expect((await verifyManifest(empty, ethers.provider, { chainId })).map(({ kind }) => kind)).to.deep.equal(['no-code']);
+  });
+
+  it("should flag deployments that are no longer on chain", async function () {
+    const snapshot = await ethers.provider.send('evm_snapshot', []);
+    const { manifest, chainId } = await deployedFixture();
+    await ethers.provider.send('evm_revert', [snapshot]);
+    // The deployment block number exists again, with a different hash
+    await mine(5);
+
+    const issues = await verifyManifest(manifest, ethers.provider, { chainId });
+    expect(issues.map(({ kind, contract }) => [kind, contract])).to.deep.equal([['reorged', 'TokenMock']]);
+  });
+});
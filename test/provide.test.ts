@@ -0,0 +1,148 @@
+// SPDX-License-Identifier: LicenseRef-Degensoft-Aqua-Source-1.1
+
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from 'hardhat';
+import { expect, ether, deployContract } from '@1inch/solidity-utils';
+import "@nomicfoundation/hardhat-chai-matchers";
+
+import { TokenMock } from '../typechain-types/@1inch/solidity-utils/contracts/mocks/TokenMock';
+import { WETHMock } from '../typechain-types/contracts/mocks/WETHMock';
+import { LiquidFlowCore } from '../typechain-types/contracts/core/LiquidFlowCore';
+import { LiquidFlowRouter } from '../typechain-types/contracts/periphery/LiquidFlowRouter';
+import { XYKStrategy } from '../typechain-types/contracts/strategies/XYKStrategy';
+import { ProvisionRequest, buildProvision, fetchPositionReserves, fetchShippedPositions, pairedAmount, priceAsReserves, shippedStrategy } from "../src/lib/provide";
+import { xykVenueSource } from "../src/lib/solver";
+import { bestQuote } from "../src/lib/swapQuote";
+
+describe("Liquidity provision", function () {
+  async function provideFixture() {
+    const [owner, lp, feeCollector] = await ethers.getSigners();
+    const core = await deployContract('LiquidFlowCore', [await feeCollector.getAddress()]) as unknown as LiquidFlowCore;
+    const strategy = await deployContract('XYKStrategy', [await core.getAddress()]) as unknown as XYKStrategy;
+    const weth = await deployContract('WETHMock') as unknown as WETHMock;
+    const usdc = await deployContract('TokenMock', ['USD Coin', 'USDC']) as unknown as TokenMock;
+    const router = await deployContract('LiquidFlowRouter', [
+      await core.getAddress(), ethers.ZeroAddress, await weth.getAddress(),
+    ]) as unknown as LiquidFlowRouter;
+    await core.setRouter(await router.getAddress());
+    await core.setStrategyApproval(await strategy.getAddress(), true);
+
+    await usdc.mint(await lp.getAddress(), ether('100000'));
+    await weth.connect(lp).deposit({ value: ether('20') });
+    for (const token of [usdc, weth]) {
+      await token.connect(lp).approve(await core.getAddress(), ethers.MaxUint256);
+    }
+
+    // Entered as WETH/USDC, whatever the address order
+    const request: ProvisionRequest = {
+      lp: await lp.getAddress(),
+      strategy: await strategy.getAddress(),
+      tokenA: await weth.getAddress(),
+      tokenB: await usdc.getAddress(),
+      feeBps: 30n,
+      salt: ethers.ZeroHash,
+    };
+    const reserves = async () => fetchPositionReserves(ethers.provider, await core.getAddress(), request);
+    const provide = async (added: [bigint, bigint], value?: bigint) => {
+      const provision = buildProvision(request, await reserves(), added);
+      const args = [request.strategy, provision.strategyData, provision.tokens, provision.amounts] as const;
+      const tx = value === undefined
+        ? await router.connect(lp).provideLiquidity(...args)
+        : await router.connect(lp).provideLiquidityETH(...args, { value });
+      return { provision, shipped: shippedStrategy((await tx.wait())!.logs) };
+    };
+    return { owner, lp, core, strategy, weth, usdc, router, request, reserves, provide };
+  }
+
+  it("should ship a new position at the price the LP sets", async function () {
+    const { lp, core, request, reserves, provide } = await loadFixture(provideFixture);
+    expect(await reserves()).to.deep.equal([0n, 0n]);
+
+    const price = priceAsReserves('2450', 18, 18)!;
+    expect(priceAsReserves('0', 18, 18)).to.be.null;
+    expect(priceAsReserves('abc', 18, 18)).to.be.null;
+    const usdcAmount = pairedAmount(ether('2'), price[0], price[1]);
+    expect(usdcAmount).to.equal(ether('4900'));
+
+    const { provision, shipped } = await provide([ether('2'), usdcAmount]);
+    expect(shipped).to.deep.equal({
+      lp: await lp.getAddress(),
+      strategy: request.strategy,
+      strategyHash: provision.strategyHash,
+      tokens: provision.tokens,
+      amounts: provision.amounts,
+    });
+    expect(provision.params.token0 < provision.params.token1).to.be.true;
+    expect(await reserves()).to.deep.equal([ether('2'), ether('4900')]);
+    expect((await core.getStrategy(provision.strategyHash)).lp).to.equal(await lp.getAddress());
+  });
+
+  it("should add to an existing position at its reserves' ratio", async function () {
+    const { provide, reserves } = await loadFixture(provideFixture);
+    await provide([ether('2'), ether('4900')]);
+
+    const [reserveWeth, reserveUsdc] = await reserves();
+    const { shipped } = await provide([ether('1'), pairedAmount(ether('1'), reserveWeth, reserveUsdc)]);
+    expect(shipped.amounts).to.have.members([ether('3'), ether('7350')]);
+    expect(await reserves()).to.deep.equal([ether('3'), ether('7350')]);
+    expect(() => pairedAmount(ether('1'), 0n, 0n)).to.throw('Reserves set no ratio');
+  });
+
+  it("should wrap the ETH side and refuse ships for others", async function () {
+    const { lp, core, weth, reserves, provide } = await loadFixture(provideFixture);
+    const { provision } = await provide([ether('5'), ether('12250')], ether('5'));
+    expect(await weth.balanceOf(await lp.getAddress())).to.equal(ether('25'));
+    expect(await reserves()).to.deep.equal([ether('5'), ether('12250')]);
+
+    await expect(core.connect(lp).shipFor(await lp.getAddress(), ethers.ZeroAddress, provision.strategyData, provision.tokens, provision.amounts))
+      .to.be.revertedWithCustomError(core, 'UnauthorizedCaller');
+  });
+
+  it("should read active positions from the core's logs without an indexer", async function () {
+    const { lp, core, request, provide } = await loadFixture(provideFixture);
+    const ship = async (salt: string, added: [bigint, bigint]) => {
+      const provision = buildProvision({ ...request, salt }, [0n, 0n], added);
+      await core.connect(lp).ship(request.strategy, provision.strategyData, provision.tokens, provision.amounts);
+      return provision;
+    };
+    const read = async () => fetchShippedPositions(ethers.provider, await core.getAddress(), request.strategy);
+
+    // Shipped twice under the same params, and once more and then docked
+    const kept = await ship(ethers.zeroPadValue('0x01', 32), [ether('1'), ether('2450')]);
+    await ship(ethers.zeroPadValue('0x01', 32), [ether('2'), ether('4900')]);
+    const docked = await ship(ethers.zeroPadValue('0x02', 32), [ether('1'), ether('2450')]);
+    expect(await read()).to.deep.equal([kept.params, docked.params]);
+
+    const receipt = await (await core.connect(lp).requestDock(request.strategy, docked.strategyHash, docked.tokens)).wait();
+    const requestId = core.interface.parseLog(receipt!.logs[0])!.args.requestId;
+    await time.increase(await core.MIN_WITHDRAWAL_DELAY());
+    await core.connect(lp).executeDock(requestId);
+    expect(await read()).to.deep.equal([kept.params]);
+
+    // Ships through the router are read from the provideLiquidity input
+    const { provision } = await provide([ether('1'), ether('2450')]);
+    expect(await read()).to.deep.equal([kept.params, provision.params]);
+  });
+
+  it("should quote and swap against a position shipped through the router", async function () {
+    const { owner, core, strategy, weth, usdc, request, reserves, provide } = await loadFixture(provideFixture);
+    await provide([ether('2'), ether('4900')]);
+
+    // As the Swap page and the solver find it: from the core's logs
+    const positions = await fetchShippedPositions(ethers.provider, await core.getAddress(), request.strategy);
+    const quote = await bestQuote(xykVenueSource(ethers.provider, request.strategy, positions), {
+      tokenIn: await weth.getAddress(), tokenOut: await usdc.getAddress(), amountIn: ether('0.1'),
+    });
+    expect(quote!.amountOut).to.equal(await strategy.quoteExactIn(positions[0], quote!.zeroForOne, ether('0.1')));
+    expect(quote!.amountOut).to.be.gt(0n);
+
+    await weth.connect(owner).deposit({ value: ether('0.1') });
+    await weth.connect(owner).approve(request.strategy, ether('0.1'));
+    await owner.sendTransaction({
+      to: quote!.venue.target,
+      data: quote!.venue.encodeSwap(quote!.zeroForOne, ether('0.1'), quote!.amountOut, await owner.getAddress()),
+    });
+    expect(await usdc.balanceOf(await owner.getAddress())).to.equal(quote!.amountOut);
+    expect((await reserves())[1]).to.equal(ether('4900') - quote!.amountOut);
+  });
+});
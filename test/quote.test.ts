@@ -0,0 +1,193 @@
+// SPDX-License-Identifier: LicenseRef-Degensoft-Aqua-Source-1.1
+
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from 'hardhat';
+import { expect, ether, deployContract } from '@1inch/solidity-utils';
+import "@nomicfoundation/hardhat-chai-matchers";
+
+import { XYKStrategy } from '../typechain-types/contracts/strategies/XYKStrategy';
+import { LiquidFlowCoreMock } from '../typechain-types/contracts/mocks/LiquidFlowCoreMock';
+import { deployFixture, createXYCStrategy, seededRandom } from "./utils";
+import { PoolState, quoteExactIn, quoteExactOut, feeAmount, WAD } from "../src/lib/quote";
+import { hashXYKStrategyParams, saltFromLabel } from "../src/lib/strategy";
+
+const SEED = Number(process.env.QUOTE_SEED ?? 1337);
+const FEE_TIERS = [0n, 5n, 30n, 100n, 1000n];
+
+describe("Quote library", function () {
+  async function xycFixture() {
+    const fixture = await deployFixture();
+    const { contracts: { xycSwap, aqua, token0, token1, swapExecutor }, addrs: { maker, taker } } = fixture;
+
+    // Strategies share the maker's wallet, so give it headroom beyond the shipped reserves
+    await token0.mint(await maker.getAddress(), ether('10000'));
+    await token1.mint(await maker.getAddress(), ether('10000'));
+    for (const account of [await taker.getAddress(), await swapExecutor.getAddress()]) {
+      await token0.mint(account, ether('1000'));
+      await token1.mint(account, ether('1000'));
+    }
+    await token1.connect(taker).approve(await xycSwap.getAddress(), ethers.MaxUint256);
+
+    const strategies = [];
+    for (const feeBps of FEE_TIERS) {
+      const { strategy, strategyHash } = await createXYCStrategy(
+        xycSwap, aqua, maker, token0, token1, { feeBps, salt: saltFromLabel(`fee-${feeBps}`) }
+      );
+      strategies.push({ strategy, strategyHash });
+    }
+
+    return { ...fixture, strategies };
+  }
+
+  it("should match XYCSwap exact-in and exact-out swaps to the wei", async function () {
+    const {
+      contracts: { xycSwap, aqua, token0, token1, swapExecutor },
+      addrs: { maker, taker },
+      strategies
+    } = await loadFixture(xycFixture);
+
+    const rand = seededRandom(SEED);
+    const emptyTakerData = ethers.AbiCoder.defaultAbiCoder().encode(["bool"], [true]);
+    const reservesOf = async (strategyHash: string) => {
+      const [balance0, ] = await aqua.rawBalances(await maker.getAddress(), await xycSwap.getAddress(), strategyHash, await token0.getAddress());
+      const [balance1, ] = await aqua.rawBalances(await maker.getAddress(), await xycSwap.getAddress(), strategyHash, await token1.getAddress());
+      return [BigInt(balance0.toString()), BigInt(balance1.toString())];
+    };
+
+    for (let step = 0; step < 60; step++) {
+      const { strategy, strategyHash } = rand.pick(strategies);
+      const zeroForOne = rand.bool();
+      const exactIn = rand.bool();
+      const usePush = rand.bool();
+
+      const [reserve0, reserve1] = await reservesOf(strategyHash);
+      const pool: PoolState = {
+        kind: 'xyc',
+        reserveIn: zeroForOne ? reserve0 : reserve1,
+        reserveOut: zeroForOne ? reserve1 : reserve0,
+        feeBps: strategy.feeBps,
+      };
+
+      const quote = exactIn
+        ? quoteExactIn(pool, rand.bigint(1n, pool.reserveIn / 20n))
+        : quoteExactOut(pool, rand.bigint(1n, pool.reserveOut / 20n));
+
+      // The contract's own result for the same state must be identical
+      if (exactIn) {
+        expect(await xycSwap.connect(taker).swapExactIn.staticCall(
+          strategy, zeroForOne, false, quote.amountIn, 0, await taker.getAddress(), emptyTakerData
+        )).to.equal(quote.amountOut);
+      } else {
+        expect(await xycSwap.connect(taker).swapExactOut.staticCall(
+          strategy, zeroForOne, false, quote.amountOut, ethers.MaxUint256, await taker.getAddress(), emptyTakerData
+        )).to.equal(quote.amountIn);
+      }
+      expect(quote.feeAmount).to.equal(feeAmount('xyc', quote.amountIn, strategy.feeBps));
+
+      // Execute with zero tolerance: any 1 wei difference reverts
+      const args = exactIn
+        ? [strategy, zeroForOne, usePush, quote.amountIn, quote.amountOut] as const
+        : [strategy, zeroForOne, usePush, quote.amountOut, quote.amountIn] as const;
+      if (usePush) {
+        const data = xycSwap.interface.encodeFunctionData(exactIn ? 'swapExactIn' : 'swapExactOut', [
+          ...args, await swapExecutor.getAddress(), emptyTakerData
+        ]);
+        await swapExecutor.arbitraryCall(await xycSwap.getAddress(), data);
+      } else if (exactIn) {
+        await xycSwap.connect(taker).swapExactIn(...args, await taker.getAddress(), emptyTakerData);
+      } else {
+        await xycSwap.connect(taker).swapExactOut(...args, await taker.getAddress(), emptyTakerData);
+      }
+
+      // Direct transfers pay the maker without crediting the Aqua balance
+      const [after0, after1] = await reservesOf(strategyHash);
+      const [afterIn, afterOut] = zeroForOne ? [after0, after1] : [after1, after0];
+      expect(afterOut).to.equal(quote.reserveOutAfter);
+      expect(afterIn).to.equal(usePush ? quote.reserveInAfter : pool.reserveIn);
+    }
+  });
+
+  it("should report slippage errors with the exact quoted amounts", async function () {
+    const {
+      contracts: { xycSwap },
+      addrs: { taker },
+      constants: { INITIAL_AMOUNT0, INITIAL_AMOUNT1 },
+      strategies: [, , { strategy }]
+    } = await loadFixture(xycFixture);
+
+    const emptyTakerData = ethers.AbiCoder.defaultAbiCoder().encode(["bool"], [true]);
+    const pool: PoolState = { kind: 'xyc', reserveIn: INITIAL_AMOUNT0, reserveOut: INITIAL_AMOUNT1, feeBps: strategy.feeBps };
+
+    const exactIn = quoteExactIn(pool, ether('3'));
+    await expect(xycSwap.connect(taker).swapExactIn(
+      strategy, true, false, exactIn.amountIn, exactIn.amountOut + 1n, await taker.getAddress(), emptyTakerData
+    )).to.be.revertedWithCustomError(xycSwap, 'InsufficientOutputAmount').withArgs(exactIn.amountOut, exactIn.amountOut + 1n);
+
+    const exactOut = quoteExactOut(pool, ether('3'));
+    await expect(xycSwap.connect(taker).swapExactOut(
+      strategy, true, false, exactOut.amountOut, exactOut.amountIn - 1n, await taker.getAddress(), emptyTakerData
+    )).to.be.revertedWithCustomError(xycSwap, 'InsufficientInputAmount').withArgs(exactOut.amountIn, exactOut.amountIn - 1n);
+  });
+
+  it("should match XYKStrategy.quoteExactIn and quoteExactOut to the wei", async function () {
+    const [lp, token0, token1] = await ethers.getSigners();
+    const core = await deployContract('LiquidFlowCoreMock') as unknown as LiquidFlowCoreMock;
+    const xykStrategy = await deployContract('XYKStrategy', [await core.getAddress()]) as unknown as XYKStrategy;
+
+    const rand = seededRandom(SEED);
+    for (let step = 0; step < 40; step++) {
+      const params = {
+        lp: await lp.getAddress(),
+        token0: await token0.getAddress(),
+        token1: await token1.getAddress(),
+        feeBps: rand.pick(FEE_TIERS),
+        salt: saltFromLabel(`xyk-${step}`),
+      };
+      const strategyHash = hashXYKStrategyParams(await xykStrategy.getAddress(), params);
+
+      // Span dust-sized to whale-sized reserves to exercise rounding at every scale
+      const scale = rand.pick([1n, 10n ** 6n, WAD, 10n ** 30n]);
+      const reserve0 = rand.bigint(1n, 1000n) * scale;
+      const reserve1 = rand.bigint(1n, 1000n) * scale;
+      await core.setBalance(params.lp, await xykStrategy.getAddress(), strategyHash, params.token0, reserve0);
+      await core.setBalance(params.lp, await xykStrategy.getAddress(), strategyHash, params.token1, reserve1);
+
+      for (const zeroForOne of [true, false]) {
+        const pool: PoolState = {
+          kind: 'xyk',
+          reserveIn: zeroForOne ? reserve0 : reserve1,
+          reserveOut: zeroForOne ? reserve1 : reserve0,
+          feeBps: params.feeBps,
+        };
+
+        const amountIn = rand.bigint(1n, pool.reserveIn * 2n);
+        expect(await xykStrategy.quoteExactIn(params, zeroForOne, amountIn))
+          .to.equal(quoteExactIn(pool, amountIn).amountOut);
+
+        if (pool.reserveOut > 1n) {
+          const amountOut = rand.bigint(1n, pool.reserveOut - 1n);
+          expect(await xykStrategy.quoteExactOut(params, zeroForOne, amountOut))
+            .to.equal(quoteExactOut(pool, amountOut).amountIn);
+        }
+
+        // Draining the pool reverts on-chain and throws off-chain
+        await expect(xykStrategy.quoteExactOut(params, zeroForOne, pool.reserveOut)).to.be.reverted;
+        expect(() => quoteExactOut(pool, pool.reserveOut)).to.throw('Insufficient liquidity');
+      }
+    }
+  });
+
+  it("should derive price impact, marginal price and fee from the quote", async function () {
+    const pool: PoolState = { kind: 'xyk', reserveIn: ether('100'), reserveOut: ether('200'), feeBps: 30n, protocolFeeBps: 1000n };
+    const quote = quoteExactIn(pool, ether('10'));
+
+    expect(quote.spotPrice).to.equal(ether('2'));
+    expect(quote.feeAmount).to.equal(ether('0.03'));
+    expect(quote.reserveInAfter).to.equal(ether('109'));
+    expect(quote.reserveOutAfter).to.equal(ether('200') - quote.amountOut);
+    expect(quote.marginalPriceAfter).to.equal(quote.reserveOutAfter * WAD / quote.reserveInAfter);
+    expect(quote.executionPrice < quote.spotPrice).to.equal(true);
+    // 10% of the input reserve moves the price by roughly 9%
+    expect(quote.priceImpactBps).to.be.within(900n, 920n);
+  });
+});
@@ -0,0 +1,134 @@
+// SPDX-License-Identifier: LicenseRef-Degensoft-Aqua-Source-1.1
+
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from 'hardhat';
+import { expect, ether, deployContract } from '@1inch/solidity-utils';
+import "@nomicfoundation/hardhat-chai-matchers";
+
+import { WETHMock } from '../typechain-types/contracts/mocks/WETHMock';
+import { BridgeRouter } from '../typechain-types/contracts/bridge/BridgeRouter';
+import { BridgeAdapterMock } from '../typechain-types/contracts/mocks/BridgeAdapterMock';
+import { BRIDGE_PROVIDERS, bridgeRequestId } from "../src/lib/bridge";
+import { BridgeRelayer, BridgeRelayerConfig, RelayEvent, checkBridgeConsistency, seededRandom } from "../src/lib/relayer";
+
+// Both chains live on the test network, each with its own router, adapter and WETH
+const CHAIN_A = 31337;
+const CHAIN_B = 31338;
+const DEBRIDGE = BRIDGE_PROVIDERS.indexOf('DEBRIDGE');
+
+// deBridge's quote on what reaches it of `amount`, after the 0.5% protocol fee
+const delivered = (amount: bigint) => {
+  const bridged = amount - amount * 50n / 10000n;
+  return bridged - bridged * 45n / 10000n;
+};
+
+describe("Bridge relayer", function () {
+  async function relayerFixture() {
+    const [owner, user] = await ethers.getSigners();
+    const deployChain = async (chainId: number, otherChainId: number) => {
+      const weth = await deployContract('WETHMock') as unknown as WETHMock;
+      const router = await deployContract('BridgeRouter', [await owner.getAddress()]) as unknown as BridgeRouter;
+      const adapter = await deployContract('BridgeAdapterMock', [await router.getAddress()]) as unknown as BridgeAdapterMock;
+      await router.setAdapter(DEBRIDGE, await adapter.getAddress(), true);
+      await router.setSupportedChain(otherChainId, true);
+      await router.setSupportedToken(otherChainId, await weth.getAddress(), true);
+      await weth.connect(user).deposit({ value: ether('50') });
+      await weth.connect(user).approve(await router.getAddress(), ethers.MaxUint256);
+      const relayed = { chainId, signer: owner, bridgeRouter: await router.getAddress(), adapter: await adapter.getAddress() };
+      return { weth, router, adapter, relayed };
+    };
+    const a = await deployChain(CHAIN_A, CHAIN_B);
+    const b = await deployChain(CHAIN_B, CHAIN_A);
+    // What the adapters have to release from
+    for (const chain of [a, b]) {
+      await chain.weth.deposit({ value: ether('20') });
+      await chain.weth.transfer(await chain.adapter.getAddress(), ether('20'));
+    }
+
+    const config: BridgeRelayerConfig = {
+      provider: 'DEBRIDGE',
+      chains: [a.relayed, b.relayed],
+      tokens: [{ [CHAIN_A]: await a.weth.getAddress(), [CHAIN_B]: await b.weth.getAddress() }],
+    };
+    const send = async (from: typeof a, dstChain: number, amount: bigint) => {
+      const tx = await from.router.connect(user).bridge(DEBRIDGE, dstChain, await from.weth.getAddress(), amount, await user.getAddress());
+      return bridgeRequestId((await tx.wait())!.logs);
+    };
+    const drain = async (relayer: BridgeRelayer) => {
+      const events: RelayEvent[] = [];
+      for (let tick = 0; tick < 50; tick++) {
+        events.push(...await relayer.tick());
+        if (relayer.queued() === 0) break;
+      }
+      return events;
+    };
+    return { owner, user, a, b, config, send, drain };
+  }
+
+  it("should deliver every transfer through dropped, duplicated and delayed messages", async function () {
+    const { user, a, b, config, send, drain } = await loadFixture(relayerFixture);
+    for (const [from, to] of [[a, CHAIN_B], [b, CHAIN_A], [a, CHAIN_B], [b, CHAIN_A]] as const) {
+      await send(from, to, ether('2'));
+    }
+
+    const relayer = new BridgeRelayer({
+      ...config,
+      faults: { dropRate: 0.4, duplicateRate: 0.5, maxDelayTicks: 3, random: seededRandom(7) },
+    });
+    const events = await drain(relayer);
+
+    expect(relayer.queued()).to.equal(0);
+    expect(events.filter(event => event.action === 'delivered')).to.have.length(4);
+    expect(events.some(event => event.action === 'dropped')).to.be.true;
+    const duplicates = events.filter(event => event.action === 'duplicate');
+    expect(duplicates).to.not.be.empty;
+    expect(duplicates.every(event => event.action === 'duplicate' && !event.accepted)).to.be.true;
+
+    // 50 wrapped, 4 sent out, 2 received on each side
+    for (const chain of [a, b]) {
+      expect(await chain.weth.balanceOf(await user.getAddress())).to.equal(ether('46') + delivered(ether('2')) * 2n);
+    }
+    const report = await checkBridgeConsistency(config);
+    expect(report).to.deep.include({ ok: true, initiated: 4, completed: 4, failed: 0, pending: [], issues: [] });
+    expect((await a.router.getAdapter(DEBRIDGE)).successCount).to.equal(2n);
+  });
+
+  it("should fail and refund transfers the destination cannot pay out", async function () {
+    const { user, a, b, config, send, drain } = await loadFixture(relayerFixture);
+    const requestId = await send(a, CHAIN_B, ether('30'));
+
+    const events = await drain(new BridgeRelayer({ ...config, maxAttempts: 2 }));
+    expect(events.map(event => event.action)).to.deep.equal(['retry', 'failed']);
+
+    const [request, adapter] = await Promise.all([a.router.getRequest(requestId), a.router.getAdapter(DEBRIDGE)]);
+    expect(request.completed).to.be.true;
+    expect(adapter.failCount).to.equal(1n);
+    // Refunded what reached the provider; the protocol fee stays taken
+    expect(await a.weth.balanceOf(await user.getAddress())).to.equal(ether('20') + ether('30') - ether('30') * 50n / 10000n);
+    expect(await b.weth.balanceOf(await user.getAddress())).to.equal(ether('50'));
+    expect(await checkBridgeConsistency(config)).to.deep.include({ ok: true, failed: 1, pending: [] });
+  });
+
+  it("should confirm a release left unconfirmed and report one that was paid twice", async function () {
+    const { user, a, b, config, send, drain } = await loadFixture(relayerFixture);
+    const released = await send(a, CHAIN_B, ether('4'));
+    // A relayer stopped after releasing on the destination
+    await b.adapter.release(released, await b.weth.getAddress(), await user.getAddress(), ether('3.9'));
+    expect(await checkBridgeConsistency(config)).to.deep.include({ ok: true, pending: [released] });
+
+    await drain(new BridgeRelayer(config));
+    const completed = await a.router.queryFilter(a.router.filters.BridgeCompleted(released));
+    expect(completed[0].args.outputAmount).to.equal(ether('3.9'));
+    expect(await checkBridgeConsistency(config)).to.deep.include({ ok: true, completed: 1, pending: [] });
+
+    // Refunded on the source after the destination had already paid
+    const refunded = await send(b, CHAIN_A, ether('1'));
+    await a.adapter.release(refunded, await a.weth.getAddress(), await user.getAddress(), ether('0.99'));
+    await b.adapter.fail(refunded, 'Timed out');
+    const report = await checkBridgeConsistency(config);
+    expect(report.ok).to.be.false;
+    expect(report.issues).to.deep.equal([
+      { chainId: CHAIN_B, requestId: refunded, message: 'refunded on the source and released on the destination' },
+    ]);
+  });
+});
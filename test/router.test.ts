@@ -0,0 +1,118 @@
+// SPDX-License-Identifier: LicenseRef-Degensoft-Aqua-Source-1.1
+
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from 'hardhat';
+import { expect, ether } from '@1inch/solidity-utils';
+import "@nomicfoundation/hardhat-chai-matchers";
+
+import { deployFixture, createXYCStrategy } from "./utils";
+import { quoteExactIn } from "../src/lib/quote";
+import { saltFromLabel } from "../src/lib/strategy";
+import {
+  DEFAULT_FEE_TIERS,
+  buildSwapCalls,
+  candidateStrategies,
+  discoverPools,
+  encodeExecutorCalls,
+  findBestSplit,
+} from "../src/lib/router";
+
+describe("Split router", function () {
+  async function routerFixture() {
+    const fixture = await deployFixture();
+    const { contracts: { xycSwap, aqua, token0, token1 }, addrs: { maker } } = fixture;
+
+    // Three strategies on the same maker wallet, one per fee tier
+    await token0.mint(await maker.getAddress(), ether('1000'));
+    await token1.mint(await maker.getAddress(), ether('1000'));
+    const salts = [saltFromLabel('pool-a'), saltFromLabel('pool-b')];
+    for (const [i, feeBps] of DEFAULT_FEE_TIERS.entries()) {
+      await createXYCStrategy(xycSwap, aqua, maker, token0, token1, { feeBps, salt: salts[i % salts.length] });
+    }
+
+    return { ...fixture, salts };
+  }
+
+  it("should discover the shipped strategies for a pair", async function () {
+    const {
+      contracts: { xycSwap, aqua, token0, token1 },
+      addrs: { maker },
+      salts
+    } = await loadFixture(routerFixture);
+
+    const candidates = candidateStrategies({
+      makers: [await maker.getAddress()],
+      tokenA: await token0.getAddress(),
+      tokenB: await token1.getAddress(),
+      salts,
+    });
+    const pools = await discoverPools(ethers.provider, await aqua.getAddress(), await xycSwap.getAddress(), candidates, await token0.getAddress());
+
+    expect(pools.map((pool) => pool.strategy.feeBps)).to.have.members(DEFAULT_FEE_TIERS);
+    expect(pools.every((pool) => pool.zeroForOne)).to.equal(true);
+
+    // Docked strategies drop out of discovery
+    await aqua.connect(maker).dock(await xycSwap.getAddress(), pools[0].strategyHash, [await token0.getAddress(), await token1.getAddress()]);
+    const remaining = await discoverPools(ethers.provider, await aqua.getAddress(), await xycSwap.getAddress(), candidates, await token0.getAddress());
+    expect(remaining).to.have.length(pools.length - 1);
+  });
+
+  it("should beat every single-strategy route and execute the split atomically", async function () {
+    const {
+      contracts: { xycSwap, aqua, token0, token1, swapExecutor },
+      addrs: { maker },
+      salts
+    } = await loadFixture(routerFixture);
+
+    const candidates = candidateStrategies({
+      makers: [await maker.getAddress()],
+      tokenA: await token0.getAddress(),
+      tokenB: await token1.getAddress(),
+      salts,
+    });
+    const pools = await discoverPools(ethers.provider, await aqua.getAddress(), await xycSwap.getAddress(), candidates, await token0.getAddress());
+
+    const amountIn = ether('30');
+    const route = findBestSplit(pools, amountIn);
+
+    expect(route.legs.length).to.be.greaterThan(1);
+    expect(route.legs.reduce((sum, leg) => sum + leg.amountIn, 0n)).to.equal(amountIn);
+    for (const pool of pools) {
+      expect(route.amountOut).to.be.greaterThan(quoteExactIn(pool.state, amountIn).amountOut);
+    }
+
+    const calls = buildSwapCalls(await xycSwap.getAddress(), route, await swapExecutor.getAddress());
+    const tx = await swapExecutor.arbitraryCalls(calls.map((call) => call.target), calls.map((call) => call.data));
+
+    await expect(tx).to.changeTokenBalances(token0, [swapExecutor, maker], [-amountIn, amountIn]);
+    await expect(tx).to.changeTokenBalances(token1, [swapExecutor, maker], [route.amountOut, -route.amountOut]);
+
+    // The same batch can be wrapped for a relayer as a single calldata blob
+    expect(encodeExecutorCalls(calls)).to.equal(
+      swapExecutor.interface.encodeFunctionData('arbitraryCalls', [calls.map((call) => call.target), calls.map((call) => call.data)])
+    );
+  });
+
+  it("should revert the whole split if any leg misses its minimum", async function () {
+    const {
+      contracts: { xycSwap, aqua, token0, token1, swapExecutor },
+      addrs: { maker },
+      salts
+    } = await loadFixture(routerFixture);
+
+    const candidates = candidateStrategies({
+      makers: [await maker.getAddress()],
+      tokenA: await token0.getAddress(),
+      tokenB: await token1.getAddress(),
+      salts,
+    });
+    const pools = await discoverPools(ethers.provider, await aqua.getAddress(), await xycSwap.getAddress(), candidates, await token0.getAddress());
+    const route = findBestSplit(pools, ether('30'));
+    route.legs[route.legs.length - 1].amountOut += 1n;
+
+    const calls = buildSwapCalls(await xycSwap.getAddress(), route, await swapExecutor.getAddress());
+    await expect(
+      swapExecutor.arbitraryCalls(calls.map((call) => call.target), calls.map((call) => call.data))
+    ).to.be.revertedWith("Call failed");
+  });
+});
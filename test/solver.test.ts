@@ -0,0 +1,238 @@
+// SPDX-License-Identifier: LicenseRef-Degensoft-Aqua-Source-1.1
+
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from 'hardhat';
+import { expect, ether, deployContract } from '@1inch/solidity-utils';
+import "@nomicfoundation/hardhat-chai-matchers";
+
+import { LFToken } from '../typechain-types/contracts/token/LFToken';
+import { SolverRegistry } from '../typechain-types/contracts/core/SolverRegistry';
+import { BatchProcessor } from '../typechain-types/contracts/core/BatchProcessor';
+import { ReferenceSolver } from '../typechain-types/contracts/periphery/ReferenceSolver';
+import { deployFixture, createXYCStrategy } from "./utils";
+import { quoteExactIn } from "../src/lib/quote";
+import { saltFromLabel } from "../src/lib/strategy";
+import {
+  MEVPreference, SolverBot, SwapIntent, Venue, VenueSource, computeSolution, encodeSolverCalls, pullableKey, xycVenueSource,
+} from "../src/lib/solver";
+
+describe("Reference solver", function () {
+  async function auctionFixture() {
+    const fixture = await deployFixture();
+    const { contracts: { xycSwap, aqua, token0, token1 }, addrs: { owner, maker, taker } } = fixture;
+    const [, , , operatorB, counterparty] = await ethers.getSigners();
+    await token1.mint(await counterparty.getAddress(), ether('100'));
+
+    await token0.mint(await maker.getAddress(), ether('1000'));
+    await token1.mint(await maker.getAddress(), ether('1000'));
+    const salts = [saltFromLabel('solver-a'), saltFromLabel('solver-b')];
+    await createXYCStrategy(xycSwap, aqua, maker, token0, token1, { feeBps: 5n, salt: salts[0] });
+    await createXYCStrategy(xycSwap, aqua, maker, token0, token1, { feeBps: 30n, salt: salts[1] });
+
+    const lfToken = await deployContract('LFToken') as unknown as LFToken;
+    const solverRegistry = await deployContract('SolverRegistry', [await lfToken.getAddress()]) as unknown as SolverRegistry;
+    const batchProcessor = await deployContract('BatchProcessor', [await solverRegistry.getAddress(), ethers.ZeroAddress]) as unknown as BatchProcessor;
+
+    // Two competing solvers run by different operators
+    const solvers: ReferenceSolver[] = [];
+    for (const operator of [owner, operatorB]) {
+      const solver = await deployContract('ReferenceSolver', [
+        await batchProcessor.getAddress(), await solverRegistry.getAddress(), await lfToken.getAddress(),
+      ], operator) as unknown as ReferenceSolver;
+      await lfToken.mint(await operator.getAddress(), ether('10000'));
+      await lfToken.connect(operator).approve(await solver.getAddress(), ether('10000'));
+      await solver.connect(operator).register(ether('10000'));
+      await token0.connect(taker).approve(await solver.getAddress(), ethers.MaxUint256);
+      await token1.connect(counterparty).approve(await solver.getAddress(), ethers.MaxUint256);
+      solvers.push(solver);
+    }
+
+    const venues = xycVenueSource(ethers.provider, await aqua.getAddress(), await xycSwap.getAddress(), {
+      makers: [await maker.getAddress()],
+      salts,
+    });
+    const bots = await Promise.all([[owner, 500n], [operatorB, 1000n]].map(async ([operator, bidBps], i) => new SolverBot({
+      signer: operator as typeof owner,
+      batchProcessor: await batchProcessor.getAddress(),
+      solver: await solvers[i].getAddress(),
+      venues,
+      bidBps: bidBps as bigint,
+    })));
+
+    return { ...fixture, batchProcessor, solvers, bots, venues, counterparty };
+  }
+
+  it("should settle the batch through the solver with the best bid", async function () {
+    const {
+      contracts: { token0, token1 },
+      addrs: { taker },
+      batchProcessor,
+      solvers,
+      bots: [botA, botB],
+      counterparty,
+    } = await loadFixture(auctionFixture);
+
+    const amountIn = ether('10');
+    const minAmountOut = ether('15');
+    const deadline = (await time.latest()) + 3600;
+    await batchProcessor.connect(taker).submitIntent(
+      await token0.getAddress(), await token1.getAddress(), amountIn, minAmountOut, 0, MEVPreference.None, false, deadline
+    );
+    // Opposing flow is netted, only the imbalance goes through the strategies
+    await batchProcessor.connect(counterparty).submitIntent(
+      await token1.getAddress(), await token0.getAddress(), ether('5'), ether('2'), 0, MEVPreference.None, false, deadline
+    );
+    await batchProcessor.closeBatch();
+    const { id: batchId, solveDeadline } = await batchProcessor.getCurrentBatch();
+
+    const submittedA = await botA.tick();
+    const submittedB = await botB.tick();
+    if (submittedA.action !== 'submitted' || submittedB.action !== 'submitted') throw new Error('Expected both bots to submit');
+
+    // Same liquidity, same routing: equal surplus, so the larger bid wins
+    const [fill, counterFill] = submittedB.solution.fills;
+    const [{ amm }] = submittedB.solution.clearings;
+    expect(submittedA.solution.totalUserSurplus).to.equal(submittedB.solution.totalUserSurplus);
+    expect(submittedB.solution.totalUserSurplus).to.equal(fill.amountOut - minAmountOut + counterFill.amountOut - ether('2'));
+    expect(submittedB.solution.solverBid).to.equal(submittedB.solution.totalUserSurplus / 10n);
+    expect(amm!.amountIn).to.be.lessThan(amountIn);
+    expect(amm!.allocations.length).to.be.greaterThan(1);
+
+    // Nothing happens until the solver window closes
+    expect((await botB.tick()).action).to.equal('idle');
+    await time.increaseTo(solveDeadline + 1n);
+
+    expect(await botA.tick()).to.deep.equal({ action: 'lost', batchId, winner: await solvers[1].getAddress() });
+
+    const executed = await botB.tick();
+    expect(executed.action).to.equal('executed');
+
+    expect(await token1.balanceOf(await taker.getAddress())).to.equal(fill.amountOut);
+    expect(await token0.balanceOf(await counterparty.getAddress())).to.equal(counterFill.amountOut);
+    const [settled] = await batchProcessor.queryFilter(batchProcessor.filters.BatchSettled(batchId));
+    expect(settled.args.solver).to.equal(await solvers[1].getAddress());
+    expect(settled.args.userSurplus).to.equal(submittedB.solution.totalUserSurplus);
+    expect((await batchProcessor.getCurrentBatch()).id).to.equal(batchId + 1n);
+  });
+
+  it("should clear same-direction intents at one price and skip the rest", async function () {
+    const { venues, contracts: { token0, token1 }, addrs: { taker } } = await loadFixture(auctionFixture);
+    const user = await taker.getAddress();
+
+    const intent = (intentId: string, overrides: Partial<SwapIntent> = {}): SwapIntent => ({
+      intentId,
+      user,
+      tokenIn: token0.target as string,
+      tokenOut: token1.target as string,
+      amountIn: ether('5'),
+      minAmountOut: 0n,
+      maxFee: 0n,
+      mevPref: MEVPreference.None,
+      allowPartialFill: false,
+      deadline: 100n,
+      commitHash: ethers.ZeroHash,
+      revealed: true,
+      ...overrides,
+    });
+
+    const book: Venue[] = await venues([[token0.target as string, token1.target as string]]);
+    const solution = computeSolution([
+      intent('first'),
+      intent('second'),
+      intent('expired', { deadline: 50n }),
+      intent('unrevealed', { revealed: false }),
+      intent('greedy', { minAmountOut: ether('1000') }),
+    ], book, { solver: ethers.ZeroAddress, now: 50n });
+
+    expect(solution.fills.map((fill) => fill.intent.intentId)).to.deep.equal(['first', 'second']);
+    const [first, second] = solution.fills;
+    expect(second.amountOut).to.equal(first.amountOut);
+
+    // Both go through the AMM together, which is worse per unit than trading alone
+    const alone = book.map((venue) => quoteExactIn({ kind: 'xyc', reserveIn: venue.reserve0, reserveOut: venue.reserve1, feeBps: venue.feeBps }, ether('5')).amountOut);
+    expect(first.amountOut < alone.reduce((a, b) => a > b ? a : b)).to.equal(true);
+    expect(solution.clearings[0].amm!.amountIn).to.equal(ether('10'));
+    expect(solution.totalUserSurplus).to.equal(first.amountOut + second.amountOut);
+  });
+
+  it("should share a user's allowance across their intents and skip identical tokens", async function () {
+    const { venues, contracts: { token0, token1 }, addrs: { taker } } = await loadFixture(auctionFixture);
+    const user = await taker.getAddress();
+    const [tokenIn, tokenOut] = [token0.target as string, token1.target as string];
+    const intent = (intentId: string, amountIn: bigint, overrides: Partial<SwapIntent> = {}): SwapIntent => ({
+      intentId, user, tokenIn, tokenOut, amountIn, minAmountOut: 0n, maxFee: 0n, mevPref: MEVPreference.None,
+      allowPartialFill: false, deadline: 100n, commitHash: ethers.ZeroHash, revealed: true, ...overrides,
+    });
+
+    // 8 approved: the first two fit, the third would overdraw it
+    const book: Venue[] = await venues([[tokenIn, tokenOut]]);
+    const solution = computeSolution([
+      intent('loop', ether('1'), { tokenOut: tokenIn }),
+      intent('first', ether('5')),
+      intent('second', ether('3')),
+      intent('third', ether('1')),
+    ], book, { solver: ethers.ZeroAddress, now: 50n, pullable: new Map([[pullableKey(user, tokenIn), ether('8')]]) });
+    expect(solution.fills.map((fill) => fill.intent.intentId)).to.deep.equal(['first', 'second']);
+  });
+
+  it("should refuse solutions that pull more than the batch's intents or underpay them and retry failed solves", async function () {
+    const {
+      contracts: { token0, token1 },
+      addrs: { owner, taker },
+      batchProcessor,
+      solvers,
+      venues,
+      counterparty,
+    } = await loadFixture(auctionFixture);
+    const deadline = (await time.latest()) + 3600;
+    await batchProcessor.connect(taker).submitIntent(
+      await token0.getAddress(), await token1.getAddress(), ether('10'), ether('15'), 0, MEVPreference.None, false, deadline
+    );
+    await batchProcessor.closeBatch();
+    const { id: batchId, solveDeadline } = await batchProcessor.getCurrentBatch();
+
+    // The operator's allowance reaches no further than the intents: not more than
+    // the taker swaps, and nothing from an approver without an intent
+    const solver = await solvers[0].getAddress();
+    const pull = (from: string, amount: bigint) => ({
+      target: token0.target as string,
+      data: token0.interface.encodeFunctionData('transferFrom', [from, solver, amount]),
+    });
+    // and taking the input means paying the taker at least the intent's minimum output for it
+    await token1.mint(solver, ether('15'));
+    const payout = (to: string, amount: bigint) => ({
+      target: token1.target as string,
+      data: token1.interface.encodeFunctionData('transfer', [to, amount]),
+    });
+    const greedy = [
+      [pull(await taker.getAddress(), ether('6')), pull(await taker.getAddress(), ether('5'))],
+      [pull(await counterparty.getAddress(), 1n)],
+      [pull(await taker.getAddress(), ether('10')), payout(await counterparty.getAddress(), ether('15'))],
+    ];
+    for (const calls of greedy) {
+      await solvers[0].submitSolution(batchId, encodeSolverCalls(calls), 0, 0);
+    }
+    const greedyHashes = (await batchProcessor.queryFilter(batchProcessor.filters.SolutionSubmitted(null, batchId))).map(({ args }) => args.solutionHash);
+
+    // A solve that fails, e.g. on an RPC error, is tried again on the next tick
+    let down = true;
+    const flaky: VenueSource = async (pairs) => {
+      if (down) {
+        down = false;
+        throw new Error('RPC unavailable');
+      }
+      return venues(pairs);
+    };
+    const bot = new SolverBot({ signer: owner, batchProcessor: await batchProcessor.getAddress(), solver, venues: flaky, bidBps: 100n });
+    await expect(bot.tick()).to.be.rejectedWith('RPC unavailable');
+    expect((await bot.tick()).action).to.equal('submitted');
+
+    await time.increaseTo(solveDeadline + 1n);
+    await expect(batchProcessor.executeBatch(greedyHashes[0])).to.be.revertedWithCustomError(solvers[0], 'PullNotCovered').withArgs(1);
+    await expect(batchProcessor.executeBatch(greedyHashes[1])).to.be.revertedWithCustomError(solvers[0], 'PullNotCovered').withArgs(0);
+    const [intentId] = await batchProcessor.getBatchIntents(batchId);
+    await expect(batchProcessor.executeBatch(greedyHashes[2])).to.be.revertedWithCustomError(solvers[0], 'PayoutBelowMinimum').withArgs(intentId);
+    expect((await bot.tick()).action).to.equal('executed');
+    expect(await token0.balanceOf(await counterparty.getAddress())).to.equal(0n);
+  });
+});
@@ -0,0 +1,25 @@
+// SPDX-License-Identifier: LicenseRef-Degensoft-Aqua-Source-1.1
+
+import { expect } from '@1inch/solidity-utils';
+
+import { deserializeJson, memoryStorage, serializeJson } from "../src/lib/storage";
+
+describe("Storage", function () {
+  it("should round-trip bigints anywhere in a value and leave strings as they are", async function () {
+    const value = {
+      amount: 10n ** 30n,
+      deltas: [-5n, 0n, 7n],
+      nested: { fee: 30n, label: '100n' },
+      reason: '-42n',
+      count: 3,
+      missing: null,
+    };
+    expect(deserializeJson(serializeJson(value))).to.deep.equal(value);
+
+    const storage = memoryStorage();
+    storage.setItem('key', serializeJson(value));
+    expect(deserializeJson<typeof value>(storage.getItem('key')!).nested.label).to.equal('100n');
+    storage.removeItem('key');
+    expect(storage.getItem('key')).to.equal(null);
+  });
+});
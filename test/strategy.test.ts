@@ -0,0 +1,83 @@
+// SPDX-License-Identifier: LicenseRef-Degensoft-Aqua-Source-1.1
+
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from 'hardhat';
+import { expect, ether, deployContract } from '@1inch/solidity-utils';
+import "@nomicfoundation/hardhat-chai-matchers";
+
+import { XYKStrategy } from '../typechain-types/contracts/strategies/XYKStrategy';
+import { deployFixture, createXYCStrategy, calculateAmountOut } from "./utils";
+import {
+  XYKStrategyParams,
+  decodeXYCStrategy,
+  decodeXYKStrategyParams,
+  encodeXYCStrategy,
+  encodeXYKStrategyParams,
+  hashCoreStrategy,
+  hashXYCStrategy,
+  hashXYKStrategyParams,
+  randomSalt,
+  saltFromLabel,
+} from "../src/lib/strategy";
+
+describe("Strategy encoding", function () {
+  it("should round-trip XYCSwap.Strategy through encode/decode", async function () {
+    const [maker, token0, token1] = await ethers.getSigners();
+    const strategy = {
+      maker: await maker.getAddress(),
+      token0: await token0.getAddress(),
+      token1: await token1.getAddress(),
+      feeBps: 30n,
+      salt: randomSalt(),
+    };
+
+    expect(decodeXYCStrategy(encodeXYCStrategy(strategy))).to.deep.equal(strategy);
+  });
+
+  it("should match the hash XYCSwap uses to key Aqua balances", async function () {
+    const {
+      contracts: { xycSwap, aqua, token0, token1 },
+      addrs: { maker, taker },
+      constants: { INITIAL_AMOUNT0, INITIAL_AMOUNT1, FEE_BPS }
+    } = await loadFixture(deployFixture);
+
+    const { strategy, strategyHash } = await createXYCStrategy(
+      xycSwap, aqua, maker, token0, token1, { salt: saltFromLabel('sdk') }
+    );
+    expect(strategyHash).to.equal(hashXYCStrategy(strategy));
+
+    const [balance0, ] = await aqua.rawBalances(await maker.getAddress(), await xycSwap.getAddress(), strategyHash, await token0.getAddress());
+    const [balance1, ] = await aqua.rawBalances(await maker.getAddress(), await xycSwap.getAddress(), strategyHash, await token1.getAddress());
+    expect(BigInt(balance0.toString())).to.equal(INITIAL_AMOUNT0);
+    expect(BigInt(balance1.toString())).to.equal(INITIAL_AMOUNT1);
+
+    // XYCSwap recomputes _strategyHash from the struct; a swap only finds reserves if both hashes agree
+    const amountIn = ether('1');
+    const amountOut = calculateAmountOut(amountIn, INITIAL_AMOUNT0, INITIAL_AMOUNT1, FEE_BPS);
+    const emptyTakerData = ethers.AbiCoder.defaultAbiCoder().encode(["bool"], [true]);
+    await expect(
+      xycSwap.connect(taker).swapExactIn(strategy, true, false, amountIn, amountOut, await taker.getAddress(), emptyTakerData)
+    ).to.changeTokenBalance(token1, taker, amountOut);
+  });
+
+  it("should match XYKStrategy.getStrategyHash", async function () {
+    const [owner, lp, token0, token1] = await ethers.getSigners();
+    const xykStrategy = await deployContract('XYKStrategy', [await owner.getAddress()]) as unknown as XYKStrategy;
+
+    for (const feeBps of [5n, 30n, 100n]) {
+      const params: XYKStrategyParams = {
+        lp: await lp.getAddress(),
+        token0: await token0.getAddress(),
+        token1: await token1.getAddress(),
+        feeBps,
+        salt: randomSalt(),
+      };
+
+      const strategyHash = hashXYKStrategyParams(await xykStrategy.getAddress(), params);
+      expect(await xykStrategy.getStrategyHash(params)).to.equal(strategyHash);
+      // The key LiquidFlowCore ships the encoded params under
+      expect(strategyHash).to.equal(hashCoreStrategy(params.lp, await xykStrategy.getAddress(), encodeXYKStrategyParams(params)));
+      expect(decodeXYKStrategyParams(encodeXYKStrategyParams(params))).to.deep.equal(params);
+    }
+  });
+});
@@ -0,0 +1,175 @@
+// SPDX-License-Identifier: LicenseRef-Degensoft-Aqua-Source-1.1
+
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from 'hardhat';
+import { expect, ether, deployContract } from '@1inch/solidity-utils';
+import "@nomicfoundation/hardhat-chai-matchers";
+
+import { TokenMock } from '../typechain-types/@1inch/solidity-utils/contracts/mocks/TokenMock';
+import { XYKStrategy } from '../typechain-types/contracts/strategies/XYKStrategy';
+import { LiquidFlowCore } from '../typechain-types/contracts/core/LiquidFlowCore';
+import { LiquidFlowCoreMock } from '../typechain-types/contracts/mocks/LiquidFlowCoreMock';
+import { LiquidFlowRouter } from '../typechain-types/contracts/periphery/LiquidFlowRouter';
+import { quoteExactIn } from "../src/lib/quote";
+import { xykVenueSource } from "../src/lib/solver";
+import { encodeXYKStrategyParams, hashXYKStrategyParams, saltFromLabel } from "../src/lib/strategy";
+import {
+  DEFAULT_SWAP_SETTINGS, QuoteRequest, QuoteState, QuotePipeline, SwapQuote,
+  bestQuote, exceedsPriceImpact, minAmountOut, swapDeadline, validateSwapSettings,
+} from "../src/lib/swapQuote";
+
+describe("Swap quotes", function () {
+  async function xykFixture() {
+    const [lp, token0, token1] = await ethers.getSigners();
+    const core = await deployContract('LiquidFlowCoreMock') as unknown as LiquidFlowCoreMock;
+    const xykStrategy = await deployContract('XYKStrategy', [await core.getAddress()]) as unknown as XYKStrategy;
+    const router = await deployContract('LiquidFlowRouter', [
+      await core.getAddress(), ethers.ZeroAddress, ethers.ZeroAddress,
+    ]) as unknown as LiquidFlowRouter;
+
+    // Same pair at two fee tiers; the deeper pool charges more
+    const positions = [
+      { feeBps: 5n, reserves: [ether('100'), ether('200')] },
+      { feeBps: 30n, reserves: [ether('1000'), ether('2000')] },
+    ];
+    const params = [];
+    for (const { feeBps, reserves } of positions) {
+      const position = {
+        lp: await lp.getAddress(),
+        token0: await token0.getAddress(),
+        token1: await token1.getAddress(),
+        feeBps,
+        salt: saltFromLabel(`quote-${feeBps}`),
+      };
+      const strategyHash = hashXYKStrategyParams(await xykStrategy.getAddress(), position);
+      await core.setBalance(position.lp, await xykStrategy.getAddress(), strategyHash, position.token0, reserves[0]);
+      await core.setBalance(position.lp, await xykStrategy.getAddress(), strategyHash, position.token1, reserves[1]);
+      params.push(position);
+    }
+
+    return { core, xykStrategy, router, params, token0: await token0.getAddress(), token1: await token1.getAddress() };
+  }
+
+  it("should quote through LiquidFlowRouter.getQuote and pick the venue with the best output", async function () {
+    const { xykStrategy, router, params, token0, token1 } = await loadFixture(xykFixture);
+    const strategy = await xykStrategy.getAddress();
+
+    // The router splices the encoded parameters in as the strategy's first argument
+    expect(await router.getQuote(strategy, encodeXYKStrategyParams(params[1]), true, ether('1')))
+      .to.equal(await xykStrategy.quoteExactIn(params[1], true, ether('1')));
+
+    const viaRouter = xykVenueSource(ethers.provider, strategy, params, 0n, await router.getAddress());
+    const viaStrategy = xykVenueSource(ethers.provider, strategy, params);
+
+    // A small order is best in the cheap pool, a large one in the deep pool
+    const small = await bestQuote(viaRouter, { tokenIn: token0, tokenOut: token1, amountIn: ether('0.1') });
+    const large = await bestQuote(viaRouter, { tokenIn: token0, tokenOut: token1, amountIn: ether('50') });
+    expect(small!.venue.feeBps).to.equal(5n);
+    expect(large!.venue.feeBps).to.equal(30n);
+    expect(large!.source).to.equal('chain');
+
+    const model = quoteExactIn({ kind: 'xyk', reserveIn: ether('1000'), reserveOut: ether('2000'), feeBps: 30n }, ether('50'));
+    expect(large!.amountOut).to.equal(model.amountOut);
+    expect(large!.priceImpactBps).to.equal(model.priceImpactBps);
+    expect(large!.feeAmount).to.equal(ether('50') * 30n / 10000n);
+
+    // Reverse direction and the strategy's own view agree with the router
+    const reverse = await bestQuote(viaStrategy, { tokenIn: token1, tokenOut: token0, amountIn: ether('50') });
+    expect(reverse!.zeroForOne).to.be.false;
+    expect(reverse!.amountOut).to.equal(await xykStrategy.quoteExactIn(params[1], false, ether('50')));
+
+    expect(await bestQuote(viaRouter, { tokenIn: token0, tokenOut: await router.getAddress(), amountIn: ether('1') })).to.be.null;
+  });
+
+  it("should quote and swap a position shipped to LiquidFlowCore", async function () {
+    const [lp, taker, feeCollector] = await ethers.getSigners();
+    const core = await deployContract('LiquidFlowCore', [await feeCollector.getAddress()]) as unknown as LiquidFlowCore;
+    const xykStrategy = await deployContract('XYKStrategy', [await core.getAddress()]) as unknown as XYKStrategy;
+    const strategy = await xykStrategy.getAddress();
+    await core.setStrategyApproval(strategy, true);
+    const token0 = await deployContract('TokenMock', ['Token A', 'TKA']) as unknown as TokenMock;
+    const token1 = await deployContract('TokenMock', ['Token B', 'TKB']) as unknown as TokenMock;
+    await token0.mint(await lp.getAddress(), ether('100'));
+    await token1.mint(await lp.getAddress(), ether('200'));
+    await token0.mint(await taker.getAddress(), ether('10'));
+    for (const token of [token0, token1]) await token.connect(lp).approve(await core.getAddress(), ethers.MaxUint256);
+
+    const params = {
+      lp: await lp.getAddress(),
+      token0: await token0.getAddress(),
+      token1: await token1.getAddress(),
+      feeBps: 30n,
+      salt: saltFromLabel('shipped'),
+    };
+    await core.connect(lp).ship(strategy, encodeXYKStrategyParams(params), [params.token0, params.token1], [ether('100'), ether('200')]);
+    expect(await xykStrategy.getReserves(params)).to.deep.equal([ether('100'), ether('200')]);
+
+    const quote = await bestQuote(xykVenueSource(ethers.provider, strategy, [params]), { tokenIn: params.token0, tokenOut: params.token1, amountIn: ether('1') });
+    expect(quote!.amountOut).to.equal(quoteExactIn({ kind: 'xyk', reserveIn: ether('100'), reserveOut: ether('200'), feeBps: 30n }, ether('1')).amountOut);
+
+    // The venue's swap pulls from the LP's position in the core
+    await token0.connect(taker).approve(strategy, ether('1'));
+    await taker.sendTransaction({ to: quote!.venue.target, data: quote!.venue.encodeSwap(true, ether('1'), quote!.amountOut, await taker.getAddress()) });
+    expect(await token1.balanceOf(await taker.getAddress())).to.equal(quote!.amountOut);
+    expect((await xykStrategy.getReserves(params))[1]).to.equal(ether('200') - quote!.amountOut);
+  });
+
+  it("should derive the minimum received, deadline and price-impact block from the settings", async function () {
+    const { xykStrategy, router, params, token0, token1 } = await loadFixture(xykFixture);
+    const venues = xykVenueSource(ethers.provider, await xykStrategy.getAddress(), params, 0n, await router.getAddress());
+
+    expect(minAmountOut(ether('2'), 50)).to.equal(ether('1.99'));
+    expect(swapDeadline(30, 1_700_000_000_500)).to.equal(1_700_000_000n + 1800n);
+    expect(validateSwapSettings(DEFAULT_SWAP_SETTINGS)).to.deep.equal([]);
+    expect(validateSwapSettings({ slippageBps: 0, ttlMinutes: 30.5, maxPriceImpactBps: 500 })).to.deep.equal([
+      'Slippage must be between 1 and 5000',
+      'Deadline must be between 1 and 1440',
+    ]);
+
+    const settings = { ...DEFAULT_SWAP_SETTINGS, maxPriceImpactBps: 100 };
+    const modest = await bestQuote(venues, { tokenIn: token0, tokenOut: token1, amountIn: ether('5') });
+    const whale = await bestQuote(venues, { tokenIn: token0, tokenOut: token1, amountIn: ether('500') });
+    expect(exceedsPriceImpact(modest!, settings)).to.be.false;
+    expect(exceedsPriceImpact(whale!, settings)).to.be.true;
+  });
+
+  it("should debounce requests and drop answers to superseded ones", async function () {
+    const states: QuoteState[] = [];
+    const fetched: bigint[] = [];
+    const pipeline = new QuotePipeline({
+      debounceMs: 20,
+      refreshIntervalMs: 0,
+      // Larger amounts answer sooner, so an older request would land last
+      fetchQuote: async (request) => {
+        fetched.push(request.amountIn);
+        await new Promise(resolve => setTimeout(resolve, Number(100n - request.amountIn)));
+        return { amountOut: request.amountIn * 2n, request } as unknown as SwapQuote;
+      },
+      onChange: (state) => states.push(state),
+    });
+    const request = (amountIn: bigint): QuoteRequest => ({ tokenIn: ethers.ZeroAddress, tokenOut: ethers.ZeroAddress, amountIn });
+    const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    // Typing "1", "12", "15" quickly quotes only the last value
+    pipeline.update(request(1n));
+    pipeline.update(request(12n));
+    pipeline.update(request(15n));
+    await sleep(150);
+    expect(fetched).to.deep.equal([15n]);
+    expect(pipeline.current()).to.deep.include({ status: 'ready', error: null });
+    expect(pipeline.current().quote!.amountOut).to.equal(30n);
+
+    // The slow answer for 10 arrives after the one for 90 and is ignored
+    pipeline.update(request(10n));
+    await sleep(40);
+    pipeline.update(request(90n));
+    await sleep(150);
+    expect(fetched).to.deep.equal([15n, 10n, 90n]);
+    expect(pipeline.current().quote!.amountOut).to.equal(180n);
+    expect(states.filter(state => state.status === 'ready').map(state => state.quote!.amountOut)).to.deep.equal([30n, 180n]);
+
+    pipeline.update(null);
+    expect(pipeline.current().status).to.equal('idle');
+    pipeline.stop();
+  });
+});
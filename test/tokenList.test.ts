@@ -0,0 +1,118 @@
+// SPDX-License-Identifier: LicenseRef-Degensoft-Aqua-Source-1.1
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ethers } from 'hardhat';
+import { expect, ether, deployContract } from '@1inch/solidity-utils';
+
+import { TokenMock } from '../typechain-types/@1inch/solidity-utils/contracts/mocks/TokenMock';
+import { memoryStorage } from "../src/lib/storage";
+import {
+  TokenList, TokenPreferencesStore, fetchTokenBalances, fetchTokenMetadata, mergeTokens, parseTokenList, searchTokens, tokenListErrors,
+} from "../src/lib/tokenList";
+
+describe("Token lists", function () {
+  const DEFAULT_LIST = fs.readFileSync(path.join(__dirname, '../public/tokenlists/default.json'), 'utf8');
+
+  const list = (tokens: unknown[], overrides: Record<string, unknown> = {}) => ({
+    name: 'Test List',
+    timestamp: '2026-01-01T00:00:00Z',
+    version: { major: 1, minor: 0, patch: 0 },
+    tokens,
+    ...overrides,
+  });
+  const token = (overrides: Record<string, unknown> = {}) => ({
+    chainId: 31337,
+    address: '0x5fbdb2315678afecb367f032d93f642f64180aa3',
+    name: 'Test Token',
+    symbol: 'TEST',
+    decimals: 18,
+    ...overrides,
+  });
+
+  it("should accept the bundled list and reject entries that break the schema", async function () {
+    const bundled = parseTokenList(DEFAULT_LIST);
+    expect(bundled.tokens.filter(entry => entry.chainId === 42161).map(entry => entry.symbol)).to.deep.equal(['WETH', 'USDC', 'ARB', 'WBTC']);
+    // Addresses are checksummed on the way in
+    expect(parseTokenList(JSON.stringify(list([token()]))).tokens[0].address).to.equal('0x5FbDB2315678afecb367f032d93F642f64180aa3');
+
+    expect(tokenListErrors(list([
+      token({ decimals: 256 }),
+      token({ address: '0x1234', symbol: 'TWO WORDS' }),
+      token({ chainId: 0, name: '' }),
+      token(),
+      token({ tags: ['not-a-tag-id'] }),
+    ], { name: 'List!', version: { major: 1, minor: '0', patch: 0 } }))).to.deep.equal([
+      'name must be 1-30 letters, digits or spaces',
+      'version must have integer major, minor and patch',
+      'tokens[0].decimals must be an integer from 0 to 255',
+      'tokens[1].address must be a 20-byte hex address',
+      'tokens[1].symbol must be 1-20 characters without spaces',
+      'tokens[2].chainId must be a positive integer',
+      'tokens[2].name must be 1-40 characters without symbols',
+      'tokens[3] duplicates 0x5fbdb2315678afecb367f032d93f642f64180aa3 on chain 31337',
+      'tokens[4] duplicates 0x5fbdb2315678afecb367f032d93f642f64180aa3 on chain 31337',
+      'tokens[4].tags must be at most 10 tag identifiers',
+    ]);
+    expect(tokenListErrors(list([]))).to.deep.equal(['tokens must be an array of 1-10000 tokens']);
+    expect(() => parseTokenList(JSON.stringify(list([token({ decimals: -1 })])))).to.throw('Invalid token list: tokens[0].decimals');
+  });
+
+  it("should merge lists, deployment tokens and imports per chain, favorites first", async function () {
+    const first = parseTokenList(JSON.stringify(list([token(), token({ chainId: 1 })], { name: 'First' })));
+    const second = parseTokenList(JSON.stringify(list([token({ symbol: 'DUP' }), token({ address: '0x' + '22'.repeat(20), symbol: 'TWO' })], { name: 'Second' })));
+    const imported = [token({ address: '0x' + '33'.repeat(20), symbol: 'IMP', name: 'Imported' })] as TokenList['tokens'];
+
+    const merged = mergeTokens([first, second], [], imported, 31337);
+    expect(merged.map(entry => [entry.symbol, entry.source, entry.verified, entry.list])).to.deep.equal([
+      ['TEST', 'list', true, 'First'],
+      ['TWO', 'list', true, 'Second'],
+      ['IMP', 'imported', false, undefined],
+    ]);
+
+    const favorite = ethers.getAddress('0x' + '33'.repeat(20));
+    expect(searchTokens(merged, '', [favorite]).map(entry => entry.symbol)).to.deep.equal(['IMP', 'TEST', 'TWO']);
+    expect(searchTokens(merged, 'imp').map(entry => entry.symbol)).to.deep.equal(['IMP']);
+    expect(searchTokens(merged, '0x' + '22'.repeat(20)).map(entry => entry.symbol)).to.deep.equal(['TWO']);
+  });
+
+  it("should persist imports and favorites per chain", async function () {
+    const storage = memoryStorage();
+    const preferences = new TokenPreferencesStore(storage);
+    const imported = token({ address: '0x' + '44'.repeat(20) }) as TokenList['tokens'][number];
+
+    preferences.addImported({ ...imported, source: 'imported', verified: false } as typeof imported);
+    preferences.toggleFavorite(31337, imported.address);
+    preferences.toggleFavorite(1, imported.address);
+
+    const reloaded = new TokenPreferencesStore(storage);
+    expect(reloaded.load(31337).imported).to.deep.equal([{ ...imported, address: ethers.getAddress(imported.address) }]);
+    expect(reloaded.load(31337).favorites).to.deep.equal([ethers.getAddress(imported.address)]);
+    expect(reloaded.load(1).imported).to.deep.equal([]);
+
+    reloaded.removeImported(31337, imported.address);
+    expect(new TokenPreferencesStore(storage).load(31337)).to.deep.equal({ imported: [], favorites: [] });
+
+    storage.setItem('liquidflow:tokens:5', 'not json');
+    expect(reloaded.load(5)).to.deep.equal({ imported: [], favorites: [] });
+  });
+
+  it("should read metadata and balances of an imported token from chain", async function () {
+    const [owner, other] = await ethers.getSigners();
+    const mock = await deployContract('TokenMock', ['Import Me', 'IMP']) as unknown as TokenMock;
+    await mock.mint(await owner.getAddress(), ether('12.5'));
+    const chainId = Number((await ethers.provider.getNetwork()).chainId);
+
+    const metadata = await fetchTokenMetadata(ethers.provider, await mock.getAddress(), chainId);
+    expect(metadata).to.deep.equal({ chainId, address: await mock.getAddress(), name: 'Import Me', symbol: 'IMP', decimals: 18 });
+
+    await expect(fetchTokenMetadata(ethers.provider, await other.getAddress(), chainId)).to.be.rejectedWith('No contract at this address');
+    await expect(fetchTokenMetadata(ethers.provider, 'not an address', chainId)).to.be.rejectedWith('Not an address');
+
+    // A list entry without a contract is skipped rather than failing every balance
+    const missing = { ...metadata, address: await other.getAddress() };
+    expect(await fetchTokenBalances(ethers.provider, await owner.getAddress(), [metadata, missing])).to.deep.equal({
+      [await mock.getAddress()]: ether('12.5'),
+    });
+  });
+});
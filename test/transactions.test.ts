@@ -0,0 +1,159 @@
+// SPDX-License-Identifier: LicenseRef-Degensoft-Aqua-Source-1.1
+
+import { loadFixture, mine } from "@nomicfoundation/hardhat-network-helpers";
+import hre, { ethers } from 'hardhat';
+import { expect, ether, deployContract } from '@1inch/solidity-utils';
+import "@nomicfoundation/hardhat-chai-matchers";
+
+import { LFToken } from '../typechain-types/contracts/token/LFToken';
+import { decodeRevertData, describeError } from "../src/lib/errors";
+import { TransactionTracker } from "../src/lib/transactions";
+import { memoryStorage } from "../src/lib/storage";
+
+// Placeholder argument for an error parameter of the given type
+function sampleValue(type: string): unknown {
+  if (type === 'address') return ethers.ZeroAddress;
+  if (type === 'bool') return false;
+  if (type === 'string') return '';
+  if (type === 'bytes') return '0x';
+  if (type.startsWith('bytes')) return ethers.zeroPadBytes('0x', Number(type.slice(5)));
+  return 0n;
+}
+
+describe("Transactions", function () {
+  it("should decode every custom error the contracts can revert with", async function () {
+    const names = (await hre.artifacts.getAllFullyQualifiedNames()).filter(name => name.startsWith('contracts/'));
+    let decoded = 0;
+    for (const name of names) {
+      const { abi } = await hre.artifacts.readArtifact(name);
+      const contract = new ethers.Interface(abi);
+      contract.forEachError((fragment) => {
+        const data = contract.encodeErrorResult(fragment, fragment.inputs.map(input => sampleValue(input.type)));
+        expect(decodeRevertData(data).name, `${name}: ${fragment.name}`).to.equal(fragment.name);
+        decoded++;
+      });
+    }
+    expect(decoded).to.be.greaterThan(0);
+  });
+
+  it("should word the errors users run into", async function () {
+    const contract = new ethers.Interface([
+      'error InsufficientOutputAmount(uint256 actual, uint256 minimum)',
+      'error DeadlineExpired()',
+      'error LockTooShort()',
+      'error BatchNotOpen()',
+      'error InsufficientStake()',
+    ]);
+    expect(decodeRevertData(contract.encodeErrorResult('InsufficientOutputAmount', [95n, 100n])).message)
+      .to.equal('Price moved: the swap would return 95, below your minimum of 100');
+    expect(decodeRevertData(contract.encodeErrorResult('DeadlineExpired', [])).message).to.equal('The transaction deadline passed before it was mined');
+    expect(decodeRevertData(contract.encodeErrorResult('LockTooShort', [])).message).to.equal('The lock duration is below the minimum');
+    expect(decodeRevertData(contract.encodeErrorResult('BatchNotOpen', [])).name).to.equal('BatchNotOpen');
+    expect(decodeRevertData(contract.encodeErrorResult('InsufficientStake', [])).message).to.contain('stake is below the minimum');
+
+    const builtin = new ethers.Interface(['error Error(string)', 'error Panic(uint256)']);
+    expect(decodeRevertData(builtin.encodeErrorResult('Error', ['Max 3 minutes'])).message).to.equal('Max 3 minutes');
+    expect(decodeRevertData(builtin.encodeErrorResult('Panic', [0x11])).message).to.equal('Contract error: arithmetic overflow or underflow');
+    expect(decodeRevertData('0x')).to.deep.include({ name: 'Revert' });
+    expect(decodeRevertData('0xdeadbeef')).to.deep.include({ name: 'Unknown' });
+    expect(describeError({ code: 4001 })).to.equal('Request rejected in the wallet');
+    expect(describeError({ code: 'ACTION_REJECTED' })).to.equal('Request rejected in the wallet');
+    expect(describeError({ error: { data: contract.encodeErrorResult('LockTooShort', []) } })).to.equal('The lock duration is below the minimum');
+  });
+
+  describe("Tracker", function () {
+    async function trackerFixture() {
+      const [owner, user] = await ethers.getSigners();
+      const lf = await deployContract('LFToken') as unknown as LFToken;
+      const storage = memoryStorage();
+      const tracker = new TransactionTracker({
+        provider: ethers.provider,
+        chainId: Number((await ethers.provider.getNetwork()).chainId),
+        account: await user.getAddress(),
+        storage,
+        dropAfterMs: 0,
+      });
+      return { owner, user, lf, storage, tracker };
+    }
+
+    afterEach(async function () {
+      await ethers.provider.send('evm_setAutomine', [true]);
+    });
+
+    it("should count confirmations and keep the history across reloads", async function () {
+      const { user, storage, tracker } = await loadFixture(trackerFixture);
+      const tx = await user.sendTransaction({ to: await user.getAddress(), value: ether('1') });
+      await tracker.track(tx, 'Send ETH');
+
+      await tracker.tick();
+      expect(tracker.records()[0]).to.deep.include({ status: 'confirmed', confirmations: 1 });
+      await mine(2);
+      await tracker.tick();
+      expect(tracker.records()[0]).to.deep.include({ status: 'confirmed', confirmations: 3 });
+
+      const reloaded = new TransactionTracker({
+        provider: ethers.provider,
+        chainId: Number((await ethers.provider.getNetwork()).chainId),
+        account: await user.getAddress(),
+        storage,
+      });
+      expect(reloaded.records()).to.have.lengthOf(1);
+      expect(reloaded.records()[0]).to.deep.include({ hash: tx.hash, label: 'Send ETH', value: ether('1') });
+    });
+
+    it("should decode why a mined transaction failed", async function () {
+      const { user, lf, tracker } = await loadFixture(trackerFixture);
+      // Queued with a fixed gas limit so the revert is mined instead of failing the estimate;
+      // the reason is recovered by replaying the call at its block
+      await ethers.provider.send('evm_setAutomine', [false]);
+      const tx = await lf.connect(user).mint(await user.getAddress(), ether('1'), { gasLimit: 100000n });
+      await tracker.track(tx, 'Mint LF');
+
+      await mine(1);
+      await tracker.tick();
+      expect(tracker.records()[0]).to.deep.include({ status: 'failed', error: 'Not minter' });
+    });
+
+    it("should follow a transaction the app sped up", async function () {
+      const { user, tracker } = await loadFixture(trackerFixture);
+      await ethers.provider.send('evm_setAutomine', [false]);
+      const tx = await user.sendTransaction({ to: await user.getAddress(), value: ether('1') });
+      await tracker.track(tx, 'Send ETH');
+
+      const record = await tracker.speedUp(tx.hash, user);
+      expect(record.hash).to.not.equal(tx.hash);
+      expect(record.previousHashes).to.deep.equal([tx.hash]);
+
+      await mine(1);
+      await tracker.tick();
+      expect(tracker.records()).to.have.lengthOf(1);
+      expect(tracker.records()[0]).to.deep.include({ hash: record.hash, status: 'confirmed' });
+    });
+
+    it("should tell a wallet speed-up from a cancellation", async function () {
+      const { user, tracker } = await loadFixture(trackerFixture);
+      const account = await user.getAddress();
+      await ethers.provider.send('evm_setAutomine', [false]);
+
+      // Repriced by the wallet, outside the app
+      const first = await user.sendTransaction({ to: ethers.ZeroAddress, value: ether('1') });
+      await tracker.track(first, 'Send ETH');
+      const fees = { maxFeePerGas: first.maxFeePerGas! * 2n, maxPriorityFeePerGas: first.maxPriorityFeePerGas! * 2n };
+      const repriced = await user.sendTransaction({ to: ethers.ZeroAddress, value: ether('1'), nonce: first.nonce, ...fees });
+      await mine(1);
+      await tracker.tick();
+      expect(tracker.records()[0]).to.deep.include({ hash: repriced.hash, status: 'pending', previousHashes: [first.hash] });
+      await tracker.tick();
+      expect(tracker.records()[0]).to.deep.include({ hash: repriced.hash, status: 'confirmed' });
+
+      // Cancelled from the app
+      const second = await user.sendTransaction({ to: ethers.ZeroAddress, value: ether('1') });
+      await tracker.track(second, 'Send ETH again');
+      const cancellation = await tracker.cancel(second.hash, user);
+      await mine(1);
+      await tracker.tick();
+      expect(tracker.records()[0]).to.deep.include({ hash: second.hash, status: 'cancelled', replacedBy: cancellation.hash });
+      expect(await ethers.provider.getTransactionCount(account)).to.equal(second.nonce + 1);
+    });
+  });
+});
@@ -10,6 +10,8 @@ import { Aqua } from '../typechain-types/@1inch/aqua/src/Aqua';
 import { XYCSwap } from '../typechain-types/contracts/XYCSwap';
 import { SwapExecutor } from '../typechain-types/contracts/SwapExecutor';
 
+import { XYCStrategy, encodeXYCStrategy, hashXYCStrategy } from '../src/lib/strategy';
+
   // Define initial amounts
   const INITIAL_AMOUNT0 = ether('100');
   const INITIAL_AMOUNT1 = ether('200');
@@ -58,22 +60,20 @@ async function createXYCStrategy(
     aqua: Aqua,
     maker: Signer,
     token0: TokenMock,
-    token1: TokenMock
+    token1: TokenMock,
+    overrides: Partial<Pick<XYCStrategy, 'feeBps' | 'salt'>> = {}
 ) {
-    const strategy = {
+    const strategy: XYCStrategy = {
         maker: await maker.getAddress(),
         token0: await token0.getAddress(),
         token1: await token1.getAddress(),
-        feeBps: FEE_BPS,
-        salt: ethers.ZeroHash
+        feeBps: overrides.feeBps ?? FEE_BPS,
+        salt: overrides.salt ?? ethers.ZeroHash
     };
 
     // Encode the strategy
-    const encodedStrategy = ethers.AbiCoder.defaultAbiCoder().encode(
-        ['tuple(address,address,address,uint256,bytes32)'],
-        [[strategy.maker, strategy.token0, strategy.token1, strategy.feeBps, strategy.salt]]
-    );
-    const strategyHash = ethers.keccak256(encodedStrategy);
+    const encodedStrategy = encodeXYCStrategy(strategy);
+    const strategyHash = hashXYCStrategy(strategy);
 
     // Create dynamic arrays for tokens and amounts
     const tokens = [await token0.getAddress(), await token1.getAddress()];
@@ -97,4 +97,26 @@ function calculateAmountOut(amountIn: bigint, balanceIn: bigint, balanceOut: big
     return amountInWithFee * balanceOut / (balanceIn + amountInWithFee);
 }
 
-export { deployFixture, createXYCStrategy, calculateAmountOut };
+// Deterministic PRNG (mulberry32) so randomized tests can be replayed from a seed
+function seededRandom(seed: number) {
+    let state = seed >>> 0;
+    const next = () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+    // Uniform-ish bigint in [min, max], good enough for test inputs
+    const bigint = (min: bigint, max: bigint) => {
+        const span = max - min + 1n;
+        const hi = BigInt(Math.floor(next() * 2 ** 32));
+        const lo = BigInt(Math.floor(next() * 2 ** 32));
+        return min + ((hi << 32n) | lo) * span / (1n << 64n);
+    };
+    const bool = () => next() < 0.5;
+    const pick = <T>(items: readonly T[]) => items[Math.floor(next() * items.length)];
+    return { next, bigint, bool, pick };
+}
+
+export { deployFixture, createXYCStrategy, calculateAmountOut, seededRandom };
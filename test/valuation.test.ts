@@ -0,0 +1,84 @@
+// SPDX-License-Identifier: LicenseRef-Degensoft-Aqua-Source-1.1
+
+import { expect, ether } from '@1inch/solidity-utils';
+
+import { PositionFlow } from "../src/lib/indexer";
+import { SECONDS_PER_DAY, ValuationInput, summarizeValuations, valuePosition } from "../src/lib/valuation";
+
+describe("Position valuation", function () {
+  const now = 1_700_000_000;
+  const hoursAgo = (hours: number) => now - hours * 3600;
+
+  // One swap selling 100 token1 for 50 token0: 100/100 -> 50/200, k unchanged
+  const swap = (timestamp: number, amountIn = ether('100')): PositionFlow[] => [
+    { tokenIndex: 0, delta: -ether('50'), amountIn: 0n, timestamp },
+    { tokenIndex: 1, delta: amountIn, amountIn, timestamp },
+  ];
+  const input = (overrides: Partial<ValuationInput> = {}): ValuationInput => ({
+    decimals: [18, 18],
+    shipped: [ether('100'), ether('100')],
+    reserves: [ether('50'), ether('200')],
+    feeBps: 0n,
+    flows: swap(hoursAgo(1)),
+    pricesUSD: [undefined, 1],
+    ...overrides,
+  });
+
+  it("should match holding when nothing has traded", function () {
+    const valuation = valuePosition(input({ reserves: [ether('100'), ether('100')], flows: [] }), now);
+
+    expect(valuation.spotPrice).to.equal(1);
+    expect(valuation.valueUSD).to.equal(200);
+    expect(valuation.holdValueUSD).to.equal(200);
+    expect(valuation.impermanentLoss).to.equal(0);
+    expect(valuation.utilization24h).to.equal(0);
+    expect(valuation.earnedFeesTotal).to.equal(0);
+  });
+
+  it("should measure IL against the hold baseline at the current price", function () {
+    const valuation = valuePosition(input(), now);
+
+    // Price moved 4x: constant-product IL is 2 * sqrt(4) / (1 + 4) - 1 = -20%
+    expect(valuation.spotPrice).to.equal(4);
+    expect(valuation.valueUSD).to.equal(400);
+    expect(valuation.holdValueUSD).to.equal(500);
+    expect(valuation.impermanentLoss).to.be.closeTo(-20, 1e-9);
+
+    // 100 token1 of volume against 400 of reserves
+    expect(valuation.utilization24h).to.be.closeTo(0.25, 1e-9);
+    expect(valuation.volume24hUSD).to.equal(100);
+
+    // A day ago the reserves were the shipped 100/100 at price 1
+    expect(valuation.valueChange24h).to.be.closeTo(100, 1e-9);
+  });
+
+  it("should accrue fees per feeBps and split them into 24h windows", function () {
+    const flows = [...swap(hoursAgo(30), ether('40')), ...swap(hoursAgo(2), ether('60'))];
+    const valuation = valuePosition(input({ feeBps: 30n, flows, pricesUSD: [8, undefined] }), now);
+
+    // token0 at $8 and spot price 4 puts token1 at $2
+    expect(valuation.valueUSD).to.equal(800);
+    expect(valuation.earnedFeesTotal).to.be.closeTo((40 + 60) * 0.003 * 2, 1e-9);
+    expect(valuation.earnedFees24h).to.be.closeTo(60 * 0.003 * 2, 1e-9);
+    expect(valuation.earnedFeesPrev24h).to.be.closeTo(40 * 0.003 * 2, 1e-9);
+    expect(valuation.utilization24h).to.be.closeTo(60 / 400, 1e-9);
+    // Fees are taken out before comparing with holding
+    expect(valuation.impermanentLoss).to.be.closeTo(((400 - 0.3) / 500 - 1) * 100, 1e-9);
+
+    const stale = valuePosition(input({ feeBps: 30n, flows: swap(now - 3 * SECONDS_PER_DAY) }), now);
+    expect(stale.earnedFees24h).to.equal(0);
+    expect(stale.earnedFeesPrev24h).to.equal(0);
+    expect(stale.earnedFeesTotal).to.be.closeTo(0.3, 1e-9);
+  });
+
+  it("should weight the summary by position value", function () {
+    const moved = valuePosition(input(), now);
+    const idle = valuePosition(input({ reserves: [ether('100'), ether('100')], flows: [] }), now);
+    const summary = summarizeValuations([moved, idle]);
+
+    expect(summary.totalValueUSD).to.equal(600);
+    expect(summary.totalHoldValueUSD).to.equal(700);
+    expect(summary.valueChange24h).to.be.closeTo(100 * 400 / 600, 1e-9);
+    expect(summary.earnedChange24h).to.equal(0);
+  });
+});
@@ -0,0 +1,165 @@
+// SPDX-License-Identifier: LicenseRef-Degensoft-Aqua-Source-1.1
+
+import { expect } from '@1inch/solidity-utils';
+import { getAddress } from 'ethers';
+
+import {
+  CHAIN_PARAMETERS,
+  EIP6963ProviderDetail,
+  UNRECOGNIZED_CHAIN,
+  USER_REJECTED_REQUEST,
+  WalletConnection,
+  discoverWallets,
+} from "../src/lib/wallet";
+
+const ACCOUNT = '0x742d35cc6634c0532925a3b844bc9e7595f8fe21';
+
+class ProviderRpcError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+// Minimal EIP-1193 wallet: knows a set of chains and records every request
+class MockProvider {
+  chainId = 1;
+  accounts = [ACCOUNT];
+  knownChains = new Set([1, 42161]);
+  rejectAll = false;
+  requests: { method: string; params?: unknown[] }[] = [];
+  private listeners = new Map<string, Set<(...args: any[]) => void>>();
+
+  async request({ method, params }: { method: string; params?: unknown[] }): Promise<unknown> {
+    this.requests.push({ method, params });
+    if (this.rejectAll) throw new ProviderRpcError(USER_REJECTED_REQUEST, 'User rejected the request.');
+    switch (method) {
+      case 'eth_requestAccounts':
+        return this.accounts;
+      case 'eth_chainId':
+        return `0x${this.chainId.toString(16)}`;
+      case 'wallet_switchEthereumChain': {
+        const chainId = Number((params![0] as { chainId: string }).chainId);
+        if (!this.knownChains.has(chainId)) throw new ProviderRpcError(UNRECOGNIZED_CHAIN, 'Unrecognized chain ID');
+        this.chainId = chainId;
+        this.emit('chainChanged', `0x${chainId.toString(16)}`);
+        return null;
+      }
+      case 'wallet_addEthereumChain':
+        this.knownChains.add(Number((params![0] as { chainId: string }).chainId));
+        return null;
+      default:
+        throw new ProviderRpcError(4200, `Unsupported method ${method}`);
+    }
+  }
+
+  on(event: string, listener: (...args: any[]) => void) {
+    if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+    this.listeners.get(event)!.add(listener);
+  }
+
+  removeListener(event: string, listener: (...args: any[]) => void) {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  emit(event: string, ...args: unknown[]) {
+    for (const listener of this.listeners.get(event) ?? []) listener(...args);
+  }
+
+  listenerCount(): number {
+    return [...this.listeners.values()].reduce((total, set) => total + set.size, 0);
+  }
+}
+
+describe("Wallet connection", function () {
+  const detail = (provider: MockProvider, name = 'Mock Wallet'): EIP6963ProviderDetail => ({
+    info: { uuid: `${name}-uuid`, name, icon: 'data:image/svg+xml,', rdns: `io.mock.${name.replace(/ /g, '').toLowerCase()}` },
+    provider,
+  });
+
+  it("should discover wallets announced through EIP-6963", async function () {
+    const target = new EventTarget();
+    const wallets = [detail(new MockProvider(), 'First'), detail(new MockProvider(), 'Second')];
+    target.addEventListener('eip6963:requestProvider', () => {
+      for (const wallet of wallets) {
+        target.dispatchEvent(new CustomEvent('eip6963:announceProvider', { detail: wallet }));
+      }
+      // Announcing twice must not produce duplicates
+      target.dispatchEvent(new CustomEvent('eip6963:announceProvider', { detail: wallets[0] }));
+    });
+
+    const discovered = await discoverWallets(target, 10);
+    expect(discovered.map((wallet) => wallet.info.name)).to.deep.equal(['First', 'Second']);
+  });
+
+  it("should connect and follow account, chain and disconnect events", async function () {
+    const provider = new MockProvider();
+    const seen: { accounts: string[][]; chains: number[]; disconnects: number } = { accounts: [], chains: [], disconnects: 0 };
+    const connection = new WalletConnection(detail(provider), {
+      onAccountsChanged: (accounts) => seen.accounts.push(accounts),
+      onChainChanged: (chainId) => seen.chains.push(chainId),
+      onDisconnect: () => seen.disconnects++,
+    });
+
+    const session = await connection.connect();
+    expect(session).to.deep.equal({ address: getAddress(ACCOUNT), chainId: 1 });
+    expect(provider.requests.map((request) => request.method)).to.deep.equal(['eth_requestAccounts', 'eth_chainId']);
+
+    provider.emit('accountsChanged', [ACCOUNT]);
+    provider.emit('accountsChanged', []);
+    provider.emit('chainChanged', '0xa4b1');
+    provider.emit('disconnect', new ProviderRpcError(4900, 'Disconnected'));
+    expect(seen).to.deep.equal({
+      accounts: [[getAddress(ACCOUNT)], []],
+      chains: [42161],
+      disconnects: 1,
+    });
+
+    // Reconnecting does not stack listeners, disconnecting removes them
+    await connection.connect();
+    expect(provider.listenerCount()).to.equal(3);
+    connection.disconnect();
+    expect(provider.listenerCount()).to.equal(0);
+  });
+
+  it("should switch to a known chain with wallet_switchEthereumChain", async function () {
+    const provider = new MockProvider();
+    const connection = new WalletConnection(detail(provider));
+    await connection.connect();
+
+    await connection.switchChain(42161);
+    expect(provider.chainId).to.equal(42161);
+    expect(provider.requests.slice(2)).to.deep.equal([
+      { method: 'wallet_switchEthereumChain', params: [{ chainId: '0xa4b1' }] },
+    ]);
+  });
+
+  it("should add an unknown chain and then switch to it", async function () {
+    const provider = new MockProvider();
+    const connection = new WalletConnection(detail(provider));
+    await connection.connect();
+
+    await connection.switchChain(8453);
+    expect(provider.chainId).to.equal(8453);
+    expect(provider.requests.slice(2).map((request) => request.method)).to.deep.equal([
+      'wallet_switchEthereumChain',
+      'wallet_addEthereumChain',
+      'eth_chainId',
+      'wallet_switchEthereumChain',
+    ]);
+    expect(provider.requests[3].params).to.deep.equal([CHAIN_PARAMETERS[8453]]);
+  });
+
+  it("should surface rejections and unknown chains without adding them", async function () {
+    const provider = new MockProvider();
+    const connection = new WalletConnection(detail(provider));
+    await connection.connect();
+    provider.rejectAll = true;
+
+    await expect(connection.switchChain(8453)).to.be.rejectedWith('User rejected the request.');
+    expect(provider.requests.slice(2).map((request) => request.method)).to.deep.equal(['wallet_switchEthereumChain']);
+
+    // Chains without parameters cannot be added
+    provider.rejectAll = false;
+    await expect(connection.switchChain(424242)).to.be.rejectedWith('Chain 424242 is not configured');
+  });
+});
@@ -0,0 +1,95 @@
+// SPDX-License-Identifier: LicenseRef-Degensoft-Aqua-Source-1.1
+
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from 'hardhat';
+import { expect, ether, deployContract } from '@1inch/solidity-utils';
+import "@nomicfoundation/hardhat-chai-matchers";
+
+import { TokenMock } from '../typechain-types/@1inch/solidity-utils/contracts/mocks/TokenMock';
+import { LiquidFlowCore } from '../typechain-types/contracts/core/LiquidFlowCore';
+import { encodeXYKStrategyParams, hashCoreStrategy, saltFromLabel } from "../src/lib/strategy";
+import { fetchWithdrawalQueue, secondsUntilReady } from "../src/lib/withdrawals";
+
+describe("Withdrawal queue", function () {
+  async function queueFixture() {
+    const [owner, lp, strategy, feeCollector] = await ethers.getSigners();
+    const core = await deployContract('LiquidFlowCore', [await feeCollector.getAddress()]) as unknown as LiquidFlowCore;
+    const token0 = await deployContract('TokenMock', ['Token0', 'TK0']) as unknown as TokenMock;
+    const token1 = await deployContract('TokenMock', ['Token1', 'TK1']) as unknown as TokenMock;
+    const coreAddress = await core.getAddress();
+
+    // An EOA stands in for the strategy contract; docking never calls it
+    await core.setStrategyApproval(await strategy.getAddress(), true);
+    for (const token of [token0, token1]) {
+      await token.mint(await lp.getAddress(), ether('1000'));
+      await token.connect(lp).approve(coreAddress, ethers.MaxUint256);
+    }
+
+    const tokens = [await token0.getAddress(), await token1.getAddress()];
+    // Two positions on the same pair, told apart by their salt
+    const positions = await Promise.all(['first', 'second'].map(async (label) => {
+      const strategyData = encodeXYKStrategyParams({
+        lp: await lp.getAddress(),
+        token0: tokens[0],
+        token1: tokens[1],
+        feeBps: 30n,
+        salt: saltFromLabel(label),
+      });
+      return { strategyData, strategyHash: hashCoreStrategy(await lp.getAddress(), await strategy.getAddress(), strategyData) };
+    }));
+    for (const { strategyData } of positions) {
+      await core.connect(lp).ship(strategy.getAddress(), strategyData, tokens, [ether('100'), ether('200')]);
+    }
+    const requestDock = (strategyHash: string) => core.connect(lp).requestDock(strategy.getAddress(), strategyHash, tokens);
+    const queue = async () => fetchWithdrawalQueue(ethers.provider, coreAddress, await lp.getAddress());
+
+    return { owner, lp, strategy, core, tokens, positions, requestDock, queue };
+  }
+
+  it("should count down a requested dock from chain state and execute it once ready", async function () {
+    const { lp, core, positions, requestDock, queue } = await loadFixture(queueFixture);
+    expect((await queue()).pending).to.be.empty;
+
+    await requestDock(positions[0].strategyHash);
+    const { pending: [withdrawal], chainTime, paused } = await queue();
+    expect(paused).to.equal(false);
+    expect(withdrawal).to.deep.include({ lp: await lp.getAddress(), strategyHash: positions[0].strategyHash });
+    expect(withdrawal.readyAt).to.equal(withdrawal.requestedAt + 180);
+    expect(secondsUntilReady(withdrawal, chainTime)).to.equal(180);
+
+    await expect(core.connect(lp).executeDock(withdrawal.requestId)).to.be.revertedWithCustomError(core, 'WithdrawalNotReady');
+    await time.increaseTo(withdrawal.readyAt - 60);
+    expect(secondsUntilReady(withdrawal, (await queue()).chainTime)).to.equal(60);
+
+    await time.increaseTo(withdrawal.readyAt);
+    expect(secondsUntilReady(withdrawal, (await queue()).chainTime)).to.equal(0);
+    await core.connect(lp).executeDock(withdrawal.requestId);
+    expect((await queue()).pending).to.be.empty;
+    expect(await core.isStrategyActive(positions[0].strategyHash)).to.equal(false);
+    expect(await core.isStrategyActive(positions[1].strategyHash)).to.equal(true);
+  });
+
+  it("should let the owner emergency dock while paused and drop requests with nothing left to clear", async function () {
+    const { owner, lp, strategy, core, tokens, positions, requestDock, queue } = await loadFixture(queueFixture);
+    await requestDock(positions[0].strategyHash);
+    await requestDock(positions[1].strategyHash);
+
+    await core.pause();
+    const paused = await queue();
+    expect(paused.paused).to.equal(true);
+    expect(paused.owner).to.equal(await owner.getAddress());
+    expect(paused.pending.map(withdrawal => withdrawal.strategyHash)).to.deep.equal(positions.map(position => position.strategyHash));
+
+    await expect(core.connect(lp).emergencyDock(lp.getAddress(), strategy.getAddress(), positions[0].strategyHash, tokens))
+      .to.be.revertedWithCustomError(core, 'OwnableUnauthorizedAccount');
+    await core.emergencyDock(lp.getAddress(), strategy.getAddress(), positions[0].strategyHash, tokens);
+    expect(await core.balanceOf(lp.getAddress(), strategy.getAddress(), positions[0].strategyHash, tokens[0])).to.equal(0n);
+
+    // The queued dock of the other position still goes through while paused
+    const { pending } = await queue();
+    expect(pending.map(withdrawal => withdrawal.strategyHash)).to.deep.equal([positions[1].strategyHash]);
+    await time.increase(180);
+    await core.connect(lp).executeDock(pending[0].requestId);
+    expect((await queue()).pending).to.be.empty;
+  });
+});